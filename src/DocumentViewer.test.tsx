@@ -2,6 +2,7 @@ import React from "react";
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { render, screen } from "@testing-library/react";
 import { DocumentViewer } from "./DocumentViewer";
+import type { DocumentViewerHandle, RendererHandle } from "./types";
 
 const StubRenderer = ({ src }: { src: string }) => (
   <div data-testid="stub-renderer" data-src={src}>
@@ -16,7 +17,15 @@ vi.mock("./RendererRegistry", () => ({
   getRendererFactory: vi.fn(),
 }));
 
+vi.mock("./utils/documentActions", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./utils/documentActions")>()),
+  downloadDocument: vi.fn(),
+}));
+
 import { getRendererFactory } from "./RendererRegistry";
+import { downloadDocument } from "./utils/documentActions";
+
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
 
 describe("DocumentViewer", () => {
   beforeEach(() => {
@@ -83,4 +92,146 @@ describe("DocumentViewer", () => {
     expect(container).toHaveClass("document-viewer");
     expect(container).toHaveClass("my-viewer");
   });
+
+  it("converts ODS spreadsheets to PDF when a converter is provided", async () => {
+    vi.mocked(getRendererFactory).mockReturnValue(stubFactory);
+    const createObjectURL = vi.fn(() => "blob:sheet");
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    const onRequestPdfConversion = vi.fn(() => Promise.resolve("https://example.com/converted.pdf"));
+    const file = new Blob(["x"], { type: "application/vnd.oasis.opendocument.spreadsheet" });
+    render(<DocumentViewer src={file} onRequestPdfConversion={onRequestPdfConversion} />);
+    await screen.findByTestId("stub-renderer");
+    expect(onRequestPdfConversion).toHaveBeenCalledWith(file, "application/vnd.oasis.opendocument.spreadsheet");
+    expect(screen.getByTestId("stub-renderer")).toHaveAttribute(
+      "data-src",
+      "https://example.com/converted.pdf"
+    );
+  });
+
+  it("converts DOCX only when preferPdfConversionForOffice is set", async () => {
+    vi.mocked(getRendererFactory).mockReturnValue(stubFactory);
+    Object.assign(URL, { createObjectURL: vi.fn(() => "blob:docx"), revokeObjectURL: vi.fn() });
+    const onRequestPdfConversion = vi.fn(() => Promise.resolve("https://example.com/converted.pdf"));
+    const file = new Blob(["x"], { type: DOCX_MIME });
+    const { unmount } = render(<DocumentViewer src={file} onRequestPdfConversion={onRequestPdfConversion} />);
+    await screen.findByTestId("stub-renderer");
+    expect(onRequestPdfConversion).not.toHaveBeenCalled();
+    expect(getRendererFactory).toHaveBeenLastCalledWith("docx");
+    unmount();
+
+    render(
+      <DocumentViewer
+        src={file}
+        options={{ preferPdfConversionForOffice: true }}
+        onRequestPdfConversion={onRequestPdfConversion}
+      />
+    );
+    await screen.findByTestId("stub-renderer");
+    expect(onRequestPdfConversion).toHaveBeenCalledWith(file, DOCX_MIME);
+    expect(getRendererFactory).toHaveBeenLastCalledWith("pdf");
+  });
+
+  it("downloads URL sources for conversion and falls back to the DOCX renderer on failure", async () => {
+    vi.mocked(getRendererFactory).mockReturnValue(stubFactory);
+    const fetchMock = vi.fn(async () => new Response("docx bytes"));
+    vi.stubGlobal("fetch", fetchMock);
+    const onRequestPdfConversion = vi.fn((_file: Blob, _mime: string) => Promise.reject(new Error("Worker down")));
+    const onConversionError = vi.fn();
+    render(
+      <DocumentViewer
+        src="https://example.com/files/report.docx"
+        options={{ preferPdfConversionForOffice: true }}
+        onRequestPdfConversion={onRequestPdfConversion}
+        onConversionError={onConversionError}
+      />
+    );
+    expect(screen.getByTestId("document-viewer-loading")).toHaveTextContent("Converting to PDF…");
+    const renderer = await screen.findByTestId("stub-renderer");
+    expect(fetchMock).toHaveBeenCalledWith("https://example.com/files/report.docx");
+    const [uploaded, mime] = onRequestPdfConversion.mock.calls[0];
+    expect((uploaded as File).name).toBe("report.docx");
+    expect(mime).toBe(DOCX_MIME);
+    expect(onConversionError).toHaveBeenCalledWith(new Error("Worker down"));
+    expect(getRendererFactory).toHaveBeenLastCalledWith("docx");
+    expect(renderer).toHaveAttribute("data-src", "https://example.com/files/report.docx");
+    vi.unstubAllGlobals();
+  });
+
+  it("shows the conversion error for formats without a client-side renderer", async () => {
+    vi.mocked(getRendererFactory).mockReturnValue(stubFactory);
+    Object.assign(URL, { createObjectURL: vi.fn(() => "blob:doc"), revokeObjectURL: vi.fn() });
+    const file = new Blob(["x"], { type: "application/msword" });
+    render(<DocumentViewer src={file} onRequestPdfConversion={() => Promise.reject(new Error("Worker down"))} />);
+    expect(await screen.findByTestId("document-viewer-error")).toHaveTextContent("Worker down");
+  });
+
+  it("sniffs untyped Blobs while showing a loading state", async () => {
+    vi.mocked(getRendererFactory).mockReturnValue(stubFactory);
+    Object.assign(URL, { createObjectURL: vi.fn(() => "blob:untyped"), revokeObjectURL: vi.fn() });
+    const file = new Blob(["%PDF-1.4\n"]);
+    // jsdom's Blob has no arrayBuffer().
+    Object.assign(Blob.prototype, {
+      arrayBuffer(this: Blob) {
+        return new Promise<ArrayBuffer>((resolve) => {
+          const reader = new FileReader();
+          reader.onload = () => resolve(reader.result as ArrayBuffer);
+          reader.readAsArrayBuffer(this);
+        });
+      },
+    });
+    render(<DocumentViewer src={file} />);
+    expect(screen.getByTestId("document-viewer-loading")).toBeInTheDocument();
+    await screen.findByTestId("stub-renderer");
+    expect(getRendererFactory).toHaveBeenLastCalledWith("pdf");
+    delete (Blob.prototype as { arrayBuffer?: unknown }).arrayBuffer;
+  });
+
+  it("probes URL sources for their type and download file name", async () => {
+    const RendererWithFileName = ({ mimeType, options }: any) => (
+      <div data-testid="stub-renderer" data-mime={mimeType} data-file-name={options?.downloadFileName}>
+        Stub
+      </div>
+    );
+    vi.mocked(getRendererFactory).mockReturnValue(() =>
+      Promise.resolve({ default: RendererWithFileName as React.ComponentType<any> })
+    );
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(null, {
+          headers: { "Content-Type": "application/pdf", "Content-Disposition": 'inline; filename="invoice-42.pdf"' },
+        })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    render(<DocumentViewer src="/api/documents/42/content" options={{ probeUrlSources: true }} />);
+    const renderer = await screen.findByTestId("stub-renderer");
+    expect(renderer).toHaveAttribute("data-mime", "application/pdf");
+    expect(renderer).toHaveAttribute("data-file-name", "invoice-42.pdf");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    vi.unstubAllGlobals();
+  });
+
+  it("forwards the ref handle to the renderer and falls back for download", async () => {
+    const goToPage = vi.fn();
+    const PagedRenderer = ({ onRendererHandle }: any) => {
+      React.useEffect(() => {
+        const handle: RendererHandle = { capabilities: ["pages"], getPageCount: () => 12, goToPage };
+        onRendererHandle(handle);
+        return () => onRendererHandle(null);
+      }, [onRendererHandle]);
+      return <div data-testid="stub-renderer">Stub</div>;
+    };
+    vi.mocked(getRendererFactory).mockReturnValue(() =>
+      Promise.resolve({ default: PagedRenderer as React.ComponentType<any> })
+    );
+    const ref = React.createRef<DocumentViewerHandle>();
+    render(<DocumentViewer ref={ref} src="https://example.com/doc.pdf" />);
+    await screen.findByTestId("stub-renderer");
+    expect(ref.current?.getCapabilities()).toEqual(["pages", "download"]);
+    expect(ref.current?.getPageCount()).toBe(12);
+    ref.current?.goToPage(3);
+    expect(goToPage).toHaveBeenCalledWith(3);
+    await expect(ref.current?.getText()).resolves.toBe("");
+    ref.current?.download();
+    expect(downloadDocument).toHaveBeenCalledWith("https://example.com/doc.pdf", "application/pdf", undefined);
+  });
 });
@@ -1,9 +1,19 @@
-import React, { Suspense, useMemo, useState, useEffect, useRef } from "react";
-import { getRendererKey } from "./FormatRouter";
+import React, { Suspense, useCallback, useImperativeHandle, useMemo, useState, useEffect, useRef } from "react";
+import { detectRendererKey, getRendererKey, isPdfConversionTarget, needsContentSniffing } from "./FormatRouter";
+import { canProbeUrl } from "./utils/probeUrl";
 import { getRendererFactory } from "./RendererRegistry";
 import { normalizeSrcToUrl } from "./utils/normalizeSrc";
 import { convertViaWorker } from "./utils/conversionWorker";
-import type { DocumentViewerProps, DocumentSource, RendererProps } from "./types";
+import { downloadDocument, getDownloadFileName } from "./utils/documentActions";
+import { readSourceAsBlob } from "./utils/loadSource";
+import type {
+  DocumentViewerHandle,
+  DocumentViewerProps,
+  DocumentSource,
+  RendererHandle,
+  RendererProps,
+  ViewerCapability,
+} from "./types";
 
 function defaultLoading(theme?: DocumentViewerProps["theme"], label = "Loading…") {
   const style = theme
@@ -50,12 +60,11 @@ function defaultError(
   );
 }
 
-function isBlobOrFile(src: DocumentSource): src is Blob | File {
-  if (typeof src === "string") return false;
-  return src instanceof Blob;
-}
-
-export function DocumentViewer({
+/**
+ * Renders any supported document, routing it to the matching renderer. The
+ * ref exposes a renderer-agnostic DocumentViewerHandle.
+ */
+export const DocumentViewer = React.forwardRef<DocumentViewerHandle, DocumentViewerProps>(function DocumentViewer({
   src,
   mimeType,
   options,
@@ -65,7 +74,7 @@ export function DocumentViewer({
   onRetry,
   className,
   style,
-}: DocumentViewerProps) {
+}, ref) {
   const { url, revoke } = useMemo(() => normalizeSrcToUrl(src), [src]);
   const [error, setError] = useState<string | null>(null);
   const [convertedPdfUrl, setConvertedPdfUrl] = useState<string | null>(null);
@@ -73,6 +82,10 @@ export function DocumentViewer({
   const convertedPdfUrlRevokeRef = useRef<(() => void) | null>(null);
   const enableOCR = options?.enableOCR ?? false;
   const conversionWorkerUrl = options?.conversionWorkerUrl?.trim() || undefined;
+  const preferOfficeConversion = options?.preferPdfConversionForOffice ?? false;
+  // Read when a request starts, so a new headers function doesn't refetch the document.
+  const requestRef = useRef(options?.request);
+  requestRef.current = options?.request;
 
   useEffect(() => {
     return () => {
@@ -87,15 +100,48 @@ export function DocumentViewer({
     };
   }, []);
 
-  const { rendererKey, mimeType: resolvedMime } = useMemo(
+  const routed = useMemo(
     () => getRendererKey(src, mimeType, enableOCR),
     [src, mimeType, enableOCR]
   );
+  const probe = (options?.probeUrlSources ?? false) && canProbeUrl(src);
+  const shouldDetect = probe || (routed.rendererKey === "unsupported" && needsContentSniffing(src, mimeType));
+  const [detected, setDetected] = useState<{
+    for: typeof routed;
+    result: typeof routed & { fileName?: string };
+  } | null>(null);
+
+  useEffect(() => {
+    if (!shouldDetect) return;
+    const controller = new AbortController();
+    detectRendererKey(src, mimeType, enableOCR, { signal: controller.signal, probe, request: requestRef.current })
+      .catch(() => routed)
+      .then((result) => {
+        if (!controller.signal.aborted) setDetected({ for: routed, result });
+      });
+    return () => controller.abort();
+  }, [shouldDetect, probe, src, mimeType, enableOCR, routed]);
+
+  const detection = shouldDetect && detected?.for === routed ? detected.result : null;
+  const detecting = shouldDetect && detection == null;
+  const { rendererKey, mimeType: resolvedMime } = detection ?? routed;
+  const declaredFileName = detection?.fileName;
+
+  // A server-declared file name is used for downloads unless the host set one.
+  const rendererOptions = useMemo(
+    () =>
+      declaredFileName && !options?.downloadFileName?.trim()
+        ? { ...options, downloadFileName: declaredFileName }
+        : options,
+    [options, declaredFileName]
+  );
 
   const shouldConvertOffice =
-    rendererKey === "office-pdf" &&
-    (onRequestPdfConversion != null || (conversionWorkerUrl != null && conversionWorkerUrl !== "")) &&
-    isBlobOrFile(src);
+    isPdfConversionTarget(rendererKey, resolvedMime, preferOfficeConversion) &&
+    (onRequestPdfConversion != null || (conversionWorkerUrl != null && conversionWorkerUrl !== ""));
+  // Formats with a client-side renderer (DOCX, PPTX, ODS) show it when conversion fails.
+  const canRenderUnconverted = rendererKey !== "office-pdf";
+  const conversionFileName = getDownloadFileName(src, rendererOptions?.downloadFileName);
 
   useEffect(() => {
     convertedPdfUrlRevokeRef.current?.();
@@ -107,16 +153,17 @@ export function DocumentViewer({
   useEffect(() => {
     if (!shouldConvertOffice || !resolvedMime) return;
     let cancelled = false;
-    const blob = src as Blob;
 
-    const runConversion = (): Promise<void> => {
+    const runConversion = async (): Promise<void> => {
+      const blob = await readSourceAsBlob(src, resolvedMime, conversionFileName, requestRef.current);
+      if (cancelled) return;
       if (onRequestPdfConversion) {
         return onRequestPdfConversion(blob, resolvedMime).then((pdfUrl) => {
           if (!cancelled) setConvertedPdfUrl(pdfUrl);
         });
       }
-      if (!conversionWorkerUrl) return Promise.resolve();
-      return convertViaWorker(conversionWorkerUrl, blob, resolvedMime).then(
+      if (!conversionWorkerUrl) return;
+      return convertViaWorker(conversionWorkerUrl, blob, resolvedMime, requestRef.current).then(
         ({ pdfUrl, revoke: revokePdf }) => {
           if (!cancelled) {
             if (revokePdf) convertedPdfUrlRevokeRef.current = revokePdf;
@@ -137,7 +184,15 @@ export function DocumentViewer({
     return () => {
       cancelled = true;
     };
-  }, [shouldConvertOffice, src, resolvedMime, onRequestPdfConversion, conversionWorkerUrl, onConversionError]);
+  }, [
+    shouldConvertOffice,
+    src,
+    resolvedMime,
+    conversionFileName,
+    onRequestPdfConversion,
+    conversionWorkerUrl,
+    onConversionError,
+  ]);
 
   const effectiveRendererKey =
     convertedPdfUrl != null ? "pdf" : rendererKey;
@@ -156,6 +211,36 @@ export function DocumentViewer({
     setError(null);
   }, [src, rendererKey]);
 
+  const rendererHandleRef = useRef<RendererHandle | null>(null);
+  const handleRendererHandle = useCallback((handle: RendererHandle | null) => {
+    rendererHandleRef.current = handle;
+  }, []);
+
+  useImperativeHandle(
+    ref,
+    () => ({
+      getCapabilities: () => {
+        const capabilities = rendererHandleRef.current?.capabilities ?? [];
+        return capabilities.includes("download")
+          ? [...capabilities]
+          : [...capabilities, "download" as ViewerCapability];
+      },
+      getPageCount: () => rendererHandleRef.current?.getPageCount?.() ?? 0,
+      getCurrentPage: () => rendererHandleRef.current?.getCurrentPage?.() ?? 0,
+      goToPage: (page) => rendererHandleRef.current?.goToPage?.(page),
+      setZoom: (zoom) => rendererHandleRef.current?.setZoom?.(zoom),
+      search: (query) => rendererHandleRef.current?.search?.(query) ?? Promise.resolve(0),
+      getText: () => rendererHandleRef.current?.getText?.() ?? Promise.resolve(""),
+      print: () => rendererHandleRef.current?.print?.(),
+      download: () => {
+        const handle = rendererHandleRef.current;
+        if (handle?.download) handle.download();
+        else downloadDocument(src, resolvedMime ?? "", rendererOptions);
+      },
+    }),
+    [src, resolvedMime, rendererOptions]
+  );
+
   const containerStyle = useMemo(() => {
     const base = { ...style };
     if (theme?.primary) (base as React.CSSProperties).backgroundColor = theme.primary;
@@ -167,11 +252,23 @@ export function DocumentViewer({
     return defaultError("Invalid document source", theme, onRetry);
   }
 
-  if (conversionError) {
+  if (detecting) {
+    return (
+      <div
+        className={`document-viewer ${className ?? ""}`.trim()}
+        style={containerStyle}
+        data-testid="document-viewer"
+      >
+        {defaultLoading(theme)}
+      </div>
+    );
+  }
+
+  if (conversionError && !canRenderUnconverted) {
     return defaultError(conversionError, theme, onRetry ?? undefined);
   }
 
-  if (shouldConvertOffice && convertedPdfUrl == null) {
+  if (shouldConvertOffice && convertedPdfUrl == null && conversionError == null) {
     return (
       <div
         className={`document-viewer ${className ?? ""}`.trim()}
@@ -195,8 +292,9 @@ export function DocumentViewer({
     src: effectiveSrc,
     originalSrc: effectiveOriginalSrc,
     mimeType: convertedPdfUrl != null ? "application/pdf" : (resolvedMime ?? ""),
-    options,
+    options: rendererOptions,
     theme,
+    onRendererHandle: handleRendererHandle,
   };
 
   return (
@@ -221,7 +319,7 @@ export function DocumentViewer({
       </ErrorBoundary>
     </div>
   );
-}
+});
 
 class ErrorBoundary extends React.Component<
   {
@@ -0,0 +1,33 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { registerFormat, unregisterFormat, getRegisteredFormats } from "./FormatRegistry";
+
+describe("FormatRegistry", () => {
+  afterEach(() => {
+    unregisterFormat("cad");
+    unregisterFormat("cad-lite");
+  });
+
+  it("normalizes extensions and MIME types", () => {
+    registerFormat({ key: "cad", extensions: [".DWG", "dxf"], mimeTypes: ["Image/VND.DWG"] });
+    expect(getRegisteredFormats()).toEqual([
+      { key: "cad", extensions: ["dwg", "dxf"], mimeTypes: ["image/vnd.dwg"] },
+    ]);
+  });
+
+  it("orders formats by priority, then most recent registration", () => {
+    registerFormat({ key: "cad", extensions: ["dwg"] });
+    registerFormat({ key: "cad-lite", extensions: ["dwg"], priority: -1 });
+    expect(getRegisteredFormats().map((f) => f.key)).toEqual(["cad", "cad-lite"]);
+    registerFormat({ key: "cad-lite", extensions: ["dwg"] });
+    expect(getRegisteredFormats().map((f) => f.key)).toEqual(["cad-lite", "cad"]);
+  });
+
+  it("replaces a key on re-registration and returns an unregister function", () => {
+    registerFormat({ key: "cad", extensions: ["dwg"] });
+    const unregister = registerFormat({ key: "cad", extensions: ["dxf"] });
+    expect(getRegisteredFormats()).toHaveLength(1);
+    expect(getRegisteredFormats()[0].extensions).toEqual(["dxf"]);
+    unregister();
+    expect(getRegisteredFormats()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,42 @@
+import type { FormatDefinition, RendererKey } from "./types";
+
+let formats: FormatDefinition[] = [];
+
+function normalize(format: FormatDefinition): FormatDefinition {
+  return {
+    ...format,
+    mimeTypes: format.mimeTypes?.map((m) => m.trim().toLowerCase()),
+    extensions: format.extensions?.map((e) => e.trim().replace(/^\./, "").toLowerCase()),
+  };
+}
+
+/**
+ * Registers a document format so FormatRouter can route to its renderer key.
+ * Registering a key again replaces its previous definition. Returns a
+ * function that unregisters the format.
+ */
+export function registerFormat(format: FormatDefinition): () => void {
+  const entry = normalize(format);
+  formats = [...formats.filter((f) => f.key !== format.key), entry];
+  return () => {
+    formats = formats.filter((f) => f !== entry);
+  };
+}
+
+/**
+ * Removes the registered format for a renderer key.
+ */
+export function unregisterFormat(key: RendererKey): void {
+  formats = formats.filter((f) => f.key !== key);
+}
+
+/**
+ * Returns registered formats, highest priority first; among equal
+ * priorities the most recently registered comes first.
+ */
+export function getRegisteredFormats(): readonly FormatDefinition[] {
+  return formats
+    .map((format, index) => ({ format, index }))
+    .sort((a, b) => (b.format.priority ?? 0) - (a.format.priority ?? 0) || b.index - a.index)
+    .map(({ format }) => format);
+}
@@ -1,5 +1,12 @@
-import { describe, it, expect } from "vitest";
-import { getRendererKey } from "./FormatRouter";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  detectRendererKey,
+  getRendererKey,
+  getMimeTypeForFileName,
+  isPdfConversionTarget,
+  needsContentSniffing,
+} from "./FormatRouter";
+import { registerFormat, unregisterFormat } from "./FormatRegistry";
 
 describe("getRendererKey", () => {
   it("returns pdf for PDF URL", () => {
@@ -41,19 +48,19 @@ describe("getRendererKey", () => {
     });
   });
 
-  it("returns office-pdf for PPTX URL", () => {
+  it("returns pptx for PPTX URL", () => {
     expect(getRendererKey("https://example.com/slide.pptx")).toEqual({
-      rendererKey: "office-pdf",
+      rendererKey: "pptx",
       mimeType:
         "application/vnd.openxmlformats-officedocument.presentationml.presentation",
     });
   });
 
-  it("returns office-pdf for PPTX MIME", () => {
+  it("returns pptx for PPTX MIME", () => {
     expect(
       getRendererKey("https://example.com/x", "application/vnd.openxmlformats-officedocument.presentationml.presentation")
     ).toEqual({
-      rendererKey: "office-pdf",
+      rendererKey: "pptx",
       mimeType:
         "application/vnd.openxmlformats-officedocument.presentationml.presentation",
     });
@@ -107,4 +114,277 @@ describe("getRendererKey", () => {
         "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
     });
   });
+
+  it("returns xlsx for spreadsheet URLs", () => {
+    expect(getRendererKey("https://example.com/report.xlsx")).toEqual({
+      rendererKey: "xlsx",
+      mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    });
+    expect(getRendererKey("/files/budget.ods")).toEqual({
+      rendererKey: "xlsx",
+      mimeType: "application/vnd.oasis.opendocument.spreadsheet",
+    });
+    expect(getRendererKey("/files/legacy.xls")).toEqual({
+      rendererKey: "xlsx",
+      mimeType: "application/vnd.ms-excel",
+    });
+  });
+
+  it("returns xlsx for CSV and TSV sources", () => {
+    expect(getRendererKey("https://example.com/data.csv?v=2")).toEqual({
+      rendererKey: "xlsx",
+      mimeType: "text/csv",
+    });
+    expect(getRendererKey(new Blob(["a\tb"], { type: "text/tab-separated-values" }))).toEqual({
+      rendererKey: "xlsx",
+      mimeType: "text/tab-separated-values",
+    });
+  });
+
+  it("returns image for image URLs and MIME types", () => {
+    expect(getRendererKey("https://example.com/photo.JPG")).toEqual({
+      rendererKey: "image",
+      mimeType: "image/jpeg",
+    });
+    expect(getRendererKey("/icons/logo.svg")).toEqual({
+      rendererKey: "image",
+      mimeType: "image/svg+xml",
+    });
+    expect(getRendererKey(new Blob([], { type: "image/webp" }))).toEqual({
+      rendererKey: "image",
+      mimeType: "image/webp",
+    });
+  });
+
+  it("returns tiff for TIFF sources", () => {
+    expect(getRendererKey("https://example.com/fax/scan.tif")).toEqual({
+      rendererKey: "tiff",
+      mimeType: "image/tiff",
+    });
+    expect(getRendererKey(new Blob([], { type: "image/tiff" }))).toEqual({
+      rendererKey: "tiff",
+      mimeType: "image/tiff",
+    });
+  });
+
+  it("returns text for source code and plain-text files", () => {
+    expect(getRendererKey("https://example.com/app/server.log")).toEqual({
+      rendererKey: "text",
+      mimeType: "text/plain",
+    });
+    expect(getRendererKey("/repo/src/main.py")).toEqual({
+      rendererKey: "text",
+      mimeType: "text/x-python",
+    });
+    expect(getRendererKey("/repo/src/lib.rs")).toEqual({
+      rendererKey: "text",
+      mimeType: undefined,
+    });
+  });
+
+  it("falls back to text for other text/* MIME types", () => {
+    expect(getRendererKey("https://example.com/x", "text/x-fortran")).toEqual({
+      rendererKey: "text",
+      mimeType: "text/x-fortran",
+    });
+  });
+
+  it("returns markdown for Markdown sources", () => {
+    expect(getRendererKey("https://kb.example.com/articles/setup.md")).toEqual({
+      rendererKey: "markdown",
+      mimeType: "text/markdown",
+    });
+    expect(getRendererKey(new Blob([], { type: "text/markdown" }))).toEqual({
+      rendererKey: "markdown",
+      mimeType: "text/markdown",
+    });
+  });
+
+  it("returns email for .eml and .msg messages", () => {
+    expect(getRendererKey("https://files.example.com/case/12/message.eml")).toEqual({
+      rendererKey: "email",
+      mimeType: "message/rfc822",
+    });
+    expect(getRendererKey("/exports/Re- budget.msg")).toEqual({
+      rendererKey: "email",
+      mimeType: "application/vnd.ms-outlook",
+    });
+    expect(getRendererKey(new Blob([], { type: "message/rfc822" }))).toEqual({
+      rendererKey: "email",
+      mimeType: "message/rfc822",
+    });
+  });
+
+  it("maps file names to MIME types by extension", () => {
+    expect(getMimeTypeForFileName("Invoice 2024.PDF")).toBe("application/pdf");
+    expect(getMimeTypeForFileName("notes.unknown")).toBeUndefined();
+  });
+
+  it("routes OpenDocument and RTF files", () => {
+    expect(getRendererKey("https://example.com/minutes.odt")).toEqual({
+      rendererKey: "odt",
+      mimeType: "application/vnd.oasis.opendocument.text",
+    });
+    expect(getRendererKey("https://example.com/deck.odp")).toEqual({
+      rendererKey: "office-pdf",
+      mimeType: "application/vnd.oasis.opendocument.presentation",
+    });
+    expect(getRendererKey("https://example.com/legacy.rtf")).toEqual({
+      rendererKey: "rtf",
+      mimeType: "application/rtf",
+    });
+    expect(getRendererKey(new Blob([], { type: "text/rtf" }))).toEqual({
+      rendererKey: "rtf",
+      mimeType: "text/rtf",
+    });
+  });
+
+  it("marks office-pdf, ODS and PPTX documents for PDF conversion", () => {
+    expect(isPdfConversionTarget("office-pdf", "application/vnd.oasis.opendocument.presentation")).toBe(true);
+    expect(isPdfConversionTarget("xlsx", "application/vnd.oasis.opendocument.spreadsheet")).toBe(true);
+    expect(
+      isPdfConversionTarget("pptx", "application/vnd.openxmlformats-officedocument.presentationml.presentation")
+    ).toBe(true);
+    expect(isPdfConversionTarget("xlsx", "text/csv")).toBe(false);
+    expect(isPdfConversionTarget("odt", "application/vnd.oasis.opendocument.text")).toBe(false);
+  });
+
+  it("marks DOCX for PDF conversion only when Office conversion is preferred", () => {
+    const docx = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+    expect(isPdfConversionTarget("docx", docx)).toBe(false);
+    expect(isPdfConversionTarget("docx", docx, true)).toBe(true);
+  });
+
+  it("returns epub for EPUB books", () => {
+    expect(getRendererKey("https://example.com/training/handbook.epub")).toEqual({
+      rendererKey: "epub",
+      mimeType: "application/epub+zip",
+    });
+  });
+
+  it("returns media for audio and video files", () => {
+    expect(getRendererKey("https://example.com/depositions/day1.mp4")).toEqual({
+      rendererKey: "media",
+      mimeType: "video/mp4",
+    });
+    expect(getRendererKey("https://example.com/calls/hearing.mp3")).toEqual({
+      rendererKey: "media",
+      mimeType: "audio/mpeg",
+    });
+    expect(getRendererKey(new Blob([], { type: "audio/wav" }))).toEqual({
+      rendererKey: "media",
+      mimeType: "audio/wav",
+    });
+  });
+
+  it("returns archive for ZIP files", () => {
+    expect(getRendererKey("https://example.com/uploads/bundle.zip")).toEqual({
+      rendererKey: "archive",
+      mimeType: "application/zip",
+    });
+    expect(getRendererKey(new Blob([], { type: "application/x-zip-compressed" }))).toEqual({
+      rendererKey: "archive",
+      mimeType: "application/x-zip-compressed",
+    });
+  });
+});
+
+describe("detectRendererKey", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("only sniffs sources without type information", () => {
+    expect(needsContentSniffing("https://bucket.s3.amazonaws.com/files/abc123?X-Amz-Signature=f00")).toBe(true);
+    expect(needsContentSniffing("https://example.com/file.xyz")).toBe(false);
+    expect(needsContentSniffing(new Blob(["x"]))).toBe(true);
+    expect(needsContentSniffing(new Blob(["x"], { type: "application/octet-stream" }))).toBe(true);
+    expect(needsContentSniffing(new Blob(["x"], { type: "application/x-unknown" }))).toBe(false);
+    expect(needsContentSniffing("https://example.com/files/abc", "application/octet-stream")).toBe(true);
+  });
+
+  it("routes extensionless URLs by their leading bytes", async () => {
+    const fetchMock = vi.fn(async () => new Response("%PDF-1.4\n", { status: 206 }));
+    vi.stubGlobal("fetch", fetchMock);
+    await expect(detectRendererKey("https://example.com/files/abc123?sig=1")).resolves.toEqual({
+      rendererKey: "pdf",
+      mimeType: "application/pdf",
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://example.com/files/abc123?sig=1",
+      expect.objectContaining({ headers: { Range: "bytes=0-4095" } })
+    );
+  });
+
+  it("does not fetch when the type is already known", async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal("fetch", fetchMock);
+    await expect(detectRendererKey("https://example.com/file.xyz")).resolves.toEqual({
+      rendererKey: "unsupported",
+      mimeType: undefined,
+    });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("routes probed URLs by the server-declared type and returns the file name", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(null, {
+            headers: {
+              "Content-Type": "application/octet-stream",
+              "Content-Disposition": 'attachment; filename="Budget 2025.xlsx"',
+            },
+          })
+      )
+    );
+    await expect(detectRendererKey("/api/documents/42/content", undefined, false, { probe: true })).resolves.toEqual({
+      rendererKey: "xlsx",
+      mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      fileName: "Budget 2025.xlsx",
+    });
+  });
+});
+
+describe("registered formats", () => {
+  afterEach(() => {
+    unregisterFormat("cad");
+    unregisterFormat("svg-plugin");
+    vi.unstubAllGlobals();
+  });
+
+  it("routes plugin extensions and MIME types", () => {
+    registerFormat({ key: "cad", extensions: ["dwg"], mimeTypes: ["image/vnd.dwg"] });
+    expect(getRendererKey("https://example.com/plans/floor-2.DWG")).toEqual({
+      rendererKey: "cad",
+      mimeType: "image/vnd.dwg",
+    });
+    expect(getRendererKey(new Blob([], { type: "image/vnd.dwg" }))).toEqual({
+      rendererKey: "cad",
+      mimeType: "image/vnd.dwg",
+    });
+    expect(getMimeTypeForFileName("floor-2.dwg")).toBe("image/vnd.dwg");
+  });
+
+  it("overrides built-ins unless the priority is negative", () => {
+    const unregister = registerFormat({ key: "svg-plugin", extensions: ["svg"], priority: -1 });
+    expect(getRendererKey("/icons/logo.svg").rendererKey).toBe("image");
+    unregister();
+    registerFormat({ key: "svg-plugin", extensions: ["svg"] });
+    expect(getRendererKey("/icons/logo.svg")).toEqual({ rendererKey: "svg-plugin", mimeType: undefined });
+  });
+
+  it("runs plugin sniffers before the built-in ones", async () => {
+    registerFormat({
+      key: "cad",
+      mimeTypes: ["image/vnd.dwg"],
+      sniff: (head) => String.fromCharCode(...head.subarray(0, 4)) === "AC10",
+    });
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("AC1032 drawing", { status: 206 })));
+    await expect(detectRendererKey("https://example.com/files/9f2c")).resolves.toEqual({
+      rendererKey: "cad",
+      mimeType: "image/vnd.dwg",
+    });
+  });
 });
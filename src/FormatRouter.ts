@@ -1,21 +1,123 @@
-import type { DocumentSource, RendererKey } from "./types";
+import type { DocumentSource, FormatDefinition, RendererKey, RequestConfig } from "./types";
+import { getRegisteredFormats } from "./FormatRegistry";
+import { SNIFF_HEAD_SIZE, createBlobByteSource, createUrlByteSource, sniffMimeType } from "./utils/sniffMimeType";
+import { canProbeUrl, probeUrl } from "./utils/probeUrl";
+import type { UrlProbeResult } from "./utils/probeUrl";
 
 const MIME_TO_RENDERER: Record<string, RendererKey> = {
   "application/pdf": "pdf",
   "application/vnd.openxmlformats-officedocument.wordprocessingml.document":
     "docx",
   "application/vnd.openxmlformats-officedocument.presentationml.presentation":
-    "office-pdf",
+    "pptx",
   "application/vnd.ms-powerpoint": "office-pdf",
   "application/msword": "office-pdf",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": "xlsx",
+  "application/vnd.ms-excel.sheet.macroEnabled.12": "xlsx",
+  "application/vnd.ms-excel": "xlsx",
+  "application/vnd.oasis.opendocument.spreadsheet": "xlsx",
+  "application/vnd.oasis.opendocument.text": "odt",
+  "application/vnd.oasis.opendocument.presentation": "office-pdf",
+  "application/rtf": "rtf",
+  "text/rtf": "rtf",
+  "application/epub+zip": "epub",
+  "application/zip": "archive",
+  "application/x-zip-compressed": "archive",
+  "video/mp4": "media",
+  "video/webm": "media",
+  "video/ogg": "media",
+  "video/quicktime": "media",
+  "audio/mpeg": "media",
+  "audio/mp4": "media",
+  "audio/wav": "media",
+  "audio/x-wav": "media",
+  "audio/wave": "media",
+  "audio/ogg": "media",
+  "audio/webm": "media",
+  "audio/aac": "media",
+  "audio/flac": "media",
+  "text/csv": "xlsx",
+  "text/tab-separated-values": "xlsx",
+  "image/png": "image",
+  "image/jpeg": "image",
+  "image/gif": "image",
+  "image/webp": "image",
+  "image/svg+xml": "image",
+  "image/bmp": "image",
+  "image/x-ms-bmp": "image",
+  "image/tiff": "tiff",
+  "image/tiff-fx": "tiff",
+  "text/plain": "text",
+  "application/json": "text",
+  "application/xml": "text",
+  "text/xml": "text",
+  "application/yaml": "text",
+  "application/x-yaml": "text",
+  "text/yaml": "text",
+  "application/javascript": "text",
+  "text/javascript": "text",
+  "text/x-typescript": "text",
+  "text/x-python": "text",
+  "text/css": "text",
+  "application/sql": "text",
+  "application/x-sh": "text",
+  "text/markdown": "markdown",
+  "text/x-markdown": "markdown",
+  "message/rfc822": "email",
+  "application/vnd.ms-outlook": "email",
 };
 
+/** Source-code and plain-text extensions handled by the text renderer. */
+const TEXT_EXTENSIONS = [
+  "txt", "log", "json", "xml", "yaml", "yml", "ts", "tsx", "mts", "cts", "js", "jsx", "mjs", "cjs",
+  "py", "java", "c", "h", "cpp", "cc", "hpp", "cs", "go", "rs", "rb", "php", "sh", "bash", "sql",
+  "css", "scss", "less", "ini", "cfg", "conf", "toml", "kt", "swift", "lua", "pl", "r", "diff",
+  "patch", "graphql",
+];
+
 const EXT_TO_RENDERER: Record<string, RendererKey> = {
   pdf: "pdf",
   docx: "docx",
   doc: "office-pdf",
-  pptx: "office-pdf",
+  pptx: "pptx",
   ppt: "office-pdf",
+  xlsx: "xlsx",
+  xlsm: "xlsx",
+  xls: "xlsx",
+  ods: "xlsx",
+  odt: "odt",
+  odp: "office-pdf",
+  rtf: "rtf",
+  epub: "epub",
+  zip: "archive",
+  mp4: "media",
+  m4v: "media",
+  webm: "media",
+  ogv: "media",
+  mov: "media",
+  mp3: "media",
+  m4a: "media",
+  wav: "media",
+  ogg: "media",
+  oga: "media",
+  aac: "media",
+  flac: "media",
+  csv: "xlsx",
+  tsv: "xlsx",
+  png: "image",
+  jpg: "image",
+  jpeg: "image",
+  gif: "image",
+  webp: "image",
+  svg: "image",
+  bmp: "image",
+  tif: "tiff",
+  tiff: "tiff",
+  ...Object.fromEntries(TEXT_EXTENSIONS.map((ext) => [ext, "text" as const])),
+  md: "markdown",
+  markdown: "markdown",
+  eml: "email",
+  msg: "email",
 };
 
 /**
@@ -29,10 +131,12 @@ function inferMimeType(src: DocumentSource): string | undefined {
       const url = new URL(src, "https://example.com");
       const pathname = url.pathname || "";
       const ext = pathname.split(".").pop()?.toLowerCase();
-      if (ext && EXT_TO_MIME[ext]) return EXT_TO_MIME[ext];
+      const mime = ext ? mimeForExt(ext) : undefined;
+      if (mime) return mime;
     } catch {
       const ext = src.split(".").pop()?.toLowerCase();
-      if (ext && EXT_TO_MIME[ext]) return EXT_TO_MIME[ext];
+      const mime = ext ? mimeForExt(ext) : undefined;
+      if (mime) return mime;
     }
     return undefined;
   }
@@ -48,13 +152,124 @@ const EXT_TO_MIME: Record<string, string> = {
   pptx:
     "application/vnd.openxmlformats-officedocument.presentationml.presentation",
   ppt: "application/vnd.ms-powerpoint",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  xlsm: "application/vnd.ms-excel.sheet.macroEnabled.12",
+  xls: "application/vnd.ms-excel",
+  ods: "application/vnd.oasis.opendocument.spreadsheet",
+  odt: "application/vnd.oasis.opendocument.text",
+  odp: "application/vnd.oasis.opendocument.presentation",
+  rtf: "application/rtf",
+  epub: "application/epub+zip",
+  zip: "application/zip",
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  webm: "video/webm",
+  ogv: "video/ogg",
+  mov: "video/quicktime",
+  mp3: "audio/mpeg",
+  m4a: "audio/mp4",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  aac: "audio/aac",
+  flac: "audio/flac",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  bmp: "image/bmp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  txt: "text/plain",
+  log: "text/plain",
+  json: "application/json",
+  xml: "application/xml",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  js: "text/javascript",
+  mjs: "text/javascript",
+  ts: "text/x-typescript",
+  py: "text/x-python",
+  css: "text/css",
+  sql: "application/sql",
+  sh: "application/x-sh",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  eml: "message/rfc822",
+  msg: "application/vnd.ms-outlook",
 };
 
+/**
+ * Formats with a client-side renderer that still go through the office-pdf
+ * conversion path when the host configures one (OpenDocument spreadsheets,
+ * PowerPoint decks).
+ */
+const CONVERTIBLE_NATIVE_MIME_TYPES = new Set([
+  "application/vnd.oasis.opendocument.spreadsheet",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+]);
+
+/**
+ * Whether the document should be converted to PDF when a converter is
+ * configured. DOCX is only converted when the host prefers conversion for
+ * Office documents (ViewerOptions.preferPdfConversionForOffice).
+ */
+export function isPdfConversionTarget(
+  rendererKey: RendererKey,
+  mimeType?: string,
+  preferOfficeConversion = false
+): boolean {
+  if (rendererKey === "office-pdf") return true;
+  if (rendererKey === "docx") return preferOfficeConversion;
+  return mimeType != null && CONVERTIBLE_NATIVE_MIME_TYPES.has(mimeType);
+}
+
+/**
+ * Looks up a MIME type or extension in the registered formats and the
+ * built-in table: registered formats with priority >= 0 win over built-ins,
+ * negative priorities only fill gaps.
+ */
+function resolveFormat(
+  matches: (format: FormatDefinition) => boolean | undefined,
+  builtIn: RendererKey | undefined
+): { key: RendererKey; format?: FormatDefinition } | undefined {
+  const registered = getRegisteredFormats().filter(matches);
+  const preferred = registered.find((f) => (f.priority ?? 0) >= 0);
+  if (preferred) return { key: preferred.key, format: preferred };
+  if (builtIn) return { key: builtIn };
+  return registered[0] && { key: registered[0].key, format: registered[0] };
+}
+
+function rendererForMime(mime: string): RendererKey | undefined {
+  const lower = mime.toLowerCase();
+  return resolveFormat((f) => f.mimeTypes?.includes(lower), MIME_TO_RENDERER[mime])?.key;
+}
+
+function rendererForExt(ext: string): RendererKey | undefined {
+  return resolveFormat((f) => f.extensions?.includes(ext), EXT_TO_RENDERER[ext])?.key;
+}
+
+function mimeForExt(ext: string): string | undefined {
+  const match = resolveFormat((f) => f.extensions?.includes(ext), EXT_TO_RENDERER[ext]);
+  return match?.format ? match.format.mimeTypes?.[0] : EXT_TO_MIME[ext];
+}
+
+/** Returns the MIME type for a file name's extension, if known (e.g. for attachments). */
+export function getMimeTypeForFileName(fileName: string): string | undefined {
+  const ext = fileName.split(".").pop()?.toLowerCase();
+  return ext ? mimeForExt(ext) : undefined;
+}
+
 /**
  * Selects the renderer key for the given document source and options.
  * - If mimeType is provided, it takes precedence.
  * - Otherwise infers from src (URL extension or Blob.type).
  * - For PDF, options.enableOCR selects "pdf-ocr" vs "pdf".
+ * - Any other text/* MIME type falls back to the text renderer.
  */
 export function getRendererKey(
   src: DocumentSource,
@@ -62,8 +277,9 @@ export function getRendererKey(
   enableOCR?: boolean
 ): { rendererKey: RendererKey; mimeType: string | undefined } {
   const resolvedMime = mimeType ?? inferMimeType(src);
-  if (resolvedMime && MIME_TO_RENDERER[resolvedMime]) {
-    let key = MIME_TO_RENDERER[resolvedMime];
+  const mimeKey = resolvedMime ? rendererForMime(resolvedMime) : undefined;
+  if (mimeKey) {
+    let key = mimeKey;
     if (key === "pdf" && enableOCR) key = "pdf-ocr";
     return { rendererKey: key, mimeType: resolvedMime };
   }
@@ -72,30 +288,113 @@ export function getRendererKey(
       const url = new URL(src, "https://example.com");
       const pathname = url.pathname || "";
       const ext = pathname.split(".").pop()?.toLowerCase();
-      if (ext && EXT_TO_RENDERER[ext]) {
-        let key = EXT_TO_RENDERER[ext];
+      const extKey = ext ? rendererForExt(ext) : undefined;
+      if (ext && extKey) {
+        let key = extKey;
         if (key === "pdf" && enableOCR) key = "pdf-ocr";
         return {
           rendererKey: key,
-          mimeType: EXT_TO_MIME[ext] ?? resolvedMime,
+          mimeType: mimeForExt(ext) ?? resolvedMime,
         };
       }
     } catch {
       const ext = src.split(".").pop()?.toLowerCase();
-      if (ext && EXT_TO_RENDERER[ext]) {
-        let key = EXT_TO_RENDERER[ext];
+      const extKey = ext ? rendererForExt(ext) : undefined;
+      if (ext && extKey) {
+        let key = extKey;
         if (key === "pdf" && enableOCR) key = "pdf-ocr";
         return {
           rendererKey: key,
-          mimeType: EXT_TO_MIME[ext] ?? resolvedMime,
+          mimeType: mimeForExt(ext) ?? resolvedMime,
         };
       }
     }
   }
-  if (src instanceof Blob && src.type && MIME_TO_RENDERER[src.type]) {
-    let key = MIME_TO_RENDERER[src.type];
+  const blobKey = src instanceof Blob && src.type ? rendererForMime(src.type) : undefined;
+  if (src instanceof Blob && blobKey) {
+    let key = blobKey;
     if (key === "pdf" && enableOCR) key = "pdf-ocr";
     return { rendererKey: key, mimeType: src.type };
   }
+  if (resolvedMime?.startsWith("text/")) {
+    return { rendererKey: "text", mimeType: resolvedMime };
+  }
   return { rendererKey: "unsupported", mimeType: resolvedMime };
 }
+
+/** MIME types that carry no information about the actual format. */
+const GENERIC_MIME_TYPES = new Set(["application/octet-stream", "binary/octet-stream", "application/download"]);
+
+/**
+ * Whether the source carries no usable type information: an extensionless
+ * URL (e.g. a presigned link), a Blob without a type, or a generic MIME type.
+ */
+export function needsContentSniffing(src: DocumentSource, mimeType?: string): boolean {
+  if (mimeType) return GENERIC_MIME_TYPES.has(mimeType);
+  if (typeof src === "string") {
+    let pathname = src;
+    try {
+      pathname = new URL(src, "https://example.com").pathname;
+    } catch {
+      // Not a URL; use the string as a path.
+    }
+    const lastSegment = pathname.split("/").pop() ?? "";
+    return !lastSegment.includes(".");
+  }
+  return src instanceof Blob && (!src.type || GENERIC_MIME_TYPES.has(src.type));
+}
+
+export interface DetectRendererOptions {
+  signal?: AbortSignal;
+  /** Ask the server for Content-Type and Content-Disposition before routing URL sources. */
+  probe?: boolean;
+  /** Headers, credentials or custom fetch for the probe and sniffing requests. */
+  request?: RequestConfig;
+}
+
+/**
+ * Async variant of getRendererKey. With `probe`, URL sources are routed by
+ * the server-declared Content-Type (or the Content-Disposition file name's
+ * extension) and that file name is returned. When the type is still unknown,
+ * the leading bytes are sniffed (ranged request for URLs, slice for Blobs).
+ */
+export async function detectRendererKey(
+  src: DocumentSource,
+  mimeType?: string,
+  enableOCR?: boolean,
+  options: DetectRendererOptions = {}
+): Promise<{ rendererKey: RendererKey; mimeType: string | undefined; fileName?: string }> {
+  const { signal, probe, request } = options;
+  let result = getRendererKey(src, mimeType, enableOCR);
+  let fileName: string | undefined;
+  let probed = false;
+  if (probe && canProbeUrl(src)) {
+    const declared = await probeUrl(src, signal, request).catch((e) => {
+      if (signal?.aborted) throw e;
+      return {} as UrlProbeResult;
+    });
+    fileName = declared.fileName;
+    probed = true;
+    if (!mimeType) {
+      const candidates = [declared.mimeType, fileName ? getMimeTypeForFileName(fileName) : undefined];
+      for (const candidate of candidates) {
+        if (!candidate || GENERIC_MIME_TYPES.has(candidate)) continue;
+        const routed = getRendererKey(src, candidate, enableOCR);
+        if (routed.rendererKey !== "unsupported") {
+          result = routed;
+          break;
+        }
+      }
+    }
+  }
+  if (result.rendererKey !== "unsupported" || !((probed && !mimeType) || needsContentSniffing(src, mimeType))) {
+    return { ...result, fileName };
+  }
+  const source = typeof src === "string" ? createUrlByteSource(src, signal, request) : createBlobByteSource(src);
+  const head = await source.read(0, SNIFF_HEAD_SIZE);
+  // Registered sniffers are more specific than the built-in ones, so they run first.
+  const plugin = getRegisteredFormats().find((format) => format.sniff?.(head));
+  if (plugin) return { rendererKey: plugin.key, mimeType: plugin.mimeTypes?.[0], fileName };
+  const sniffed = await sniffMimeType(source, head);
+  return { ...(sniffed ? getRendererKey(src, sniffed, enableOCR) : result), fileName };
+}
@@ -0,0 +1,56 @@
+import React from "react";
+import type { OutlineItem } from "../utils/headingOutline";
+
+export interface DocumentOutlineProps {
+  items: OutlineItem[];
+  activeId?: string | null;
+  onSelect: (id: string) => void;
+}
+
+const styles = {
+  list: {
+    listStyle: "none",
+    margin: 0,
+    padding: 0,
+  },
+  item: (active: boolean, indent: number) => ({
+    display: "block",
+    width: "100%",
+    textAlign: "left" as const,
+    border: "none",
+    background: active ? "#e0e0e0" : "transparent",
+    borderRadius: 4,
+    padding: `4px 6px 4px ${6 + indent * 12}px`,
+    fontSize: 12,
+    color: active ? "#222" : "#444",
+    fontWeight: active ? 600 : 400,
+    cursor: "pointer",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap" as const,
+  }),
+};
+
+/** Heading-based outline used by the HTML-flow renderers (Markdown, DOCX). */
+export function DocumentOutline({ items, activeId, onSelect }: DocumentOutlineProps) {
+  const minLevel = items.reduce((min, item) => Math.min(min, item.level), 6);
+  return (
+    <nav aria-label="Document outline" className="document-viewer-outline">
+      <ul style={styles.list}>
+        {items.map((item) => (
+          <li key={item.id}>
+            <button
+              type="button"
+              title={item.text}
+              aria-current={item.id === activeId ? "location" : undefined}
+              style={styles.item(item.id === activeId, item.level - minLevel)}
+              onClick={() => onSelect(item.id)}
+            >
+              {item.text}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
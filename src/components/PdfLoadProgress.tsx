@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from "react";
+import { formatLoadProgress, getLoadFraction } from "../utils/pdfLoading";
+import type { LoadProgressStore, PdfLoadProgress as Progress } from "../utils/pdfLoading";
+
+export interface PdfLoadProgressProps {
+  progress: Progress;
+}
+
+const styles = {
+  root: {
+    display: "flex",
+    flexDirection: "column" as const,
+    alignItems: "center",
+    gap: 6,
+    width: 240,
+    maxWidth: "80%",
+  },
+  track: {
+    width: "100%",
+    height: 4,
+    borderRadius: 2,
+    background: "rgba(128, 128, 128, 0.35)",
+    overflow: "hidden",
+  },
+  bar: {
+    height: "100%",
+    background: "#4A90D9",
+    transition: "width 0.2s ease",
+  },
+  label: {
+    fontSize: 12,
+    color: "#888",
+    fontVariantNumeric: "tabular-nums" as const,
+  },
+};
+
+/** Download progress shown while a PDF loads; without a known size only the downloaded bytes are shown. */
+export function PdfLoadProgress({ progress }: PdfLoadProgressProps) {
+  const fraction = getLoadFraction(progress);
+  return (
+    <div
+      className="document-viewer-load-progress"
+      role="progressbar"
+      aria-label="Downloading PDF"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={fraction == null ? undefined : Math.floor(fraction * 100)}
+      aria-valuetext={formatLoadProgress(progress)}
+      style={styles.root}
+    >
+      {fraction != null && (
+        <div style={styles.track}>
+          <div style={{ ...styles.bar, width: `${fraction * 100}%` }} />
+        </div>
+      )}
+      <div style={styles.label}>{formatLoadProgress(progress)}</div>
+    </div>
+  );
+}
+
+/** Progress bar fed by a store; shown once bytes have arrived. */
+export function PdfLoadProgressIndicator({ store }: { store: LoadProgressStore }) {
+  const [progress, setProgress] = useState(store.get);
+  useEffect(() => {
+    setProgress(store.get());
+    return store.subscribe(() => setProgress(store.get()));
+  }, [store]);
+  return progress && progress.loaded > 0 ? <PdfLoadProgress progress={progress} /> : null;
+}
@@ -0,0 +1,55 @@
+import React from "react";
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import { PdfPasswordDialog } from "./PdfPasswordDialog";
+
+function renderDialog(onCancel = vi.fn()) {
+  const utils = render(<PdfPasswordDialog reason="required" onSubmit={vi.fn()} onCancel={onCancel} />);
+  return { ...utils, onCancel };
+}
+
+describe("PdfPasswordDialog", () => {
+  it("labels the dialog with its own title and description", () => {
+    renderDialog();
+    renderDialog();
+    const [first, second] = screen.getAllByRole("dialog");
+    expect(first).toHaveAccessibleName("Password required");
+    expect(first.getAttribute("aria-labelledby")).not.toBe(second.getAttribute("aria-labelledby"));
+    expect(document.getElementById(first.getAttribute("aria-describedby")!)?.textContent).toContain("password-protected");
+  });
+
+  it("cancels on Escape even when focus has left the dialog", () => {
+    const { onCancel } = renderDialog();
+    (document.activeElement as HTMLElement).blur();
+    fireEvent.keyDown(document.body, { key: "Escape" });
+    expect(onCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps Tab focus inside the dialog", () => {
+    renderDialog();
+    const input = screen.getByLabelText("Password");
+    fireEvent.change(input, { target: { value: "secret" } });
+    const unlock = screen.getByRole("button", { name: "Unlock" });
+    expect(document.activeElement).toBe(input);
+
+    fireEvent.keyDown(input, { key: "Tab", shiftKey: true });
+    expect(document.activeElement).toBe(unlock);
+    fireEvent.keyDown(unlock, { key: "Tab" });
+    expect(document.activeElement).toBe(input);
+
+    (document.activeElement as HTMLElement).blur();
+    fireEvent.keyDown(document.body, { key: "Tab" });
+    expect(document.activeElement).toBe(input);
+  });
+
+  it("returns focus to the previously focused element when it closes", () => {
+    const opener = document.createElement("button");
+    document.body.appendChild(opener);
+    opener.focus();
+    const { unmount } = renderDialog();
+    expect(document.activeElement).toBe(screen.getByLabelText("Password"));
+    unmount();
+    expect(document.activeElement).toBe(opener);
+    opener.remove();
+  });
+});
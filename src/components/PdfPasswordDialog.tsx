@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from "react";
+import type { PdfPasswordReason } from "../types";
+
+export interface PdfPasswordDialogProps {
+  reason: PdfPasswordReason;
+  fileName?: string;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+const styles = {
+  backdrop: {
+    position: "absolute" as const,
+    inset: 0,
+    zIndex: 20,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    background: "rgba(0, 0, 0, 0.45)",
+  },
+  dialog: {
+    width: 320,
+    maxWidth: "calc(100% - 32px)",
+    padding: 20,
+    borderRadius: 8,
+    background: "#fff",
+    color: "#333",
+    boxShadow: "0 8px 24px rgba(0, 0, 0, 0.3)",
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: 12,
+  },
+  title: {
+    margin: 0,
+    fontSize: 16,
+    fontWeight: 600,
+  },
+  text: {
+    margin: 0,
+    fontSize: 13,
+    color: "#555",
+    overflowWrap: "anywhere" as const,
+  },
+  error: {
+    fontSize: 13,
+    color: "#c44",
+  },
+  input: {
+    padding: "6px 8px",
+    fontSize: 14,
+    border: "1px solid #bbb",
+    borderRadius: 4,
+  },
+  actions: {
+    display: "flex",
+    justifyContent: "flex-end",
+    gap: 8,
+  },
+  button: (primary: boolean) => ({
+    padding: "6px 14px",
+    fontSize: 13,
+    borderRadius: 4,
+    border: primary ? "1px solid #4A90D9" : "1px solid #bbb",
+    background: primary ? "#4A90D9" : "#fff",
+    color: primary ? "#fff" : "#333",
+    cursor: "pointer",
+  }),
+};
+
+/** Ids for the aria-labelledby/-describedby pairs; useId would need React 18. */
+let nextDialogId = 0;
+
+const FOCUSABLE = "input:not([disabled]), button:not([disabled])";
+
+/** Modal password prompt for encrypted PDFs; Escape or Cancel leaves the document locked. */
+export function PdfPasswordDialog({ reason, fileName, onSubmit, onCancel }: PdfPasswordDialogProps) {
+  const [password, setPassword] = useState("");
+  const [dialogId] = useState(() => `document-viewer-password-${++nextDialogId}`);
+  const titleId = `${dialogId}-title`;
+  const descriptionId = `${dialogId}-description`;
+  const formRef = useRef<HTMLFormElement>(null);
+
+  // Return focus to whatever opened the prompt once it closes; read during render because
+  // autoFocus moves focus into the dialog before effects run.
+  const [opener] = useState(() => document.activeElement);
+  useEffect(() => {
+    return () => {
+      if (opener instanceof HTMLElement && opener.isConnected) opener.focus();
+    };
+  }, [opener]);
+
+  // Escape cancels and Tab cycles within the dialog wherever focus is, as aria-modal promises.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onCancel();
+        return;
+      }
+      const form = formRef.current;
+      if (e.key !== "Tab" || !form) return;
+      const focusable = Array.from(form.querySelectorAll<HTMLElement>(FOCUSABLE));
+      if (focusable.length === 0) return;
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const active = document.activeElement;
+      const inside = active instanceof Node && form.contains(active);
+      if (e.shiftKey && (!inside || active === first)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (!inside || active === last)) {
+        e.preventDefault();
+        first.focus();
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [onCancel]);
+
+  return (
+    <div style={styles.backdrop}>
+      <form
+        ref={formRef}
+        className="document-viewer-password-dialog"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        aria-describedby={descriptionId}
+        style={styles.dialog}
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (password) onSubmit(password);
+        }}
+      >
+        <h2 id={titleId} style={styles.title}>
+          Password required
+        </h2>
+        <p id={descriptionId} style={styles.text}>
+          {fileName ? `“${fileName}”` : "This PDF"} is password-protected. Enter the password to open it.
+        </p>
+        {reason === "incorrect" && (
+          <div role="alert" style={styles.error}>
+            Incorrect password. Try again.
+          </div>
+        )}
+        <input
+          type="password"
+          aria-label="Password"
+          autoComplete="current-password"
+          autoFocus
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          style={styles.input}
+        />
+        <div style={styles.actions}>
+          <button type="button" style={styles.button(false)} onClick={onCancel}>
+            Cancel
+          </button>
+          <button type="submit" style={styles.button(true)} disabled={!password}>
+            Unlock
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
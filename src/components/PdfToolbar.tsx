@@ -3,6 +3,8 @@ import React, { useEffect, useRef, useState } from "react";
 export const DEFAULT_ZOOM_PRESETS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
 
 export interface PdfToolbarProps {
+  /** Show page navigation (prev/next, page input). Disable for single-page content such as images. */
+  showPageNavigation?: boolean;
   currentPage: number;
   totalPages: number | null;
   pageInputValue: string;
@@ -10,12 +12,14 @@ export interface PdfToolbarProps {
   onPageInputSubmit: () => void;
   onPrevPage: () => void;
   onNextPage: () => void;
-  zoomMode: "custom" | "pageFit";
+  zoomMode: "custom" | "pageFit" | "pageWidth";
   effectiveZoom: number;
   zoomPresets?: number[];
   onZoomChange: (value: string) => void;
   onZoomIn: () => void;
   onZoomOut: () => void;
+  /** When provided, shows a rotate button that calls this handler. */
+  onRotate?: () => void;
   showSidebarToggle?: boolean;
   sidebarOpen?: boolean;
   onToggleSidebar?: () => void;
@@ -27,6 +31,8 @@ export interface PdfToolbarProps {
   onSearchNext?: () => void;
   onSearchPrev?: () => void;
   showPrint?: boolean;
+  /** Shows the print button disabled, e.g. when the document's permissions don't allow printing. */
+  printDisabled?: boolean;
   showFullscreen?: boolean;
   backgroundColor?: string;
   onDownload?: () => void;
@@ -49,6 +55,7 @@ const DownloadIcon = () => <Icon d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M7
 const PrintIcon = () => <Icon d="M6 9V2h12v7M6 18H4a2 2 0 0 1-2-2v-5a2 2 0 0 1 2-2h16a2 2 0 0 1 2 2v5a2 2 0 0 1-2 2h-2M6 14h12v8H6z" />;
 const FullscreenIcon = () => <Icon d="M8 3H5a2 2 0 0 0-2 2v3M21 8V5a2 2 0 0 0-2-2h-3M3 16v3a2 2 0 0 0 2 2h3M16 21h3a2 2 0 0 0 2-2v-3" />;
 const SidebarIcon = () => <Icon d="M3 3h18v18H3zM9 3v18" />;
+const RotateIcon = () => <Icon d="M21 2v6h-6M21 13a9 9 0 1 1-3-7.7L21 8" />;
 
 const styles = {
   toolbar: {
@@ -284,6 +291,7 @@ function ZoomItem({ label, onClick, active }: { label: string; onClick: () => vo
 }
 
 export function PdfToolbar({
+  showPageNavigation = true,
   currentPage,
   totalPages,
   pageInputValue,
@@ -297,6 +305,7 @@ export function PdfToolbar({
   onZoomChange,
   onZoomIn,
   onZoomOut,
+  onRotate,
   showSidebarToggle = false,
   sidebarOpen,
   onToggleSidebar,
@@ -308,6 +317,7 @@ export function PdfToolbar({
   onSearchNext,
   onSearchPrev,
   showPrint = true,
+  printDisabled = false,
   showFullscreen = true,
   backgroundColor,
   onDownload,
@@ -360,20 +370,24 @@ export function PdfToolbar({
             <SearchIcon />
           </ToolbarBtn>
         )}
-        <ToolbarBtn title="Previous page" onClick={onPrevPage} disabled={currentPage <= 1}>
-          <ChevronUp />
-        </ToolbarBtn>
-        <input
-          style={styles.pageInput}
-          value={pageInputValue}
-          onChange={(e) => onPageInputChange(e.target.value)}
-          onBlur={onPageInputSubmit}
-          onKeyDown={(e) => e.key === "Enter" && onPageInputSubmit()}
-        />
-        <span style={styles.pageTotal}>/ {totalPages ?? "–"}</span>
-        <ToolbarBtn title="Next page" onClick={onNextPage} disabled={!totalPages || currentPage >= totalPages}>
-          <ChevronDown />
-        </ToolbarBtn>
+        {showPageNavigation && (
+          <>
+            <ToolbarBtn title="Previous page" onClick={onPrevPage} disabled={currentPage <= 1}>
+              <ChevronUp />
+            </ToolbarBtn>
+            <input
+              style={styles.pageInput}
+              value={pageInputValue}
+              onChange={(e) => onPageInputChange(e.target.value)}
+              onBlur={onPageInputSubmit}
+              onKeyDown={(e) => e.key === "Enter" && onPageInputSubmit()}
+            />
+            <span style={styles.pageTotal}>/ {totalPages ?? "–"}</span>
+            <ToolbarBtn title="Next page" onClick={onNextPage} disabled={!totalPages || currentPage >= totalPages}>
+              <ChevronDown />
+            </ToolbarBtn>
+          </>
+        )}
       </div>
 
       <div style={styles.toolbarGroup}>
@@ -400,13 +414,17 @@ export function PdfToolbar({
                   active={
                     label === "Actual size"
                       ? zoomPercent === 100 && zoomMode === "custom"
-                      : label === "Page fit" && zoomMode === "pageFit"
+                      : label === "Page fit"
+                        ? zoomMode === "pageFit"
+                        : zoomMode === "pageWidth"
                   }
                   onClick={() => {
                     if (label === "Actual size") {
                       onZoomChange("1");
-                    } else {
+                    } else if (label === "Page fit") {
                       onZoomChange("pageFit");
+                    } else {
+                      onZoomChange("pageWidth");
                     }
                     setZoomOpen(false);
                   }}
@@ -437,6 +455,14 @@ export function PdfToolbar({
         <ToolbarBtn title="Zoom in" onClick={onZoomIn}>
           <ZoomIn />
         </ToolbarBtn>
+        {onRotate && (
+          <>
+            <div style={styles.separator} />
+            <ToolbarBtn title="Rotate" onClick={onRotate}>
+              <RotateIcon />
+            </ToolbarBtn>
+          </>
+        )}
       </div>
 
       <div style={styles.toolbarGroup}>
@@ -444,7 +470,11 @@ export function PdfToolbar({
           <DownloadIcon />
         </ToolbarBtn>
         {showPrint && (
-          <ToolbarBtn title="Print" onClick={onPrint}>
+          <ToolbarBtn
+            title={printDisabled ? "Printing is not allowed for this document" : "Print"}
+            onClick={onPrint}
+            disabled={printDisabled}
+          >
             <PrintIcon />
           </ToolbarBtn>
         )}
@@ -2,8 +2,9 @@ import "./renderers";
 
 export { DocumentViewer } from "./DocumentViewer";
 export { PdfToolbar } from "./components/PdfToolbar";
-export { getRendererKey } from "./FormatRouter";
+export { getRendererKey, detectRendererKey } from "./FormatRouter";
 export { registerRenderer, getRendererFactory, hasRenderer } from "./RendererRegistry";
+export { registerFormat, unregisterFormat } from "./FormatRegistry";
 export type {
   DocumentViewerProps,
   DocumentSource,
@@ -11,7 +12,24 @@ export type {
   ViewerTheme,
   PdfSidebarMode,
   PdfViewerApi,
+  DocumentViewerHandle,
+  RendererHandle,
+  ViewerCapability,
+  MediaTrack,
+  MediaViewerApi,
+  ArchiveLimits,
+  PdfLoadingOptions,
+  PdfPasswordReason,
+  PdfPasswordRequest,
+  PdfPermissions,
+  RequestConfig,
+  RequestHeaders,
+  DocxImage,
+  DocxSanitizeConfig,
+  ConversionMessage,
   RendererKey,
+  BuiltInRendererKey,
+  FormatDefinition,
   RendererProps,
   RendererComponent,
   RendererFactory,
@@ -0,0 +1,28 @@
+import React from "react";
+import { describe, it, expect, vi } from "vitest";
+import { render, screen, fireEvent } from "@testing-library/react";
+import JSZip from "jszip";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { ArchiveRenderer } from "./ArchiveRenderer";
+
+vi.mock("../utils/loadSource", () => ({
+  readSourceAsArrayBuffer: vi.fn(async () => {
+    const zip = new JSZip();
+    zip.file("docs/a.txt", "aaaa");
+    zip.file("notes/b.txt", "bbbb");
+    return zip.generateAsync({ type: "arraybuffer" });
+  }),
+}));
+
+describe("ArchiveRenderer", () => {
+  it("keeps the archive open when the host re-renders with an equal inline archiveLimits object", async () => {
+    const props = { src: "https://example.com/bundle.zip", originalSrc: "https://example.com/bundle.zip", mimeType: "application/zip" };
+    const { rerender } = render(<ArchiveRenderer {...props} options={{ archiveLimits: { maxEntries: 50 } }} />);
+    fireEvent.click(await screen.findByText("docs"));
+    expect(screen.getByText("a.txt")).toBeInTheDocument();
+
+    rerender(<ArchiveRenderer {...props} options={{ archiveLimits: { maxEntries: 50 } }} />);
+    expect(screen.getByText("a.txt")).toBeInTheDocument();
+    expect(readSourceAsArrayBuffer).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,331 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { RendererProps } from "../types";
+import { DocumentViewer } from "../DocumentViewer";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { openArchive } from "../utils/archive";
+import type { Archive, ArchiveNode } from "../utils/archive";
+import { downloadDocument, getDownloadFileName } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+
+const INDENT = 18;
+
+const styles = {
+  root: {
+    display: "flex",
+    flexDirection: "column" as const,
+    height: "100%",
+    width: "100%",
+    background: "#fff",
+    fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+    color: "#333",
+    fontSize: 14,
+  },
+  toolbar: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+    height: 40,
+    minHeight: 40,
+    padding: "0 12px",
+    background: "#f0f0f0",
+    borderBottom: "1px solid #d4d4d4",
+    fontSize: 13,
+    flexShrink: 0,
+  },
+  toolbarTitle: {
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap" as const,
+  },
+  summary: {
+    color: "#888",
+    whiteSpace: "nowrap" as const,
+  },
+  btn: {
+    height: 26,
+    border: "1px solid #cfcfcf",
+    borderRadius: 6,
+    background: "#fff",
+    padding: "0 10px",
+    fontSize: 13,
+    cursor: "pointer",
+    color: "#333",
+    flexShrink: 0,
+  },
+  notice: {
+    padding: "6px 16px",
+    background: "#fdecea",
+    borderBottom: "1px solid #f5c2c0",
+    fontSize: 13,
+    flexShrink: 0,
+  },
+  list: {
+    flex: 1,
+    minHeight: 0,
+    overflow: "auto" as const,
+  },
+  table: {
+    width: "100%",
+    borderCollapse: "collapse" as const,
+    fontSize: 13,
+  },
+  th: {
+    position: "sticky" as const,
+    top: 0,
+    background: "#f7f7f7",
+    borderBottom: "1px solid #d4d4d4",
+    padding: "6px 12px",
+    textAlign: "left" as const,
+    fontWeight: 600,
+    color: "#555",
+  },
+  row: {
+    cursor: "pointer",
+    borderBottom: "1px solid #f0f0f0",
+  },
+  cell: {
+    padding: "5px 12px",
+    whiteSpace: "nowrap" as const,
+  },
+  nameCell: {
+    display: "flex",
+    alignItems: "center",
+    gap: 6,
+  },
+  toggle: {
+    width: 12,
+    color: "#888",
+    flexShrink: 0,
+  },
+  muted: {
+    color: "#888",
+  },
+  nestedBar: {
+    display: "flex",
+    alignItems: "center",
+    gap: 12,
+    height: 40,
+    minHeight: 40,
+    padding: "0 12px",
+    background: "#f0f0f0",
+    borderBottom: "1px solid #d4d4d4",
+    fontSize: 13,
+  },
+  nested: {
+    flex: 1,
+    minHeight: 0,
+  },
+};
+
+function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  if (size < 1024 * 1024 * 1024) return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(size / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+function flattenVisible(node: ArchiveNode, expanded: Set<string>, depth = 0, out: { node: ArchiveNode; depth: number }[] = []) {
+  for (const child of node.children) {
+    out.push({ node: child, depth });
+    if (child.dir && expanded.has(child.path)) flattenVisible(child, expanded, depth + 1, out);
+  }
+  return out;
+}
+
+/**
+ * ZIP archive renderer. Lists the contents as a collapsible tree with sizes
+ * and dates; opening an entry extracts it and shows it in a nested
+ * DocumentViewer. Zip bomb limits come from options.archiveLimits.
+ */
+export function ArchiveRenderer({ src, originalSrc, mimeType, options, theme, onRendererHandle }: RendererProps) {
+  const [archive, setArchive] = useState<Archive | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [entryError, setEntryError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [extracting, setExtracting] = useState<string | null>(null);
+  const [openEntry, setOpenEntry] = useState<File | null>(null);
+  // Keyed on the values so an inline `archiveLimits` object doesn't reopen the archive on every render.
+  const { maxEntries, maxTotalSize, maxCompressionRatio } = options?.archiveLimits ?? {};
+
+  useEffect(() => {
+    let cancelled = false;
+    setArchive(null);
+    setError(null);
+    setEntryError(null);
+    setOpenEntry(null);
+    (async () => {
+      try {
+        const buffer = await readSourceAsArrayBuffer(src, originalSrc, options?.request);
+        const opened = await openArchive(buffer, { maxEntries, maxTotalSize, maxCompressionRatio });
+        if (cancelled) return;
+        // A single top-level folder (the usual "bundle/" wrapper) starts expanded.
+        const [only] = opened.root.children;
+        setExpanded(new Set(opened.root.children.length === 1 && only.dir ? [only.path] : []));
+        setArchive(opened);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to open archive");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [src, originalSrc, maxEntries, maxTotalSize, maxCompressionRatio]);
+
+  const rows = useMemo(() => (archive ? flattenVisible(archive.root, expanded) : []), [archive, expanded]);
+
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["download"],
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  if (error) {
+    return (
+      <div className="document-viewer-error" data-testid="archive-renderer-error">
+        {error}
+      </div>
+    );
+  }
+
+  if (!archive) {
+    return <div className="document-viewer-loading">Loading…</div>;
+  }
+
+  const extract = async (node: ArchiveNode): Promise<File | null> => {
+    setEntryError(null);
+    setExtracting(node.path);
+    try {
+      return await archive.extract(node.path);
+    } catch (e) {
+      setEntryError(e instanceof Error ? e.message : `Failed to extract ${node.name}`);
+      return null;
+    } finally {
+      setExtracting(null);
+    }
+  };
+
+  const toggle = (path: string) =>
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path);
+      else next.add(path);
+      return next;
+    });
+
+  const activate = async (node: ArchiveNode) => {
+    if (node.dir) {
+      toggle(node.path);
+      return;
+    }
+    const file = await extract(node);
+    if (file) setOpenEntry(file);
+  };
+
+  if (openEntry) {
+    return (
+      <div style={styles.root} className="document-viewer-archive" data-testid="archive-renderer">
+        <div
+          style={{
+            ...styles.nestedBar,
+            ...(options?.toolbarBackgroundColor ? { background: options.toolbarBackgroundColor } : {}),
+          }}
+        >
+          <button type="button" style={styles.btn} onClick={() => setOpenEntry(null)}>
+            ← Back to archive
+          </button>
+          <span style={styles.toolbarTitle}>{openEntry.name}</span>
+        </div>
+        <div style={styles.nested}>
+          <DocumentViewer
+            src={openEntry}
+            mimeType={openEntry.type}
+            options={{ ...options, downloadFileName: openEntry.name, onViewerReady: undefined }}
+            theme={theme}
+            style={{ height: "100%" }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        ...styles.root,
+        ...(options?.viewerBackgroundColor ? { background: options.viewerBackgroundColor } : {}),
+      }}
+      className="document-viewer-archive"
+      data-testid="archive-renderer"
+    >
+      {(options?.showToolbar ?? true) && (
+        <div
+          style={{
+            ...styles.toolbar,
+            ...(options?.toolbarBackgroundColor ? { background: options.toolbarBackgroundColor } : {}),
+          }}
+        >
+          <span style={styles.toolbarTitle}>{getDownloadFileName(originalSrc, options?.downloadFileName)}</span>
+          <span style={styles.summary}>
+            {archive.entryCount} file{archive.entryCount === 1 ? "" : "s"} · {formatBytes(archive.totalSize)}
+          </span>
+          <button type="button" style={styles.btn} onClick={() => downloadDocument(originalSrc, mimeType, options)}>
+            Download
+          </button>
+        </div>
+      )}
+      {entryError && <div style={styles.notice}>{entryError}</div>}
+      <div style={styles.list}>
+        {rows.length === 0 ? (
+          <div style={{ ...styles.cell, ...styles.muted }}>This archive is empty.</div>
+        ) : (
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={styles.th}>Name</th>
+                <th style={{ ...styles.th, textAlign: "right" }}>Size</th>
+                <th style={styles.th}>Modified</th>
+                <th style={styles.th} aria-label="Actions" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ node, depth }) => (
+                <tr
+                  key={node.path}
+                  style={styles.row}
+                  aria-expanded={node.dir ? expanded.has(node.path) : undefined}
+                  onClick={() => activate(node)}
+                >
+                  <td style={styles.cell}>
+                    <span style={{ ...styles.nameCell, paddingLeft: depth * INDENT }}>
+                      <span style={styles.toggle}>{node.dir ? (expanded.has(node.path) ? "▾" : "▸") : ""}</span>
+                      <span>{node.dir ? "📁" : "📄"}</span>
+                      <span title={node.path}>{node.name}</span>
+                    </span>
+                  </td>
+                  <td style={{ ...styles.cell, ...styles.muted, textAlign: "right" }}>{formatBytes(node.size)}</td>
+                  <td style={{ ...styles.cell, ...styles.muted }}>{node.date?.toLocaleString()}</td>
+                  <td style={{ ...styles.cell, textAlign: "right" }}>
+                    {!node.dir && (
+                      <button
+                        type="button"
+                        style={styles.btn}
+                        disabled={extracting === node.path}
+                        onClick={async (e) => {
+                          e.stopPropagation();
+                          const file = await extract(node);
+                          if (file) downloadDocument(file, file.type, { ...options, downloadFileName: file.name });
+                        }}
+                      >
+                        Download
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import JSZip from "jszip";
+import type { DocxImage } from "../types";
+import { DocxRenderer } from "./DocxRenderer";
+
+const mammothMock = vi.hoisted(() => ({
+  convertToHtml: vi.fn(),
+  imgElement: vi.fn((convert: unknown) => ({ convert })),
+}));
+
+vi.mock("mammoth", () => ({
+  default: { convertToHtml: mammothMock.convertToHtml, images: { imgElement: mammothMock.imgElement } },
+}));
+
+// An archive without word/document.xml, so the tracked-changes pass leaves it alone.
+vi.mock("../utils/loadSource", () => ({
+  readSourceAsArrayBuffer: vi.fn(async () => new JSZip().generateAsync({ type: "arraybuffer" })),
+}));
+
+function renderDocx(options: React.ComponentProps<typeof DocxRenderer>["options"] = {}) {
+  return render(
+    <DocxRenderer
+      src="https://example.com/report.docx"
+      originalSrc="https://example.com/report.docx"
+      mimeType="application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+      options={options}
+    />
+  );
+}
+
+describe("DocxRenderer", () => {
+  beforeEach(() => {
+    mammothMock.convertToHtml.mockReset().mockResolvedValue({
+      value: "<p>Alpha beta</p><p>beta gamma BETA</p>",
+      messages: [],
+    });
+    mammothMock.imgElement.mockClear();
+  });
+
+  it("counts search matches and steps through them", async () => {
+    const { container } = renderDocx();
+    await screen.findByText("Alpha beta");
+    fireEvent.click(screen.getByTitle("Search"));
+    fireEvent.change(screen.getByPlaceholderText("Enter to search"), { target: { value: "beta" } });
+
+    const marks = () => Array.from(container.querySelectorAll("mark[data-docx-search-hit]"));
+    const activeText = () => container.querySelector(".document-viewer-docx-search-hit-active")?.textContent;
+    expect(screen.getByText("1/3")).toBeInTheDocument();
+    expect(marks().map((mark) => mark.textContent)).toEqual(["beta", "beta", "BETA"]);
+    expect(marks()[0]).toHaveClass("document-viewer-docx-search-hit-active");
+
+    fireEvent.click(screen.getByTitle("Next match"));
+    expect(screen.getByText("2/3")).toBeInTheDocument();
+    expect(marks()).toHaveLength(3);
+    expect(marks()[1]).toHaveClass("document-viewer-docx-search-hit-active");
+
+    fireEvent.click(screen.getByTitle("Previous match"));
+    fireEvent.click(screen.getByTitle("Previous match"));
+    expect(screen.getByText("3/3")).toBeInTheDocument();
+    expect(activeText()).toBe("BETA");
+
+    // Clearing the query removes the marks and restores the original text nodes.
+    fireEvent.change(screen.getByPlaceholderText("Enter to search"), { target: { value: "" } });
+    expect(marks()).toHaveLength(0);
+    expect(screen.getByText("beta gamma BETA").childNodes).toHaveLength(1);
+  });
+
+  it("puts the user's style map after the page break rule", async () => {
+    renderDocx({ docxLayout: "page", docxStyleMap: "p[style-name='Quote'] => blockquote\nb => strong" });
+    await waitFor(() => expect(mammothMock.convertToHtml).toHaveBeenCalled());
+    expect(mammothMock.convertToHtml.mock.calls[0][1].styleMap).toEqual([
+      "br[type='page'] => hr.docx-page-break:fresh",
+      "p[style-name='Quote'] => blockquote",
+      "b => strong",
+    ]);
+  });
+
+  it("passes embedded images to docxConvertImage through mammoth's image hook", async () => {
+    const docxConvertImage = vi.fn(async (_image: DocxImage) => ({ src: "https://cdn.example.com/figure-1.png" }));
+    renderDocx({ docxConvertImage });
+    await waitFor(() => expect(mammothMock.convertToHtml).toHaveBeenCalled());
+    expect(mammothMock.imgElement).toHaveBeenCalledTimes(1);
+    const { convertImage } = mammothMock.convertToHtml.mock.calls[0][1];
+    expect(convertImage).toBe(mammothMock.imgElement.mock.results[0].value);
+
+    const bytes = new ArrayBuffer(4);
+    const hook = mammothMock.imgElement.mock.calls[0][0] as (image: unknown) => Promise<unknown>;
+    await expect(hook({ contentType: "image/png", readAsArrayBuffer: async () => bytes })).resolves.toEqual({
+      src: "https://cdn.example.com/figure-1.png",
+    });
+    const image = docxConvertImage.mock.calls[0][0];
+    expect(image.contentType).toBe("image/png");
+    await expect(image.read()).resolves.toBe(bytes);
+  });
+
+  it("reports conversion messages to onWarnings only when there are some", async () => {
+    const onWarnings = vi.fn();
+    const { unmount } = renderDocx({ onWarnings });
+    await screen.findByText("Alpha beta");
+    expect(onWarnings).not.toHaveBeenCalled();
+    unmount();
+
+    mammothMock.convertToHtml.mockResolvedValue({
+      value: "<p>Alpha beta</p>",
+      messages: [
+        { type: "warning", message: "Unrecognised paragraph style: 'Fancy'", paragraph: { styleId: "Fancy" } },
+        { type: "error", message: "Could not read image" },
+      ],
+    });
+    renderDocx({ onWarnings });
+    await waitFor(() => expect(onWarnings).toHaveBeenCalledTimes(1));
+    expect(onWarnings).toHaveBeenCalledWith([
+      { type: "warning", message: "Unrecognised paragraph style: 'Fancy'" },
+      { type: "error", message: "Could not read image" },
+    ]);
+  });
+});
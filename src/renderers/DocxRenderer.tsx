@@ -1,31 +1,312 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useLayoutEffect, useRef, useCallback, useMemo } from "react";
 import mammoth from "mammoth";
 import DOMPurify from "dompurify";
-import type { RendererProps } from "../types";
+import type { ConversionMessage, RendererProps, ViewerOptions } from "../types";
+import { PdfToolbar } from "../components/PdfToolbar";
+import { DocumentOutline } from "../components/DocumentOutline";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { downloadDocument, printHtml, toggleFullscreen } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+import { buildHeadingOutline } from "../utils/headingOutline";
+import type { OutlineItem } from "../utils/headingOutline";
+import { findTextMatches } from "../utils/textSearch";
+import { styleToInline } from "../utils/styleToInline";
+import {
+  PAGE_BREAK_CLASS,
+  fillPageFields,
+  layoutDocxPages,
+  readDocxPageSetup,
+  selectHeaderFooter,
+} from "../utils/docxLayout";
+import type { DocxPage, DocxPageSetup } from "../utils/docxLayout";
+import { applyDocxReview, prepareDocxReview } from "../utils/docxReview";
+import type { DocxReview } from "../utils/docxReview";
 
-export function DocxRenderer({ src, originalSrc }: RendererProps) {
-  const [html, setHtml] = useState<string>("");
+/** Height of the rule above a page's footnotes, including its padding. */
+const FOOTNOTE_SEPARATOR = 12;
+const SIDEBAR_WIDTH = 220;
+const COMMENT_MARGIN_WIDTH = 240;
+/** Vertical gap between stacked comment cards. */
+const COMMENT_GAP = 8;
+const ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4];
+/** Canvas padding around pages, used when fitting a page to the viewport. */
+const CANVAS_PADDING = 16;
+
+const styles = {
+  root: {
+    display: "flex",
+    flexDirection: "column" as const,
+    height: "100%",
+    width: "100%",
+    fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+  },
+  body: {
+    display: "flex",
+    flex: 1,
+    minHeight: 0,
+  },
+  sidebar: {
+    width: SIDEBAR_WIDTH,
+    minWidth: SIDEBAR_WIDTH,
+    background: "#f7f7f7",
+    borderRight: "1px solid #d4d4d4",
+    overflowY: "auto" as const,
+    padding: "8px 6px",
+    boxSizing: "border-box" as const,
+  },
+  scroller: {
+    flex: 1,
+    minWidth: 0,
+    overflow: "auto",
+    position: "relative" as const,
+  },
+  flow: {
+    padding: "16px 24px",
+  },
+  reviewBar: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 8,
+    padding: "4px 12px",
+    background: "#fafafa",
+    borderBottom: "1px solid #d4d4d4",
+    fontSize: 12,
+    color: "#555",
+    flexShrink: 0,
+  },
+  viewToggle: (active: boolean) => ({
+    fontSize: 12,
+    padding: "3px 10px",
+    border: "1px solid #ccc",
+    background: active ? "#e0e0e0" : "#fff",
+    fontWeight: active ? 600 : 400,
+    cursor: "pointer",
+  }),
+  reviewRow: {
+    display: "flex",
+    minHeight: "100%",
+  },
+  document: {
+    flex: 1,
+    minWidth: 0,
+  },
+  commentMargin: {
+    position: "relative" as const,
+    width: COMMENT_MARGIN_WIDTH,
+    minWidth: COMMENT_MARGIN_WIDTH,
+    background: "#f3f3f3",
+    borderLeft: "1px solid #d4d4d4",
+  },
+  commentCard: (active: boolean, top: number | undefined) => ({
+    position: "absolute" as const,
+    left: 8,
+    right: 8,
+    top: top ?? 0,
+    visibility: top == null ? ("hidden" as const) : undefined,
+    background: "#fff",
+    border: `1px solid ${active ? "#e0a800" : "#ddd"}`,
+    borderRadius: 6,
+    boxShadow: active ? "0 2px 8px rgba(0,0,0,0.2)" : "0 1px 2px rgba(0,0,0,0.08)",
+    padding: "6px 8px",
+    fontSize: 12,
+    color: "#333",
+    cursor: "pointer",
+    textAlign: "left" as const,
+    transition: "top 0.15s ease",
+  }),
+  commentMeta: {
+    display: "flex",
+    justifyContent: "space-between",
+    gap: 6,
+    marginBottom: 4,
+    color: "#777",
+  },
+  commentText: {
+    whiteSpace: "pre-wrap" as const,
+    wordBreak: "break-word" as const,
+  },
+  canvas: {
+    display: "flex",
+    flexDirection: "column" as const,
+    alignItems: "center",
+    padding: `${CANVAS_PADDING}px 0`,
+    gap: 12,
+    minHeight: "100%",
+    boxSizing: "border-box" as const,
+  },
+  page: {
+    position: "relative" as const,
+    flexShrink: 0,
+    boxShadow: "0 2px 8px rgba(0,0,0,0.3)",
+    background: "#fff",
+    color: "#000",
+  },
+  pageContent: {
+    display: "flex",
+    flexDirection: "column" as const,
+    boxSizing: "border-box" as const,
+  },
+  headerFooter: {
+    position: "absolute" as const,
+    fontSize: "0.9em",
+  },
+  footnotes: {
+    marginTop: "auto",
+    marginBottom: 0,
+    paddingTop: FOOTNOTE_SEPARATOR - 1,
+    borderTop: "1px solid #999",
+  },
+  measure: {
+    position: "absolute" as const,
+    visibility: "hidden" as const,
+    left: 0,
+    top: 0,
+  },
+  loading: {
+    color: "#eee",
+    padding: 32,
+  },
+};
+
+const DOCX_STYLES = `
+.document-viewer-docx-search-hit { background: rgba(255, 213, 0, 0.45); color: inherit; }
+.document-viewer-docx-search-hit-active { background: rgba(255, 150, 0, 0.8); }
+.document-viewer-docx ins.docx-ins { color: var(--docx-author-color); text-decoration: underline; }
+.document-viewer-docx del.docx-del { color: var(--docx-author-color); text-decoration: line-through; }
+.document-viewer-docx .docx-comment-range { background: rgba(255, 200, 0, 0.25); }
+.document-viewer-docx .docx-comment-range.docx-comment-active { background: rgba(255, 170, 0, 0.55); }
+.docx-review-final del.docx-del { display: none; }
+.docx-review-final ins.docx-ins { color: inherit; text-decoration: none; }
+.docx-review-final .docx-comment-range { background: none; }
+`;
+
+/** Print layout: one page frame per sheet, without the on-screen canvas chrome. */
+function printCss(setup: DocxPageSetup | null): string {
+  if (!setup) return "body { margin: 0; }";
+  return `@page { size: ${setup.width}px ${setup.height}px; margin: 0; }
+body { margin: 0; }
+.document-viewer-docx-page { box-shadow: none !important; break-after: page; overflow: hidden; }`;
+}
+
+function fontStyle(setup: DocxPageSetup): React.CSSProperties {
+  return {
+    fontFamily: setup.fontFamily ? `"${setup.fontFamily}", sans-serif` : undefined,
+    fontSize: setup.fontSize,
+  };
+}
+
+function clampZoom(zoom: number): number {
+  return Math.min(Math.max(zoom, 0.1), 5);
+}
+
+interface DocxContent {
+  html: string;
+  outline: OutlineItem[];
+  review: DocxReview;
+}
+
+/**
+ * Mammoth options from the viewer options. Mammoth applies the first matching
+ * rule, so the page break rule pagination relies on comes before the user's.
+ */
+function mammothOptions(options: ViewerOptions | undefined, pageLayout: boolean) {
+  const userMap = options?.docxStyleMap;
+  const rules = typeof userMap === "string" ? userMap.split("\n") : userMap ?? [];
+  const convert = options?.docxConvertImage;
+  return {
+    styleMap: pageLayout ? [`br[type='page'] => hr.${PAGE_BREAK_CLASS}:fresh`, ...rules] : rules,
+    ...(convert && {
+      convertImage: mammoth.images.imgElement((image) =>
+        convert({ contentType: image.contentType, read: () => image.readAsArrayBuffer() })
+      ),
+    }),
+  };
+}
+
+/** Sanitizes mammoth output, turns review markers into elements and gives headings ids for the outline. */
+function prepareHtml(raw: string, review: DocxReview, options?: ViewerOptions): DocxContent {
+  const doc = new DOMParser().parseFromString(DOMPurify.sanitize(raw, options?.docxSanitizeConfig), "text/html");
+  applyDocxReview(doc.body, review);
+  const outline = buildHeadingOutline(doc.body, "docx-");
+  return { html: doc.body.innerHTML, outline, review };
+}
+
+function formatCommentDate(date?: string): string {
+  const parsed = date ? new Date(date) : undefined;
+  return parsed && !isNaN(parsed.getTime()) ? parsed.toLocaleDateString() : "";
+}
+
+function clearHighlights(root: HTMLElement) {
+  root.querySelectorAll("mark[data-docx-search-hit]").forEach((mark) => {
+    const parent = mark.parentNode;
+    mark.replaceWith(...Array.from(mark.childNodes));
+    parent?.normalize();
+  });
+}
+
+/**
+ * DOCX renderer: converts the document to sanitized HTML with mammoth and
+ * shows it as one flowing column or, with `docxLayout: "page"`, paginated
+ * into page frames. The toolbar offers search, CSS zoom, print and
+ * fullscreen, and headings feed an outline sidebar.
+ */
+export function DocxRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
+  const pageLayout = options?.docxLayout === "page";
+  const showToolbar = options?.showToolbar ?? true;
+  const sidebarEnabled =
+    (options?.sidebarMode ?? (options?.showSidebar === false ? "none" : "outline")) !== "none";
+  const [content, setContent] = useState<DocxContent>({ html: "", outline: [], review: { revisions: [], comments: [] } });
+  const [setup, setSetup] = useState<DocxPageSetup | null>(null);
+  const [pages, setPages] = useState<DocxPage[] | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageInputValue, setPageInputValue] = useState("1");
+  const [zoomMode, setZoomMode] = useState<"custom" | "pageFit" | "pageWidth">(
+    options?.zoom != null || !pageLayout ? "custom" : "pageWidth"
+  );
+  const [zoom, setZoom] = useState(options?.zoom ?? 1);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [activeHeading, setActiveHeading] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [matchCount, setMatchCount] = useState(0);
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [reviewView, setReviewView] = useState<"markup" | "final">(options?.docxReviewView ?? "markup");
+  const [activeComment, setActiveComment] = useState<string | null>(null);
+  const [commentTops, setCommentTops] = useState<Record<string, number>>({});
   const [error, setError] = useState<string | null>(null);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const styleMapKey = JSON.stringify(options?.docxStyleMap ?? null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const pageRefs = useRef(new Map<number, HTMLDivElement>());
+  const marginRef = useRef<HTMLElement>(null);
+  const commentRefs = useRef(new Map<string, HTMLButtonElement>());
+  const { html, outline, review } = content;
+  const showComments = reviewView === "markup" && review.comments.length > 0;
 
   useEffect(() => {
     let cancelled = false;
     async function load() {
       try {
-        let arrayBuffer: ArrayBuffer;
-        if (typeof src === "string" && src.startsWith("http")) {
-          const res = await fetch(src);
-          if (!res.ok) throw new Error("Failed to fetch document");
-          arrayBuffer = await res.arrayBuffer();
-        } else if (originalSrc instanceof Blob) {
-          arrayBuffer = await originalSrc.arrayBuffer();
-        } else {
-          const res = await fetch(src);
-          arrayBuffer = await res.arrayBuffer();
-        }
+        const arrayBuffer = await readSourceAsArrayBuffer(src, originalSrc, optionsRef.current?.request);
+        if (cancelled) return;
+        const marked = await prepareDocxReview(arrayBuffer);
+        // Callbacks and sanitizer settings are read when the document loads; only the style map reconverts it.
+        const opts = optionsRef.current;
+        const [result, pageSetup] = await Promise.all([
+          mammoth.convertToHtml({ arrayBuffer: marked.buffer }, mammothOptions(opts, pageLayout)),
+          pageLayout ? readDocxPageSetup(arrayBuffer, opts?.docxSanitizeConfig) : null,
+        ]);
         if (cancelled) return;
-        const result = await mammoth.convertToHtml({ arrayBuffer });
-        setHtml(DOMPurify.sanitize(result.value));
+        setPages(null);
+        setSetup(pageSetup);
+        setContent(prepareHtml(result.value, marked.review, opts));
         setError(null);
+        const messages: ConversionMessage[] = result.messages.map(({ type, message }) => ({ type, message }));
+        if (messages.length > 0) opts?.onWarnings?.(messages);
       } catch (e) {
         if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load DOCX");
       }
@@ -34,7 +315,286 @@ export function DocxRenderer({ src, originalSrc }: RendererProps) {
     return () => {
       cancelled = true;
     };
-  }, [src, originalSrc]);
+  }, [src, originalSrc, pageLayout, styleMapKey]);
+
+  // Lays the document out in an off-screen copy at the content width, then renders the pages.
+  useEffect(() => {
+    const root = containerRef.current;
+    if (!setup || !root) return;
+    let cancelled = false;
+    const { width, height, margins } = setup;
+    const measure = document.createElement("div");
+    measure.className = "document-viewer-docx";
+    Object.assign(measure.style, styles.measure, fontStyle(setup), { width: `${width - margins.left - margins.right}px` });
+    measure.innerHTML = html;
+    root.appendChild(measure);
+    layoutDocxPages(measure, height - margins.top - margins.bottom, FOOTNOTE_SEPARATOR)
+      .then((result) => {
+        if (!cancelled) setPages(result);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to lay out DOCX pages");
+      })
+      .finally(() => measure.remove());
+    return () => {
+      cancelled = true;
+      measure.remove();
+    };
+    // The view hides or shows deletions, which changes the layout.
+  }, [html, setup, reviewView]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el || typeof ResizeObserver === "undefined") return;
+    const observer = new ResizeObserver(() => setViewport({ width: el.clientWidth, height: el.clientHeight }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [error]);
+
+  const effectiveZoom = useMemo(() => {
+    if (zoomMode === "custom" || !setup || viewport.width === 0) return zoom;
+    const widthZoom = (viewport.width - 2 * CANVAS_PADDING) / setup.width;
+    if (zoomMode === "pageWidth") return clampZoom(widthZoom);
+    return clampZoom(Math.min(widthZoom, (viewport.height - 2 * CANVAS_PADDING) / setup.height));
+  }, [zoomMode, zoom, setup, viewport]);
+
+  // Tracks the current page and the heading nearest the top of the viewport.
+  useEffect(() => {
+    const root = containerRef.current;
+    if (!root) return;
+    let ticking = false;
+    const update = () => {
+      ticking = false;
+      const top = root.getBoundingClientRect().top;
+      let page = 1;
+      pageRefs.current.forEach((el, n) => {
+        if (el.getBoundingClientRect().top - top <= root.clientHeight / 3) page = Math.max(page, n);
+      });
+      setCurrentPage(page);
+      let heading: string | null = outline[0]?.id ?? null;
+      for (const item of outline) {
+        const el = contentRef.current?.querySelector(`[id="${CSS.escape(item.id)}"]`);
+        if (!el) continue;
+        if (el.getBoundingClientRect().top - top <= 16) heading = item.id;
+        else break;
+      }
+      setActiveHeading(heading);
+    };
+    const onScroll = () => {
+      if (ticking) return;
+      ticking = true;
+      requestAnimationFrame(update);
+    };
+    root.addEventListener("scroll", onScroll, { passive: true });
+    update();
+    return () => root.removeEventListener("scroll", onScroll);
+  }, [pages, outline]);
+
+  useEffect(() => {
+    setPageInputValue(String(currentPage));
+  }, [currentPage]);
+
+  const scrollToId = useCallback((id: string) => {
+    const target = contentRef.current?.querySelector(`[id="${CSS.escape(id)}"]`);
+    if (!target) return;
+    target.scrollIntoView({ behavior: "smooth", block: "start" });
+    setActiveHeading(id);
+  }, []);
+
+  // In-document anchors (footnotes, bookmarks) scroll inside the viewer instead of changing the page hash.
+  useEffect(() => {
+    const el = contentRef.current;
+    if (!el) return;
+    const onClick = (event: MouseEvent) => {
+      const target = event.target as HTMLElement | null;
+      const commented = target?.closest?.("[data-docx-comment]");
+      if (commented) setActiveComment(commented.getAttribute("data-docx-comment")!.split(" ")[0]);
+      const anchor = target?.closest?.("a") as HTMLAnchorElement | null;
+      const href = anchor?.getAttribute("href");
+      if (!href || !href.startsWith("#")) return;
+      event.preventDefault();
+      scrollToId(decodeURIComponent(href.slice(1)));
+    };
+    el.addEventListener("click", onClick);
+    return () => el.removeEventListener("click", onClick);
+  }, [scrollToId, pages]);
+
+  const goToPage = useCallback((page: number) => {
+    const el = pageRefs.current.get(page);
+    if (!el) return;
+    el.scrollIntoView({ block: "start" });
+    setCurrentPage(page);
+  }, []);
+
+  const highlightClassName = options?.searchHighlightClassName ?? "document-viewer-docx-search-hit";
+  const activeHighlightClassName = options?.searchActiveHighlightClassName ?? "document-viewer-docx-search-hit-active";
+  const highlightStyle = styleToInline(options?.searchTextHighlightStyle ?? options?.searchHighlightStyle);
+  const activeHighlightStyle = styleToInline(options?.searchActiveHighlightStyle);
+
+  /** Text roots searched: the document body, not repeated headers and footers. */
+  const searchRoots = useCallback(
+    () => Array.from(contentRef.current?.querySelectorAll<HTMLElement>(".document-viewer-docx") ?? []),
+    []
+  );
+
+  /** Matches in a root, skipping deletions hidden by the final view. */
+  const visibleMatches = useCallback(
+    (root: HTMLElement, query: string) =>
+      findTextMatches(root, query).filter(
+        ({ node }) => reviewView === "markup" || !node.parentElement?.closest("del.docx-del")
+      ),
+    [reviewView]
+  );
+
+  const countMatches = useCallback(
+    (query: string) => searchRoots().reduce((sum, root) => sum + visibleMatches(root, query).length, 0),
+    [searchRoots, visibleMatches]
+  );
+
+  // Wraps matches in <mark>s; the rendered HTML is only replaced when the document or layout changes.
+  useEffect(() => {
+    const roots = searchRoots();
+    roots.forEach(clearHighlights);
+    const query = searchQuery.trim();
+    if (!query) {
+      setMatchCount(0);
+      return;
+    }
+    const matches = roots.flatMap((root) => visibleMatches(root, query));
+    setMatchCount(matches.length);
+    const activeIndex = matches.length ? Math.min(matchIndex, matches.length - 1) : -1;
+    let active: HTMLElement | null = null;
+    // Wrap from the end so earlier offsets in the same text node stay valid.
+    for (let i = matches.length - 1; i >= 0; i -= 1) {
+      const { node, start } = matches[i];
+      const range = document.createRange();
+      range.setStart(node, start);
+      range.setEnd(node, start + query.length);
+      const mark = document.createElement("mark");
+      mark.setAttribute("data-docx-search-hit", "");
+      const isActive = i === activeIndex;
+      mark.className = isActive ? `${highlightClassName} ${activeHighlightClassName}` : highlightClassName;
+      const style = isActive ? [highlightStyle, activeHighlightStyle].filter(Boolean).join(";") : highlightStyle;
+      if (style) mark.setAttribute("style", style);
+      range.surroundContents(mark);
+      if (isActive) active = mark;
+    }
+    active?.scrollIntoView?.({ block: "center" });
+  }, [
+    searchQuery,
+    matchIndex,
+    html,
+    pages,
+    searchRoots,
+    visibleMatches,
+    highlightClassName,
+    activeHighlightClassName,
+    highlightStyle,
+    activeHighlightStyle,
+  ]);
+
+  const stepSearch = (delta: number) => {
+    if (matchCount === 0) return;
+    setMatchIndex((i) => (i + delta + matchCount) % matchCount);
+  };
+
+  const print = useCallback(() => {
+    const printable = contentRef.current?.cloneNode(true) as HTMLElement | undefined;
+    if (!printable) return;
+    clearHighlights(printable);
+    printable.style.removeProperty("zoom");
+    printHtml(
+      originalSrc,
+      mimeType,
+      `<div class="docx-review-${reviewView}">${printable.outerHTML}</div>`,
+      options,
+      DOCX_STYLES + printCss(setup)
+    );
+  }, [originalSrc, mimeType, options, setup, reviewView]);
+
+  // Places each comment card beside its anchor, pushing cards down so they don't overlap.
+  useLayoutEffect(() => {
+    const margin = marginRef.current;
+    const content = contentRef.current;
+    if (!showComments || !margin || !content) return;
+    const top = margin.getBoundingClientRect().top;
+    const tops: Record<string, number> = {};
+    let next = 0;
+    for (const comment of review.comments) {
+      const anchor = content.querySelector(`[data-docx-comment-anchor="${CSS.escape(comment.id)}"]`);
+      if (!anchor) continue;
+      const y = Math.max(next, anchor.getBoundingClientRect().top - top);
+      tops[comment.id] = y;
+      next = y + (commentRefs.current.get(comment.id)?.offsetHeight ?? 0) + COMMENT_GAP;
+    }
+    setCommentTops(tops);
+  }, [showComments, review, html, pages, reviewView, effectiveZoom, viewport]);
+
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+    for (const el of Array.from(content.querySelectorAll("[data-docx-comment]"))) {
+      const ids = el.getAttribute("data-docx-comment")!.split(" ");
+      el.classList.toggle("docx-comment-active", activeComment != null && ids.includes(activeComment));
+    }
+  }, [activeComment, html, pages]);
+
+  const selectComment = (id: string) => {
+    setActiveComment(id);
+    contentRef.current
+      ?.querySelector(`[data-docx-comment-anchor="${CSS.escape(id)}"]`)
+      ?.parentElement?.scrollIntoView?.({ block: "center" });
+  };
+
+  function handlePageInputSubmit() {
+    const n = parseInt(pageInputValue, 10);
+    if (pages && !isNaN(n) && n >= 1 && n <= pages.length) goToPage(n);
+    else setPageInputValue(String(currentPage));
+  }
+
+  function handleZoomChange(value: string) {
+    if (value === "pageFit" || value === "pageWidth") {
+      if (pageLayout) {
+        setZoomMode(value);
+        return;
+      }
+      value = "1";
+    }
+    setZoomMode("custom");
+    setZoom(clampZoom(parseFloat(value)));
+  }
+
+  function stepZoom(direction: 1 | -1) {
+    const steps = direction > 0 ? ZOOM_STEPS : [...ZOOM_STEPS].reverse();
+    const next = steps.find((p) => (direction > 0 ? p > effectiveZoom + 0.01 : p < effectiveZoom - 0.01));
+    setZoomMode("custom");
+    setZoom(next ?? clampZoom(effectiveZoom * (direction > 0 ? 1.25 : 0.8)));
+  }
+
+  useRendererHandle(onRendererHandle, {
+    capabilities: pages
+      ? ["pages", "zoom", "search", "text", "print", "download"]
+      : ["zoom", "search", "text", "print", "download"],
+    getPageCount: () => pages?.length ?? 0,
+    getCurrentPage: () => (pages ? currentPage : 0),
+    goToPage,
+    setZoom: (value) => {
+      setZoomMode("custom");
+      setZoom(clampZoom(value));
+    },
+    search: async (query) => {
+      setSearchQuery(query);
+      setMatchIndex(0);
+      return query.trim() ? countMatches(query) : 0;
+    },
+    getText: async () => {
+      const body = new DOMParser().parseFromString(html, "text/html").body;
+      if (reviewView === "final") body.querySelectorAll("del.docx-del").forEach((el) => el.remove());
+      return body.textContent ?? "";
+    },
+    print,
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
 
   if (error) {
     return (
@@ -44,11 +604,180 @@ export function DocxRenderer({ src, originalSrc }: RendererProps) {
     );
   }
 
+  const renderPages = (layout: DocxPageSetup, laidOut: DocxPage[]) =>
+    laidOut.map((page, i) => {
+      const n = i + 1;
+      const { width, height, margins } = layout;
+      const header = selectHeaderFooter(layout.headers, n, layout);
+      const footer = selectHeaderFooter(layout.footers, n, layout);
+      return (
+        <div
+          key={n}
+          ref={(el) => {
+            if (el) pageRefs.current.set(n, el);
+            else pageRefs.current.delete(n);
+          }}
+          className="document-viewer-docx-page"
+          data-page-number={n}
+          aria-label={`Page ${n} of ${laidOut.length}`}
+          style={{
+            ...styles.page,
+            ...fontStyle(layout),
+            width,
+            minHeight: height,
+            ...(options?.pageBackgroundColor ? { background: options.pageBackgroundColor } : {}),
+          }}
+        >
+          {header && (
+            <div
+              style={{ ...styles.headerFooter, top: margins.header, left: margins.left, right: margins.right }}
+              dangerouslySetInnerHTML={{ __html: fillPageFields(header, n, laidOut.length) }}
+            />
+          )}
+          <div
+            className="document-viewer-docx"
+            style={{
+              ...styles.pageContent,
+              minHeight: height,
+              padding: `${margins.top}px ${margins.right}px ${margins.bottom}px ${margins.left}px`,
+            }}
+          >
+            <div dangerouslySetInnerHTML={{ __html: page.html }} />
+            {page.footnotes && <ol style={styles.footnotes} dangerouslySetInnerHTML={{ __html: page.footnotes }} />}
+          </div>
+          {footer && (
+            <div
+              style={{ ...styles.headerFooter, bottom: margins.footer, left: margins.left, right: margins.right }}
+              dangerouslySetInnerHTML={{ __html: fillPageFields(footer, n, laidOut.length) }}
+            />
+          )}
+        </div>
+      );
+    });
+
   return (
     <div
-      className="document-viewer-docx"
+      ref={rootRef}
       data-testid="docx-renderer"
-      dangerouslySetInnerHTML={{ __html: html || "" }}
-    />
+      className={`docx-review-${reviewView}`}
+      style={{
+        ...styles.root,
+        background: pageLayout ? "#525659" : "#fff",
+        ...(options?.viewerBackgroundColor ? { background: options.viewerBackgroundColor } : {}),
+      }}
+    >
+      <style>{DOCX_STYLES}</style>
+      {showToolbar && (
+        <PdfToolbar
+          showPageNavigation={pageLayout}
+          currentPage={currentPage}
+          totalPages={pages?.length ?? null}
+          pageInputValue={pageInputValue}
+          onPageInputChange={setPageInputValue}
+          onPageInputSubmit={handlePageInputSubmit}
+          onPrevPage={() => goToPage(Math.max(1, currentPage - 1))}
+          onNextPage={() => goToPage(Math.min(pages?.length ?? 1, currentPage + 1))}
+          zoomMode={zoomMode}
+          effectiveZoom={effectiveZoom}
+          onZoomChange={handleZoomChange}
+          onZoomIn={() => stepZoom(1)}
+          onZoomOut={() => stepZoom(-1)}
+          showSidebarToggle={sidebarEnabled && outline.length > 0}
+          sidebarOpen={sidebarOpen}
+          onToggleSidebar={() => setSidebarOpen((o) => !o)}
+          showSearch={options?.showSearch ?? true}
+          searchQuery={searchQuery}
+          matchIndex={matchCount ? matchIndex + 1 : 0}
+          matchCount={matchCount}
+          onSearchQueryChange={(value) => {
+            setSearchQuery(value);
+            setMatchIndex(0);
+          }}
+          onSearchNext={() => stepSearch(1)}
+          onSearchPrev={() => stepSearch(-1)}
+          showPrint={options?.showPrint ?? true}
+          showFullscreen={options?.showFullscreen ?? true}
+          backgroundColor={options?.toolbarBackgroundColor}
+          onDownload={() => downloadDocument(originalSrc, mimeType, options)}
+          onPrint={print}
+          onFullscreen={() => toggleFullscreen(rootRef.current, options)}
+        />
+      )}
+      {(review.revisions.length > 0 || review.comments.length > 0) && (
+        <div style={styles.reviewBar} data-testid="docx-review-bar">
+          <span>
+            {review.revisions.length} {review.revisions.length === 1 ? "change" : "changes"} ·{" "}
+            {review.comments.length} {review.comments.length === 1 ? "comment" : "comments"}
+          </span>
+          <span role="group" aria-label="Review view">
+            {(["markup", "final"] as const).map((view) => (
+              <button
+                key={view}
+                type="button"
+                style={styles.viewToggle(reviewView === view)}
+                aria-pressed={reviewView === view}
+                onClick={() => setReviewView(view)}
+              >
+                {view === "markup" ? "Markup" : "Final"}
+              </button>
+            ))}
+          </span>
+        </div>
+      )}
+      <div style={styles.body}>
+        {sidebarEnabled && sidebarOpen && outline.length > 0 && (
+          <div style={styles.sidebar} className="document-viewer-sidebar">
+            <DocumentOutline items={outline} activeId={activeHeading} onSelect={scrollToId} />
+          </div>
+        )}
+        <div ref={containerRef} style={styles.scroller}>
+          <div style={styles.reviewRow}>
+            <div style={styles.document}>
+              {!pageLayout ? (
+                <div
+                  ref={contentRef}
+                  style={{ zoom: effectiveZoom }}
+                  data-testid="docx-renderer-content"
+                >
+                  <div className="document-viewer-docx" style={styles.flow} dangerouslySetInnerHTML={{ __html: html }} />
+                </div>
+              ) : !pages || !setup ? (
+                <div className="document-viewer-loading" style={styles.loading}>
+                  Laying out pages…
+                </div>
+              ) : (
+                <div ref={contentRef} style={{ ...styles.canvas, zoom: effectiveZoom }} data-testid="docx-renderer-content">
+                  {renderPages(setup, pages)}
+                </div>
+              )}
+            </div>
+            {showComments && (
+              <aside ref={marginRef} style={styles.commentMargin} aria-label="Comments">
+                {review.comments.map((comment) => (
+                  <button
+                    key={comment.id}
+                    ref={(el) => {
+                      if (el) commentRefs.current.set(comment.id, el);
+                      else commentRefs.current.delete(comment.id);
+                    }}
+                    type="button"
+                    style={styles.commentCard(activeComment === comment.id, commentTops[comment.id])}
+                    aria-pressed={activeComment === comment.id}
+                    data-docx-comment-card={comment.id}
+                    onClick={() => selectComment(comment.id)}
+                  >
+                    <div style={styles.commentMeta}>
+                      <strong>{comment.author || "Unknown author"}</strong>
+                      <span>{formatCommentDate(comment.date)}</span>
+                    </div>
+                    <div style={styles.commentText}>{comment.text}</div>
+                  </button>
+                ))}
+              </aside>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
   );
 }
@@ -0,0 +1,317 @@
+import React, { useEffect, useMemo, useState } from "react";
+import type { RendererProps } from "../types";
+import { DocumentViewer } from "../DocumentViewer";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { buildEmailDocument, parseEmail } from "../utils/email";
+import type { EmailAttachment, ParsedEmail } from "../utils/email";
+import { downloadDocument } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+
+const styles = {
+  root: {
+    display: "flex",
+    flexDirection: "column" as const,
+    height: "100%",
+    width: "100%",
+    background: "#fff",
+    fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+    color: "#333",
+    fontSize: 14,
+  },
+  header: {
+    padding: "12px 16px",
+    borderBottom: "1px solid #d4d4d4",
+    background: "#f7f7f7",
+    flexShrink: 0,
+  },
+  subjectRow: {
+    display: "flex",
+    alignItems: "flex-start",
+    justifyContent: "space-between",
+    gap: 12,
+    marginBottom: 8,
+  },
+  subject: {
+    margin: 0,
+    fontSize: 18,
+    fontWeight: 600,
+    color: "#222",
+    wordBreak: "break-word" as const,
+  },
+  fields: {
+    display: "grid",
+    gridTemplateColumns: "auto 1fr",
+    columnGap: 12,
+    rowGap: 2,
+    fontSize: 13,
+  },
+  fieldLabel: {
+    color: "#888",
+  },
+  fieldValue: {
+    wordBreak: "break-word" as const,
+  },
+  notice: {
+    display: "flex",
+    alignItems: "center",
+    gap: 12,
+    padding: "6px 16px",
+    background: "#fff8e1",
+    borderBottom: "1px solid #f0e0a0",
+    fontSize: 13,
+    flexShrink: 0,
+  },
+  attachments: {
+    display: "flex",
+    flexWrap: "wrap" as const,
+    gap: 8,
+    padding: "8px 16px",
+    borderBottom: "1px solid #e4e4e4",
+    flexShrink: 0,
+    maxHeight: 120,
+    overflowY: "auto" as const,
+  },
+  attachment: {
+    display: "flex",
+    alignItems: "center",
+    gap: 6,
+    border: "1px solid #d4d4d4",
+    borderRadius: 6,
+    padding: "4px 6px 4px 10px",
+    fontSize: 13,
+    maxWidth: 320,
+  },
+  attachmentName: {
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+    whiteSpace: "nowrap" as const,
+  },
+  attachmentSize: {
+    color: "#888",
+    whiteSpace: "nowrap" as const,
+  },
+  btn: {
+    height: 26,
+    border: "1px solid #cfcfcf",
+    borderRadius: 6,
+    background: "#fff",
+    padding: "0 10px",
+    fontSize: 13,
+    cursor: "pointer",
+    color: "#333",
+    flexShrink: 0,
+  },
+  body: {
+    flex: 1,
+    minHeight: 0,
+    width: "100%",
+    border: "none",
+    background: "#fff",
+  },
+  nestedBar: {
+    display: "flex",
+    alignItems: "center",
+    gap: 12,
+    height: 40,
+    minHeight: 40,
+    padding: "0 12px",
+    background: "#f0f0f0",
+    borderBottom: "1px solid #d4d4d4",
+    fontSize: 13,
+  },
+  nested: {
+    flex: 1,
+    minHeight: 0,
+  },
+};
+
+function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatDate(value?: string): string | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+}
+
+function toFile(attachment: EmailAttachment): File {
+  return new File([attachment.data as BlobPart], attachment.fileName, { type: attachment.mimeType });
+}
+
+/**
+ * Email renderer for MIME (.eml) and Outlook (.msg) messages. The body is
+ * sanitized and shown in a sandboxed iframe with remote images blocked until
+ * the user allows them; attachments can be downloaded or opened in a nested
+ * DocumentViewer.
+ */
+export function EmailRenderer({ src, originalSrc, mimeType, options, theme, onRendererHandle }: RendererProps) {
+  const [email, setEmail] = useState<ParsedEmail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [allowRemoteImages, setAllowRemoteImages] = useState(options?.emailAllowRemoteImages ?? false);
+  const [openAttachment, setOpenAttachment] = useState<{ file: File; mimeType: string } | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setEmail(null);
+    setError(null);
+    setOpenAttachment(null);
+    (async () => {
+      try {
+        const buffer = await readSourceAsArrayBuffer(src, originalSrc, options?.request);
+        const parsed = await parseEmail(buffer);
+        if (!cancelled) setEmail(parsed);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to parse email");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [src, originalSrc]);
+
+  const body = useMemo(
+    () => (email ? buildEmailDocument(email, allowRemoteImages) : null),
+    [email, allowRemoteImages]
+  );
+
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["text", "download"],
+    getText: async () => {
+      if (!email) return "";
+      if (email.text != null) return email.text;
+      return new DOMParser().parseFromString(email.html ?? "", "text/html").body.textContent ?? "";
+    },
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  if (error) {
+    return (
+      <div className="document-viewer-error" data-testid="email-renderer-error">
+        {error}
+      </div>
+    );
+  }
+
+  if (!email || !body) {
+    return <div className="document-viewer-loading">Loading…</div>;
+  }
+
+  if (openAttachment) {
+    return (
+      <div style={styles.root} className="document-viewer-email" data-testid="email-renderer">
+        <div
+          style={{
+            ...styles.nestedBar,
+            ...(options?.toolbarBackgroundColor ? { background: options.toolbarBackgroundColor } : {}),
+          }}
+        >
+          <button type="button" style={styles.btn} onClick={() => setOpenAttachment(null)}>
+            ← Back to message
+          </button>
+          <span style={styles.attachmentName}>{openAttachment.file.name}</span>
+        </div>
+        <div style={styles.nested}>
+          <DocumentViewer
+            src={openAttachment.file}
+            mimeType={openAttachment.mimeType}
+            options={{ ...options, downloadFileName: openAttachment.file.name, onViewerReady: undefined }}
+            theme={theme}
+            style={{ height: "100%" }}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  const attachments = email.attachments.filter(
+    (att) => !att.contentId || !body.inlineContentIds.has(att.contentId)
+  );
+  const fields: [string, string | undefined][] = [
+    ["From", email.from],
+    ["To", email.to.join(", ")],
+    ["Cc", email.cc.join(", ")],
+    ["Date", formatDate(email.date)],
+  ];
+
+  return (
+    <div
+      style={{
+        ...styles.root,
+        ...(options?.viewerBackgroundColor ? { background: options.viewerBackgroundColor } : {}),
+      }}
+      className="document-viewer-email"
+      data-testid="email-renderer"
+    >
+      <div
+        style={{
+          ...styles.header,
+          ...(options?.toolbarBackgroundColor ? { background: options.toolbarBackgroundColor } : {}),
+        }}
+      >
+        <div style={styles.subjectRow}>
+          <h2 style={styles.subject}>{email.subject || "(no subject)"}</h2>
+          {(options?.showToolbar ?? true) && (
+            <button type="button" style={styles.btn} onClick={() => downloadDocument(originalSrc, mimeType, options)}>
+              Download
+            </button>
+          )}
+        </div>
+        <div style={styles.fields}>
+          {fields
+            .filter(([, value]) => value)
+            .map(([label, value]) => (
+              <React.Fragment key={label}>
+                <span style={styles.fieldLabel}>{label}</span>
+                <span style={styles.fieldValue}>{value}</span>
+              </React.Fragment>
+            ))}
+        </div>
+      </div>
+      {body.blockedImages > 0 && (
+        <div style={styles.notice} className="document-viewer-email-notice">
+          <span>
+            {body.blockedImages} remote image{body.blockedImages === 1 ? " was" : "s were"} blocked.
+          </span>
+          <button type="button" style={styles.btn} onClick={() => setAllowRemoteImages(true)}>
+            Show images
+          </button>
+        </div>
+      )}
+      {attachments.length > 0 && (
+        <div style={styles.attachments} className="document-viewer-email-attachments">
+          {attachments.map((att, i) => (
+            <div key={`${att.fileName}-${i}`} style={styles.attachment}>
+              <span style={styles.attachmentName} title={att.fileName}>
+                {att.fileName}
+              </span>
+              <span style={styles.attachmentSize}>{formatBytes(att.data.byteLength)}</span>
+              <button
+                type="button"
+                style={styles.btn}
+                onClick={() => setOpenAttachment({ file: toFile(att), mimeType: att.mimeType })}
+              >
+                Open
+              </button>
+              <button
+                type="button"
+                style={styles.btn}
+                onClick={() => downloadDocument(toFile(att), att.mimeType, { ...options, downloadFileName: att.fileName })}
+              >
+                Download
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+      <iframe
+        title={email.subject || "Email body"}
+        style={styles.body}
+        sandbox="allow-popups allow-popups-to-escape-sandbox"
+        srcDoc={body.html}
+      />
+    </div>
+  );
+}
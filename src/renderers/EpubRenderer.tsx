@@ -0,0 +1,588 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { RendererProps } from "../types";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { openEpub } from "../utils/epub";
+import type { EpubBook } from "../utils/epub";
+import { findTextMatches } from "../utils/textSearch";
+import { DocumentOutline } from "../components/DocumentOutline";
+import { downloadDocument } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+
+const SIDEBAR_WIDTH = 220;
+/** Longest comfortable line length; wider viewports get larger side margins. */
+const MAX_LINE_WIDTH = 760;
+const PAGE_PADDING = 32;
+const FONT_SCALE_MIN = 0.7;
+const FONT_SCALE_MAX = 2;
+const FONT_SCALE_STEP = 0.1;
+const LAYOUT_STYLE_ID = "document-viewer-epub-layout";
+const HIT_CLASS = "document-viewer-epub-hit";
+const ACTIVE_HIT_CLASS = "document-viewer-epub-hit-active";
+
+const styles = {
+  root: {
+    display: "flex",
+    flexDirection: "column" as const,
+    height: "100%",
+    width: "100%",
+    background: "#fff",
+    fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+    color: "#333",
+    fontSize: 14,
+    outline: "none",
+  },
+  toolbar: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    height: 40,
+    minHeight: 40,
+    padding: "0 8px",
+    background: "#f0f0f0",
+    borderBottom: "1px solid #d4d4d4",
+    gap: 8,
+    flexShrink: 0,
+    fontSize: 13,
+  },
+  toolbarGroup: {
+    display: "flex",
+    alignItems: "center",
+    gap: 6,
+    minWidth: 0,
+  },
+  toolbarBtn: (active = false) => ({
+    height: 28,
+    minWidth: 28,
+    border: "1px solid #cfcfcf",
+    borderRadius: 6,
+    background: active ? "#e0e0e0" : "#fff",
+    padding: "0 8px",
+    fontSize: 13,
+    cursor: "pointer",
+    color: "#333",
+  }),
+  status: {
+    color: "#666",
+    whiteSpace: "nowrap" as const,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  },
+  searchInput: {
+    height: 28,
+    width: 160,
+    border: "1px solid #cfcfcf",
+    borderRadius: 6,
+    padding: "0 8px",
+    fontSize: 13,
+    boxSizing: "border-box" as const,
+  },
+  body: {
+    display: "flex",
+    flex: 1,
+    minHeight: 0,
+  },
+  sidebar: {
+    width: SIDEBAR_WIDTH,
+    minWidth: SIDEBAR_WIDTH,
+    background: "#f7f7f7",
+    borderRight: "1px solid #d4d4d4",
+    overflowY: "auto" as const,
+    padding: "8px 6px",
+    boxSizing: "border-box" as const,
+  },
+  viewport: {
+    flex: 1,
+    minWidth: 0,
+    position: "relative" as const,
+    overflow: "hidden",
+  },
+  frame: {
+    border: "none",
+    width: "100%",
+    height: "100%",
+    display: "block",
+    background: "transparent",
+  },
+};
+
+interface PendingTarget {
+  fragment?: string;
+  lastPage?: boolean;
+  /** Position to restore after a relayout, as a fraction of the section. */
+  fraction?: number;
+}
+
+interface SearchHit {
+  section: number;
+  index: number;
+}
+
+function clearHighlights(doc: Document) {
+  doc.querySelectorAll(`mark.${HIT_CLASS}`).forEach((mark) => {
+    mark.replaceWith(doc.createTextNode(mark.textContent ?? ""));
+  });
+  doc.body.normalize();
+}
+
+function applyHighlights(doc: Document, query: string, activeIndex: number): HTMLElement | null {
+  clearHighlights(doc);
+  const matches = findTextMatches(doc.body, query);
+  let active: HTMLElement | null = null;
+  // Wrap from the end so earlier offsets in the same text node stay valid.
+  for (let i = matches.length - 1; i >= 0; i -= 1) {
+    const { node, start } = matches[i];
+    const range = doc.createRange();
+    range.setStart(node, start);
+    range.setEnd(node, start + query.trim().length);
+    const mark = doc.createElement("mark");
+    mark.className = i === activeIndex ? `${HIT_CLASS} ${ACTIVE_HIT_CLASS}` : HIT_CLASS;
+    range.surroundContents(mark);
+    if (i === activeIndex) active = mark;
+  }
+  return active;
+}
+
+async function loadSectionDocument(book: EpubBook, index: number): Promise<Document> {
+  return new DOMParser().parseFromString(await book.loadSection(index), "text/html");
+}
+
+/**
+ * EPUB reader. Follows the OPF spine, shows the nav/NCX table of contents in
+ * the sidebar, and paginates each section to the viewport with CSS columns.
+ * Sections render in a script-less sandboxed iframe so book styles stay
+ * isolated from the host page.
+ */
+export function EpubRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
+  const [book, setBook] = useState<EpubBook | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [sectionHtml, setSectionHtml] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+  const [pageCount, setPageCount] = useState(1);
+  const [fontScale, setFontScale] = useState(1);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [searchHits, setSearchHits] = useState<SearchHit[]>([]);
+  const [searchIndex, setSearchIndex] = useState(0);
+  const showToolbar = options?.showToolbar ?? true;
+  const showSearch = options?.showSearch ?? true;
+  const sidebarEnabled = (options?.sidebarMode ?? (options?.showSidebar === false ? "none" : "outline")) !== "none";
+  const [sidebarOpen, setSidebarOpen] = useState(sidebarEnabled);
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const pendingRef = useRef<PendingTarget>({});
+  const pageRef = useRef(0);
+  const pageCountRef = useRef(1);
+  const fontScaleRef = useRef(fontScale);
+  fontScaleRef.current = fontScale;
+
+  useEffect(() => {
+    let cancelled = false;
+    let opened: EpubBook | null = null;
+    setBook(null);
+    setError(null);
+    setSectionIndex(0);
+    (async () => {
+      try {
+        const buffer = await readSourceAsArrayBuffer(src, originalSrc, options?.request);
+        opened = await openEpub(buffer);
+        if (cancelled) {
+          opened.dispose();
+          return;
+        }
+        setBook(opened);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load EPUB");
+      }
+    })();
+    return () => {
+      cancelled = true;
+      opened?.dispose();
+    };
+  }, [src, originalSrc]);
+
+  useEffect(() => {
+    if (!book) return;
+    let cancelled = false;
+    setSectionHtml(null);
+    book
+      .loadSection(sectionIndex)
+      .then((html) => {
+        if (!cancelled) setSectionHtml(html);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load EPUB section");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [book, sectionIndex]);
+
+  const getFrameDocument = () => frameRef.current?.contentDocument ?? null;
+
+  const goToPage = useCallback((next: number) => {
+    const frame = frameRef.current;
+    const win = frame?.contentWindow;
+    const clamped = Math.max(0, Math.min(pageCountRef.current - 1, next));
+    pageRef.current = clamped;
+    setPage(clamped);
+    win?.scrollTo(clamped * (frame?.clientWidth ?? 0), 0);
+  }, []);
+
+  const pageOfElement = (el: Element): number => {
+    const frame = frameRef.current;
+    const width = frame?.clientWidth || 1;
+    const left = el.getBoundingClientRect().left + (frame?.contentWindow?.scrollX ?? 0);
+    return Math.floor(left / width);
+  };
+
+  /** Applies column pagination for the current viewport and font size, then resolves any pending target. */
+  const layout = useCallback(() => {
+    const frame = frameRef.current;
+    const doc = frame?.contentDocument;
+    if (!frame || !doc?.body) return;
+    const width = frame.clientWidth;
+    const height = frame.clientHeight;
+    if (!width || !height) return;
+    const margin = Math.max(24, Math.round((width - MAX_LINE_WIDTH) / 2));
+    let style = doc.getElementById(LAYOUT_STYLE_ID);
+    if (!style) {
+      style = doc.createElement("style");
+      style.id = LAYOUT_STYLE_ID;
+      doc.head.appendChild(style);
+    }
+    style.textContent = `
+html { margin: 0; padding: 0; height: ${height}px; overflow: hidden; font-size: ${Math.round(fontScaleRef.current * 100)}%; }
+body { margin: 0 !important; box-sizing: border-box; height: ${height}px; padding: ${PAGE_PADDING}px ${margin}px !important;
+  column-width: ${width - margin * 2}px; column-gap: ${margin * 2}px; column-fill: auto; overflow-wrap: break-word; }
+img, svg, video { max-width: 100%; max-height: ${height - PAGE_PADDING * 2}px; object-fit: contain; }
+mark.${HIT_CLASS} { background: rgba(255, 213, 0, 0.45); color: inherit; }
+mark.${ACTIVE_HIT_CLASS} { background: rgba(255, 150, 0, 0.8); }
+`;
+    const count = Math.max(1, Math.ceil((doc.documentElement.scrollWidth - 1) / width));
+    pageCountRef.current = count;
+    setPageCount(count);
+
+    const pending = pendingRef.current;
+    pendingRef.current = {};
+    let target = Math.min(pageRef.current, count - 1);
+    if (pending.lastPage) target = count - 1;
+    else if (pending.fraction != null) target = Math.round(pending.fraction * count);
+    const anchor =
+      pending.fragment != null
+        ? doc.getElementById(pending.fragment) ?? doc.querySelector(`[name="${CSS.escape(pending.fragment)}"]`)
+        : null;
+    if (anchor) target = pageOfElement(anchor);
+    goToPage(target);
+  }, [goToPage]);
+
+  const relayoutKeepingPosition = useCallback(() => {
+    pendingRef.current = { fraction: pageRef.current / pageCountRef.current };
+    layout();
+  }, [layout]);
+
+  const goToSection = useCallback(
+    (index: number, target: PendingTarget = {}) => {
+      if (!book || index < 0 || index >= book.sections.length) return;
+      pendingRef.current = target;
+      if (index === sectionIndex) {
+        layout();
+        return;
+      }
+      pageRef.current = 0;
+      setPage(0);
+      setSectionIndex(index);
+    },
+    [book, sectionIndex, layout]
+  );
+
+  const nextPage = useCallback(() => {
+    if (pageRef.current < pageCountRef.current - 1) goToPage(pageRef.current + 1);
+    else goToSection(sectionIndex + 1);
+  }, [goToPage, goToSection, sectionIndex]);
+
+  const prevPage = useCallback(() => {
+    if (pageRef.current > 0) goToPage(pageRef.current - 1);
+    else goToSection(sectionIndex - 1, { lastPage: true });
+  }, [goToPage, goToSection, sectionIndex]);
+
+  // Search across all sections; hits are (section, nth match in section).
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!book || !query) {
+      setSearchHits([]);
+      setSearchIndex(0);
+      return;
+    }
+    let cancelled = false;
+    const id = window.setTimeout(async () => {
+      const hits: SearchHit[] = [];
+      for (let i = 0; i < book.sections.length; i += 1) {
+        const doc = await loadSectionDocument(book, i);
+        if (cancelled) return;
+        const count = findTextMatches(doc.body, query).length;
+        for (let k = 0; k < count; k += 1) hits.push({ section: i, index: k });
+      }
+      if (cancelled) return;
+      setSearchHits(hits);
+      const first = hits.findIndex((hit) => hit.section >= sectionIndex);
+      setSearchIndex(first === -1 ? 0 : first);
+    }, 250);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(id);
+    };
+    // sectionIndex only picks the starting hit; navigating must not re-run the search.
+  }, [book, searchQuery]);
+
+  const activeHit = searchHits[searchIndex];
+
+  const highlightCurrentSection = useCallback(() => {
+    const doc = getFrameDocument();
+    if (!doc?.body) return;
+    const query = searchQuery.trim();
+    if (!query) {
+      clearHighlights(doc);
+      return;
+    }
+    const active = applyHighlights(doc, query, activeHit?.section === sectionIndex ? activeHit.index : -1);
+    if (active) goToPage(pageOfElement(active));
+  }, [searchQuery, activeHit, sectionIndex, goToPage]);
+
+  // Jump to a hit in another section only when the active hit changes, not when the user pages away.
+  const navigatedHitRef = useRef<SearchHit | undefined>();
+  useEffect(() => {
+    if (activeHit && activeHit !== navigatedHitRef.current && activeHit.section !== sectionIndex) {
+      navigatedHitRef.current = activeHit;
+      goToSection(activeHit.section);
+      return;
+    }
+    navigatedHitRef.current = activeHit;
+    highlightCurrentSection();
+  }, [activeHit, sectionIndex, goToSection, highlightCurrentSection]);
+
+  const handleKeyDown = useCallback(
+    (event: KeyboardEvent | React.KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.tagName === "INPUT") return;
+      if (event.key === "ArrowRight" || event.key === "PageDown") {
+        event.preventDefault();
+        nextPage();
+      } else if (event.key === "ArrowLeft" || event.key === "PageUp") {
+        event.preventDefault();
+        prevPage();
+      }
+    },
+    [nextPage, prevPage]
+  );
+
+  const handleFrameLoad = useCallback(() => {
+    const doc = getFrameDocument();
+    if (!doc || !book) return;
+    const sectionPath = book.sections[sectionIndex]?.path ?? "";
+    doc.addEventListener("keydown", handleKeyDown);
+    doc.addEventListener("click", (event) => {
+      const anchor = (event.target as Element | null)?.closest?.("a[href]");
+      const href = anchor?.getAttribute("href");
+      if (!href) return;
+      event.preventDefault();
+      const link = book.resolveLink(sectionPath, href);
+      if (link) goToSection(link.index, { fragment: link.fragment });
+      else if (/^https?:/i.test(href)) window.open(href, "_blank", "noopener,noreferrer");
+    });
+    layout();
+    highlightCurrentSection();
+  }, [book, sectionIndex, handleKeyDown, layout, goToSection, highlightCurrentSection]);
+
+  useEffect(() => {
+    relayoutKeepingPosition();
+  }, [fontScale, sidebarOpen, relayoutKeepingPosition]);
+
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport || typeof ResizeObserver === "undefined") return;
+    const ro = new ResizeObserver(() => relayoutKeepingPosition());
+    ro.observe(viewport);
+    return () => ro.disconnect();
+  }, [relayoutKeepingPosition, book]);
+
+  const outlineItems = useMemo(
+    () => (book?.toc ?? []).map((item, i) => ({ id: String(i), text: item.label, level: item.level })),
+    [book]
+  );
+  const activeOutlineId = useMemo(() => {
+    if (!book) return null;
+    const path = book.sections[sectionIndex]?.path;
+    const index = book.toc.findIndex((item) => item.path === path);
+    return index === -1 ? null : String(index);
+  }, [book, sectionIndex]);
+
+  const handleOutlineSelect = useCallback(
+    (id: string) => {
+      const item = book?.toc[Number(id)];
+      if (!book || !item) return;
+      const index = book.sections.findIndex((s) => s.path === item.path);
+      if (index !== -1) goToSection(index, { fragment: item.fragment });
+    },
+    [book, goToSection]
+  );
+
+  // Zoom scales the reading font size.
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["zoom", "search", "text", "download"],
+    setZoom: (value) => setFontScale(Math.min(FONT_SCALE_MAX, Math.max(FONT_SCALE_MIN, value))),
+    search: async (query) => {
+      setSearchQuery(query);
+      if (!book || !query.trim()) return 0;
+      let count = 0;
+      for (let i = 0; i < book.sections.length; i += 1) {
+        count += findTextMatches((await loadSectionDocument(book, i)).body, query.trim()).length;
+      }
+      return count;
+    },
+    getText: async () => {
+      if (!book) return "";
+      const texts: string[] = [];
+      for (let i = 0; i < book.sections.length; i += 1) {
+        texts.push((await loadSectionDocument(book, i)).body.textContent?.trim() ?? "");
+      }
+      return texts.join("\n\n");
+    },
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  const stepSearch = (delta: number) => {
+    if (searchHits.length === 0) return;
+    setSearchIndex((i) => (i + delta + searchHits.length) % searchHits.length);
+  };
+
+  if (error) {
+    return (
+      <div className="document-viewer-error" data-testid="epub-renderer-error">
+        {error}
+      </div>
+    );
+  }
+
+  if (!book) {
+    return <div className="document-viewer-loading">Loading…</div>;
+  }
+
+  const sectionCount = book.sections.length;
+  const atStart = sectionIndex === 0 && page === 0;
+  const atEnd = sectionIndex === sectionCount - 1 && page >= pageCount - 1;
+
+  return (
+    <div
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      style={{
+        ...styles.root,
+        ...(options?.viewerBackgroundColor ? { background: options.viewerBackgroundColor } : {}),
+      }}
+      className="document-viewer-epub"
+      data-testid="epub-renderer"
+    >
+      {showToolbar && (
+        <div style={{ ...styles.toolbar, ...(options?.toolbarBackgroundColor ? { background: options.toolbarBackgroundColor } : {}) }}>
+          <div style={styles.toolbarGroup}>
+            {sidebarEnabled && outlineItems.length > 0 && (
+              <button
+                type="button"
+                style={styles.toolbarBtn(sidebarOpen)}
+                aria-pressed={sidebarOpen}
+                title="Table of contents"
+                onClick={() => setSidebarOpen((o) => !o)}
+              >
+                ☰
+              </button>
+            )}
+            <button type="button" style={styles.toolbarBtn()} title="Previous page" disabled={atStart} onClick={prevPage}>
+              ‹
+            </button>
+            <span style={styles.status}>
+              Page {page + 1} / {pageCount} · Section {sectionIndex + 1} / {sectionCount}
+            </span>
+            <button type="button" style={styles.toolbarBtn()} title="Next page" disabled={atEnd} onClick={nextPage}>
+              ›
+            </button>
+          </div>
+          <div style={styles.toolbarGroup}>
+            <button
+              type="button"
+              style={styles.toolbarBtn()}
+              title="Smaller text"
+              disabled={fontScale <= FONT_SCALE_MIN}
+              onClick={() => setFontScale((s) => Math.max(FONT_SCALE_MIN, Math.round((s - FONT_SCALE_STEP) * 10) / 10))}
+            >
+              A−
+            </button>
+            <span style={styles.status}>{Math.round(fontScale * 100)}%</span>
+            <button
+              type="button"
+              style={styles.toolbarBtn()}
+              title="Larger text"
+              disabled={fontScale >= FONT_SCALE_MAX}
+              onClick={() => setFontScale((s) => Math.min(FONT_SCALE_MAX, Math.round((s + FONT_SCALE_STEP) * 10) / 10))}
+            >
+              A+
+            </button>
+          </div>
+          <div style={styles.toolbarGroup}>
+            {showSearch && (
+              <>
+                <input
+                  type="search"
+                  placeholder="Search"
+                  aria-label="Search"
+                  style={styles.searchInput}
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") stepSearch(e.shiftKey ? -1 : 1);
+                  }}
+                />
+                {searchQuery.trim() && (
+                  <span style={styles.status}>
+                    {searchHits.length ? `${searchIndex + 1} / ${searchHits.length}` : "0 / 0"}
+                  </span>
+                )}
+                <button type="button" style={styles.toolbarBtn()} title="Previous match" disabled={!searchHits.length} onClick={() => stepSearch(-1)}>
+                  ▲
+                </button>
+                <button type="button" style={styles.toolbarBtn()} title="Next match" disabled={!searchHits.length} onClick={() => stepSearch(1)}>
+                  ▼
+                </button>
+              </>
+            )}
+            <button type="button" style={styles.toolbarBtn()} onClick={() => downloadDocument(originalSrc, mimeType, options)}>
+              Download
+            </button>
+          </div>
+        </div>
+      )}
+      <div style={styles.body}>
+        {sidebarEnabled && sidebarOpen && outlineItems.length > 0 && (
+          <div style={styles.sidebar} className="document-viewer-sidebar">
+            <DocumentOutline items={outlineItems} activeId={activeOutlineId} onSelect={handleOutlineSelect} />
+          </div>
+        )}
+        <div ref={viewportRef} style={styles.viewport} className="document-viewer-epub-viewport">
+          {sectionHtml == null ? (
+            <div className="document-viewer-loading">Loading…</div>
+          ) : (
+            <iframe
+              ref={frameRef}
+              title={book.title || "EPUB"}
+              style={styles.frame}
+              // Same-origin (for layout and search) but no scripts: section HTML is sanitized.
+              sandbox="allow-same-origin"
+              srcDoc={sectionHtml}
+              onLoad={handleFrameLoad}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
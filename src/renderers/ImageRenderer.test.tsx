@@ -0,0 +1,59 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { ImageRenderer } from "./ImageRenderer";
+
+vi.mock("../utils/loadSource", () => ({
+  readSourceAsArrayBuffer: vi.fn(),
+}));
+
+vi.mock("../utils/documentActions", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../utils/documentActions")>()),
+  printDocument: vi.fn(),
+}));
+
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { printDocument } from "../utils/documentActions";
+
+const MALICIOUS_SVG =
+  '<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"><script>alert(2)</script><rect width="10" height="10"/></svg>';
+
+describe("ImageRenderer", () => {
+  const createObjectURL = vi.fn();
+
+  beforeEach(() => {
+    vi.mocked(printDocument).mockReset();
+    createObjectURL.mockReset().mockReturnValue("blob:https://app.example.com/sanitized");
+    // jsdom has neither object URLs nor ResizeObserver.
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        observe() {}
+        disconnect() {}
+      }
+    );
+    vi.mocked(readSourceAsArrayBuffer).mockResolvedValue(new TextEncoder().encode(MALICIOUS_SVG).buffer);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("prints the sanitized SVG instead of the original file", async () => {
+    const file = new File([MALICIOUS_SVG], "logo.svg", { type: "image/svg+xml" });
+    render(<ImageRenderer src="blob:https://app.example.com/original" originalSrc={file} mimeType="image/svg+xml" />);
+    await waitFor(() => expect(createObjectURL).toHaveBeenCalled());
+    const sanitized = createObjectURL.mock.calls[0][0] as Blob;
+    const markup = await new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(sanitized);
+    });
+    expect(markup).not.toMatch(/script|onload/i);
+
+    fireEvent.click(screen.getByTitle("Print"));
+    expect(printDocument).toHaveBeenCalledWith("blob:https://app.example.com/sanitized", "image/svg+xml", undefined);
+    expect(printDocument).not.toHaveBeenCalledWith(file, expect.anything(), expect.anything());
+  });
+});
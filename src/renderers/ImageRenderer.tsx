@@ -0,0 +1,392 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import DOMPurify from "dompurify";
+import type { RendererProps } from "../types";
+import { PdfToolbar } from "../components/PdfToolbar";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { isRemoteUrl } from "../utils/request";
+import { downloadDocument, printDocument, toggleFullscreen } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+
+type ZoomMode = "custom" | "pageFit" | "pageWidth";
+
+const ZOOM_STEPS = [0.1, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3, 4, 6, 8];
+const MIN_ZOOM = 0.05;
+const MAX_ZOOM = 10;
+const FIT_PADDING = 16;
+const WHEEL_ZOOM_SENSITIVITY = 0.0015;
+const SVG_NAMESPACE = "http://www.w3.org/2000/svg";
+
+const styles = {
+  root: {
+    display: "flex",
+    flexDirection: "column" as const,
+    height: "100%",
+    width: "100%",
+    background: "#525659",
+    fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+    color: "#333",
+    fontSize: 14,
+  },
+  viewer: {
+    flex: 1,
+    minHeight: 0,
+    overflow: "auto",
+    position: "relative" as const,
+    touchAction: "none" as const,
+    userSelect: "none" as const,
+  },
+  stage: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    minWidth: "100%",
+    minHeight: "100%",
+    width: "max-content",
+    padding: FIT_PADDING,
+    boxSizing: "border-box" as const,
+  },
+  message: {
+    position: "absolute" as const,
+    inset: 0,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    color: "#eee",
+  },
+};
+
+function clampZoom(value: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value));
+}
+
+/**
+ * Sanitizes SVG markup so embedded scripts, event handlers and foreign content
+ * cannot run, and makes sure the root element carries the SVG namespace
+ * (required when the result is loaded as an image).
+ */
+function sanitizeSvg(markup: string): string {
+  const clean = DOMPurify.sanitize(markup, { USE_PROFILES: { svg: true, svgFilters: true } });
+  if (!/<svg[\s>]/i.test(clean)) return "";
+  if (/<svg[^>]*\sxmlns=/i.test(clean)) return clean;
+  return clean.replace(/<svg/i, `<svg xmlns="${SVG_NAMESPACE}"`);
+}
+
+function isSvgSource(mimeType: string, src: string): boolean {
+  return mimeType === "image/svg+xml" || /\.svg(\?|#|$)/i.test(src);
+}
+
+/**
+ * Image renderer for PNG/JPEG/GIF/WebP/SVG/BMP with wheel/pinch zoom,
+ * drag-to-pan, 90° rotation and fit modes. SVG files are sanitized and shown
+ * through an <img> element, so scripts inside them never execute.
+ */
+export function ImageRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
+  const isSvg = isSvgSource(mimeType, src);
+  // An <img> can't send request headers, so authenticated images are fetched into an object URL.
+  const fetchImage = isSvg || (options?.request != null && isRemoteUrl(src));
+  const [imageUrl, setImageUrl] = useState<string | null>(fetchImage ? null : src);
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(options?.zoom ?? 1);
+  const [zoomMode, setZoomMode] = useState<ZoomMode>(options?.zoom != null ? "custom" : "pageFit");
+  const [rotation, setRotation] = useState(0);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [panning, setPanning] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const zoomAnchorRef = useRef<{ x: number; y: number; contentX: number; contentY: number } | null>(null);
+  const pointersRef = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const gestureRef = useRef<
+    | { type: "pan"; x: number; y: number; scrollLeft: number; scrollTop: number }
+    | { type: "pinch"; distance: number; zoom: number }
+    | null
+  >(null);
+  const showToolbar = options?.showToolbar ?? true;
+  const showPrint = options?.showPrint ?? true;
+  const showFullscreen = options?.showFullscreen ?? true;
+
+  useEffect(() => {
+    setNaturalSize(null);
+    setError(null);
+    if (!fetchImage) {
+      setImageUrl(src);
+      return;
+    }
+    setImageUrl(null);
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    (async () => {
+      try {
+        const buffer = await readSourceAsArrayBuffer(src, originalSrc, options?.request);
+        if (cancelled) return;
+        if (isSvg) {
+          const clean = sanitizeSvg(new TextDecoder("utf-8").decode(buffer));
+          if (!clean) throw new Error("Invalid SVG image");
+          objectUrl = URL.createObjectURL(new Blob([clean], { type: "image/svg+xml" }));
+        } else {
+          objectUrl = URL.createObjectURL(new Blob([buffer], { type: mimeType }));
+        }
+        setImageUrl(objectUrl);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load image");
+      }
+    })();
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [src, originalSrc, isSvg, fetchImage, mimeType]);
+
+  useEffect(() => {
+    const el = viewerRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => {
+      setViewport({ width: el.clientWidth, height: el.clientHeight });
+    });
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  const rotated = rotation % 180 !== 0;
+  const contentWidth = naturalSize ? (rotated ? naturalSize.height : naturalSize.width) : 0;
+  const contentHeight = naturalSize ? (rotated ? naturalSize.width : naturalSize.height) : 0;
+
+  const effectiveZoom = useMemo(() => {
+    if (zoomMode === "custom" || !contentWidth || !contentHeight || viewport.width === 0) return zoom;
+    const availableWidth = Math.max(1, viewport.width - FIT_PADDING * 2);
+    const availableHeight = Math.max(1, viewport.height - FIT_PADDING * 2);
+    if (zoomMode === "pageWidth") return clampZoom(availableWidth / contentWidth);
+    return clampZoom(Math.min(availableWidth / contentWidth, availableHeight / contentHeight));
+  }, [zoomMode, zoom, contentWidth, contentHeight, viewport]);
+
+  /** Sets a custom zoom, keeping the content point under (x, y) — or the viewport center — in place. */
+  const applyZoom = useCallback(
+    (next: number, anchor?: { x: number; y: number }) => {
+      const viewer = viewerRef.current;
+      const box = boxRef.current;
+      if (viewer && box) {
+        const x = anchor?.x ?? viewer.clientWidth / 2;
+        const y = anchor?.y ?? viewer.clientHeight / 2;
+        zoomAnchorRef.current = {
+          x,
+          y,
+          contentX: (viewer.scrollLeft + x - box.offsetLeft) / effectiveZoom,
+          contentY: (viewer.scrollTop + y - box.offsetTop) / effectiveZoom,
+        };
+      }
+      setZoomMode("custom");
+      setZoom(clampZoom(next));
+    },
+    [effectiveZoom]
+  );
+
+  useLayoutEffect(() => {
+    const anchor = zoomAnchorRef.current;
+    const viewer = viewerRef.current;
+    const box = boxRef.current;
+    if (!anchor || !viewer || !box) return;
+    zoomAnchorRef.current = null;
+    viewer.scrollLeft = anchor.contentX * effectiveZoom + box.offsetLeft - anchor.x;
+    viewer.scrollTop = anchor.contentY * effectiveZoom + box.offsetTop - anchor.y;
+  }, [effectiveZoom]);
+
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = viewer.getBoundingClientRect();
+      const factor = Math.exp(-event.deltaY * WHEEL_ZOOM_SENSITIVITY * (event.ctrlKey ? 4 : 1));
+      applyZoom(effectiveZoom * factor, { x: event.clientX - rect.left, y: event.clientY - rect.top });
+    };
+    viewer.addEventListener("wheel", onWheel, { passive: false });
+    return () => viewer.removeEventListener("wheel", onWheel);
+  }, [applyZoom, effectiveZoom]);
+
+  function startGesture() {
+    const viewer = viewerRef.current;
+    const points = Array.from(pointersRef.current.values());
+    if (!viewer || points.length === 0) {
+      gestureRef.current = null;
+      setPanning(false);
+      return;
+    }
+    if (points.length === 1) {
+      gestureRef.current = {
+        type: "pan",
+        x: points[0].x,
+        y: points[0].y,
+        scrollLeft: viewer.scrollLeft,
+        scrollTop: viewer.scrollTop,
+      };
+      setPanning(true);
+      return;
+    }
+    const [a, b] = points;
+    gestureRef.current = { type: "pinch", distance: Math.hypot(a.x - b.x, a.y - b.y), zoom: effectiveZoom };
+    setPanning(false);
+  }
+
+  function handlePointerDown(event: React.PointerEvent<HTMLDivElement>) {
+    if (event.pointerType === "mouse" && event.button !== 0) return;
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    startGesture();
+  }
+
+  function handlePointerMove(event: React.PointerEvent<HTMLDivElement>) {
+    if (!pointersRef.current.has(event.pointerId)) return;
+    pointersRef.current.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    const viewer = viewerRef.current;
+    const gesture = gestureRef.current;
+    if (!viewer || !gesture) return;
+    if (gesture.type === "pan") {
+      viewer.scrollLeft = gesture.scrollLeft - (event.clientX - gesture.x);
+      viewer.scrollTop = gesture.scrollTop - (event.clientY - gesture.y);
+      return;
+    }
+    const [a, b] = Array.from(pointersRef.current.values());
+    if (!a || !b || gesture.distance === 0) return;
+    const rect = viewer.getBoundingClientRect();
+    applyZoom(gesture.zoom * (Math.hypot(a.x - b.x, a.y - b.y) / gesture.distance), {
+      x: (a.x + b.x) / 2 - rect.left,
+      y: (a.y + b.y) / 2 - rect.top,
+    });
+  }
+
+  // SVGs print from the sanitized copy: opening the original file would run its scripts with the host page's origin.
+  function handlePrint() {
+    if (!isSvg) {
+      printDocument(originalSrc, mimeType, options);
+    } else if (imageUrl) {
+      printDocument(imageUrl, mimeType, options);
+    }
+  }
+
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["zoom", "print", "download"],
+    setZoom: (value) => applyZoom(value),
+    print: handlePrint,
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  function handlePointerUp(event: React.PointerEvent<HTMLDivElement>) {
+    if (!pointersRef.current.delete(event.pointerId)) return;
+    startGesture();
+  }
+
+  function handleZoomChange(value: string) {
+    if (value === "pageFit" || value === "pageWidth") {
+      setZoomMode(value);
+    } else {
+      applyZoom(parseFloat(value));
+    }
+  }
+
+  function handleZoomIn() {
+    const next = ZOOM_STEPS.find((p) => p > effectiveZoom + 0.01);
+    applyZoom(next ?? effectiveZoom * 1.25);
+  }
+
+  function handleZoomOut() {
+    const next = [...ZOOM_STEPS].reverse().find((p) => p < effectiveZoom - 0.01);
+    applyZoom(next ?? effectiveZoom / 1.25);
+  }
+
+  function handleImageLoad(event: React.SyntheticEvent<HTMLImageElement>) {
+    const img = event.currentTarget;
+    // SVGs without intrinsic dimensions report 0; use the browser's default replaced-element size.
+    setNaturalSize({ width: img.naturalWidth || 300, height: img.naturalHeight || 150 });
+  }
+
+  return (
+    <div
+      style={{
+        ...styles.root,
+        ...(options?.viewerBackgroundColor ? { background: options.viewerBackgroundColor } : {}),
+      }}
+      data-testid="image-renderer"
+      ref={rootRef}
+    >
+      {showToolbar && (
+        <PdfToolbar
+          showPageNavigation={false}
+          currentPage={1}
+          totalPages={1}
+          pageInputValue="1"
+          onPageInputChange={() => {}}
+          onPageInputSubmit={() => {}}
+          onPrevPage={() => {}}
+          onNextPage={() => {}}
+          zoomMode={zoomMode}
+          effectiveZoom={effectiveZoom}
+          onZoomChange={handleZoomChange}
+          onZoomIn={handleZoomIn}
+          onZoomOut={handleZoomOut}
+          onRotate={() => setRotation((r) => (r + 90) % 360)}
+          showSearch={false}
+          showPrint={showPrint}
+          showFullscreen={showFullscreen}
+          backgroundColor={options?.toolbarBackgroundColor}
+          onDownload={() => downloadDocument(originalSrc, mimeType, options)}
+          onPrint={handlePrint}
+          onFullscreen={() => toggleFullscreen(rootRef.current, options)}
+        />
+      )}
+      <div
+        ref={viewerRef}
+        style={{ ...styles.viewer, cursor: panning ? "grabbing" : "grab" }}
+        className="document-viewer-image-viewer"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div style={styles.stage}>
+          <div
+            ref={boxRef}
+            style={{
+              position: "relative",
+              flexShrink: 0,
+              width: contentWidth * effectiveZoom,
+              height: contentHeight * effectiveZoom,
+            }}
+          >
+            {imageUrl && !error && (
+              <img
+                src={imageUrl}
+                alt=""
+                draggable={false}
+                onLoad={handleImageLoad}
+                onError={() => setError("Failed to load image")}
+                style={{
+                  position: "absolute",
+                  left: "50%",
+                  top: "50%",
+                  maxWidth: "none",
+                  transform: `translate(-50%, -50%) rotate(${rotation}deg)`,
+                  ...(naturalSize
+                    ? { width: naturalSize.width * effectiveZoom, height: naturalSize.height * effectiveZoom }
+                    : { visibility: "hidden" as const }),
+                  ...(options?.pageBackgroundColor ? { background: options.pageBackgroundColor } : {}),
+                }}
+              />
+            )}
+          </div>
+        </div>
+        {error ? (
+          <div className="document-viewer-error" data-testid="image-renderer-error" style={styles.message}>
+            {error}
+          </div>
+        ) : (
+          !naturalSize && (
+            <div className="document-viewer-loading" style={styles.message}>
+              Loading image…
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import React from "react";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, act } from "@testing-library/react";
+import { MarkdownRenderer } from "./MarkdownRenderer";
+
+vi.mock("../utils/loadSource", () => ({
+  readSourceAsArrayBuffer: vi.fn(async () => new TextEncoder().encode("Claim[^1].\n\n[^1]: Source.").buffer),
+}));
+
+describe("MarkdownRenderer", () => {
+  const originalScrollIntoView = Element.prototype.scrollIntoView;
+
+  afterEach(() => {
+    Element.prototype.scrollIntoView = originalScrollIntoView;
+  });
+
+  it("scrolls to footnotes inside the viewer instead of changing the page hash", async () => {
+    const scrollIntoView = vi.fn();
+    Element.prototype.scrollIntoView = scrollIntoView;
+    render(<MarkdownRenderer src="https://example.com/notes.md" originalSrc="https://example.com/notes.md" mimeType="text/markdown" />);
+    await screen.findByText("Source.", { exact: false });
+    // Let the effect that attaches the anchor handler run before clicking.
+    await act(async () => {});
+    const link = document.querySelector<HTMLAnchorElement>('a[href="#footnote-1"]')!;
+    const notPrevented = fireEvent.click(link);
+    expect(notPrevented).toBe(false);
+    expect(scrollIntoView).toHaveBeenCalledTimes(1);
+    expect(window.location.hash).toBe("");
+  });
+});
@@ -0,0 +1,196 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { RendererProps } from "../types";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { decodeText } from "../utils/detectEncoding";
+import { renderMarkdown } from "../utils/markdown";
+import { DocumentOutline } from "../components/DocumentOutline";
+import { downloadDocument } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+import "highlight.js/styles/github.css";
+
+const SIDEBAR_WIDTH = 220;
+
+const MARKDOWN_STYLES = `
+.document-viewer-markdown-body { line-height: 1.6; word-wrap: break-word; }
+.document-viewer-markdown-body h1, .document-viewer-markdown-body h2 { border-bottom: 1px solid #e4e4e4; padding-bottom: 0.3em; }
+.document-viewer-markdown-body table { border-collapse: collapse; display: block; overflow: auto; margin: 1em 0; }
+.document-viewer-markdown-body th, .document-viewer-markdown-body td { border: 1px solid #d4d4d4; padding: 6px 12px; }
+.document-viewer-markdown-body tr:nth-child(2n) { background: #f7f7f7; }
+.document-viewer-markdown-body pre { background: #f6f8fa; border-radius: 6px; padding: 12px 16px; overflow: auto; }
+.document-viewer-markdown-body code { font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; font-size: 0.9em; }
+.document-viewer-markdown-body :not(pre) > code { background: rgba(175,184,193,0.2); border-radius: 4px; padding: 0.15em 0.35em; }
+.document-viewer-markdown-body blockquote { margin: 0 0 1em; padding: 0 1em; color: #666; border-left: 4px solid #d4d4d4; }
+.document-viewer-markdown-body img { max-width: 100%; }
+.document-viewer-markdown-body li:has(> input[type="checkbox"]) { list-style: none; }
+.document-viewer-markdown-body li > input[type="checkbox"] { margin: 0 0.4em 0 -1.3em; }
+.document-viewer-markdown-body .footnotes { font-size: 0.85em; color: #555; border-top: 1px solid #e4e4e4; margin-top: 2em; }
+`;
+
+const styles = {
+  root: {
+    display: "flex",
+    height: "100%",
+    width: "100%",
+    background: "#fff",
+    fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+    color: "#24292e",
+    fontSize: 15,
+  },
+  sidebar: {
+    width: SIDEBAR_WIDTH,
+    minWidth: SIDEBAR_WIDTH,
+    background: "#f7f7f7",
+    borderRight: "1px solid #d4d4d4",
+    overflowY: "auto" as const,
+    padding: "8px 6px",
+    boxSizing: "border-box" as const,
+  },
+  content: {
+    flex: 1,
+    minWidth: 0,
+    overflowY: "auto" as const,
+  },
+  article: {
+    maxWidth: 860,
+    margin: "0 auto",
+    padding: "24px 32px 48px",
+  },
+};
+
+function getBaseUrl(originalSrc: RendererProps["originalSrc"], override?: string): string | undefined {
+  if (override) return override;
+  if (typeof originalSrc !== "string" || typeof window === "undefined") return undefined;
+  try {
+    return new URL(originalSrc, window.location.href).href;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Markdown renderer (GitHub-flavored). Output is sanitized with DOMPurify,
+ * relative links/images resolve against the source URL (or markdownBaseUrl),
+ * and headings feed an outline sidebar.
+ */
+export function MarkdownRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
+  const [source, setSource] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const baseUrl = getBaseUrl(originalSrc, options?.markdownBaseUrl);
+  const showOutline =
+    (options?.sidebarMode ?? (options?.showSidebar === false ? "none" : "outline")) !== "none";
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      try {
+        const buffer = await readSourceAsArrayBuffer(src, originalSrc, options?.request);
+        if (cancelled) return;
+        setSource(decodeText(buffer).text);
+        setError(null);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load Markdown");
+      }
+    }
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [src, originalSrc]);
+
+  const rendered = useMemo(
+    () => (source == null ? null : renderMarkdown(source, baseUrl)),
+    [source, baseUrl]
+  );
+
+  const scrollToId = useCallback((id: string) => {
+    const target = contentRef.current?.querySelector(`[id="${CSS.escape(id)}"]`);
+    if (!target) return;
+    target.scrollIntoView({ behavior: "smooth", block: "start" });
+    setActiveId(id);
+  }, []);
+
+  // In-document anchors (headings, footnotes) scroll inside the viewer instead of changing the page hash.
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+    const onClick = (event: MouseEvent) => {
+      const anchor = (event.target as HTMLElement | null)?.closest?.("a") as HTMLAnchorElement | null;
+      const href = anchor?.getAttribute("href");
+      if (!href || !href.startsWith("#")) return;
+      event.preventDefault();
+      scrollToId(decodeURIComponent(href.slice(1)));
+    };
+    content.addEventListener("click", onClick);
+    return () => content.removeEventListener("click", onClick);
+  }, [scrollToId, rendered]);
+
+  // Track the heading nearest the top of the viewport for the outline.
+  useEffect(() => {
+    const content = contentRef.current;
+    if (!content || !rendered || rendered.outline.length === 0) return;
+    let ticking = false;
+    const onScroll = () => {
+      if (ticking) return;
+      ticking = true;
+      requestAnimationFrame(() => {
+        ticking = false;
+        const top = content.getBoundingClientRect().top;
+        let current: string | null = rendered.outline[0].id;
+        for (const item of rendered.outline) {
+          const el = content.querySelector(`[id="${CSS.escape(item.id)}"]`);
+          if (!el) continue;
+          if (el.getBoundingClientRect().top - top <= 16) current = item.id;
+          else break;
+        }
+        setActiveId(current);
+      });
+    };
+    content.addEventListener("scroll", onScroll, { passive: true });
+    return () => content.removeEventListener("scroll", onScroll);
+  }, [rendered]);
+
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["text", "download"],
+    getText: async () => contentRef.current?.textContent ?? "",
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  if (error) {
+    return (
+      <div className="document-viewer-error" data-testid="markdown-renderer-error">
+        {error}
+      </div>
+    );
+  }
+
+  if (!rendered) {
+    return <div className="document-viewer-loading">Loading…</div>;
+  }
+
+  return (
+    <div
+      style={{
+        ...styles.root,
+        ...(options?.viewerBackgroundColor ? { background: options.viewerBackgroundColor } : {}),
+      }}
+      className="document-viewer-markdown"
+      data-testid="markdown-renderer"
+    >
+      <style>{MARKDOWN_STYLES}</style>
+      {showOutline && rendered.outline.length > 0 && (
+        <div style={styles.sidebar} className="document-viewer-sidebar">
+          <DocumentOutline items={rendered.outline} activeId={activeId} onSelect={scrollToId} />
+        </div>
+      )}
+      <div ref={contentRef} style={styles.content}>
+        <article
+          style={styles.article}
+          className="document-viewer-markdown-body"
+          dangerouslySetInnerHTML={{ __html: rendered.html }}
+        />
+      </div>
+    </div>
+  );
+}
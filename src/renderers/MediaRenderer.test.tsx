@@ -0,0 +1,42 @@
+import React from "react";
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen, fireEvent, waitFor } from "@testing-library/react";
+import { MediaRenderer } from "./MediaRenderer";
+
+vi.mock("../utils/loadSource", () => ({
+  readSourceAsArrayBuffer: vi.fn(),
+}));
+
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+
+const VTT = "WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHello there\n";
+
+describe("MediaRenderer", () => {
+  beforeEach(() => {
+    vi.mocked(readSourceAsArrayBuffer).mockReset().mockImplementation(async () => new TextEncoder().encode(VTT).buffer);
+    // jsdom has no object URLs.
+    Object.assign(URL, { createObjectURL: vi.fn(() => "blob:https://app.example.com/vtt"), revokeObjectURL: vi.fn() });
+  });
+
+  it("loads captions once when tracks are passed inline and falls back when the list shrinks", async () => {
+    const props = { src: "https://example.com/talk.mp4", originalSrc: "https://example.com/talk.mp4", mimeType: "video/mp4" };
+    const tracks = () => [
+      { src: "https://example.com/en.vtt", label: "English" },
+      { src: "https://example.com/de.vtt", label: "Deutsch" },
+    ];
+    const { rerender } = render(<MediaRenderer {...props} options={{ mediaTracks: tracks() }} />);
+    await screen.findAllByText("Hello there");
+    rerender(<MediaRenderer {...props} options={{ mediaTracks: tracks() }} />);
+    rerender(<MediaRenderer {...props} options={{ mediaTracks: tracks() }} />);
+    expect(readSourceAsArrayBuffer).toHaveBeenCalledTimes(1);
+
+    fireEvent.change(screen.getByLabelText("Caption track"), { target: { value: "1" } });
+    await waitFor(() => expect(readSourceAsArrayBuffer).toHaveBeenCalledTimes(2));
+    expect(vi.mocked(readSourceAsArrayBuffer).mock.calls[1][0]).toBe("https://example.com/de.vtt");
+
+    rerender(<MediaRenderer {...props} options={{ mediaTracks: [{ src: "https://example.com/fr.vtt", label: "Français" }] }} />);
+    await waitFor(() => expect(readSourceAsArrayBuffer).toHaveBeenCalledTimes(3));
+    expect(vi.mocked(readSourceAsArrayBuffer).mock.calls[2][0]).toBe("https://example.com/fr.vtt");
+    expect((screen.queryByLabelText("Caption track") as HTMLSelectElement | null)?.value ?? "0").toBe("0");
+  });
+});
@@ -0,0 +1,371 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { MediaViewerApi, RendererProps } from "../types";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { decodeText } from "../utils/detectEncoding";
+import { findActiveCue, formatTimestamp, parseCaptions, toWebVtt } from "../utils/captions";
+import type { CaptionCue } from "../utils/captions";
+import { downloadDocument, getDownloadFileName } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+
+const TRANSCRIPT_WIDTH = 320;
+
+const styles = {
+  root: {
+    display: "flex",
+    flexDirection: "column" as const,
+    height: "100%",
+    width: "100%",
+    background: "#fff",
+    fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+    color: "#333",
+    fontSize: 14,
+  },
+  toolbar: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    height: 40,
+    minHeight: 40,
+    padding: "0 12px",
+    background: "#f0f0f0",
+    borderBottom: "1px solid #d4d4d4",
+    gap: 12,
+    flexShrink: 0,
+    fontSize: 13,
+  },
+  toolbarTitle: {
+    color: "#666",
+    whiteSpace: "nowrap" as const,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  },
+  toolbarGroup: {
+    display: "flex",
+    alignItems: "center",
+    gap: 8,
+  },
+  toolbarBtn: {
+    height: 28,
+    border: "1px solid #cfcfcf",
+    borderRadius: 6,
+    background: "#fff",
+    padding: "0 10px",
+    fontSize: 13,
+    cursor: "pointer",
+    color: "#333",
+  },
+  select: {
+    height: 28,
+    border: "1px solid #cfcfcf",
+    borderRadius: 6,
+    fontSize: 13,
+  },
+  body: {
+    display: "flex",
+    flex: 1,
+    minHeight: 0,
+  },
+  stage: {
+    flex: 1,
+    minWidth: 0,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    background: "#111",
+  },
+  video: {
+    maxWidth: "100%",
+    maxHeight: "100%",
+    width: "100%",
+    height: "100%",
+    objectFit: "contain" as const,
+  },
+  audioCard: {
+    display: "flex",
+    flexDirection: "column" as const,
+    alignItems: "center",
+    gap: 16,
+    padding: 24,
+    width: "min(520px, 90%)",
+    color: "#eee",
+  },
+  audio: {
+    width: "100%",
+  },
+  transcript: {
+    width: TRANSCRIPT_WIDTH,
+    minWidth: TRANSCRIPT_WIDTH,
+    display: "flex",
+    flexDirection: "column" as const,
+    borderLeft: "1px solid #d4d4d4",
+    background: "#f7f7f7",
+  },
+  transcriptSearch: {
+    margin: 8,
+    height: 28,
+    border: "1px solid #cfcfcf",
+    borderRadius: 6,
+    padding: "0 8px",
+    fontSize: 13,
+  },
+  cueList: {
+    flex: 1,
+    overflowY: "auto" as const,
+    listStyle: "none",
+    margin: 0,
+    padding: "0 6px 8px",
+  },
+  cue: (active: boolean) => ({
+    display: "flex",
+    gap: 8,
+    width: "100%",
+    textAlign: "left" as const,
+    border: "none",
+    borderRadius: 4,
+    background: active ? "#dbe9f9" : "transparent",
+    padding: "6px",
+    fontSize: 13,
+    color: "#333",
+    cursor: "pointer",
+  }),
+  cueTime: {
+    color: "#4A90D9",
+    fontVariantNumeric: "tabular-nums" as const,
+    flexShrink: 0,
+  },
+  cueText: {
+    whiteSpace: "pre-wrap" as const,
+  },
+  transcriptEmpty: {
+    padding: 12,
+    color: "#888",
+    fontSize: 13,
+  },
+};
+
+function highlight(text: string, query: string): React.ReactNode {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return text;
+  const parts: React.ReactNode[] = [];
+  const lower = text.toLowerCase();
+  let last = 0;
+  for (let i = lower.indexOf(needle); i !== -1; i = lower.indexOf(needle, i + needle.length)) {
+    if (i > last) parts.push(text.slice(last, i));
+    parts.push(<mark key={i}>{text.slice(i, i + needle.length)}</mark>);
+    last = i + needle.length;
+  }
+  parts.push(text.slice(last));
+  return parts;
+}
+
+/**
+ * Audio/video renderer using the native media elements. Caption tracks from
+ * options.mediaTracks (WebVTT or SRT) are shown as subtitles and as a
+ * searchable transcript; clicking a cue seeks to it.
+ */
+export function MediaRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
+  const mediaRef = useRef<HTMLVideoElement & HTMLAudioElement>(null);
+  const cueListRef = useRef<HTMLUListElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [trackIndex, setTrackIndex] = useState(0);
+  const [cues, setCues] = useState<CaptionCue[]>([]);
+  const [trackError, setTrackError] = useState<string | null>(null);
+  const [vttUrl, setVttUrl] = useState<string | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [query, setQuery] = useState("");
+  const tracks = options?.mediaTracks ?? [];
+  // The selection falls back to the first track when the list shrinks.
+  const activeTrackIndex = trackIndex < tracks.length ? trackIndex : 0;
+  const track = tracks[activeTrackIndex];
+  const trackSrc = track?.src;
+  const isVideo = mimeType.startsWith("video/");
+  const showToolbar = options?.showToolbar ?? true;
+  const fileName = getDownloadFileName(originalSrc, options?.downloadFileName);
+
+  useEffect(() => {
+    if (trackIndex !== activeTrackIndex) setTrackIndex(activeTrackIndex);
+  }, [trackIndex, activeTrackIndex]);
+
+  // Keyed on the track file, so hosts passing mediaTracks inline don't refetch captions on every render.
+  useEffect(() => {
+    setCues([]);
+    setTrackError(null);
+    setVttUrl(null);
+    if (trackSrc == null) return;
+    let cancelled = false;
+    let url: string | null = null;
+    (async () => {
+      try {
+        const buffer = await readSourceAsArrayBuffer(typeof trackSrc === "string" ? trackSrc : "", trackSrc, options?.request);
+        if (cancelled) return;
+        const parsed = parseCaptions(decodeText(buffer).text);
+        setCues(parsed);
+        // Native <track> only understands WebVTT, so SRT is converted.
+        url = URL.createObjectURL(new Blob([toWebVtt(parsed)], { type: "text/vtt" }));
+        setVttUrl(url);
+      } catch (e) {
+        if (!cancelled) setTrackError(e instanceof Error ? e.message : "Failed to load captions");
+      }
+    })();
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [trackSrc]);
+
+  const api = useMemo<MediaViewerApi>(
+    () => ({
+      play: () => mediaRef.current?.play() ?? Promise.resolve(),
+      pause: () => mediaRef.current?.pause(),
+      seek: (seconds: number) => {
+        if (mediaRef.current) mediaRef.current.currentTime = Math.max(0, seconds);
+      },
+      getCurrentTime: () => mediaRef.current?.currentTime ?? 0,
+      getDuration: () => mediaRef.current?.duration || 0,
+    }),
+    []
+  );
+
+  useEffect(() => {
+    options?.onMediaReady?.(api);
+  }, [options?.onMediaReady, api]);
+
+  // Search and text cover the loaded caption track.
+  useRendererHandle(onRendererHandle, {
+    capabilities: cues.length > 0 ? ["search", "text", "download"] : ["download"],
+    search: async (q) => {
+      setQuery(q);
+      const needle = q.trim().toLowerCase();
+      return needle ? cues.filter((cue) => cue.text.toLowerCase().includes(needle)).length : 0;
+    },
+    getText: async () => cues.map((cue) => cue.text).join("\n"),
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  const activeCue = findActiveCue(cues, currentTime);
+  const visibleCues = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const indexed = cues.map((cue, index) => ({ cue, index }));
+    return needle ? indexed.filter(({ cue }) => cue.text.toLowerCase().includes(needle)) : indexed;
+  }, [cues, query]);
+
+  // Keep the active cue in view while playing (not while the user is searching).
+  useEffect(() => {
+    if (activeCue === -1 || query.trim()) return;
+    const el = cueListRef.current?.querySelector(`[data-cue-index="${activeCue}"]`);
+    el?.scrollIntoView?.({ block: "nearest" });
+  }, [activeCue, query]);
+
+  if (error) {
+    return (
+      <div className="document-viewer-error" data-testid="media-renderer-error">
+        {error}
+      </div>
+    );
+  }
+
+  const mediaProps = {
+    ref: mediaRef,
+    src,
+    controls: true,
+    preload: "metadata",
+    onTimeUpdate: (e: React.SyntheticEvent<HTMLMediaElement>) => setCurrentTime(e.currentTarget.currentTime),
+    onSeeked: (e: React.SyntheticEvent<HTMLMediaElement>) => setCurrentTime(e.currentTarget.currentTime),
+    onError: () => setError("This media format cannot be played in this browser"),
+  };
+  const trackElement = vttUrl && track && (
+    <track
+      key={vttUrl}
+      kind="subtitles"
+      src={vttUrl}
+      label={track.label ?? track.language ?? "Captions"}
+      srcLang={track.language}
+      default
+    />
+  );
+
+  return (
+    <div
+      style={{
+        ...styles.root,
+        ...(options?.viewerBackgroundColor ? { background: options.viewerBackgroundColor } : {}),
+      }}
+      className="document-viewer-media"
+      data-testid="media-renderer"
+    >
+      {showToolbar && (
+        <div style={{ ...styles.toolbar, ...(options?.toolbarBackgroundColor ? { background: options.toolbarBackgroundColor } : {}) }}>
+          <span style={styles.toolbarTitle}>{fileName}</span>
+          <div style={styles.toolbarGroup}>
+            {tracks.length > 1 && (
+              <select
+                aria-label="Caption track"
+                style={styles.select}
+                value={activeTrackIndex}
+                onChange={(e) => setTrackIndex(Number(e.target.value))}
+              >
+                {tracks.map((t, i) => (
+                  <option key={i} value={i}>
+                    {t.label ?? t.language ?? `Track ${i + 1}`}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button type="button" style={styles.toolbarBtn} onClick={() => downloadDocument(originalSrc, mimeType, options)}>
+              Download
+            </button>
+          </div>
+        </div>
+      )}
+      <div style={styles.body}>
+        <div style={styles.stage}>
+          {isVideo ? (
+            <video {...mediaProps} style={styles.video} playsInline>
+              {trackElement}
+            </video>
+          ) : (
+            <div style={styles.audioCard}>
+              <span>{fileName}</span>
+              <audio {...mediaProps} style={styles.audio}>
+                {trackElement}
+              </audio>
+            </div>
+          )}
+        </div>
+        {track && (
+          <div style={styles.transcript} className="document-viewer-media-transcript">
+            <input
+              type="search"
+              placeholder="Search transcript"
+              aria-label="Search transcript"
+              style={styles.transcriptSearch}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            {trackError ? (
+              <div style={styles.transcriptEmpty}>{trackError}</div>
+            ) : visibleCues.length === 0 ? (
+              <div style={styles.transcriptEmpty}>{query.trim() ? "No matches" : "No captions"}</div>
+            ) : (
+              <ul ref={cueListRef} style={styles.cueList}>
+                {visibleCues.map(({ cue, index }) => (
+                  <li key={index} data-cue-index={index}>
+                    <button
+                      type="button"
+                      style={styles.cue(index === activeCue)}
+                      aria-current={index === activeCue ? "true" : undefined}
+                      onClick={() => api.seek(cue.start)}
+                    >
+                      <span style={styles.cueTime}>{formatTimestamp(cue.start)}</span>
+                      <span style={styles.cueText}>{highlight(cue.text, query)}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import React from "react";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { render, screen, fireEvent, act } from "@testing-library/react";
+import { OdtRenderer } from "./OdtRenderer";
+
+vi.mock("../utils/loadSource", () => ({
+  readSourceAsArrayBuffer: vi.fn(async () => new ArrayBuffer(0)),
+}));
+
+vi.mock("../utils/odtToHtml", () => ({
+  odtToHtml: vi.fn(
+    async () =>
+      '<p>Claim<sup><a href="#odt-note-1" id="odt-note-ref-1">1</a></sup></p><hr><ol class="footnotes"><li id="odt-note-1"><p>Source</p></li></ol>'
+  ),
+}));
+
+describe("OdtRenderer", () => {
+  const originalScrollIntoView = Element.prototype.scrollIntoView;
+
+  afterEach(() => {
+    Element.prototype.scrollIntoView = originalScrollIntoView;
+  });
+
+  it("scrolls to footnotes inside the viewer instead of changing the page hash", async () => {
+    const scrollIntoView = vi.fn();
+    Element.prototype.scrollIntoView = scrollIntoView;
+    render(<OdtRenderer src="https://example.com/notes.odt" originalSrc="https://example.com/notes.odt" mimeType="application/vnd.oasis.opendocument.text" />);
+    await screen.findByText("Source");
+    // Let the effect that attaches the anchor handler run before clicking.
+    await act(async () => {});
+    const notPrevented = fireEvent.click(screen.getByText("1"));
+    expect(notPrevented).toBe(false);
+    expect(scrollIntoView).toHaveBeenCalledTimes(1);
+    expect(scrollIntoView.mock.instances[0]).toBe(document.getElementById("odt-note-1"));
+    expect(window.location.hash).toBe("");
+  });
+});
@@ -0,0 +1,74 @@
+import React, { useState, useEffect, useRef } from "react";
+import type { RendererProps } from "../types";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { downloadDocument } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+import { odtToHtml } from "../utils/odtToHtml";
+
+export function OdtRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
+  const [html, setHtml] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      try {
+        const arrayBuffer = await readSourceAsArrayBuffer(src, originalSrc, options?.request);
+        if (cancelled) return;
+        const result = await odtToHtml(arrayBuffer);
+        if (cancelled) return;
+        setHtml(result);
+        setError(null);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load ODT");
+      }
+    }
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [src, originalSrc]);
+
+  // Footnote links scroll inside the viewer instead of changing the page hash; ids are looked up
+  // within this container so several ODT viewers on one page don't reach into each other.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const onClick = (event: MouseEvent) => {
+      const anchor = (event.target as HTMLElement | null)?.closest?.("a") as HTMLAnchorElement | null;
+      const href = anchor?.getAttribute("href");
+      if (!href || !href.startsWith("#")) return;
+      event.preventDefault();
+      el.querySelector(`[id="${CSS.escape(decodeURIComponent(href.slice(1)))}"]`)?.scrollIntoView({
+        behavior: "smooth",
+        block: "start",
+      });
+    };
+    el.addEventListener("click", onClick);
+    return () => el.removeEventListener("click", onClick);
+  }, [html, error]);
+
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["text", "download"],
+    getText: async () => containerRef.current?.textContent ?? "",
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  if (error) {
+    return (
+      <div className="document-viewer-error" data-testid="odt-renderer-error">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="document-viewer-odt"
+      data-testid="odt-renderer"
+      dangerouslySetInnerHTML={{ __html: html || "" }}
+    />
+  );
+}
@@ -1,25 +1,25 @@
 import React from "react";
 import type { RendererProps } from "../types";
+import { downloadDocument } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
 
 /**
- * OfficePdfFallback is used when the host provides onRequestPdfConversion.
- * DocumentViewer should call that callback and then render the returned PDF URL
- * with PdfRenderer. This component is only mounted when we already have a PDF URL
- * from conversion (handled by DocumentViewer routing). So here we just show
- * a message if someone lands on this renderer without conversion.
+ * OfficePdfFallback is mounted for Office formats without a client-side
+ * renderer (DOC, PPT, ODP) when no converter is configured. With
+ * onRequestPdfConversion or conversionWorkerUrl, DocumentViewer converts the
+ * file and renders the PDF instead, so here we just explain how to enable that.
  */
-export function OfficePdfFallback({ originalSrc }: RendererProps) {
-  const isBlob = originalSrc instanceof Blob;
+export function OfficePdfFallback({ originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["download"],
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
   return (
     <div className="document-viewer-office-fallback" data-testid="office-pdf-fallback">
-      {isBlob ? (
-        <p>
-          For high-fidelity viewing of Office documents, provide{" "}
-          <code>onRequestPdfConversion</code> to convert this file to PDF on the server.
-        </p>
-      ) : (
-        <p>Provide a PDF URL after server conversion, or use DOCX renderer for semantic preview.</p>
-      )}
+      <p>
+        To view this Office document, provide <code>onRequestPdfConversion</code> or{" "}
+        <code>conversionWorkerUrl</code> to convert it to PDF on the server.
+      </p>
     </div>
   );
 }
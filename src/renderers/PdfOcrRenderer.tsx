@@ -1,8 +1,13 @@
-import React, { useCallback, useState, useRef, useEffect } from "react";
+import React, { useCallback, useMemo, useState, useRef, useEffect } from "react";
 import { Document, Page } from "react-pdf";
 import { pdfjs } from "react-pdf";
 import { createWorker } from "tesseract.js";
 import type { RendererProps } from "../types";
+import { downloadDocument, printDocument } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+import { createLoadProgressStore, getPdfDocumentOptions } from "../utils/pdfLoading";
+import { usePdfSource } from "../utils/usePdfSource";
+import { PdfLoadProgressIndicator } from "../components/PdfLoadProgress";
 import "react-pdf/dist/Page/AnnotationLayer.css";
 import "react-pdf/dist/Page/TextLayer.css";
 
@@ -63,7 +68,7 @@ interface PageOcrResult {
  * Renders the raster at high DPI, then runs OCR on each page canvas and
  * overlays transparent text for selection/copy.
  */
-export function PdfOcrRenderer({ src, options }: RendererProps) {
+export function PdfOcrRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
   const workerSrc = getPdfWorkerSrc();
   if (pdfjs.GlobalWorkerOptions.workerSrc !== workerSrc) {
     pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
@@ -71,6 +76,19 @@ export function PdfOcrRenderer({ src, options }: RendererProps) {
   const [numPages, setNumPages] = useState<number | null>(null);
   const [ocrResults, setOcrResults] = useState<PageOcrResult[]>([]);
   const [ocrError, setOcrError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [loadProgress] = useState(createLoadProgressStore);
+  const { disableRange, rangeChunkSize, disableStream, disableAutoFetch } = options?.pdfLoading ?? {};
+  const pdfSource = usePdfSource(src, options?.request);
+  const { httpHeaders, withCredentials } = pdfSource;
+  const documentOptions = useMemo(
+    () => ({
+      ...getPdfDocumentOptions({ disableRange, rangeChunkSize, disableStream, disableAutoFetch }),
+      ...(httpHeaders ? { httpHeaders } : {}),
+      ...(withCredentials ? { withCredentials } : {}),
+    }),
+    [disableRange, rangeChunkSize, disableStream, disableAutoFetch, httpHeaders, withCredentials]
+  );
   const containerRef = useRef<HTMLDivElement>(null);
   const zoom = options?.zoom ?? 1;
   const canvasDpr = getCanvasDpr(options?.resolutionScale);
@@ -137,6 +155,34 @@ export function PdfOcrRenderer({ src, options }: RendererProps) {
     };
   }, [numPages, src]);
 
+  const pageElements = () =>
+    Array.from(containerRef.current?.querySelectorAll<HTMLElement>(".react-pdf__Page") ?? []);
+  const needle = searchQuery.trim().toLowerCase();
+  const isMatch = (word: OcrWord) => needle !== "" && word.text.toLowerCase().includes(needle);
+
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["pages", "search", "text", "print", "download"],
+    getPageCount: () => numPages ?? 0,
+    getCurrentPage: () => {
+      // First page whose bottom edge is still below the top of the viewport.
+      const index = pageElements().findIndex((el) => el.getBoundingClientRect().bottom > 0);
+      return numPages ? Math.max(index, 0) + 1 : 0;
+    },
+    goToPage: (page) => pageElements()[page - 1]?.scrollIntoView({ behavior: "smooth", block: "start" }),
+    search: async (query) => {
+      setSearchQuery(query);
+      const q = query.trim().toLowerCase();
+      if (!q) return 0;
+      return ocrResults.reduce(
+        (count, result) => count + result.words.filter((w) => w.text.toLowerCase().includes(q)).length,
+        0
+      );
+    },
+    getText: async () => ocrResults.map((result) => result.words.map((w) => w.text).join(" ")).join("\n\n"),
+    print: () => printDocument(originalSrc, mimeType, options),
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
   return (
     <div
       ref={containerRef}
@@ -144,26 +190,37 @@ export function PdfOcrRenderer({ src, options }: RendererProps) {
       data-testid="pdf-ocr-renderer"
       style={{ position: "relative" }}
     >
-      <Document
-        file={src}
-        onLoadSuccess={({ numPages: n }) => setNumPages(n)}
-        loading={<div className="document-viewer-loading">Loading PDF…</div>}
-        error={<div className="document-viewer-error">Failed to load PDF</div>}
-      >
-        {numPages !== null &&
-          Array.from({ length: numPages }, (_, i) => (
-            <Page
-              key={i + 1}
-              pageNumber={i + 1}
-              width={A4_WIDTH_PX}
-              scale={zoom}
-              devicePixelRatio={canvasDpr}
-              canvasRef={canvasRef}
-              renderTextLayer={false}
-              renderAnnotationLayer={true}
-            />
-          ))}
-      </Document>
+      {pdfSource.error && <div className="document-viewer-error">Failed to load PDF</div>}
+      {!pdfSource.error && pdfSource.file == null && <div className="document-viewer-loading">Loading PDF…</div>}
+      {pdfSource.file != null && (
+        <Document
+          file={pdfSource.file}
+          options={documentOptions}
+          onLoadProgress={({ loaded, total }) => loadProgress.set({ loaded, total })}
+          onLoadSuccess={({ numPages: n }) => setNumPages(n)}
+          loading={
+            <div className="document-viewer-loading">
+              Loading PDF…
+              <PdfLoadProgressIndicator store={loadProgress} />
+            </div>
+          }
+          error={<div className="document-viewer-error">Failed to load PDF</div>}
+        >
+          {numPages !== null &&
+            Array.from({ length: numPages }, (_, i) => (
+              <Page
+                key={i + 1}
+                pageNumber={i + 1}
+                width={A4_WIDTH_PX}
+                scale={zoom}
+                devicePixelRatio={canvasDpr}
+                canvasRef={canvasRef}
+                renderTextLayer={false}
+                renderAnnotationLayer={true}
+              />
+            ))}
+        </Document>
+      )}
       {ocrError && (
         <div className="document-viewer-error" style={{ padding: "0.5rem" }}>
           OCR: {ocrError}
@@ -200,6 +257,7 @@ export function PdfOcrRenderer({ src, options }: RendererProps) {
                   fontSize: `${(bbox.y1 - bbox.y0) * scaleY}px`,
                   lineHeight: 1,
                   color: "transparent",
+                  background: isMatch(w) ? "rgba(255, 213, 0, 0.4)" : undefined,
                   userSelect: "text",
                   pointerEvents: "auto",
                 }}
@@ -0,0 +1,156 @@
+import React, { useEffect } from "react";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, fireEvent, waitFor, act, cleanup } from "@testing-library/react";
+import type { RendererHandle } from "../types";
+import { PdfRenderer } from "./PdfRenderer";
+
+const fakePdf = vi.hoisted(() => ({
+  numPages: 200,
+  getPage: null as unknown as (page: number) => Promise<unknown>,
+  getPermissions: async () => null,
+}));
+
+/** Lets a test hold the document in its loading state and count Document renders. */
+const documentMock = vi.hoisted(() => ({
+  autoLoad: true,
+  renders: 0,
+  onLoadProgress: undefined as ((progress: { loaded: number; total: number }) => void) | undefined,
+}));
+
+interface MockDocumentProps {
+  onLoadSuccess?: (pdf: unknown) => void;
+  onLoadProgress?: (progress: { loaded: number; total: number }) => void;
+  loading?: React.ReactNode;
+  children?: React.ReactNode;
+}
+
+vi.mock("react-pdf", () => ({
+  pdfjs: { GlobalWorkerOptions: { workerSrc: "" } },
+  Document: ({ onLoadSuccess, onLoadProgress, loading, children }: MockDocumentProps) => {
+    documentMock.renders++;
+    documentMock.onLoadProgress = onLoadProgress;
+    useEffect(() => {
+      if (documentMock.autoLoad) onLoadSuccess?.(fakePdf);
+    }, []);
+    return <div>{documentMock.autoLoad ? children : loading}</div>;
+  },
+  Page: ({ pageNumber }: { pageNumber: number }) => <div data-testid="pdf-page" data-page={pageNumber} />,
+  Outline: () => null,
+}));
+
+/** Pages 5 and 200 are landscape (half as tall); the others are portrait 3:4. */
+const pageAspect = (page: number) => (page === 5 || page === 200 ? 0.5 : 4 / 3);
+
+function mountedPages(): number[] {
+  return screen.queryAllByTestId("pdf-page").map((el) => Number(el.getAttribute("data-page")));
+}
+
+function renderPdf(options: React.ComponentProps<typeof PdfRenderer>["options"] = {}) {
+  let handle: RendererHandle | null = null;
+  const utils = render(
+    <PdfRenderer
+      src="https://example.com/long.pdf"
+      originalSrc="https://example.com/long.pdf"
+      mimeType="application/pdf"
+      options={{ sidebarMode: "none", ...options }}
+      onRendererHandle={(h) => {
+        handle = h;
+      }}
+    />
+  );
+  return { ...utils, getHandle: () => handle! };
+}
+
+describe("PdfRenderer windowing", () => {
+  const getPage = vi.fn();
+  const scrollIntoView = vi.fn();
+  const originalScrollIntoView = Element.prototype.scrollIntoView;
+
+  beforeEach(() => {
+    getPage.mockReset().mockImplementation(async (page: number) => ({
+      getViewport: ({ scale }: { scale: number }) => ({ width: 600 * scale, height: 600 * pageAspect(page) * scale }),
+    }));
+    fakePdf.getPage = getPage;
+    documentMock.autoLoad = true;
+    scrollIntoView.mockReset();
+    Element.prototype.scrollIntoView = scrollIntoView;
+    vi.stubGlobal(
+      "ResizeObserver",
+      class {
+        observe() {}
+        disconnect() {}
+      }
+    );
+  });
+
+  afterEach(() => {
+    // Unmount before the stubs go; afterEach hooks may run in parallel with the library's own cleanup.
+    cleanup();
+    Element.prototype.scrollIntoView = originalScrollIntoView;
+    vi.unstubAllGlobals();
+  });
+
+  it("sizes placeholders for every page but mounts and measures only the window", async () => {
+    const { container } = renderPdf({ pdfLoading: { disableAutoFetch: true } });
+    await waitFor(() => expect(container.querySelectorAll("[data-page-number]")).toHaveLength(200));
+    expect(mountedPages()).toEqual([1, 2, 3]);
+    await waitFor(() => expect(getPage).toHaveBeenCalledTimes(3));
+    // Unmeasured pages take the first page's proportions.
+    const wrapper = (page: number) => container.querySelector<HTMLElement>(`[data-page-number="${page}"]`)!;
+    expect(parseFloat(wrapper(100).style.height)).toBeCloseTo(794 * (4 / 3));
+  });
+
+  it("loads page sizes as pages scroll into view and tracks the current page", async () => {
+    const { container, getHandle } = renderPdf({ pdfLoading: { disableAutoFetch: true } });
+    await waitFor(() => expect(mountedPages()).toEqual([1, 2, 3]));
+    const wrapper = (page: number) => container.querySelector<HTMLElement>(`[data-page-number="${page}"]`)!;
+
+    // Scroll so page 5 (the landscape page) fills the viewport, once its size has loaded.
+    const viewer = container.querySelector<HTMLElement>(".document-viewer-pdf-viewer")!;
+    Object.defineProperty(viewer, "clientHeight", { configurable: true, value: 300 });
+    let scrollTop = 0;
+    wrapper(1).getBoundingClientRect = () => ({ top: -scrollTop }) as DOMRect;
+    const offsetOf = (page: number) =>
+      Array.from({ length: page - 1 }, (_, i) => parseFloat(wrapper(i + 1).style.height) + 12).reduce((a, b) => a + b, 0);
+    scrollTop = offsetOf(5);
+    await act(async () => {
+      fireEvent.scroll(viewer);
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+    });
+
+    await waitFor(() => expect(parseFloat(wrapper(5).style.height)).toBeCloseTo(794 * 0.5));
+    expect(getPage).toHaveBeenCalledWith(5);
+    expect(getPage).not.toHaveBeenCalledWith(100);
+    scrollTop = offsetOf(5);
+    await act(async () => {
+      fireEvent.scroll(viewer);
+      await new Promise((resolve) => requestAnimationFrame(resolve));
+    });
+    expect(mountedPages()).toEqual([3, 4, 5, 6, 7]);
+    expect(getHandle().getCurrentPage?.()).toBe(5);
+
+    act(() => getHandle().goToPage?.(120));
+    expect(scrollIntoView).toHaveBeenCalledTimes(1);
+    expect(scrollIntoView.mock.instances[0]).toBe(wrapper(120));
+    expect(getHandle().getCurrentPage?.()).toBe(120);
+  });
+
+  it("reads the remaining page sizes in the background unless disableAutoFetch is set", async () => {
+    const { container } = renderPdf();
+    await waitFor(() => expect(getPage).toHaveBeenCalledTimes(200), { timeout: 3000 });
+    // Wait for the last batch to land so no state update outlives the test.
+    const wrapper = (page: number) => container.querySelector<HTMLElement>(`[data-page-number="${page}"]`)!;
+    await waitFor(() => expect(parseFloat(wrapper(200).style.height)).toBeCloseTo(794 * 0.5));
+  });
+
+  it("updates the download progress without re-rendering the document", () => {
+    documentMock.autoLoad = false;
+    renderPdf();
+    expect(screen.queryByRole("progressbar")).toBeNull();
+    const renders = documentMock.renders;
+    act(() => documentMock.onLoadProgress?.({ loaded: 1048576, total: 4194304 }));
+    act(() => documentMock.onLoadProgress?.({ loaded: 2097152, total: 4194304 }));
+    expect(screen.getByRole("progressbar").getAttribute("aria-valuenow")).toBe("50");
+    expect(documentMock.renders).toBe(renders);
+  });
+});
@@ -1,8 +1,20 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { Document, Outline, Page, Thumbnail } from "react-pdf";
+import { Document, Outline, Page } from "react-pdf";
 import { pdfjs } from "react-pdf";
-import type { PdfSidebarMode, RendererProps } from "../types";
+import type { PdfPasswordReason, PdfPermissions, PdfSidebarMode, PdfViewerApi, RendererProps } from "../types";
 import { PdfToolbar } from "../components/PdfToolbar";
+import { PdfLoadProgressIndicator } from "../components/PdfLoadProgress";
+import { PdfPasswordDialog } from "../components/PdfPasswordDialog";
+import { downloadDocument, getDownloadFileName, printDocument, toggleFullscreen } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+import { styleToInline } from "../utils/styleToInline";
+import { buildOffsets, getVisibleRange } from "../utils/virtualWindow";
+import { createThumbnailCache, renderPdfThumbnail } from "../utils/pdfThumbnails";
+import type { PdfDocumentProxy, ThumbnailBitmap } from "../utils/pdfThumbnails";
+import { createLoadProgressStore, getPdfDocumentOptions } from "../utils/pdfLoading";
+import type { PdfLoadProgress as LoadProgress } from "../utils/pdfLoading";
+import { usePdfSource } from "../utils/usePdfSource";
+import { getPasswordReason, readPdfPermissions } from "../utils/pdfSecurity";
 import "react-pdf/dist/Page/AnnotationLayer.css";
 import "react-pdf/dist/Page/TextLayer.css";
 
@@ -20,9 +32,25 @@ function getPdfWorkerSrc(): string {
   return "pdf.worker.js";
 }
 
+type PdfTextItem = { str?: string; hasEOL?: boolean };
+
 /** A4 width in CSS pixels (210 mm at 96 dpi). */
 const A4_WIDTH_PX = 794;
 const SIDEBAR_WIDTH = 180;
+/** Gap between pages in the main view. */
+const PAGE_GAP = 12;
+/** Pages kept mounted above and below the visible ones. */
+const PAGE_OVERSCAN = 2;
+/** Pages whose sizes are read per idle callback in the background pass. */
+const PAGE_SIZE_BATCH = 50;
+const THUMB_WIDTH = SIDEBAR_WIDTH - 24;
+const THUMB_BORDER = 2;
+const THUMB_LABEL_HEIGHT = 16;
+const THUMB_GAP = 8;
+/** Thumbnails rendered above and below the visible ones. */
+const THUMB_OVERSCAN = 3;
+/** Thumbnail bitmaps kept in memory (about 140 KB each). */
+const THUMB_CACHE_SIZE = 200;
 
 const SPIN_KEYFRAMES = `
 @keyframes document-viewer-spin {
@@ -48,6 +76,7 @@ function setCanvasImageSmoothing(canvas: HTMLCanvasElement | null) {
 
 const styles = {
   root: {
+    position: "relative" as const,
     display: "flex",
     flexDirection: "column" as const,
     height: "100%",
@@ -114,6 +143,21 @@ const styles = {
     textAlign: "center" as const,
     marginTop: 2,
   }),
+  thumbnailList: {
+    flex: 1,
+    minHeight: 0,
+    width: "100%",
+    overflowY: "auto" as const,
+  },
+  thumbnailSlot: {
+    position: "absolute" as const,
+    left: 0,
+    right: 0,
+    display: "flex",
+    flexDirection: "column" as const,
+    alignItems: "center",
+    cursor: "pointer",
+  },
   outlineWrapper: {
     width: "100%",
     padding: "0 6px",
@@ -137,8 +181,16 @@ const styles = {
     display: "flex",
     flexDirection: "column" as const,
     alignItems: "center",
-    gap: 12,
+    gap: PAGE_GAP,
   }),
+  locked: {
+    padding: 32,
+    color: "#eee",
+    display: "flex",
+    flexDirection: "column" as const,
+    alignItems: "center",
+    gap: 12,
+  },
   pageWrapper: {
     boxShadow: "0 2px 8px rgba(0,0,0,0.3)",
     background: "#fff",
@@ -155,23 +207,6 @@ const spinnerStyle: React.CSSProperties = {
   animation: "document-viewer-spin 1s linear infinite",
 };
 
-const NON_PX_PROPERTIES = new Set(["opacity", "zIndex", "fontWeight", "lineHeight"]);
-
-function styleToInline(style?: React.CSSProperties): string {
-  if (!style) return "";
-  return Object.entries(style)
-    .map(([key, value]) => {
-      if (value == null) return "";
-      const cssKey = key.replace(/[A-Z]/g, (m) => `-${m.toLowerCase()}`);
-      if (typeof value === "number" && !NON_PX_PROPERTIES.has(key)) {
-        return `${cssKey}:${value}px`;
-      }
-      return `${cssKey}:${String(value)}`;
-    })
-    .filter(Boolean)
-    .join(";");
-}
-
 function escapeHtml(text: string): string {
   return text
     .replace(/&/g, "&amp;")
@@ -193,42 +228,227 @@ function isExternalLinkHref(href: string): boolean {
   }
 }
 
-function getDownloadFileName(source: RendererProps["originalSrc"], fallback?: string): string {
-  if (fallback && fallback.trim().length > 0) return fallback;
-  if (typeof source === "string") {
-    try {
-      const url = new URL(source, window.location.href);
-      const last = url.pathname.split("/").filter(Boolean).pop();
-      if (last) return decodeURIComponent(last);
-    } catch {
-      return "";
-    }
+type PageSize = { width: number; height: number };
+
+/** Runs `callback` when the browser is idle (soon after, where requestIdleCallback is missing); returns a cancel function. */
+function scheduleIdle(callback: () => void): () => void {
+  if (typeof requestIdleCallback === "function") {
+    const id = requestIdleCallback(callback);
+    return () => cancelIdleCallback(id);
+  }
+  const id = setTimeout(callback, 50);
+  return () => clearTimeout(id);
+}
+
+type WindowedPageProps = React.ComponentProps<typeof Page>;
+
+/**
+ * A mounted page of the windowed view. Browsers keep a detached canvas's
+ * backing store until garbage collection, so it is shrunk on unmount.
+ */
+function WindowedPage(props: WindowedPageProps) {
+  const canvasElRef = useRef<HTMLCanvasElement | null>(null);
+  const canvasRef = useCallback((el: HTMLCanvasElement | null) => {
+    if (!el) return;
+    canvasElRef.current = el;
+    setCanvasImageSmoothing(el);
+  }, []);
+  useEffect(
+    () => () => {
+      const canvas = canvasElRef.current;
+      if (canvas) {
+        canvas.width = 0;
+        canvas.height = 0;
+      }
+    },
+    []
+  );
+  return <Page {...props} canvasRef={canvasRef} />;
+}
+
+function ThumbnailCanvas({ bitmap }: { bitmap?: ThumbnailBitmap }) {
+  const ref = useRef<HTMLCanvasElement>(null);
+  useEffect(() => {
+    const canvas = ref.current;
+    if (!canvas || !bitmap) return;
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0);
+  }, [bitmap]);
+  return <canvas ref={ref} style={{ display: "block", width: "100%", height: "100%" }} />;
+}
+
+interface PdfThumbnailListProps {
+  pdf: PdfDocumentProxy;
+  numPages: number;
+  currentPage: number;
+  /** Height / width of a page, by 0-based index. */
+  pageAspect: (index: number) => number;
+  onSelect: (page: number) => void;
+}
+
+/**
+ * Thumbnail sidebar drawn from the main document proxy. Only thumbnails in the
+ * list's scroll area are rendered, one at a time, and kept as low-resolution
+ * bitmaps; the list follows the current page.
+ */
+function PdfThumbnailList({ pdf, numPages, currentPage, pageAspect, onSelect }: PdfThumbnailListProps) {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [cache] = useState(() => createThumbnailCache(THUMB_CACHE_SIZE));
+  const pendingRef = useRef(new Map<number, Promise<ThumbnailBitmap>>());
+  const [, setRenderedCount] = useState(0);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  const thumbHeight = useCallback((index: number) => THUMB_WIDTH * pageAspect(index), [pageAspect]);
+  const offsets = useMemo(
+    () => buildOffsets(numPages, (i) => thumbHeight(i) + 2 * THUMB_BORDER + THUMB_LABEL_HEIGHT + THUMB_GAP),
+    [numPages, thumbHeight]
+  );
+  const { start, end } = getVisibleRange(offsets, scrollTop, scrollTop + (viewportHeight || 600), THUMB_OVERSCAN);
+
+  useEffect(() => {
+    const el = listRef.current;
+    if (!el || typeof ResizeObserver === "undefined") return;
+    const ro = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    return () => {
+      pending.clear();
+      cache.clear();
+    };
+  }, [pdf, cache]);
+
+  // Renders the missing thumbnails in range one at a time; scrolling on starts a new pass.
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      for (let page = start + 1; page <= end && !cancelled; page += 1) {
+        if (cache.get(page)) continue;
+        let pending = pendingRef.current.get(page);
+        if (!pending) {
+          pending = renderPdfThumbnail(pdf, page, THUMB_WIDTH);
+          pendingRef.current.set(page, pending);
+        }
+        const bitmap = await pending;
+        // The cleanup above empties the pending map when the document changes.
+        if (pendingRef.current.get(page) !== pending) return;
+        pendingRef.current.delete(page);
+        cache.set(page, bitmap);
+        setRenderedCount((n) => n + 1);
+      }
+    })().catch(() => {
+      // A page that fails to render keeps its blank placeholder.
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, cache, start, end]);
+
+  // Keeps the current page's thumbnail in view.
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list || currentPage < 1 || currentPage > numPages) return;
+    const top = offsets[currentPage - 1];
+    const bottom = offsets[currentPage] - THUMB_GAP;
+    if (top < list.scrollTop) list.scrollTop = top;
+    else if (bottom > list.scrollTop + list.clientHeight) list.scrollTop = bottom - list.clientHeight;
+  }, [currentPage, numPages, offsets]);
+
+  const slots: React.ReactNode[] = [];
+  for (let i = start; i < end; i += 1) {
+    const page = i + 1;
+    const active = page === currentPage;
+    slots.push(
+      <div
+        key={page}
+        style={{ ...styles.thumbnailSlot, top: offsets[i] }}
+        onClick={() => onSelect(page)}
+        aria-label={`Page ${page}`}
+        aria-current={active ? "page" : undefined}
+      >
+        <div style={{ ...styles.sidebarThumb(active), width: THUMB_WIDTH, height: thumbHeight(i) }}>
+          <ThumbnailCanvas bitmap={cache.get(page)} />
+        </div>
+        <div style={{ ...styles.sidebarLabel(active), lineHeight: `${THUMB_LABEL_HEIGHT - 2}px` }}>{page}</div>
+      </div>
+    );
   }
-  if (source instanceof File && source.name) return source.name;
-  return "";
+
+  return (
+    <div
+      ref={listRef}
+      style={styles.thumbnailList}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      data-testid="pdf-thumbnails"
+    >
+      <div style={{ position: "relative", height: offsets[numPages] }}>{slots}</div>
+    </div>
+  );
 }
 
 /* ── Main component ───────────────────────────────────────────────── */
 
-export function PdfRenderer({ src, originalSrc, mimeType, options }: RendererProps) {
+export function PdfRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
   const workerSrc = getPdfWorkerSrc();
   if (pdfjs.GlobalWorkerOptions.workerSrc !== workerSrc) {
     pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
   }
   const [numPages, setNumPages] = useState<number | null>(null);
+  // Sparse: sizes are read as pages are needed, so unknown pages are holes.
+  const [pageSizes, setPageSizes] = useState<(PageSize | undefined)[]>([]);
+  const requestedSizesRef = useRef(new Set<number>());
+  const [pdfDoc, setPdfDoc] = useState<PdfDocumentProxy | null>(null);
+  const [loadProgress] = useState(createLoadProgressStore);
+  const [passwordPrompt, setPasswordPrompt] = useState<{
+    reason: PdfPasswordReason;
+    submit: (password: string) => void;
+  } | null>(null);
+  // Set when the unlock dialog is cancelled; reloading the document asks again.
+  const [locked, setLocked] = useState(false);
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [permissions, setPermissions] = useState<PdfPermissions | null>(null);
+  const hostPasswordAskedRef = useRef(false);
+  const securityCallbacksRef = useRef({
+    onPasswordRequest: options?.onPasswordRequest,
+    onPdfPermissions: options?.onPdfPermissions,
+  });
+  securityCallbacksRef.current = {
+    onPasswordRequest: options?.onPasswordRequest,
+    onPdfPermissions: options?.onPdfPermissions,
+  };
+  const fileName = getDownloadFileName(originalSrc, options?.downloadFileName);
+  const canPrint = permissions?.print !== false;
+  const { disableRange, rangeChunkSize, disableStream, disableAutoFetch } = options?.pdfLoading ?? {};
+  const pdfSource = usePdfSource(src, options?.request);
+  const { httpHeaders, withCredentials } = pdfSource;
+  // pdf.js reloads the document when this object changes, so it only changes with its values.
+  const documentOptions = useMemo(
+    () => ({
+      ...getPdfDocumentOptions({ disableRange, rangeChunkSize, disableStream, disableAutoFetch }),
+      ...(httpHeaders ? { httpHeaders } : {}),
+      ...(withCredentials ? { withCredentials } : {}),
+    }),
+    [disableRange, rangeChunkSize, disableStream, disableAutoFetch, httpHeaders, withCredentials]
+  );
+  const [pageWindow, setPageWindow] = useState({ start: 0, end: 0 });
   const [currentPage, setCurrentPage] = useState(1);
   const [pageInputValue, setPageInputValue] = useState("1");
   const [searchQuery, setSearchQuery] = useState("");
   const [searchMatches, setSearchMatches] = useState<number[]>([]);
   const [searchIndex, setSearchIndex] = useState(0);
-  const pdfDocRef = useRef<any>(null);
+  const pdfDocRef = useRef<PdfDocumentProxy | null>(null);
   const [zoom, setZoom] = useState(options?.zoom ?? 1);
   const [zoomMode, setZoomMode] = useState<"custom" | "pageFit">("pageFit");
   const viewerRef = useRef<HTMLDivElement>(null);
   const rootRef = useRef<HTMLDivElement>(null);
   const pageRefs = useRef<Map<number, HTMLDivElement>>(new Map());
   const scrollingToPage = useRef(false);
-  const viewerReadyCalledRef = useRef(false);
+  const pageTextCacheRef = useRef<Map<number, Promise<PdfTextItem[]>>>(new Map());
   const showToolbar = options?.showToolbar ?? true;
   const showSearch = options?.showSearch ?? true;
   const showPrint = options?.showPrint ?? true;
@@ -263,14 +483,11 @@ export function PdfRenderer({ src, originalSrc, mimeType, options }: RendererPro
   const activeMatchPage = searchMatches.length > 0 ? searchMatches[searchIndex] : null;
 
   const canvasDpr = getCanvasDpr(options?.resolutionScale);
-  const canvasRef = useCallback((el: HTMLCanvasElement | null) => {
-    setCanvasImageSmoothing(el);
-  }, []);
 
   // Page-fit: compute zoom so page fits the viewport width
   const [containerWidth, setContainerWidth] = useState(0);
   useEffect(() => {
-    if (zoomMode !== "pageFit" || !viewerRef.current) return;
+    if (zoomMode !== "pageFit" || !viewerRef.current || typeof ResizeObserver === "undefined") return;
     const el = viewerRef.current;
     const ro = new ResizeObserver((entries) => {
       const w = entries[0]?.contentRect.width ?? 0;
@@ -342,52 +559,205 @@ export function PdfRenderer({ src, originalSrc, mimeType, options }: RendererPro
     scrollToPage(searchMatches[prev]);
   }, [searchMatches, searchIndex, scrollToPage]);
 
-  const viewerApi = useMemo(() => ({
+  // The API object stays stable; its methods read the latest callbacks.
+  const latestApiRef = useRef({ nextMatch, prevMatch });
+  latestApiRef.current = { nextMatch, prevMatch };
+  const viewerApi = useMemo<PdfViewerApi>(() => ({
     scrollToPage,
     setSearchQuery,
-    nextMatch,
-    prevMatch,
-  }), [scrollToPage, nextMatch, prevMatch]);
+    nextMatch: () => latestApiRef.current.nextMatch(),
+    prevMatch: () => latestApiRef.current.prevMatch(),
+  }), [scrollToPage]);
 
   useEffect(() => {
-    if (!options?.onViewerReady || viewerReadyCalledRef.current) return;
-    viewerReadyCalledRef.current = true;
-    options.onViewerReady(viewerApi);
+    options?.onViewerReady?.(viewerApi);
   }, [options?.onViewerReady, viewerApi]);
 
-  // Track which page is visible while scrolling
+  /** Text items of a page, cached for search and getText. */
+  const getPageItems = useCallback((pageNum: number): Promise<PdfTextItem[]> => {
+    const cache = pageTextCacheRef.current;
+    let pending = cache.get(pageNum);
+    if (!pending) {
+      const doc = pdfDocRef.current;
+      if (!doc) return Promise.resolve([]);
+      pending = doc
+        .getPage(pageNum)
+        .then((page) => page.getTextContent())
+        .then((content) => content.items as PdfTextItem[]);
+      // A failed page is fetched again on the next search instead of staying cached.
+      const entry = pending;
+      entry.catch(() => {
+        if (cache.get(pageNum) === entry) cache.delete(pageNum);
+      });
+      cache.set(pageNum, entry);
+    }
+    return pending;
+  }, []);
+
+  const findMatchingPages = useCallback(async (query: string): Promise<number[]> => {
+    const needle = query.trim().toLowerCase();
+    const doc = pdfDocRef.current;
+    if (!needle || !doc) return [];
+    const matches: number[] = [];
+    for (let pageNum = 1; pageNum <= doc.numPages; pageNum += 1) {
+      const items = await getPageItems(pageNum);
+      const joined = items.map((item) => item.str ?? "").join("").toLowerCase();
+      const joinedWithSpaces = items.map((item) => item.str ?? "").join(" ").toLowerCase();
+      if (joined.includes(needle) || joinedWithSpaces.includes(needle)) {
+        matches.push(pageNum);
+      }
+    }
+    return matches;
+  }, [getPageItems]);
+
+  useRendererHandle(onRendererHandle, {
+    capabilities: canPrint
+      ? ["pages", "zoom", "search", "text", "print", "download"]
+      : ["pages", "zoom", "search", "text", "download"],
+    getPageCount: () => numPages ?? 0,
+    getCurrentPage: () => currentPage,
+    goToPage: (page) => {
+      if (numPages && page >= 1 && page <= numPages) scrollToPage(page);
+    },
+    setZoom: (value) => {
+      setZoomMode("custom");
+      setZoom(Math.min(Math.max(value, 0.25), 5));
+    },
+    search: async (query) => {
+      setSearchQuery(query);
+      return (await findMatchingPages(query)).length;
+    },
+    getText: async () => {
+      const doc = pdfDocRef.current;
+      if (!doc) return "";
+      const pages: string[] = [];
+      for (let pageNum = 1; pageNum <= doc.numPages; pageNum += 1) {
+        const items = await getPageItems(pageNum);
+        pages.push(items.map((item) => (item.str ?? "") + (item.hasEOL ? "\n" : "")).join(""));
+      }
+      return pages.join("\n\n");
+    },
+    print: handlePrint,
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  // Page sizes at scale 1, so placeholders for pages that aren't mounted have their final size. Reading a
+  // size loads the page object, which with range requests fetches part of the file, so sizes are read for
+  // pages entering the window and, unless disableAutoFetch is set, for the rest in idle time.
+  const loadPageSizes = useCallback(async (pageNumbers: number[]) => {
+    const doc = pdfDocRef.current;
+    const requested = requestedSizesRef.current;
+    const pending = [...new Set(pageNumbers)].filter((n) => !requested.has(n));
+    if (!doc || pending.length === 0) return;
+    pending.forEach((n) => requested.add(n));
+    const loaded: [number, PageSize][] = [];
+    for (const pageNum of pending) {
+      try {
+        const { width, height } = (await doc.getPage(pageNum)).getViewport({ scale: 1 });
+        loaded.push([pageNum, { width, height }]);
+      } catch {
+        // Pages without a known size keep the first page's proportions.
+      }
+    }
+    if (pdfDocRef.current !== doc || loaded.length === 0) return;
+    setPageSizes((sizes) => {
+      const next = sizes.slice();
+      for (const [pageNum, size] of loaded) next[pageNum - 1] = size;
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!numPages) return;
+    const pages = [1];
+    for (let i = pageWindow.start; i < pageWindow.end; i += 1) pages.push(i + 1);
+    loadPageSizes(pages);
+  }, [numPages, pageWindow, loadPageSizes]);
+
+  useEffect(() => {
+    if (!numPages || disableAutoFetch) return;
+    let cancelled = false;
+    let cancelIdle = () => {};
+    let next = 1;
+    const step = () => {
+      if (cancelled || next > numPages) return;
+      const batch: number[] = [];
+      while (next <= numPages && batch.length < PAGE_SIZE_BATCH) batch.push(next++);
+      loadPageSizes(batch).then(() => {
+        if (!cancelled) cancelIdle = scheduleIdle(step);
+      });
+    };
+    cancelIdle = scheduleIdle(step);
+    return () => {
+      cancelled = true;
+      cancelIdle();
+    };
+  }, [numPages, disableAutoFetch, loadPageSizes]);
+
+  const pageAspect = useCallback(
+    (index: number) => {
+      const size = pageSizes[index] ?? pageSizes[0];
+      return size ? size.height / size.width : Math.SQRT2;
+    },
+    [pageSizes]
+  );
+  // Pages render at a fixed width, so a page's height follows from its proportions.
+  const pageWidth = A4_WIDTH_PX * effectiveZoom;
+  const pageHeight = useCallback((index: number) => pageWidth * pageAspect(index), [pageWidth, pageAspect]);
+  const pageOffsets = useMemo(
+    () => buildOffsets(numPages ?? 0, (i) => pageHeight(i) + PAGE_GAP),
+    [numPages, pageHeight]
+  );
+
+  // Keeps the mounted window around the viewport and tracks which page is visible while scrolling
   useEffect(() => {
     const viewer = viewerRef.current;
     if (!viewer || !numPages) return;
     let ticking = false;
-    const onScroll = () => {
+    const update = () => {
+      const first = pageRefs.current.get(1);
+      if (!first) return;
+      const viewerRect = viewer.getBoundingClientRect();
+      const top = viewerRect.top - first.getBoundingClientRect().top;
+      const bottom = top + viewer.clientHeight;
+      const visible = getVisibleRange(pageOffsets, top, bottom);
+      const start = Math.max(0, visible.start - PAGE_OVERSCAN);
+      const end = Math.min(numPages, visible.end + PAGE_OVERSCAN);
+      setPageWindow((w) => (w.start === start && w.end === end ? w : { start, end }));
       if (scrollingToPage.current) return;
+      let closest = 1;
+      let closestRatio = 0;
+      for (let i = visible.start; i < visible.end; i += 1) {
+        const height = pageHeight(i);
+        const intersectionHeight = Math.max(
+          0,
+          Math.min(pageOffsets[i] + height, bottom) - Math.max(pageOffsets[i], top)
+        );
+        const ratio = height > 0 ? intersectionHeight / height : 0;
+        if (ratio > closestRatio) {
+          closestRatio = ratio;
+          closest = i + 1;
+        }
+      }
+      if (closestRatio > 0) setCurrentPage(closest);
+    };
+    const onScroll = () => {
       if (ticking) return;
       ticking = true;
       requestAnimationFrame(() => {
         ticking = false;
-        const viewerRect = viewer.getBoundingClientRect();
-        let closest = 1;
-        let closestRatio = 0;
-        pageRefs.current.forEach((el, page) => {
-          const rect = el.getBoundingClientRect();
-          const intersectionHeight = Math.max(
-            0,
-            Math.min(rect.bottom, viewerRect.bottom) - Math.max(rect.top, viewerRect.top)
-          );
-          const ratio = rect.height > 0 ? intersectionHeight / rect.height : 0;
-          if (ratio > closestRatio) {
-            closestRatio = ratio;
-            closest = page;
-          }
-        });
-        if (closestRatio > 0) setCurrentPage(closest);
+        update();
       });
     };
     viewer.addEventListener("scroll", onScroll, { passive: true });
-    onScroll();
-    return () => viewer.removeEventListener("scroll", onScroll);
-  }, [numPages]);
+    const ro = typeof ResizeObserver === "undefined" ? null : new ResizeObserver(onScroll);
+    ro?.observe(viewer);
+    update();
+    return () => {
+      viewer.removeEventListener("scroll", onScroll);
+      ro?.disconnect();
+    };
+  }, [numPages, pageOffsets, pageHeight]);
 
   // scrollToPage is defined above with useCallback
 
@@ -401,7 +771,7 @@ export function PdfRenderer({ src, originalSrc, mimeType, options }: RendererPro
   }
 
   function handleZoomChange(value: string) {
-    if (value === "pageFit") {
+    if (value === "pageFit" || value === "pageWidth") {
       setZoomMode("pageFit");
     } else {
       setZoomMode("custom");
@@ -426,59 +796,16 @@ export function PdfRenderer({ src, originalSrc, mimeType, options }: RendererPro
   }
 
   function handleDownload() {
-    if (options?.onDownload) {
-      options.onDownload(originalSrc, mimeType);
-      return;
-    }
-    const downloadName = getDownloadFileName(originalSrc, options?.downloadFileName);
-    if (typeof originalSrc === "string") {
-      const a = document.createElement("a");
-      a.href = originalSrc;
-      if (downloadName) a.download = downloadName;
-      a.click();
-      return;
-    }
-    const url = URL.createObjectURL(originalSrc);
-    const a = document.createElement("a");
-    a.href = url;
-    if (downloadName) a.download = downloadName;
-    a.click();
-    setTimeout(() => URL.revokeObjectURL(url), 0);
+    downloadDocument(originalSrc, mimeType, options);
   }
 
   function handlePrint() {
-    if (options?.onPrint) {
-      options.onPrint(originalSrc, mimeType);
-      return;
-    }
-    const openAndPrint = (url: string) => {
-      const w = window.open(url);
-      if (w) {
-        w.addEventListener("load", () => w.print());
-      }
-    };
-    if (typeof originalSrc === "string") {
-      openAndPrint(originalSrc);
-      return;
-    }
-    const url = URL.createObjectURL(originalSrc);
-    openAndPrint(url);
-    setTimeout(() => URL.revokeObjectURL(url), 1000);
+    if (!canPrint) return;
+    printDocument(originalSrc, mimeType, options);
   }
 
   function handleFullscreen() {
-    if (options?.onFullscreen) {
-      options.onFullscreen(rootRef.current);
-      return;
-    }
-    const el = rootRef.current;
-    if (el) {
-      if (document.fullscreenElement) {
-        document.exitFullscreen();
-      } else {
-        el.requestFullscreen?.();
-      }
-    }
+    toggleFullscreen(rootRef.current, options);
   }
 
   const handleOutlineClick = useCallback(({ pageIndex, pageNumber }: { pageIndex?: number; pageNumber?: number }) => {
@@ -500,17 +827,7 @@ export function PdfRenderer({ src, originalSrc, mimeType, options }: RendererPro
     }
     let cancelled = false;
     (async () => {
-      const matches: number[] = [];
-      for (let pageNum = 1; pageNum <= numPages; pageNum += 1) {
-        const page = await pdfDocRef.current.getPage(pageNum);
-        const textContent = await page.getTextContent();
-        const items = textContent.items as Array<{ str?: string }>;
-        const joined = items.map((item) => item.str ?? "").join("").toLowerCase();
-        const joinedWithSpaces = items.map((item) => item.str ?? "").join(" ").toLowerCase();
-        if (joined.includes(query) || joinedWithSpaces.includes(query)) {
-          matches.push(pageNum);
-        }
-      }
+      const matches = await findMatchingPages(query);
       if (!cancelled) {
         setSearchMatches(matches);
         setSearchIndex(0);
@@ -522,7 +839,7 @@ export function PdfRenderer({ src, originalSrc, mimeType, options }: RendererPro
     return () => {
       cancelled = true;
     };
-  }, [searchQuery, numPages]);
+  }, [searchQuery, numPages, findMatchingPages]);
 
   const highlightPageSet = useMemo(() => {
     const set = new Set<number>();
@@ -590,54 +907,170 @@ export function PdfRenderer({ src, originalSrc, mimeType, options }: RendererPro
     highlightPageTextStyleString,
   ]);
 
-  const handleDocumentLoadSuccess = useCallback((pdf: { numPages: number }) => {
+  // The previous proxy is destroyed when the file changes; the sidebar waits for the new one.
+  useEffect(() => {
+    setPdfDoc(null);
+    loadProgress.set(null);
+    setPasswordPrompt(null);
+    setLocked(false);
+    setPermissions(null);
+    hostPasswordAskedRef.current = false;
+  }, [src]);
+
+  const handlePassword = useCallback(
+    (submit: (password: string) => void, response: number) => {
+      const reason = getPasswordReason(response);
+      const showPrompt = () => setPasswordPrompt({ reason, submit });
+      const { onPasswordRequest } = securityCallbacksRef.current;
+      // The host is asked once per document, so a rejected password falls through to the dialog instead of looping.
+      if (!onPasswordRequest || hostPasswordAskedRef.current) {
+        showPrompt();
+        return;
+      }
+      hostPasswordAskedRef.current = true;
+      Promise.resolve()
+        .then(() => onPasswordRequest({ reason, fileName }))
+        .then((password) => (password ? submit(password) : showPrompt()), showPrompt);
+    },
+    [fileName]
+  );
+
+  const handlePasswordSubmit = (password: string) => {
+    setPasswordPrompt(null);
+    passwordPrompt?.submit(password);
+  };
+
+  const handlePasswordCancel = useCallback(() => {
+    setPasswordPrompt(null);
+    setLocked(true);
+  }, []);
+
+  const handleUnlockRetry = useCallback(() => {
+    setLocked(false);
+    setLoadAttempt((n) => n + 1);
+  }, []);
+
+  const handleLoadProgress = useCallback(
+    ({ loaded, total }: LoadProgress) => loadProgress.set({ loaded, total }),
+    [loadProgress]
+  );
+
+  const handleDocumentLoadSuccess = useCallback((pdf: PdfDocumentProxy) => {
     pdfDocRef.current = pdf;
+    setPdfDoc(pdf);
+    pdf
+      .getPermissions()
+      .then((flags) => {
+        if (pdfDocRef.current !== pdf) return;
+        const granted = readPdfPermissions(flags);
+        setPermissions(granted);
+        securityCallbacksRef.current.onPdfPermissions?.(granted);
+      })
+      .catch(() => undefined);
+    pageTextCacheRef.current.clear();
+    setPageSizes([]);
+    requestedSizesRef.current = new Set();
+    setPageWindow({ start: 0, end: Math.min(pdf.numPages, 1 + PAGE_OVERSCAN) });
     setNumPages(pdf.numPages);
   }, []);
 
+  // Every page gets a sized placeholder (so scrollToPage and the scrollbar work); only
+  // pages in the window around the viewport mount a canvas, text and annotation layer.
   const pageNodes = useMemo(() => {
     if (numPages === null) return null;
     return Array.from({ length: numPages }, (_, i) => {
       const page = i + 1;
+      const mounted = i >= pageWindow.start && i < pageWindow.end;
       return (
         <div
           key={page}
           ref={(el) => { if (el) pageRefs.current.set(page, el); else pageRefs.current.delete(page); }}
+          data-page-number={page}
           style={{
             ...styles.pageWrapper,
+            width: pageWidth,
+            height: pageHeight(i),
             ...(options?.pageBackgroundColor ? { background: options.pageBackgroundColor } : {}),
           }}
         >
-          <Page
-            pageNumber={page}
-            width={A4_WIDTH_PX}
-            scale={effectiveZoom}
-            devicePixelRatio={canvasDpr}
-            canvasRef={canvasRef}
-            customTextRenderer={customTextRenderer}
-            renderTextLayer={true}
-            renderAnnotationLayer={true}
-          />
+          {mounted && (
+            <WindowedPage
+              pageNumber={page}
+              width={A4_WIDTH_PX}
+              scale={effectiveZoom}
+              devicePixelRatio={canvasDpr}
+              customTextRenderer={customTextRenderer}
+              renderTextLayer={true}
+              renderAnnotationLayer={true}
+            />
+          )}
         </div>
       );
     });
-  }, [numPages, options?.pageBackgroundColor, effectiveZoom, canvasDpr, customTextRenderer, canvasRef]);
-
-  const mainDocument = useMemo(() => (
-    <Document
-      file={src}
-      onItemClick={handleOutlineClick}
-      onLoadSuccess={handleDocumentLoadSuccess}
-      loading={
-        <div className="document-viewer-loading" style={{ padding: 32, display: "flex", justifyContent: "center" }}>
-          <div style={spinnerStyle} aria-label="Loading PDF" />
+  }, [
+    numPages,
+    pageWindow,
+    pageWidth,
+    pageHeight,
+    options?.pageBackgroundColor,
+    effectiveZoom,
+    canvasDpr,
+    customTextRenderer,
+  ]);
+
+  const mainDocument = useMemo(() => {
+    const loading = (
+      <div
+        className="document-viewer-loading"
+        style={{ padding: 32, display: "flex", flexDirection: "column", alignItems: "center", gap: 12 }}
+      >
+        <div style={spinnerStyle} aria-label="Loading PDF" />
+        <PdfLoadProgressIndicator store={loadProgress} />
+      </div>
+    );
+    const error = <div className="document-viewer-error" style={{ padding: 32, color: "#c44" }}>Failed to load PDF</div>;
+    if (pdfSource.error) return error;
+    // Headers or, with a custom fetch, the whole file are still being fetched.
+    if (pdfSource.file == null) return loading;
+    if (locked) {
+      return (
+        <div className="document-viewer-error" data-testid="pdf-locked" style={styles.locked}>
+          This PDF is password-protected.
+          <button type="button" onClick={handleUnlockRetry}>
+            Enter password
+          </button>
         </div>
-      }
-      error={<div className="document-viewer-error" style={{ padding: 32, color: "#c44" }}>Failed to load PDF</div>}
-    >
-      {pageNodes}
-    </Document>
-  ), [src, handleOutlineClick, handleDocumentLoadSuccess, pageNodes]);
+      );
+    }
+    return (
+      <Document
+        key={loadAttempt}
+        file={pdfSource.file}
+        options={documentOptions}
+        onItemClick={handleOutlineClick}
+        onLoadProgress={handleLoadProgress}
+        onLoadSuccess={handleDocumentLoadSuccess}
+        onPassword={handlePassword}
+        loading={loading}
+        error={error}
+      >
+        {pageNodes}
+      </Document>
+    );
+  }, [
+    pdfSource.file,
+    pdfSource.error,
+    locked,
+    loadAttempt,
+    handleUnlockRetry,
+    handlePassword,
+    documentOptions,
+    handleOutlineClick,
+    handleLoadProgress,
+    handleDocumentLoadSuccess,
+    loadProgress,
+    pageNodes,
+  ]);
 
   return (
     <div
@@ -674,6 +1107,7 @@ export function PdfRenderer({ src, originalSrc, mimeType, options }: RendererPro
             onSearchPrev={showSearch ? prevMatch : undefined}
             onSearchNext={showSearch ? nextMatch : undefined}
           showPrint={showPrint}
+          printDisabled={!canPrint}
           showFullscreen={showFullscreen}
           backgroundColor={options?.toolbarBackgroundColor}
           onDownload={handleDownload}
@@ -701,52 +1135,23 @@ export function PdfRenderer({ src, originalSrc, mimeType, options }: RendererPro
                 </button>
               </div>
             )}
-            <Document
-              file={src}
-              onItemClick={handleOutlineClick}
-              loading={
-                <div style={{ display: "flex", justifyContent: "center", padding: 8 }}>
-                  <div style={spinnerStyle} aria-label="Loading thumbnails" />
-                </div>
-              }
-            >
-              {sidebarTab === "thumbnails" && (
-                <>
-                  {Array.from({ length: numPages }, (_, i) => {
-                    const page = i + 1;
-                    const active = page === currentPage;
-                    return (
-                      <div
-                        key={page}
-                        onClick={(e) => {
-                          e.preventDefault();
-                          e.stopPropagation();
-                          scrollToPage(page);
-                        }}
-                        onClickCapture={(e) => {
-                          // Prevent any nested links from opening new tabs
-                          if ((e.target as HTMLElement).tagName === 'A') {
-                            e.preventDefault();
-                            e.stopPropagation();
-                          }
-                        }}
-                        style={{ cursor: "pointer", marginBottom: 4 }}
-                      >
-                        <div style={{ ...styles.sidebarThumb(active), pointerEvents: "none" }}>
-                          <Thumbnail pageNumber={page} width={SIDEBAR_WIDTH - 24} />
-                        </div>
-                        <div style={styles.sidebarLabel(active)}>{page}</div>
-                      </div>
-                    );
-                  })}
-                </>
-              )}
-              {sidebarTab === "outline" && (
-                <div style={styles.outlineWrapper}>
-                  <Outline onItemClick={handleOutlineClick} />
-                </div>
-              )}
-            </Document>
+            {!pdfDoc ? (
+              <div style={{ display: "flex", justifyContent: "center", padding: 8 }}>
+                <div style={spinnerStyle} aria-label="Loading thumbnails" />
+              </div>
+            ) : sidebarTab === "thumbnails" ? (
+              <PdfThumbnailList
+                pdf={pdfDoc}
+                numPages={numPages}
+                currentPage={currentPage}
+                pageAspect={pageAspect}
+                onSelect={scrollToPage}
+              />
+            ) : (
+              <div style={styles.outlineWrapper}>
+                <Outline pdf={pdfDoc} onItemClick={handleOutlineClick} />
+              </div>
+            )}
           </div>
         )}
 
@@ -756,6 +1161,14 @@ export function PdfRenderer({ src, originalSrc, mimeType, options }: RendererPro
           </div>
         </div>
       </div>
+      {passwordPrompt && (
+        <PdfPasswordDialog
+          reason={passwordPrompt.reason}
+          fileName={fileName}
+          onSubmit={handlePasswordSubmit}
+          onCancel={handlePasswordCancel}
+        />
+      )}
     </div>
   );
 }
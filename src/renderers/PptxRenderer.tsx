@@ -0,0 +1,608 @@
+import React, { memo, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { RendererProps } from "../types";
+import { PdfToolbar } from "../components/PdfToolbar";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { getSlideText, openPptx } from "../utils/pptx";
+import type { PptxElement, PptxPresentation, PptxSlide, PptxTextBody } from "../utils/pptx";
+import { downloadDocument, toggleFullscreen } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+
+const SIDEBAR_WIDTH = 180;
+const THUMB_WIDTH = 148;
+const NOTES_HEIGHT = 140;
+const FIT_PADDING = 24;
+const ZOOM_STEPS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+
+const styles = {
+  root: {
+    display: "flex",
+    flexDirection: "column" as const,
+    height: "100%",
+    width: "100%",
+    background: "#525659",
+    fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+    color: "#333",
+    fontSize: 14,
+    outline: "none",
+  },
+  body: {
+    display: "flex",
+    flex: 1,
+    minHeight: 0,
+  },
+  sidebar: {
+    width: SIDEBAR_WIDTH,
+    minWidth: SIDEBAR_WIDTH,
+    background: "#f7f7f7",
+    borderRight: "1px solid #d4d4d4",
+    overflowY: "auto" as const,
+    padding: "8px 0",
+    display: "flex",
+    flexDirection: "column" as const,
+    alignItems: "center",
+    gap: 8,
+  },
+  thumb: (active: boolean) => ({
+    border: active ? "2px solid #4A90D9" : "2px solid transparent",
+    borderRadius: 3,
+    boxShadow: "0 1px 3px rgba(0,0,0,0.15)",
+    cursor: "pointer",
+    lineHeight: 0,
+    background: "none",
+    padding: 0,
+  }),
+  thumbLabel: (active: boolean) => ({
+    fontSize: 11,
+    color: active ? "#4A90D9" : "#666",
+    textAlign: "center" as const,
+    marginTop: 2,
+  }),
+  main: {
+    flex: 1,
+    minWidth: 0,
+    display: "flex",
+    flexDirection: "column" as const,
+  },
+  viewer: {
+    flex: 1,
+    minHeight: 0,
+    overflow: "auto",
+  },
+  stage: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    minWidth: "100%",
+    minHeight: "100%",
+    width: "max-content",
+    padding: FIT_PADDING,
+    boxSizing: "border-box" as const,
+  },
+  slideShadow: {
+    boxShadow: "0 2px 8px rgba(0,0,0,0.3)",
+  },
+  notes: {
+    height: NOTES_HEIGHT,
+    minHeight: NOTES_HEIGHT,
+    background: "#fff",
+    borderTop: "1px solid #d4d4d4",
+    display: "flex",
+    flexDirection: "column" as const,
+  },
+  notesHeader: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    padding: "4px 12px",
+    fontSize: 12,
+    fontWeight: 600,
+    color: "#666",
+    background: "#f7f7f7",
+    borderBottom: "1px solid #e4e4e4",
+  },
+  notesToggle: {
+    border: "none",
+    background: "none",
+    color: "#4A90D9",
+    cursor: "pointer",
+    fontSize: 12,
+    padding: 0,
+  },
+  notesBody: {
+    flex: 1,
+    overflowY: "auto" as const,
+    padding: "8px 12px",
+    whiteSpace: "pre-wrap" as const,
+    lineHeight: 1.5,
+  },
+  notesClosed: {
+    background: "#f7f7f7",
+    borderTop: "1px solid #d4d4d4",
+  },
+};
+
+/** Preset geometries drawn as a clipped box. */
+const CLIP_PATHS: Record<string, string> = {
+  triangle: "polygon(50% 0, 100% 100%, 0 100%)",
+  rtTriangle: "polygon(0 0, 100% 100%, 0 100%)",
+  diamond: "polygon(50% 0, 100% 50%, 50% 100%, 0 50%)",
+  parallelogram: "polygon(25% 0, 100% 0, 75% 100%, 0 100%)",
+  trapezoid: "polygon(25% 0, 75% 0, 100% 100%, 0 100%)",
+  pentagon: "polygon(50% 0, 100% 38%, 81% 100%, 19% 100%, 0 38%)",
+  hexagon: "polygon(25% 0, 75% 0, 100% 50%, 75% 100%, 25% 100%, 0 50%)",
+  rightArrow: "polygon(0 25%, 60% 25%, 60% 0, 100% 50%, 60% 100%, 60% 75%, 0 75%)",
+  leftArrow: "polygon(100% 25%, 40% 25%, 40% 0, 0 50%, 40% 100%, 40% 75%, 100% 75%)",
+  upArrow: "polygon(25% 100%, 25% 40%, 0 40%, 50% 0, 100% 40%, 75% 40%, 75% 100%)",
+  downArrow: "polygon(25% 0, 75% 0, 75% 60%, 100% 60%, 50% 100%, 0 60%, 25% 60%)",
+  chevron: "polygon(0 0, 75% 0, 100% 50%, 75% 100%, 0 100%, 25% 50%)",
+  homePlate: "polygon(0 0, 80% 0, 100% 50%, 80% 100%, 0 100%)",
+};
+
+const LINE_GEOMETRIES = /^(line|straightConnector1|bentConnector\d|curvedConnector\d)$/;
+
+function boxStyle(el: PptxElement): React.CSSProperties {
+  const { box } = el;
+  const transforms = [
+    box.rotation ? `rotate(${box.rotation}deg)` : "",
+    box.flipH ? "scaleX(-1)" : "",
+    box.flipV ? "scaleY(-1)" : "",
+  ].filter(Boolean);
+  return {
+    position: "absolute",
+    left: box.x,
+    top: box.y,
+    width: box.width,
+    height: box.height,
+    transform: transforms.length ? transforms.join(" ") : undefined,
+  };
+}
+
+function TextBody({ body, flipped, inCell }: { body: PptxTextBody; flipped?: boolean; inCell?: boolean }) {
+  const [top, right, bottom, left] = body.padding;
+  const lineHeight = 1.2 * (1 - body.lineSpacingReduction);
+  return (
+    <div
+      style={{
+        // Table cells grow with their text; shapes keep text inside their box.
+        position: inCell ? "relative" : "absolute",
+        inset: inCell ? undefined : 0,
+        height: inCell ? "100%" : undefined,
+        display: "flex",
+        flexDirection: "column",
+        justifyContent: body.anchor === "middle" ? "center" : body.anchor === "bottom" ? "flex-end" : "flex-start",
+        padding: `${top}px ${right}px ${bottom}px ${left}px`,
+        boxSizing: "border-box",
+        overflow: "visible",
+        whiteSpace: body.wrap ? "pre-wrap" : "pre",
+        overflowWrap: "break-word",
+        lineHeight,
+        // Text stays readable when the shape itself is mirrored.
+        transform: flipped ? "scaleX(-1)" : undefined,
+      }}
+    >
+      {body.paragraphs.map((p, i) => (
+        <p
+          key={i}
+          style={{
+            margin: 0,
+            textAlign: p.align,
+            marginLeft: p.marginLeft,
+            textIndent: p.indent,
+            fontSize: p.size * body.fontScale,
+            color: p.color,
+          }}
+        >
+          {p.bullet && (
+            <span style={{ display: "inline-block", minWidth: p.indent < 0 ? -p.indent : "1em", textIndent: 0 }}>
+              {p.bullet}
+            </span>
+          )}
+          {p.runs.length === 0 || p.runs.every((r) => r.text === "")
+            ? " "
+            : p.runs.map((run, j) => {
+                if (run.text === "\n") return <br key={j} />;
+                const style: React.CSSProperties = {
+                  fontSize: run.size * body.fontScale * (run.baseline ? 0.65 : 1),
+                  color: run.color,
+                  fontFamily: run.font ? `"${run.font}", sans-serif` : undefined,
+                  fontWeight: run.bold ? 700 : undefined,
+                  fontStyle: run.italic ? "italic" : undefined,
+                  textDecoration: [run.underline ? "underline" : "", run.strike ? "line-through" : ""]
+                    .filter(Boolean)
+                    .join(" ") || undefined,
+                  verticalAlign: run.baseline,
+                };
+                return run.href ? (
+                  <a key={j} href={run.href} target="_blank" rel="noopener noreferrer" style={style}>
+                    {run.text}
+                  </a>
+                ) : (
+                  <span key={j} style={style}>
+                    {run.text}
+                  </span>
+                );
+              })}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+function SlideElement({ el }: { el: PptxElement }) {
+  switch (el.type) {
+    case "shape": {
+      const { box, line } = el;
+      if (LINE_GEOMETRIES.test(el.geometry)) {
+        return (
+          <svg style={{ ...boxStyle(el), overflow: "visible" }} width={Math.max(box.width, 1)} height={Math.max(box.height, 1)}>
+            {line && (
+              <line
+                x1={0}
+                y1={0}
+                x2={box.width}
+                y2={box.height}
+                stroke={line.color}
+                strokeWidth={line.width}
+                strokeDasharray={line.dashed ? `${line.width * 3} ${line.width * 2}` : undefined}
+              />
+            )}
+          </svg>
+        );
+      }
+      const radius =
+        el.geometry === "ellipse" || el.geometry === "flowChartConnector"
+          ? "50%"
+          : el.geometry === "roundRect"
+            ? Math.min(box.width, box.height) * 0.1667
+            : undefined;
+      const clipPath = CLIP_PATHS[el.geometry];
+      return (
+        <div style={boxStyle(el)}>
+          <div
+            style={{
+              position: "absolute",
+              inset: 0,
+              background: el.fill,
+              border: line && !clipPath ? `${line.width}px ${line.dashed ? "dashed" : "solid"} ${line.color}` : undefined,
+              borderRadius: radius,
+              clipPath,
+              boxSizing: "border-box",
+            }}
+          />
+          {el.text && <TextBody body={el.text} flipped={box.flipH} />}
+        </div>
+      );
+    }
+    case "picture": {
+      const [l, t, r, b] = el.crop;
+      const visibleWidth = 1 - l - r || 1;
+      const visibleHeight = 1 - t - b || 1;
+      return (
+        <div style={{ ...boxStyle(el), overflow: "hidden" }}>
+          {el.src && (
+            <img
+              src={el.src}
+              alt=""
+              draggable={false}
+              style={{
+                position: "absolute",
+                left: `${(-l / visibleWidth) * 100}%`,
+                top: `${(-t / visibleHeight) * 100}%`,
+                width: `${100 / visibleWidth}%`,
+                height: `${100 / visibleHeight}%`,
+              }}
+            />
+          )}
+        </div>
+      );
+    }
+    case "chart":
+      return (
+        <div style={boxStyle(el)}>
+          {el.src && <img src={el.src} alt="" draggable={false} style={{ width: "100%", height: "100%", display: "block" }} />}
+        </div>
+      );
+    case "table":
+      return (
+        <div style={boxStyle(el)}>
+          <table style={{ borderCollapse: "collapse", tableLayout: "fixed", width: "100%" }}>
+            <colgroup>
+              {el.columns.map((width, i) => (
+                <col key={i} style={{ width }} />
+              ))}
+            </colgroup>
+            <tbody>
+              {el.rows.map((row, i) => (
+                <tr key={i} style={{ height: row.height }}>
+                  {row.cells.map((cell, j) =>
+                    cell.merged ? null : (
+                      <td
+                        key={j}
+                        colSpan={cell.colSpan}
+                        rowSpan={cell.rowSpan}
+                        style={{
+                          position: "relative",
+                          background: cell.fill,
+                          border: "1px solid #fff",
+                          padding: 0,
+                          verticalAlign: cell.text.anchor === "middle" ? "middle" : cell.text.anchor === "bottom" ? "bottom" : "top",
+                        }}
+                      >
+                        <TextBody body={cell.text} inCell />
+                      </td>
+                    )
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+  }
+}
+
+/** A slide drawn at its natural pixel size and scaled to fit `scale`. */
+const SlideView = memo(function SlideView({
+  slide,
+  width,
+  height,
+  scale,
+}: {
+  slide: PptxSlide;
+  width: number;
+  height: number;
+  scale: number;
+}) {
+  return (
+    <div style={{ width: width * scale, height: height * scale, overflow: "hidden", position: "relative" }}>
+      <div
+        style={{
+          width,
+          height,
+          position: "absolute",
+          left: 0,
+          top: 0,
+          background: slide.background,
+          transform: `scale(${scale})`,
+          transformOrigin: "0 0",
+          fontFamily: "Calibri, Arial, sans-serif",
+        }}
+      >
+        {slide.elements.map((el, i) => (
+          <SlideElement key={i} el={el} />
+        ))}
+      </div>
+    </div>
+  );
+});
+
+/**
+ * Client-side PPTX renderer: lays out slides from the package (theme colors,
+ * master/layout placeholders, shapes, pictures, tables and basic charts)
+ * with slide thumbnails, a speaker notes panel and keyboard navigation.
+ */
+export function PptxRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
+  const [deck, setDeck] = useState<PptxPresentation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [current, setCurrent] = useState(0);
+  const [pageInputValue, setPageInputValue] = useState("1");
+  const [zoomMode, setZoomMode] = useState<"custom" | "pageFit">(options?.zoom != null ? "custom" : "pageFit");
+  const [zoom, setZoom] = useState(options?.zoom ?? 1);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [notesOpen, setNotesOpen] = useState(true);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const sidebarRef = useRef<HTMLDivElement>(null);
+  const showToolbar = options?.showToolbar ?? true;
+  const sidebarEnabled = (options?.sidebarMode ?? (options?.showSidebar === false ? "none" : "thumbnails")) !== "none";
+  const [sidebarOpen, setSidebarOpen] = useState(sidebarEnabled);
+  const slideCount = deck?.slides.length ?? 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    setDeck(null);
+    setError(null);
+    setCurrent(0);
+    (async () => {
+      try {
+        const buffer = await readSourceAsArrayBuffer(src, originalSrc, options?.request);
+        if (cancelled) return;
+        const opened = await openPptx(buffer);
+        if (cancelled) return;
+        if (opened.slides.length === 0) throw new Error("The presentation has no slides");
+        setDeck(opened);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load presentation");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [src, originalSrc]);
+
+  useEffect(() => {
+    const el = viewerRef.current;
+    if (!el || typeof ResizeObserver === "undefined") return;
+    const ro = new ResizeObserver(() => setViewport({ width: el.clientWidth, height: el.clientHeight }));
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, [deck]);
+
+  useEffect(() => {
+    setPageInputValue(String(current + 1));
+    sidebarRef.current
+      ?.querySelector(`[data-slide-index="${current}"]`)
+      ?.scrollIntoView?.({ block: "nearest" });
+  }, [current]);
+
+  const effectiveZoom = useMemo(() => {
+    if (zoomMode === "custom" || !deck || viewport.width === 0) return zoom;
+    const available = {
+      width: Math.max(1, viewport.width - FIT_PADDING * 2),
+      height: Math.max(1, viewport.height - FIT_PADDING * 2),
+    };
+    return Math.min(available.width / deck.width, available.height / deck.height);
+  }, [zoomMode, zoom, deck, viewport]);
+
+  const goToSlide = useCallback(
+    (index: number) => {
+      if (slideCount === 0) return;
+      setCurrent(Math.min(slideCount - 1, Math.max(0, index)));
+    },
+    [slideCount]
+  );
+
+  function handleKeyDown(event: React.KeyboardEvent<HTMLDivElement>) {
+    if ((event.target as HTMLElement).closest("input, select, textarea")) return;
+    const actions: Record<string, () => void> = {
+      ArrowRight: () => goToSlide(current + 1),
+      ArrowDown: () => goToSlide(current + 1),
+      PageDown: () => goToSlide(current + 1),
+      " ": () => goToSlide(current + 1),
+      ArrowLeft: () => goToSlide(current - 1),
+      ArrowUp: () => goToSlide(current - 1),
+      PageUp: () => goToSlide(current - 1),
+      Home: () => goToSlide(0),
+      End: () => goToSlide(slideCount - 1),
+    };
+    const action = actions[event.key];
+    if (!action) return;
+    event.preventDefault();
+    action();
+  }
+
+  function handlePageInputSubmit() {
+    const n = parseInt(pageInputValue, 10);
+    if (!isNaN(n) && n >= 1 && n <= slideCount) goToSlide(n - 1);
+    else setPageInputValue(String(current + 1));
+  }
+
+  function handleZoomChange(value: string) {
+    if (value === "pageFit" || value === "pageWidth") {
+      setZoomMode("pageFit");
+    } else {
+      setZoomMode("custom");
+      setZoom(parseFloat(value));
+    }
+  }
+
+  function stepZoom(direction: 1 | -1) {
+    const steps = direction > 0 ? ZOOM_STEPS : [...ZOOM_STEPS].reverse();
+    const next = steps.find((p) => (direction > 0 ? p > effectiveZoom + 0.01 : p < effectiveZoom - 0.01));
+    setZoomMode("custom");
+    setZoom(next ?? Math.min(Math.max(effectiveZoom * (direction > 0 ? 1.25 : 0.8), 0.1), 5));
+  }
+
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["pages", "zoom", "text", "download"],
+    getPageCount: () => slideCount,
+    getCurrentPage: () => (slideCount ? current + 1 : 0),
+    goToPage: (page) => goToSlide(page - 1),
+    setZoom: (value) => {
+      setZoomMode("custom");
+      setZoom(Math.min(Math.max(value, 0.1), 5));
+    },
+    getText: async () => deck?.slides.map(getSlideText).join("\n\n") ?? "",
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  if (error) {
+    return (
+      <div className="document-viewer-error" data-testid="pptx-renderer-error">
+        {error}
+      </div>
+    );
+  }
+
+  if (!deck) {
+    return <div className="document-viewer-loading">Loading presentation…</div>;
+  }
+
+  const slide = deck.slides[current];
+  const thumbScale = THUMB_WIDTH / deck.width;
+
+  return (
+    <div
+      ref={rootRef}
+      className="document-viewer-pptx"
+      data-testid="pptx-renderer"
+      style={{
+        ...styles.root,
+        ...(options?.viewerBackgroundColor ? { background: options.viewerBackgroundColor } : {}),
+      }}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+    >
+      {showToolbar && (
+        <PdfToolbar
+          currentPage={current + 1}
+          totalPages={slideCount}
+          pageInputValue={pageInputValue}
+          onPageInputChange={setPageInputValue}
+          onPageInputSubmit={handlePageInputSubmit}
+          onPrevPage={() => goToSlide(current - 1)}
+          onNextPage={() => goToSlide(current + 1)}
+          zoomMode={zoomMode}
+          effectiveZoom={effectiveZoom}
+          onZoomChange={handleZoomChange}
+          onZoomIn={() => stepZoom(1)}
+          onZoomOut={() => stepZoom(-1)}
+          showSidebarToggle={sidebarEnabled}
+          sidebarOpen={sidebarOpen}
+          onToggleSidebar={() => setSidebarOpen((o) => !o)}
+          showSearch={false}
+          showPrint={false}
+          showFullscreen={options?.showFullscreen ?? true}
+          backgroundColor={options?.toolbarBackgroundColor}
+          onDownload={() => downloadDocument(originalSrc, mimeType, options)}
+          onFullscreen={() => toggleFullscreen(rootRef.current, options)}
+        />
+      )}
+
+      <div style={styles.body}>
+        {sidebarEnabled && sidebarOpen && (
+          <div ref={sidebarRef} style={styles.sidebar} className="document-viewer-sidebar">
+            {deck.slides.map((s, index) => {
+              const active = index === current;
+              return (
+                <div key={index} data-slide-index={index} style={{ opacity: s.hidden ? 0.5 : 1 }}>
+                  <button
+                    type="button"
+                    style={styles.thumb(active)}
+                    onClick={() => goToSlide(index)}
+                    aria-label={`Slide ${index + 1}${s.hidden ? " (hidden)" : ""}`}
+                    aria-current={active ? "true" : undefined}
+                  >
+                    <SlideView slide={s} width={deck.width} height={deck.height} scale={thumbScale} />
+                  </button>
+                  <div style={styles.thumbLabel(active)}>{index + 1}</div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div style={styles.main}>
+          <div ref={viewerRef} style={styles.viewer} className="document-viewer-pptx-viewer">
+            <div style={styles.stage}>
+              <div style={styles.slideShadow} aria-label={`Slide ${current + 1} of ${slideCount}`}>
+                <SlideView slide={slide} width={deck.width} height={deck.height} scale={effectiveZoom} />
+              </div>
+            </div>
+          </div>
+          <div style={notesOpen ? styles.notes : styles.notesClosed} className="document-viewer-pptx-notes">
+            <div style={styles.notesHeader}>
+              <span>Speaker notes</span>
+              <button type="button" style={styles.notesToggle} onClick={() => setNotesOpen((o) => !o)}>
+                {notesOpen ? "Hide" : "Show"}
+              </button>
+            </div>
+            {notesOpen && (
+              <div style={styles.notesBody}>{slide.notes || <span style={{ color: "#999" }}>No notes for this slide.</span>}</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
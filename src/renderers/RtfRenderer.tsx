@@ -0,0 +1,56 @@
+import React, { useState, useEffect, useRef } from "react";
+import type { RendererProps } from "../types";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { downloadDocument } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+import { rtfToHtml, stripRtfPreamble } from "../utils/rtfToHtml";
+
+export function RtfRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
+  const [html, setHtml] = useState<string>("");
+  const [error, setError] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      try {
+        const arrayBuffer = await readSourceAsArrayBuffer(src, originalSrc, options?.request);
+        if (cancelled) return;
+        // RTF is 7-bit; escapes are decoded by the parser using the file's code page.
+        const rtf = stripRtfPreamble(new TextDecoder("latin1").decode(arrayBuffer));
+        if (!rtf.startsWith("{\\rtf")) throw new Error("Invalid RTF file");
+        setHtml(rtfToHtml(rtf));
+        setError(null);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load RTF");
+      }
+    }
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [src, originalSrc]);
+
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["text", "download"],
+    getText: async () => containerRef.current?.textContent ?? "",
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  if (error) {
+    return (
+      <div className="document-viewer-error" data-testid="rtf-renderer-error">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      className="document-viewer-rtf"
+      data-testid="rtf-renderer"
+      dangerouslySetInnerHTML={{ __html: html || "" }}
+    />
+  );
+}
@@ -0,0 +1,303 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import type { RendererProps } from "../types";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { decodeText } from "../utils/detectEncoding";
+import type { TextEncodingName } from "../utils/detectEncoding";
+import { getCodeLanguage, highlightCode, splitHighlightedLines } from "../utils/highlightCode";
+import { buildOffsets, getVisibleRange } from "../utils/virtualWindow";
+import { downloadDocument, getDownloadFileName } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+import "highlight.js/styles/github.css";
+
+const LINE_HEIGHT = 20;
+const TAB_SIZE = 4;
+const CODE_PADDING = 12;
+const OVERSCAN = 20;
+/** Files larger than this are shown without syntax highlighting to keep the UI responsive. */
+const HIGHLIGHT_MAX_CHARS = 512 * 1024;
+const MONO_FONT = "ui-monospace, SFMono-Regular, Menlo, Consolas, 'Liberation Mono', monospace";
+
+const ENCODING_LABELS: Record<TextEncodingName, string> = {
+  "utf-8": "UTF-8",
+  "utf-16le": "UTF-16 LE",
+  "utf-16be": "UTF-16 BE",
+  "windows-1252": "Latin-1",
+};
+
+const styles = {
+  root: {
+    display: "flex",
+    flexDirection: "column" as const,
+    height: "100%",
+    width: "100%",
+    background: "#fff",
+    fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+    color: "#333",
+    fontSize: 14,
+  },
+  toolbar: {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    height: 40,
+    minHeight: 40,
+    padding: "0 12px",
+    background: "#f0f0f0",
+    borderBottom: "1px solid #d4d4d4",
+    gap: 12,
+    flexShrink: 0,
+    fontSize: 13,
+  },
+  toolbarInfo: {
+    display: "flex",
+    gap: 12,
+    color: "#666",
+    whiteSpace: "nowrap" as const,
+    overflow: "hidden",
+  },
+  toolbarGroup: {
+    display: "flex",
+    alignItems: "center",
+    gap: 8,
+  },
+  toolbarBtn: (active: boolean) => ({
+    height: 28,
+    border: "1px solid #cfcfcf",
+    borderRadius: 6,
+    background: active ? "#e0e0e0" : "#fff",
+    padding: "0 10px",
+    fontSize: 13,
+    cursor: "pointer",
+    color: "#333",
+  }),
+  scroller: {
+    flex: 1,
+    minHeight: 0,
+    overflow: "auto",
+    position: "relative" as const,
+    fontFamily: MONO_FONT,
+    fontSize: 13,
+    lineHeight: `${LINE_HEIGHT}px`,
+    tabSize: TAB_SIZE,
+  },
+  line: {
+    position: "absolute" as const,
+    left: 0,
+    display: "flex",
+    minWidth: "100%",
+  },
+  gutter: {
+    position: "sticky" as const,
+    left: 0,
+    flexShrink: 0,
+    boxSizing: "border-box" as const,
+    paddingRight: 8,
+    textAlign: "right" as const,
+    color: "#999",
+    background: "#f7f7f7",
+    borderRight: "1px solid #e4e4e4",
+    userSelect: "none" as const,
+    alignSelf: "stretch",
+  },
+  code: {
+    paddingLeft: CODE_PADDING,
+    paddingRight: CODE_PADDING,
+    flex: 1,
+    minWidth: 0,
+  },
+  measure: {
+    position: "absolute" as const,
+    visibility: "hidden" as const,
+    whiteSpace: "pre" as const,
+  },
+};
+
+/** Visual width of a line in monospace columns (tabs expanded). */
+function visualLength(line: string): number {
+  let tabs = 0;
+  for (let i = line.indexOf("\t"); i !== -1; i = line.indexOf("\t", i + 1)) tabs += 1;
+  return line.length + tabs * (TAB_SIZE - 1);
+}
+
+/**
+ * Plain-text and source-code renderer. Detects the text encoding, highlights
+ * known languages with highlight.js and renders only the lines near the
+ * viewport, so multi-megabyte logs stay responsive. Soft wrap can be toggled.
+ */
+export function TextRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
+  const [text, setText] = useState<string | null>(null);
+  const [encoding, setEncoding] = useState<TextEncodingName>("utf-8");
+  const [error, setError] = useState<string | null>(null);
+  const [wrap, setWrap] = useState(options?.textWrap ?? false);
+  const [highlightedLines, setHighlightedLines] = useState<string[] | null>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [charWidth, setCharWidth] = useState(8);
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const measureRef = useRef<HTMLSpanElement>(null);
+  const showToolbar = options?.showToolbar ?? true;
+
+  const fileName = getDownloadFileName(originalSrc, options?.downloadFileName) || src;
+  const language = useMemo(() => getCodeLanguage(fileName, mimeType), [fileName, mimeType]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setText(null);
+    setError(null);
+    (async () => {
+      try {
+        const buffer = await readSourceAsArrayBuffer(src, originalSrc, options?.request);
+        if (cancelled) return;
+        const decoded = decodeText(buffer);
+        setEncoding(decoded.encoding);
+        setText(decoded.text.replace(/\r\n?/g, "\n"));
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load text");
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [src, originalSrc]);
+
+  useEffect(() => {
+    setHighlightedLines(null);
+    if (text == null || !language || text.length > HIGHLIGHT_MAX_CHARS) return;
+    // Defer highlighting so the plain text paints first.
+    const id = window.setTimeout(() => {
+      const html = highlightCode(text, language);
+      if (html != null) setHighlightedLines(splitHighlightedLines(html));
+    }, 0);
+    return () => window.clearTimeout(id);
+  }, [text, language]);
+
+  const lines = useMemo(() => (text == null ? [] : text.split("\n")), [text]);
+
+  useLayoutEffect(() => {
+    const el = measureRef.current;
+    if (!el) return;
+    const width = el.getBoundingClientRect().width / 100;
+    if (width > 0) setCharWidth(width);
+  }, [text]);
+
+  useEffect(() => {
+    const el = scrollerRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver(() => {
+      setViewport({ width: el.clientWidth, height: el.clientHeight });
+    });
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, [text]);
+
+  const gutterWidth = Math.max(3, String(lines.length).length) * charWidth + 16;
+  const wrapColumns = Math.max(1, Math.floor((viewport.width - gutterWidth - CODE_PADDING * 2) / charWidth));
+
+  const offsets = useMemo(() => {
+    if (!wrap) return buildOffsets(lines.length, () => LINE_HEIGHT);
+    return buildOffsets(
+      lines.length,
+      (i) => Math.max(1, Math.ceil(visualLength(lines[i]) / wrapColumns)) * LINE_HEIGHT
+    );
+  }, [lines, wrap, wrapColumns]);
+
+  const maxLineWidth = useMemo(() => {
+    if (wrap) return 0;
+    let max = 0;
+    for (const line of lines) max = Math.max(max, visualLength(line));
+    return max * charWidth + CODE_PADDING * 2;
+  }, [lines, wrap, charWidth]);
+
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["text", "download"],
+    getText: async () => text ?? "",
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  if (error) {
+    return (
+      <div className="document-viewer-error" data-testid="text-renderer-error">
+        {error}
+      </div>
+    );
+  }
+
+  if (text == null) {
+    return <div className="document-viewer-loading">Loading…</div>;
+  }
+
+  const { start, end } = getVisibleRange(offsets, scrollTop, scrollTop + (viewport.height || 600), OVERSCAN);
+  const rows: React.ReactNode[] = [];
+  for (let i = start; i < end; i += 1) {
+    const html = highlightedLines?.[i];
+    rows.push(
+      <div key={i} style={{ ...styles.line, top: offsets[i], height: offsets[i + 1] - offsets[i] }}>
+        <span style={{ ...styles.gutter, width: gutterWidth }}>{i + 1}</span>
+        {html != null ? (
+          <span
+            style={{ ...styles.code, whiteSpace: wrap ? "pre-wrap" : "pre", wordBreak: wrap ? "break-all" : "normal" }}
+            dangerouslySetInnerHTML={{ __html: html }}
+          />
+        ) : (
+          <span style={{ ...styles.code, whiteSpace: wrap ? "pre-wrap" : "pre", wordBreak: wrap ? "break-all" : "normal" }}>
+            {lines[i]}
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      style={{
+        ...styles.root,
+        ...(options?.viewerBackgroundColor ? { background: options.viewerBackgroundColor } : {}),
+      }}
+      className="document-viewer-text"
+      data-testid="text-renderer"
+    >
+      {showToolbar && (
+        <div style={{ ...styles.toolbar, ...(options?.toolbarBackgroundColor ? { background: options.toolbarBackgroundColor } : {}) }}>
+          <div style={styles.toolbarInfo}>
+            <span>{language ?? "Plain text"}</span>
+            <span>{ENCODING_LABELS[encoding]}</span>
+            <span>{lines.length.toLocaleString()} lines</span>
+            {language && text.length > HIGHLIGHT_MAX_CHARS && <span>Highlighting off (large file)</span>}
+          </div>
+          <div style={styles.toolbarGroup}>
+            <button type="button" style={styles.toolbarBtn(wrap)} aria-pressed={wrap} onClick={() => setWrap((w) => !w)}>
+              Wrap
+            </button>
+            <button
+              type="button"
+              style={styles.toolbarBtn(false)}
+              onClick={() => downloadDocument(originalSrc, mimeType, options)}
+            >
+              Download
+            </button>
+          </div>
+        </div>
+      )}
+      <div
+        ref={scrollerRef}
+        style={styles.scroller}
+        className="document-viewer-text-content hljs"
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <span ref={measureRef} style={styles.measure} aria-hidden>
+          {"0".repeat(100)}
+        </span>
+        <div
+          style={{
+            position: "relative",
+            height: offsets[lines.length],
+            width: wrap ? "100%" : gutterWidth + maxLineWidth,
+            minWidth: "100%",
+          }}
+        >
+          {rows}
+        </div>
+      </div>
+    </div>
+  );
+}
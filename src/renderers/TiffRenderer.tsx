@@ -0,0 +1,478 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { RendererProps } from "../types";
+import { PdfToolbar } from "../components/PdfToolbar";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { createTiffDecoder } from "../utils/tiffWorkerClient";
+import type { TiffDecoder } from "../utils/tiffWorkerClient";
+import type { DecodedTiffPage, TiffPageInfo } from "../utils/tiffDecoder";
+import { downloadDocument, printDocument, toggleFullscreen } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+
+type WindowWithWorkerOverride = Window & {
+  __DOCUMENT_VIEWER_TIFF_WORKER_SRC__?: string;
+};
+
+function getTiffWorkerSrc(optionSrc?: string): string {
+  if (optionSrc && optionSrc.trim().length > 0) return optionSrc;
+  if (typeof window !== "undefined") {
+    const override = (window as WindowWithWorkerOverride).__DOCUMENT_VIEWER_TIFF_WORKER_SRC__;
+    if (typeof override === "string" && override.trim().length > 0) {
+      return override;
+    }
+  }
+  return "tiff.worker.js";
+}
+
+/** A4 width in CSS pixels (210 mm at 96 dpi); pages are laid out at this width like PDFs. */
+const A4_WIDTH_PX = 794;
+const SIDEBAR_WIDTH = 180;
+const THUMB_WIDTH = SIDEBAR_WIDTH - 24;
+
+const styles = {
+  root: {
+    display: "flex",
+    flexDirection: "column" as const,
+    height: "100%",
+    width: "100%",
+    background: "#525659",
+    fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+    color: "#333",
+    fontSize: 14,
+  },
+  body: {
+    display: "flex",
+    flex: 1,
+    minHeight: 0,
+    overflow: "hidden",
+    position: "relative" as const,
+  },
+  sidebar: {
+    width: SIDEBAR_WIDTH,
+    minWidth: SIDEBAR_WIDTH,
+    background: "#f7f7f7",
+    borderRight: "1px solid #d4d4d4",
+    overflowY: "auto" as const,
+    padding: "8px 4px",
+    display: "flex",
+    flexDirection: "column" as const,
+    gap: 8,
+    alignItems: "center",
+    position: "absolute" as const,
+    left: 0,
+    top: 0,
+    bottom: 0,
+    zIndex: 5,
+    transition: "transform 0.2s ease, opacity 0.2s ease",
+  },
+  sidebarClosed: {
+    transform: `translateX(-${SIDEBAR_WIDTH}px)`,
+    opacity: 0,
+    pointerEvents: "none" as const,
+  },
+  sidebarThumb: (active: boolean) => ({
+    border: active ? "2px solid #4A90D9" : "2px solid transparent",
+    borderRadius: 3,
+    boxShadow: "0 1px 3px rgba(0,0,0,0.15)",
+    background: "#fff",
+    lineHeight: 0,
+  }),
+  sidebarLabel: (active: boolean) => ({
+    fontSize: 11,
+    color: active ? "#4A90D9" : "#666",
+    textAlign: "center" as const,
+    marginTop: 2,
+  }),
+  viewer: {
+    flex: 1,
+    overflow: "auto",
+    display: "flex",
+    flexDirection: "column" as const,
+    alignItems: "center",
+    padding: "16px 0",
+    width: "100%",
+  },
+  viewerContentShift: (shift: number) => ({
+    marginLeft: shift,
+    transition: "margin-left 0.2s ease",
+    width: shift ? `calc(100% - ${shift}px)` : "100%",
+    display: "flex",
+    flexDirection: "column" as const,
+    alignItems: "center",
+    gap: 12,
+  }),
+  pageWrapper: {
+    boxShadow: "0 2px 8px rgba(0,0,0,0.3)",
+    background: "#fff",
+    lineHeight: 0,
+    flexShrink: 0,
+  },
+  pageImage: {
+    width: "100%",
+    height: "100%",
+    display: "block",
+  },
+};
+
+function pageToObjectUrl(page: DecodedTiffPage): Promise<string> {
+  const canvas = document.createElement("canvas");
+  canvas.width = page.width;
+  canvas.height = page.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.reject(new Error("Canvas is not supported"));
+  const imageData = ctx.createImageData(page.width, page.height);
+  imageData.data.set(page.rgba);
+  ctx.putImageData(imageData, 0, 0);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) resolve(URL.createObjectURL(blob));
+      else reject(new Error("Failed to encode TIFF page"));
+    }, "image/png");
+  });
+}
+
+/**
+ * Multi-page TIFF renderer. Frames are decoded on demand in a worker (falling
+ * back to the main thread) and shown as pages with the same toolbar, thumbnail
+ * sidebar and viewer API as the PDF renderer.
+ */
+export function TiffRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
+  const [pages, setPages] = useState<TiffPageInfo[] | null>(null);
+  const [pageUrls, setPageUrls] = useState<Record<number, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageInputValue, setPageInputValue] = useState("1");
+  const [zoom, setZoom] = useState(options?.zoom ?? 1);
+  const [zoomMode, setZoomMode] = useState<"custom" | "pageFit">("pageFit");
+  const [containerWidth, setContainerWidth] = useState(0);
+  const decoderRef = useRef<TiffDecoder | null>(null);
+  const requestedRef = useRef<Set<number>>(new Set());
+  const createdUrlsRef = useRef<string[]>([]);
+  const viewerRef = useRef<HTMLDivElement>(null);
+  const sidebarRef = useRef<HTMLDivElement>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const pageRefs = useRef<Map<number, HTMLDivElement>>(new Map());
+  const scrollingToPage = useRef(false);
+  const showToolbar = options?.showToolbar ?? true;
+  const showPrint = options?.showPrint ?? true;
+  const showFullscreen = options?.showFullscreen ?? true;
+  const sidebarEnabled = (options?.sidebarMode ?? (options?.showSidebar === false ? "none" : "thumbnails")) !== "none";
+  const [sidebarOpen, setSidebarOpen] = useState(sidebarEnabled);
+  const numPages = pages?.length ?? null;
+  const tiffWorkerSrc = getTiffWorkerSrc(options?.tiffWorkerSrc);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPages(null);
+    setPageUrls({});
+    setError(null);
+    requestedRef.current = new Set();
+
+    (async () => {
+      try {
+        const buffer = await readSourceAsArrayBuffer(src, originalSrc, options?.request);
+        if (cancelled) return;
+        const decoder = await createTiffDecoder(buffer, tiffWorkerSrc);
+        if (cancelled) {
+          decoder.dispose();
+          return;
+        }
+        decoderRef.current = decoder;
+        setPages(decoder.pages);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load TIFF");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      decoderRef.current?.dispose();
+      decoderRef.current = null;
+      createdUrlsRef.current.forEach((url) => URL.revokeObjectURL(url));
+      createdUrlsRef.current = [];
+    };
+  }, [src, originalSrc, tiffWorkerSrc]);
+
+  const requestPage = useCallback((index: number) => {
+    const decoder = decoderRef.current;
+    if (!decoder || requestedRef.current.has(index)) return;
+    requestedRef.current.add(index);
+    decoder
+      .decodePage(index)
+      .then(pageToObjectUrl)
+      .then((url) => {
+        if (decoderRef.current !== decoder) {
+          URL.revokeObjectURL(url);
+          return;
+        }
+        createdUrlsRef.current.push(url);
+        setPageUrls((prev) => ({ ...prev, [index]: url }));
+      })
+      .catch((e) => {
+        if (decoderRef.current !== decoder) return;
+        requestedRef.current.delete(index);
+        setError(e instanceof Error ? e.message : "Failed to decode TIFF page");
+      });
+  }, []);
+
+  // Decode pages (and thumbnails) as they approach the visible area.
+  useEffect(() => {
+    if (!pages) return;
+    const roots = [viewerRef.current, sidebarEnabled && sidebarOpen ? sidebarRef.current : null].filter(
+      (el): el is HTMLDivElement => el != null
+    );
+    if (typeof IntersectionObserver === "undefined") {
+      pages.forEach((_, index) => requestPage(index));
+      return;
+    }
+    const observers = roots.map((root) => {
+      const observer = new IntersectionObserver(
+        (entries) => {
+          entries.forEach((entry) => {
+            if (!entry.isIntersecting) return;
+            const index = Number((entry.target as HTMLElement).dataset.pageIndex);
+            if (!Number.isNaN(index)) requestPage(index);
+          });
+        },
+        { root, rootMargin: "100% 0px" }
+      );
+      root.querySelectorAll("[data-page-index]").forEach((el) => observer.observe(el));
+      return observer;
+    });
+    return () => observers.forEach((observer) => observer.disconnect());
+  }, [pages, requestPage, sidebarEnabled, sidebarOpen]);
+
+  useEffect(() => {
+    if (zoomMode !== "pageFit" || !viewerRef.current) return;
+    const ro = new ResizeObserver((entries) => {
+      setContainerWidth(entries[0]?.contentRect.width ?? 0);
+    });
+    ro.observe(viewerRef.current);
+    return () => ro.disconnect();
+  }, [zoomMode]);
+
+  const effectiveZoom = useMemo(() => {
+    if (zoomMode === "pageFit" && containerWidth > 0) {
+      const padding = 48;
+      const shift = sidebarEnabled && sidebarOpen ? SIDEBAR_WIDTH : 0;
+      return Math.min((containerWidth - shift - padding) / A4_WIDTH_PX, 2);
+    }
+    return zoom;
+  }, [zoomMode, containerWidth, zoom, sidebarEnabled, sidebarOpen]);
+
+  useEffect(() => {
+    setPageInputValue(String(currentPage));
+  }, [currentPage]);
+
+  const scrollToPage = useCallback((page: number) => {
+    const el = pageRefs.current.get(page);
+    if (!el) return;
+    scrollingToPage.current = true;
+    el.scrollIntoView({ behavior: "smooth", block: "start" });
+    setCurrentPage(page);
+    setTimeout(() => { scrollingToPage.current = false; }, 500);
+  }, []);
+
+  const viewerApi = useMemo(() => ({
+    scrollToPage,
+    setSearchQuery: () => {},
+    nextMatch: () => {},
+    prevMatch: () => {},
+  }), [scrollToPage]);
+
+  useEffect(() => {
+    options?.onViewerReady?.(viewerApi);
+  }, [options?.onViewerReady, viewerApi]);
+
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["pages", "zoom", "print", "download"],
+    getPageCount: () => numPages ?? 0,
+    getCurrentPage: () => currentPage,
+    goToPage: (page) => {
+      if (numPages && page >= 1 && page <= numPages) scrollToPage(page);
+    },
+    setZoom: (value) => {
+      setZoomMode("custom");
+      setZoom(Math.min(Math.max(value, 0.25), 5));
+    },
+    print: () => printDocument(originalSrc, mimeType, options),
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  // Track which page is visible while scrolling
+  useEffect(() => {
+    const viewer = viewerRef.current;
+    if (!viewer || !numPages) return;
+    let ticking = false;
+    const onScroll = () => {
+      if (scrollingToPage.current || ticking) return;
+      ticking = true;
+      requestAnimationFrame(() => {
+        ticking = false;
+        const viewerRect = viewer.getBoundingClientRect();
+        let closest = 1;
+        let closestRatio = 0;
+        pageRefs.current.forEach((el, page) => {
+          const rect = el.getBoundingClientRect();
+          const intersectionHeight = Math.max(
+            0,
+            Math.min(rect.bottom, viewerRect.bottom) - Math.max(rect.top, viewerRect.top)
+          );
+          const ratio = rect.height > 0 ? intersectionHeight / rect.height : 0;
+          if (ratio > closestRatio) {
+            closestRatio = ratio;
+            closest = page;
+          }
+        });
+        if (closestRatio > 0) setCurrentPage(closest);
+      });
+    };
+    viewer.addEventListener("scroll", onScroll, { passive: true });
+    onScroll();
+    return () => viewer.removeEventListener("scroll", onScroll);
+  }, [numPages]);
+
+  function handlePageInputSubmit() {
+    const n = parseInt(pageInputValue, 10);
+    if (!isNaN(n) && n >= 1 && numPages && n <= numPages) {
+      scrollToPage(n);
+    } else {
+      setPageInputValue(String(currentPage));
+    }
+  }
+
+  function handleZoomChange(value: string) {
+    if (value === "pageFit" || value === "pageWidth") {
+      setZoomMode("pageFit");
+    } else {
+      setZoomMode("custom");
+      setZoom(parseFloat(value));
+    }
+  }
+
+  function handleZoomIn() {
+    setZoomMode("custom");
+    setZoom(() => {
+      const next = [0.5, 0.75, 1, 1.25, 1.5, 2, 3].find((p) => p > effectiveZoom + 0.01);
+      return next ?? Math.min(effectiveZoom + 0.25, 5);
+    });
+  }
+
+  function handleZoomOut() {
+    setZoomMode("custom");
+    setZoom(() => {
+      const next = [0.5, 0.75, 1, 1.25, 1.5, 2, 3].reverse().find((p) => p < effectiveZoom - 0.01);
+      return next ?? Math.max(effectiveZoom - 0.25, 0.25);
+    });
+  }
+
+  if (error && !pages) {
+    return (
+      <div className="document-viewer-error" data-testid="tiff-renderer-error">
+        {error}
+      </div>
+    );
+  }
+
+  const pageWidth = A4_WIDTH_PX * effectiveZoom;
+
+  return (
+    <div
+      style={{
+        ...styles.root,
+        ...(options?.viewerBackgroundColor ? { background: options.viewerBackgroundColor } : {}),
+      }}
+      data-testid="tiff-renderer"
+      ref={rootRef}
+    >
+      {showToolbar && (
+        <PdfToolbar
+          currentPage={currentPage}
+          totalPages={numPages}
+          pageInputValue={pageInputValue}
+          onPageInputChange={setPageInputValue}
+          onPageInputSubmit={handlePageInputSubmit}
+          onPrevPage={() => scrollToPage(Math.max(1, currentPage - 1))}
+          onNextPage={() => scrollToPage(Math.min(numPages ?? 1, currentPage + 1))}
+          zoomMode={zoomMode}
+          effectiveZoom={effectiveZoom}
+          onZoomChange={handleZoomChange}
+          onZoomIn={handleZoomIn}
+          onZoomOut={handleZoomOut}
+          showSidebarToggle={sidebarEnabled}
+          sidebarOpen={sidebarOpen}
+          onToggleSidebar={() => setSidebarOpen((o) => !o)}
+          showSearch={false}
+          showPrint={showPrint}
+          showFullscreen={showFullscreen}
+          backgroundColor={options?.toolbarBackgroundColor}
+          onDownload={() => downloadDocument(originalSrc, mimeType, options)}
+          onPrint={() => printDocument(originalSrc, mimeType, options)}
+          onFullscreen={() => toggleFullscreen(rootRef.current, options)}
+        />
+      )}
+
+      <div style={styles.body}>
+        {sidebarEnabled && pages && (
+          <div
+            ref={sidebarRef}
+            style={{ ...styles.sidebar, ...(sidebarOpen ? {} : styles.sidebarClosed) }}
+            className="document-viewer-sidebar"
+          >
+            {pages.map((info, index) => {
+              const page = index + 1;
+              const active = page === currentPage;
+              const url = pageUrls[index];
+              return (
+                <div
+                  key={page}
+                  data-page-index={index}
+                  onClick={() => scrollToPage(page)}
+                  style={{ cursor: "pointer", marginBottom: 4 }}
+                >
+                  <div
+                    style={{
+                      ...styles.sidebarThumb(active),
+                      width: THUMB_WIDTH,
+                      height: info.width > 0 ? (THUMB_WIDTH * info.height) / info.width : THUMB_WIDTH,
+                    }}
+                  >
+                    {url && <img src={url} alt={`Page ${page}`} style={styles.pageImage} />}
+                  </div>
+                  <div style={styles.sidebarLabel(active)}>{page}</div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div ref={viewerRef} style={styles.viewer} className="document-viewer-tiff-viewer">
+          <div style={styles.viewerContentShift(sidebarEnabled && sidebarOpen ? SIDEBAR_WIDTH : 0)}>
+            {!pages && <div className="document-viewer-loading" style={{ color: "#eee", padding: 32 }}>Loading TIFF…</div>}
+            {error && pages && (
+              <div className="document-viewer-error" style={{ color: "#fbb", padding: 8 }}>{error}</div>
+            )}
+            {pages?.map((info, index) => {
+              const page = index + 1;
+              const url = pageUrls[index];
+              return (
+                <div
+                  key={page}
+                  data-page-index={index}
+                  ref={(el) => { if (el) pageRefs.current.set(page, el); else pageRefs.current.delete(page); }}
+                  style={{
+                    ...styles.pageWrapper,
+                    ...(options?.pageBackgroundColor ? { background: options.pageBackgroundColor } : {}),
+                    width: pageWidth,
+                    height: info.width > 0 ? (pageWidth * info.height) / info.width : pageWidth,
+                  }}
+                >
+                  {url && <img src={url} alt={`Page ${page}`} style={styles.pageImage} draggable={false} />}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
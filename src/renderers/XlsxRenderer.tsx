@@ -0,0 +1,458 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { read, utils } from "xlsx";
+import type { CellObject, Range, WorkBook, WorkSheet } from "xlsx";
+import type { RendererProps } from "../types";
+import { readSourceAsArrayBuffer } from "../utils/loadSource";
+import { detectDelimiter } from "../utils/detectDelimiter";
+import { buildOffsets, getVisibleRange } from "../utils/virtualWindow";
+import { downloadDocument } from "../utils/documentActions";
+import { useRendererHandle } from "../utils/useRendererHandle";
+
+const DEFAULT_COL_WIDTH = 96;
+const DEFAULT_ROW_HEIGHT = 24;
+const GUTTER_WIDTH = 48;
+const HEADER_HEIGHT = 24;
+const OVERSCAN = 4;
+
+const DELIMITED_MIME_TYPES = new Set(["text/csv", "text/tab-separated-values"]);
+
+const styles = {
+  root: {
+    display: "flex",
+    flexDirection: "column" as const,
+    height: "100%",
+    width: "100%",
+    background: "#fff",
+    fontFamily: "system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+    color: "#333",
+    fontSize: 13,
+  },
+  scroller: {
+    flex: 1,
+    minHeight: 0,
+    overflow: "auto",
+    position: "relative" as const,
+  },
+  stickyTop: {
+    position: "sticky" as const,
+    top: 0,
+    zIndex: 3,
+    background: "#fff",
+  },
+  row: {
+    display: "flex",
+  },
+  gutter: {
+    position: "sticky" as const,
+    left: 0,
+    zIndex: 2,
+    width: GUTTER_WIDTH,
+    minWidth: GUTTER_WIDTH,
+    background: "#f3f3f3",
+    borderRight: "1px solid #d4d4d4",
+  },
+  layer: {
+    position: "relative" as const,
+    flexShrink: 0,
+  },
+  headerCell: {
+    position: "absolute" as const,
+    boxSizing: "border-box" as const,
+    background: "#f3f3f3",
+    borderRight: "1px solid #d4d4d4",
+    borderBottom: "1px solid #d4d4d4",
+    color: "#666",
+    fontSize: 12,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    userSelect: "none" as const,
+  },
+  cell: {
+    position: "absolute" as const,
+    boxSizing: "border-box" as const,
+    borderRight: "1px solid #e2e2e2",
+    borderBottom: "1px solid #e2e2e2",
+    padding: "0 4px",
+    overflow: "hidden",
+    whiteSpace: "nowrap" as const,
+    textOverflow: "ellipsis",
+    display: "flex",
+    alignItems: "center",
+    background: "#fff",
+  },
+  frozenCell: {
+    background: "#fafafa",
+    fontWeight: 600,
+  },
+  tabs: {
+    display: "flex",
+    gap: 2,
+    padding: "0 8px",
+    background: "#f0f0f0",
+    borderTop: "1px solid #d4d4d4",
+    overflowX: "auto" as const,
+    flexShrink: 0,
+  },
+  tab: (active: boolean) => ({
+    border: "none",
+    borderBottom: active ? "2px solid #4A90D9" : "2px solid transparent",
+    background: active ? "#fff" : "transparent",
+    color: active ? "#222" : "#555",
+    padding: "6px 12px",
+    fontSize: 12,
+    cursor: "pointer",
+    whiteSpace: "nowrap" as const,
+  }),
+};
+
+interface MergeIndex {
+  /** Merge range keyed by its top-left cell ("r:c"). */
+  roots: Map<string, Range>;
+  /** Top-left key ("r:c") for every cell covered by a merge (including the root). */
+  covered: Map<string, string>;
+}
+
+function cellKey(r: number, c: number): string {
+  return `${r}:${c}`;
+}
+
+function indexMerges(merges: Range[] | undefined): MergeIndex {
+  const roots = new Map<string, Range>();
+  const covered = new Map<string, string>();
+  for (const m of merges ?? []) {
+    const rootKey = cellKey(m.s.r, m.s.c);
+    roots.set(rootKey, m);
+    for (let r = m.s.r; r <= m.e.r; r += 1) {
+      for (let c = m.s.c; c <= m.e.c; c += 1) {
+        covered.set(cellKey(r, c), rootKey);
+      }
+    }
+  }
+  return { roots, covered };
+}
+
+function isDelimitedText(mimeType: string, src: string): boolean {
+  if (DELIMITED_MIME_TYPES.has(mimeType)) return true;
+  return /\.(csv|tsv)(\?|#|$)/i.test(src);
+}
+
+function parseWorkbook(buffer: ArrayBuffer, delimited: boolean): WorkBook {
+  if (delimited) {
+    const text = new TextDecoder("utf-8").decode(buffer).replace(/^\uFEFF/, "");
+    return read(text, { type: "string", FS: detectDelimiter(text), cellDates: true });
+  }
+  return read(buffer, { type: "array", cellDates: true });
+}
+
+function formatCell(cell: CellObject | undefined): string {
+  if (!cell) return "";
+  if (cell.w != null) return cell.w;
+  if (cell.v == null) return "";
+  try {
+    return utils.format_cell(cell);
+  } catch {
+    return String(cell.v);
+  }
+}
+
+function isNumericCell(cell: CellObject | undefined): boolean {
+  return cell?.t === "n" || cell?.t === "d";
+}
+
+interface SheetGridProps {
+  sheet: WorkSheet;
+  frozenRows: number;
+}
+
+/**
+ * Virtualized grid for a single worksheet. Only the cells intersecting the
+ * scroll viewport (plus overscan) are mounted; merged cells are rendered once
+ * from their top-left cell, even when that cell is scrolled out of view.
+ */
+function SheetGrid({ sheet, frozenRows }: SheetGridProps) {
+  const scrollerRef = useRef<HTMLDivElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [viewport, setViewport] = useState({ width: 800, height: 600 });
+
+  const range = useMemo(() => {
+    const ref = sheet["!ref"];
+    return ref ? utils.decode_range(ref) : null;
+  }, [sheet]);
+  const rowCount = range ? range.e.r - range.s.r + 1 : 0;
+  const colCount = range ? range.e.c - range.s.c + 1 : 0;
+  const frozen = Math.min(Math.max(0, frozenRows), rowCount);
+
+  const colOffsets = useMemo(() => {
+    const cols = sheet["!cols"] ?? [];
+    const first = range?.s.c ?? 0;
+    return buildOffsets(colCount, (i) => {
+      const info = cols[first + i];
+      if (info?.hidden) return 0;
+      if (info?.wpx) return info.wpx;
+      if (info?.wch) return Math.round(info.wch * 7 + 5);
+      return DEFAULT_COL_WIDTH;
+    });
+  }, [sheet, range, colCount]);
+
+  const rowOffsets = useMemo(() => {
+    const rows = sheet["!rows"] ?? [];
+    const first = range?.s.r ?? 0;
+    return buildOffsets(rowCount, (i) => {
+      const info = rows[first + i];
+      if (info?.hidden) return 0;
+      return info?.hpx ?? DEFAULT_ROW_HEIGHT;
+    });
+  }, [sheet, range, rowCount]);
+
+  const merges = useMemo(() => indexMerges(sheet["!merges"]), [sheet]);
+
+  useEffect(() => {
+    const el = scrollerRef.current;
+    if (!el) return;
+    const ro = new ResizeObserver((entries) => {
+      const rect = entries[0]?.contentRect;
+      if (rect) setViewport({ width: rect.width, height: rect.height });
+    });
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, []);
+
+  if (!range) {
+    return <div style={{ padding: 16, color: "#666" }}>This sheet is empty.</div>;
+  }
+
+  const frozenHeight = rowOffsets[frozen];
+  const bodyHeight = rowOffsets[rowCount] - frozenHeight;
+  const totalWidth = colOffsets[colCount];
+  const stickyHeight = HEADER_HEIGHT + frozenHeight;
+
+  const visibleCols = getVisibleRange(
+    colOffsets,
+    scroll.left,
+    scroll.left + viewport.width - GUTTER_WIDTH,
+    OVERSCAN
+  );
+  const visibleRows = getVisibleRange(
+    rowOffsets,
+    frozenHeight + scroll.top,
+    frozenHeight + scroll.top + viewport.height - stickyHeight,
+    OVERSCAN
+  );
+  const bodyRowStart = Math.max(frozen, visibleRows.start);
+
+  const renderCells = (rowStart: number, rowEnd: number, top: number, isFrozen: boolean) => {
+    const nodes: React.ReactNode[] = [];
+    const renderedMerges = new Set<string>();
+    for (let ri = rowStart; ri < rowEnd; ri += 1) {
+      if (rowOffsets[ri + 1] === rowOffsets[ri]) continue;
+      for (let ci = visibleCols.start; ci < visibleCols.end; ci += 1) {
+        const r = range.s.r + ri;
+        const c = range.s.c + ci;
+        let rootR = r;
+        let rootC = c;
+        let endR = r;
+        let endC = c;
+        const rootKey = merges.covered.get(cellKey(r, c));
+        if (rootKey) {
+          if (renderedMerges.has(rootKey)) continue;
+          const merge = merges.roots.get(rootKey)!;
+          renderedMerges.add(rootKey);
+          rootR = merge.s.r;
+          rootC = merge.s.c;
+          endR = Math.min(merge.e.r, range.e.r);
+          endC = Math.min(merge.e.c, range.e.c);
+        }
+        const rootRi = Math.max(rootR - range.s.r, isFrozen ? 0 : frozen);
+        const rootCi = rootC - range.s.c;
+        const endRi = Math.min(endR - range.s.r, isFrozen ? frozen - 1 : rowCount - 1);
+        const endCi = endC - range.s.c;
+        const width = colOffsets[endCi + 1] - colOffsets[rootCi];
+        const height = rowOffsets[endRi + 1] - rowOffsets[rootRi];
+        if (width <= 0 || height <= 0) continue;
+        const cell = sheet[utils.encode_cell({ r: rootR, c: rootC })] as CellObject | undefined;
+        const text = formatCell(cell);
+        nodes.push(
+          <div
+            key={cellKey(rootR, rootC)}
+            title={text.length > 12 ? text : undefined}
+            style={{
+              ...styles.cell,
+              ...(isFrozen ? styles.frozenCell : {}),
+              left: colOffsets[rootCi],
+              top: rowOffsets[rootRi] - top,
+              width,
+              height,
+              justifyContent: isNumericCell(cell) ? "flex-end" : "flex-start",
+              ...(rootKey ? { zIndex: 1, whiteSpace: "normal" as const } : {}),
+            }}
+          >
+            {text}
+          </div>
+        );
+      }
+    }
+    return nodes;
+  };
+
+  const renderRowNumbers = (rowStart: number, rowEnd: number, top: number) => {
+    const nodes: React.ReactNode[] = [];
+    for (let ri = rowStart; ri < rowEnd; ri += 1) {
+      const height = rowOffsets[ri + 1] - rowOffsets[ri];
+      if (height === 0) continue;
+      nodes.push(
+        <div
+          key={ri}
+          style={{ ...styles.headerCell, left: 0, width: GUTTER_WIDTH, top: rowOffsets[ri] - top, height }}
+        >
+          {range.s.r + ri + 1}
+        </div>
+      );
+    }
+    return nodes;
+  };
+
+  const columnHeaders: React.ReactNode[] = [];
+  for (let ci = visibleCols.start; ci < visibleCols.end; ci += 1) {
+    const width = colOffsets[ci + 1] - colOffsets[ci];
+    if (width === 0) continue;
+    columnHeaders.push(
+      <div
+        key={ci}
+        style={{ ...styles.headerCell, left: colOffsets[ci], top: 0, width, height: HEADER_HEIGHT }}
+      >
+        {utils.encode_col(range.s.c + ci)}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={scrollerRef}
+      style={styles.scroller}
+      className="document-viewer-xlsx-grid"
+      onScroll={(e) => {
+        const el = e.currentTarget;
+        setScroll({ top: el.scrollTop, left: el.scrollLeft });
+      }}
+    >
+      <div style={{ width: GUTTER_WIDTH + totalWidth }}>
+        <div style={styles.stickyTop}>
+          <div style={styles.row}>
+            <div style={{ ...styles.gutter, height: HEADER_HEIGHT, zIndex: 4 }} />
+            <div style={{ ...styles.layer, width: totalWidth, height: HEADER_HEIGHT }}>{columnHeaders}</div>
+          </div>
+          {frozen > 0 && (
+            <div style={{ ...styles.row, boxShadow: "0 2px 3px rgba(0,0,0,0.08)" }}>
+              <div style={{ ...styles.gutter, height: frozenHeight }}>
+                {renderRowNumbers(0, frozen, 0)}
+              </div>
+              <div style={{ ...styles.layer, width: totalWidth, height: frozenHeight }}>
+                {renderCells(0, frozen, 0, true)}
+              </div>
+            </div>
+          )}
+        </div>
+        <div style={styles.row}>
+          <div style={{ ...styles.gutter, height: bodyHeight }}>
+            {renderRowNumbers(bodyRowStart, visibleRows.end, frozenHeight)}
+          </div>
+          <div style={{ ...styles.layer, width: totalWidth, height: bodyHeight }}>
+            {renderCells(bodyRowStart, visibleRows.end, frozenHeight, false)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Spreadsheet renderer (XLSX, XLS, ODS, CSV/TSV) built on SheetJS.
+ * Workbooks are parsed client-side and each sheet is shown as a virtualized
+ * grid with sheet tabs; CSV/TSV delimiters are detected automatically.
+ */
+export function XlsxRenderer({ src, originalSrc, mimeType, options, onRendererHandle }: RendererProps) {
+  const [workbook, setWorkbook] = useState<WorkBook | null>(null);
+  const [activeSheet, setActiveSheet] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const frozenRows = options?.spreadsheetFrozenRows ?? 1;
+
+  useEffect(() => {
+    let cancelled = false;
+    async function load() {
+      try {
+        const buffer = await readSourceAsArrayBuffer(src, originalSrc, options?.request);
+        if (cancelled) return;
+        const wb = parseWorkbook(buffer, isDelimitedText(mimeType, src));
+        if (cancelled) return;
+        setWorkbook(wb);
+        setActiveSheet(0);
+        setError(null);
+      } catch (e) {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Failed to load spreadsheet");
+      }
+    }
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [src, originalSrc, mimeType]);
+
+  // Text is each sheet as tab-separated values.
+  useRendererHandle(onRendererHandle, {
+    capabilities: ["text", "download"],
+    getText: async () =>
+      workbook
+        ? workbook.SheetNames.map((name) => utils.sheet_to_csv(workbook.Sheets[name], { FS: "\t" })).join("\n\n")
+        : "",
+    download: () => downloadDocument(originalSrc, mimeType, options),
+  });
+
+  if (error) {
+    return (
+      <div className="document-viewer-error" data-testid="xlsx-renderer-error">
+        {error}
+      </div>
+    );
+  }
+
+  if (!workbook) {
+    return <div className="document-viewer-loading">Loading spreadsheet…</div>;
+  }
+
+  const sheetName = workbook.SheetNames[activeSheet];
+  const sheet = sheetName ? workbook.Sheets[sheetName] : undefined;
+
+  return (
+    <div
+      style={{
+        ...styles.root,
+        ...(options?.viewerBackgroundColor ? { background: options.viewerBackgroundColor } : {}),
+      }}
+      className="document-viewer-xlsx"
+      data-testid="xlsx-renderer"
+    >
+      {sheet ? (
+        <SheetGrid key={sheetName} sheet={sheet} frozenRows={frozenRows} />
+      ) : (
+        <div style={{ padding: 16, color: "#666" }}>This workbook has no sheets.</div>
+      )}
+      {workbook.SheetNames.length > 1 && (
+        <div style={styles.tabs} role="tablist" className="document-viewer-xlsx-tabs">
+          {workbook.SheetNames.map((name, index) => (
+            <button
+              key={name}
+              type="button"
+              role="tab"
+              aria-selected={index === activeSheet}
+              style={styles.tab(index === activeSheet)}
+              onClick={() => setActiveSheet(index)}
+            >
+              {name}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
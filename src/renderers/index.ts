@@ -13,3 +13,39 @@ registerRenderer("docx", () =>
 registerRenderer("office-pdf", () =>
   import("./OfficePdfFallback").then((m) => ({ default: m.OfficePdfFallback }))
 );
+registerRenderer("pptx", () =>
+  import("./PptxRenderer").then((m) => ({ default: m.PptxRenderer }))
+);
+registerRenderer("xlsx", () =>
+  import("./XlsxRenderer").then((m) => ({ default: m.XlsxRenderer }))
+);
+registerRenderer("image", () =>
+  import("./ImageRenderer").then((m) => ({ default: m.ImageRenderer }))
+);
+registerRenderer("tiff", () =>
+  import("./TiffRenderer").then((m) => ({ default: m.TiffRenderer }))
+);
+registerRenderer("text", () =>
+  import("./TextRenderer").then((m) => ({ default: m.TextRenderer }))
+);
+registerRenderer("markdown", () =>
+  import("./MarkdownRenderer").then((m) => ({ default: m.MarkdownRenderer }))
+);
+registerRenderer("email", () =>
+  import("./EmailRenderer").then((m) => ({ default: m.EmailRenderer }))
+);
+registerRenderer("odt", () =>
+  import("./OdtRenderer").then((m) => ({ default: m.OdtRenderer }))
+);
+registerRenderer("rtf", () =>
+  import("./RtfRenderer").then((m) => ({ default: m.RtfRenderer }))
+);
+registerRenderer("epub", () =>
+  import("./EpubRenderer").then((m) => ({ default: m.EpubRenderer }))
+);
+registerRenderer("media", () =>
+  import("./MediaRenderer").then((m) => ({ default: m.MediaRenderer }))
+);
+registerRenderer("archive", () =>
+  import("./ArchiveRenderer").then((m) => ({ default: m.ArchiveRenderer }))
+);
@@ -1,16 +1,50 @@
 import type { ReactNode } from "react";
+import type { Config as SanitizeConfig } from "dompurify";
 
 /** Document source: URL string or Blob/File */
 export type DocumentSource = string | Blob | File;
 
-/** Renderer key returned by FormatRouter */
-export type RendererKey =
+/** Renderer keys of the formats shipped with the viewer */
+export type BuiltInRendererKey =
   | "pdf"
   | "pdf-ocr"
   | "docx"
   | "office-pdf"
+  | "pptx"
+  | "xlsx"
+  | "image"
+  | "tiff"
+  | "text"
+  | "markdown"
+  | "email"
+  | "odt"
+  | "rtf"
+  | "epub"
+  | "media"
+  | "archive"
   | "unsupported";
 
+/** Renderer key returned by FormatRouter: a built-in key or one added with registerFormat */
+export type RendererKey = BuiltInRendererKey | (string & {});
+
+/** A document format contributed by a plugin via registerFormat. */
+export interface FormatDefinition {
+  /** Renderer key; register the component for it with registerRenderer. */
+  key: RendererKey;
+  /** MIME types routed to this format; the first is reported for extension and sniffer matches. */
+  mimeTypes?: string[];
+  /** File extensions without the dot (case-insensitive). */
+  extensions?: string[];
+  /** Checks the leading bytes (up to 4 KB) of sources that have no type information. */
+  sniff?: (head: Uint8Array) => boolean;
+  /**
+   * Higher wins among registered formats. Priority 0 or more (default 0)
+   * overrides built-in mappings for the same MIME type or extension; negative
+   * priorities only apply where no built-in format matches.
+   */
+  priority?: number;
+}
+
 /** PDF sidebar mode */
 export type PdfSidebarMode = "none" | "thumbnails" | "outline" | "both";
 
@@ -21,6 +55,143 @@ export interface PdfViewerApi {
   prevMatch: () => void;
 }
 
+/** Why a PDF password is asked for: the document is encrypted, or the last password was rejected. */
+export type PdfPasswordReason = "required" | "incorrect";
+
+export interface PdfPasswordRequest {
+  reason: PdfPasswordReason;
+  /** Download file name of the document, or "" when unknown. */
+  fileName: string;
+}
+
+/**
+ * What an encrypted PDF's permission flags allow; documents without
+ * restrictions allow everything. The viewer enforces `print` (the toolbar's
+ * print action is disabled); the other flags are informational.
+ */
+export interface PdfPermissions {
+  print: boolean;
+  printHighQuality: boolean;
+  copy: boolean;
+  copyForAccessibility: boolean;
+  modify: boolean;
+  annotate: boolean;
+  fillForms: boolean;
+  assemble: boolean;
+}
+
+/** Features a renderer can support through the viewer handle. */
+export type ViewerCapability = "pages" | "zoom" | "search" | "text" | "print" | "download";
+
+/** Imperative handle a renderer reports to DocumentViewer; implement the methods for its capabilities. */
+export interface RendererHandle {
+  capabilities: ViewerCapability[];
+  getPageCount?: () => number;
+  /** Current page, 1-based. */
+  getCurrentPage?: () => number;
+  goToPage?: (page: number) => void;
+  /** Zoom factor, 1 = 100%. */
+  setZoom?: (zoom: number) => void;
+  /** Highlights matches for the query (empty clears); resolves to the number of matches. */
+  search?: (query: string) => Promise<number>;
+  /** Plain text of the whole document. */
+  getText?: () => Promise<string>;
+  print?: () => void;
+  download?: () => void;
+}
+
+/**
+ * Handle exposed through the DocumentViewer ref. Calls are forwarded to the
+ * active renderer; methods outside its capabilities are no-ops (or return
+ * 0 / "") except download, which falls back to the default download action.
+ */
+export interface DocumentViewerHandle {
+  getCapabilities: () => ViewerCapability[];
+  getPageCount: () => number;
+  getCurrentPage: () => number;
+  goToPage: (page: number) => void;
+  setZoom: (zoom: number) => void;
+  search: (query: string) => Promise<number>;
+  getText: () => Promise<string>;
+  print: () => void;
+  download: () => void;
+}
+
+/** Limits applied when opening ZIP archives; archives exceeding any of them are rejected. */
+export interface ArchiveLimits {
+  /** Maximum number of entries. Default 10000. */
+  maxEntries: number;
+  /** Maximum total uncompressed size in bytes. Default 1 GB. */
+  maxTotalSize: number;
+  /** Maximum uncompressed/compressed ratio for entries of 1 MB or more. Default 100. */
+  maxCompressionRatio: number;
+}
+
+/** Headers sent with document requests. */
+export type RequestHeaders = Record<string, string>;
+
+/**
+ * How the viewer requests documents over HTTP: loading documents and caption
+ * tracks, probing and sniffing URLs, and uploading to the conversion worker.
+ * Local blob: and data: URLs are fetched without it.
+ */
+export interface RequestConfig {
+  /** Headers for every request (e.g. { Authorization: "Bearer …" }). A function is called before each request, so it can return a refreshed token. */
+  headers?: RequestHeaders | (() => RequestHeaders | Promise<RequestHeaders>);
+  /** Send cookies and HTTP authentication with cross-origin requests. Default false. */
+  withCredentials?: boolean;
+  /** Fetch implementation used instead of the global fetch, e.g. one that refreshes an expired token and retries. PDFs are then downloaded whole instead of with range requests. */
+  fetch?: typeof fetch;
+}
+
+/** How PDFs are fetched; passed to pdf.js, unset fields keep its defaults. */
+export interface PdfLoadingOptions {
+  /** Don't use HTTP range requests, even when the server supports them. Default false. */
+  disableRange?: boolean;
+  /** Bytes fetched per range request. Default 65536. */
+  rangeChunkSize?: number;
+  /** Don't stream the response body; pages wait for range requests or the whole file. Default false. */
+  disableStream?: boolean;
+  /** Only fetch the byte ranges needed for displayed pages instead of downloading the rest in the background. Default false. */
+  disableAutoFetch?: boolean;
+}
+
+/** Image embedded in a DOCX, passed to ViewerOptions.docxConvertImage. */
+export interface DocxImage {
+  /** MIME type of the image (e.g. image/png). */
+  contentType: string;
+  /** Reads the image bytes. */
+  read: () => Promise<ArrayBuffer>;
+}
+
+/** DOMPurify options for converted DOCX HTML; options that change the return type are not accepted. */
+export type DocxSanitizeConfig = Omit<SanitizeConfig, "RETURN_DOM" | "RETURN_DOM_FRAGMENT" | "RETURN_TRUSTED_TYPE" | "IN_PLACE">;
+
+/** Warning or error reported while converting a document (e.g. an unsupported feature or unrecognized style). */
+export interface ConversionMessage {
+  type: "warning" | "error";
+  message: string;
+}
+
+/** Caption track (WebVTT or SRT) shown by the media renderer as subtitles and a transcript. */
+export interface MediaTrack {
+  /** Track file: URL string or Blob/File */
+  src: DocumentSource;
+  /** Label shown in the track selector (e.g. "English"). */
+  label?: string;
+  /** BCP 47 language tag (e.g. "en"). */
+  language?: string;
+}
+
+export interface MediaViewerApi {
+  play: () => Promise<void>;
+  pause: () => void;
+  /** Seek to a position in seconds. */
+  seek: (seconds: number) => void;
+  getCurrentTime: () => number;
+  getDuration: () => number;
+}
+
 /** Options passed to DocumentViewer */
 export interface ViewerOptions {
   /** Enable OCR for scanned PDFs (adds text layer) */
@@ -45,17 +216,25 @@ export interface ViewerOptions {
   showSidebar?: boolean;
   /** Sidebar mode for PDF viewer. Overrides showSidebar when provided. */
   sidebarMode?: PdfSidebarMode;
-  /** Provides an API for controlling the PDF viewer (e.g. scrollToPage). */
+  /** Provides an API for controlling the PDF viewer (e.g. scrollToPage). Called again whenever the callback changes; prefer the DocumentViewer ref for renderer-agnostic control. */
   onViewerReady?: (api: PdfViewerApi) => void;
-  /** Style overrides for search highlight spans in the PDF text layer. */
+  /**
+   * Supplies the password for an encrypted PDF, e.g. from the host's vault.
+   * Return null or undefined to show the unlock dialog; when the returned
+   * password is rejected, the dialog is shown with the error.
+   */
+  onPasswordRequest?: (request: PdfPasswordRequest) => string | null | undefined | Promise<string | null | undefined>;
+  /** Called with the permission flags once a PDF has loaded. */
+  onPdfPermissions?: (permissions: PdfPermissions) => void;
+  /** Style overrides for search highlight spans in the PDF text layer and DOCX search matches. */
   searchHighlightStyle?: React.CSSProperties;
   /** Style overrides for search highlight spans (alias of searchHighlightStyle). */
   searchTextHighlightStyle?: React.CSSProperties;
-  /** Class name applied to search highlight spans in the PDF text layer. */
+  /** Class name applied to search highlight spans in the PDF text layer and DOCX search matches. */
   searchHighlightClassName?: string;
-  /** Style overrides for the active search match spans in the PDF text layer. */
+  /** Style overrides for the active search match spans in the PDF text layer and DOCX. */
   searchActiveHighlightStyle?: React.CSSProperties;
-  /** Class name applied to active search match spans in the PDF text layer. */
+  /** Class name applied to active search match spans in the PDF text layer and DOCX. */
   searchActiveHighlightClassName?: string;
   /** Highlight all text on selected pages (current, specific page, both, or none). */
   highlightPageText?: "none" | "current" | "page" | "both";
@@ -65,18 +244,52 @@ export interface ViewerOptions {
   highlightPageTextStyle?: React.CSSProperties;
   /** Called when the user triggers download in the PDF toolbar. */
   onDownload?: (source: DocumentSource, mimeType: string) => void;
-  /** File name used by the default download handler. */
+  /** File name used by the default download handler. Defaults to the server-declared name (probeUrlSources), the File name or the last URL path segment. */
   downloadFileName?: string;
   /** Called when the user triggers print in the PDF toolbar. */
   onPrint?: (source: DocumentSource, mimeType: string) => void;
   /** Called when the user triggers fullscreen in the PDF toolbar. */
   onFullscreen?: (container: HTMLElement | null) => void;
-  /** Prefer server conversion to PDF for Office (DOCX/PPTX) when onRequestPdfConversion is provided */
+  /** DOCX layout: "flow" renders one continuous HTML column; "page" paginates into page frames with margins, headers/footers and footnotes. Default "flow". */
+  docxLayout?: "flow" | "page";
+  /** DOCX tracked changes and comments: "markup" shows insertions, deletions and a comments margin; "final" shows the document as if all changes were accepted. Default "markup". */
+  docxReviewView?: "markup" | "final";
+  /** Extra mammoth style map rules for DOCX (e.g. "p[style-name='Title'] => h1.title:fresh"), used in preference to the defaults. Array items or string lines are single rules. */
+  docxStyleMap?: string | string[];
+  /** Converts images embedded in a DOCX body, e.g. to upload or resize them instead of inlining base64 data URIs. Resolves to the attributes of the <img> (src, optionally alt). */
+  docxConvertImage?: (image: DocxImage) => Promise<{ src: string; alt?: string }>;
+  /** DOMPurify options for the converted DOCX HTML, headers and footers (e.g. ADD_TAGS, FORBID_ATTR). Replaces the default sanitizer settings. */
+  docxSanitizeConfig?: DocxSanitizeConfig;
+  /** Called with the warnings and errors reported while converting a DOCX (unsupported features, unrecognized styles). Not called when there are none. */
+  onWarnings?: (messages: ConversionMessage[]) => void;
+  /** Also convert DOCX to PDF (like PPTX) when onRequestPdfConversion or conversionWorkerUrl is provided, for high-fidelity output. Falls back to the DOCX renderer if conversion fails. Default false. */
   preferPdfConversionForOffice?: boolean;
   /** URL of conversion worker: POST Office file to this URL to get PDF (multipart/form-data field "file"). Response: application/pdf body or JSON { url }. */
   conversionWorkerUrl?: string;
+  /** Headers, credentials or a custom fetch for authenticated document requests. */
+  request?: RequestConfig;
+  /** Range requests, chunk size and streaming for PDFs, so the first page of a large remote file renders before it has fully downloaded. */
+  pdfLoading?: PdfLoadingOptions;
   /** Zoom multiplier for PDF (e.g. 1.5). Combined with resolutionScale and devicePixelRatio. */
   zoom?: number;
+  /** Number of leading spreadsheet rows kept visible (frozen) while scrolling. Default 1. */
+  spreadsheetFrozenRows?: number;
+  /** URL of the TIFF decoding worker script (dist/tiff.worker.js). Default "tiff.worker.js"; decoding falls back to the main thread if it cannot be loaded. */
+  tiffWorkerSrc?: string;
+  /** Start the text/code renderer with soft wrap enabled. Default false. */
+  textWrap?: boolean;
+  /** Base URL for resolving relative links and images in Markdown. Defaults to the source URL. */
+  markdownBaseUrl?: string;
+  /** Load remote images in email bodies without asking. Default false (blocked until the user allows them). */
+  emailAllowRemoteImages?: boolean;
+  /** Caption tracks for audio/video; the first is shown in the transcript panel by default. */
+  mediaTracks?: MediaTrack[];
+  /** Provides an API for controlling audio/video playback (play, pause, seek). Called again whenever the callback changes. */
+  onMediaReady?: (api: MediaViewerApi) => void;
+  /** Before routing URL sources, ask the server (HEAD, falling back to a ranged GET) for Content-Type and the Content-Disposition file name. Default false. */
+  probeUrlSources?: boolean;
+  /** Zip bomb guards for the archive renderer; unset fields use the defaults. */
+  archiveLimits?: Partial<ArchiveLimits>;
 }
 
 /** Theme overrides for the viewer UI */
@@ -124,6 +337,8 @@ export interface RendererProps {
   options?: ViewerOptions;
   /** Theme */
   theme?: ViewerTheme;
+  /** Reports the renderer's imperative handle (call again whenever it changes; null on unmount). */
+  onRendererHandle?: (handle: RendererHandle | null) => void;
 }
 
 /** Lazy-loaded renderer component type */
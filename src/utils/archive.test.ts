@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { openArchive, readZipEntryCount } from "./archive";
+
+async function buildZip(files: Record<string, string | Uint8Array>): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(files)) zip.file(path, content, { date: new Date(2024, 0, 2) });
+  return zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+}
+
+function toBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+}
+
+describe("openArchive", () => {
+  it("builds a sorted tree with sizes and hides macOS metadata", async () => {
+    const bytes = await buildZip({
+      "bundle/report.pdf": "%PDF-1.4",
+      "bundle/notes/b.txt": "bb",
+      "bundle/notes/a10.md": "# a",
+      "bundle/notes/a2.md": "# a2",
+      "__MACOSX/bundle/._report.pdf": "x",
+      "bundle/.DS_Store": "x",
+    });
+    const archive = await openArchive(toBuffer(bytes));
+    expect(archive.entryCount).toBe(4);
+    const [bundle] = archive.root.children;
+    expect(archive.root.children).toHaveLength(1);
+    expect(bundle.size).toBe(8 + 2 + 3 + 4);
+    expect(bundle.children.map((c) => c.name)).toEqual(["notes", "report.pdf"]);
+    expect(bundle.children[0].children.map((c) => c.name)).toEqual(["a2.md", "a10.md", "b.txt"]);
+    expect(bundle.children[1].date?.getFullYear()).toBe(2024);
+  });
+
+  it("extracts entries as files with an inferred MIME type", async () => {
+    const archive = await openArchive(toBuffer(await buildZip({ "docs/readme.md": "# Hello" })));
+    const file = await archive.extract("docs/readme.md");
+    expect(file.name).toBe("readme.md");
+    expect(file.type).toBe("text/markdown");
+    expect(file.size).toBe(7);
+  });
+
+  it("rejects archives over the entry and size limits", async () => {
+    const bytes = await buildZip({ "a.txt": "aaaa", "b.txt": "bbbb", "c.txt": "cccc" });
+    expect(readZipEntryCount(bytes)).toBe(3);
+    await expect(openArchive(toBuffer(bytes), { maxEntries: 2 })).rejects.toThrow(/3 entries/);
+    await expect(openArchive(toBuffer(bytes), { maxTotalSize: 10 })).rejects.toThrow(/expands to more than/);
+    await expect(openArchive(toBuffer(bytes), { maxEntries: undefined, maxTotalSize: 10 })).rejects.toThrow(
+      /expands to more than/
+    );
+  });
+
+  it("rejects highly compressed entries", async () => {
+    const bytes = await buildZip({ "zeros.bin": new Uint8Array(4 * 1024 * 1024) });
+    await expect(openArchive(toBuffer(bytes))).rejects.toThrow(/compression ratio/);
+    await expect(openArchive(toBuffer(bytes), { maxCompressionRatio: 10000 })).resolves.toBeDefined();
+  });
+
+  it("stops inflating an entry that exceeds its declared size", async () => {
+    const bytes = await buildZip({ "big.txt": "x".repeat(5000) });
+    // Shrink the uncompressed size recorded in the central directory header.
+    const view = new DataView(bytes.buffer, bytes.byteOffset);
+    for (let i = bytes.length - 22; i >= 0; i--) {
+      if (view.getUint32(i, true) === 0x02014b50) {
+        view.setUint32(i + 24, 100, true);
+        break;
+      }
+    }
+    const archive = await openArchive(toBuffer(bytes));
+    await expect(archive.extract("big.txt")).rejects.toThrow(/declared size/);
+  });
+});
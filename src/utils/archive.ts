@@ -0,0 +1,195 @@
+import JSZip from "jszip";
+import type { ArchiveLimits } from "../types";
+import { getMimeTypeForFileName } from "../FormatRouter";
+
+export const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxEntries: 10000,
+  maxTotalSize: 1024 * 1024 * 1024,
+  maxCompressionRatio: 100,
+};
+
+/** Entries smaller than this are exempt from the compression ratio limit (tiny files compress extremely well). */
+const RATIO_CHECK_MIN_SIZE = 1024 * 1024;
+
+export interface ArchiveNode {
+  name: string;
+  /** Full path inside the archive (directories end without a slash). */
+  path: string;
+  dir: boolean;
+  /** Uncompressed size in bytes; for directories, the sum of their contents. */
+  size: number;
+  date?: Date;
+  children: ArchiveNode[];
+}
+
+export interface Archive {
+  root: ArchiveNode;
+  entryCount: number;
+  totalSize: number;
+  /** Extracts a file entry as a File whose type is inferred from its name. */
+  extract: (path: string) => Promise<File>;
+}
+
+/** Sizes from the central directory; JSZip keeps them on the private `_data` field. */
+interface EntrySizes {
+  compressedSize: number;
+  uncompressedSize: number;
+}
+
+/** Minimal typing of JSZip's documented internalStream (missing from its .d.ts). */
+interface InternalStream {
+  on(event: "data", cb: (chunk: Uint8Array) => void): InternalStream;
+  on(event: "error", cb: (e: Error) => void): InternalStream;
+  on(event: "end", cb: () => void): InternalStream;
+  resume(): InternalStream;
+  pause(): InternalStream;
+}
+
+function getEntrySizes(file: JSZip.JSZipObject): EntrySizes {
+  const data = (file as unknown as { _data?: Partial<EntrySizes> })._data;
+  return {
+    compressedSize: data?.compressedSize ?? 0,
+    uncompressedSize: data?.uncompressedSize ?? 0,
+  };
+}
+
+/** Reads the entry count from the End of Central Directory record, before JSZip parses every entry. */
+export function readZipEntryCount(bytes: Uint8Array): number | undefined {
+  const min = Math.max(0, bytes.length - 22 - 0xffff);
+  for (let i = bytes.length - 22; i >= min; i--) {
+    if (bytes[i] === 0x50 && bytes[i + 1] === 0x4b && bytes[i + 2] === 0x05 && bytes[i + 3] === 0x06) {
+      const count = bytes[i + 10] | (bytes[i + 11] << 8);
+      // 0xffff means the real count is in the ZIP64 record; JSZip reads that one.
+      return count === 0xffff ? undefined : count;
+    }
+  }
+  return undefined;
+}
+
+function formatLimit(bytes: number): string {
+  return bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+    : `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+/** Junk added by macOS Finder that is never useful to browse. */
+function isHiddenEntry(path: string): boolean {
+  return path.startsWith("__MACOSX/") || /(^|\/)\.DS_Store$/.test(path);
+}
+
+function sortTree(node: ArchiveNode): void {
+  node.children.sort((a, b) =>
+    a.dir !== b.dir ? (a.dir ? -1 : 1) : a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
+  node.children.forEach(sortTree);
+}
+
+function sumSizes(node: ArchiveNode): number {
+  if (node.dir) node.size = node.children.reduce((total, child) => total + sumSizes(child), 0);
+  return node.size;
+}
+
+/** Inflates an entry, aborting once it produces more bytes than the central directory declared. */
+function inflateEntry(file: JSZip.JSZipObject, declaredSize: number): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    const stream = (file as unknown as { internalStream: (type: "uint8array") => InternalStream }).internalStream(
+      "uint8array"
+    );
+    stream
+      .on("data", (chunk) => {
+        total += chunk.length;
+        if (total > declaredSize) {
+          stream.pause();
+          reject(new Error(`"${file.name}" expands beyond its declared size`));
+          return;
+        }
+        chunks.push(chunk);
+      })
+      .on("error", reject)
+      .on("end", () => {
+        const out = new Uint8Array(total);
+        let offset = 0;
+        for (const chunk of chunks) {
+          out.set(chunk, offset);
+          offset += chunk.length;
+        }
+        resolve(out);
+      })
+      .resume();
+  });
+}
+
+/**
+ * Opens a ZIP archive and builds its directory tree. Archives exceeding the
+ * entry count, total uncompressed size or per-entry compression ratio limits
+ * are rejected before anything is inflated.
+ */
+export async function openArchive(buffer: ArrayBuffer, limits?: Partial<ArchiveLimits>): Promise<Archive> {
+  // Per field, so an explicit `undefined` still falls back to the default.
+  const maxEntries = limits?.maxEntries ?? DEFAULT_ARCHIVE_LIMITS.maxEntries;
+  const maxTotalSize = limits?.maxTotalSize ?? DEFAULT_ARCHIVE_LIMITS.maxTotalSize;
+  const maxCompressionRatio = limits?.maxCompressionRatio ?? DEFAULT_ARCHIVE_LIMITS.maxCompressionRatio;
+  const declaredCount = readZipEntryCount(new Uint8Array(buffer));
+  if (declaredCount != null && declaredCount > maxEntries) {
+    throw new Error(`Archive has ${declaredCount} entries (limit ${maxEntries})`);
+  }
+
+  const zip = await JSZip.loadAsync(buffer, { createFolders: true });
+  const files = Object.values(zip.files).filter((file) => !isHiddenEntry(file.name));
+  if (files.length > maxEntries) {
+    throw new Error(`Archive has ${files.length} entries (limit ${maxEntries})`);
+  }
+
+  const root: ArchiveNode = { name: "", path: "", dir: true, size: 0, children: [] };
+  const nodes = new Map<string, ArchiveNode>([["", root]]);
+  const ensureDir = (path: string): ArchiveNode => {
+    const existing = nodes.get(path);
+    if (existing) return existing;
+    const slash = path.lastIndexOf("/");
+    const parent = ensureDir(slash === -1 ? "" : path.slice(0, slash));
+    const node: ArchiveNode = { name: path.slice(slash + 1), path, dir: true, size: 0, children: [] };
+    parent.children.push(node);
+    nodes.set(path, node);
+    return node;
+  };
+
+  let totalSize = 0;
+  let entryCount = 0;
+  for (const file of files) {
+    const path = file.name.replace(/\/+$/, "");
+    if (!path) continue;
+    if (file.dir) {
+      const node = ensureDir(path);
+      node.date = file.date;
+      continue;
+    }
+    const { compressedSize, uncompressedSize } = getEntrySizes(file);
+    totalSize += uncompressedSize;
+    if (totalSize > maxTotalSize) {
+      throw new Error(`Archive expands to more than ${formatLimit(maxTotalSize)}`);
+    }
+    if (uncompressedSize >= RATIO_CHECK_MIN_SIZE && uncompressedSize / Math.max(compressedSize, 1) > maxCompressionRatio) {
+      throw new Error(`"${path}" has a suspicious compression ratio (limit ${maxCompressionRatio}:1)`);
+    }
+    const slash = path.lastIndexOf("/");
+    const parent = ensureDir(slash === -1 ? "" : path.slice(0, slash));
+    const node: ArchiveNode = { name: path.slice(slash + 1), path, dir: false, size: uncompressedSize, date: file.date, children: [] };
+    parent.children.push(node);
+    nodes.set(path, node);
+    entryCount++;
+  }
+  sumSizes(root);
+  sortTree(root);
+
+  const extract = async (path: string): Promise<File> => {
+    const file = zip.file(path);
+    if (!file) throw new Error(`"${path}" not found in archive`);
+    const data = await inflateEntry(file, getEntrySizes(file).uncompressedSize);
+    const name = path.slice(path.lastIndexOf("/") + 1);
+    return new File([data as BlobPart], name, { type: getMimeTypeForFileName(name) ?? "application/octet-stream" });
+  };
+
+  return { root, entryCount, totalSize, extract };
+}
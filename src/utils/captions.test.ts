@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { findActiveCue, formatTimestamp, parseCaptions, parseTimestamp, toWebVtt } from "./captions";
+
+const VTT = `WEBVTT
+
+NOTE recorded 2024-03-01
+
+intro
+00:00:01.000 --> 00:00:04.500 align:start
+<v Counsel>Please state your name.</v>
+
+00:00:05.000 --> 00:00:07.250
+John &amp; Jane Doe.
+Second line.
+`;
+
+const SRT = `1
+00:00:01,000 --> 00:00:02,000
+First
+
+2
+00:01:02,500 --> 00:01:05,000
+<i>Second</i>
+`;
+
+describe("parseCaptions", () => {
+  it("parses WebVTT cues and strips markup", () => {
+    expect(parseCaptions(VTT)).toEqual([
+      { start: 1, end: 4.5, text: "Please state your name." },
+      { start: 5, end: 7.25, text: "John & Jane Doe.\nSecond line." },
+    ]);
+  });
+
+  it("parses SRT cues", () => {
+    expect(parseCaptions(SRT)).toEqual([
+      { start: 1, end: 2, text: "First" },
+      { start: 62.5, end: 65, text: "Second" },
+    ]);
+  });
+});
+
+describe("timestamps", () => {
+  it("parses and formats timestamps", () => {
+    expect(parseTimestamp("01:02:03.500")).toBe(3723.5);
+    expect(parseTimestamp("02:03,250")).toBe(123.25);
+    expect(formatTimestamp(65)).toBe("1:05");
+    expect(formatTimestamp(3723.5)).toBe("1:02:03");
+  });
+});
+
+describe("toWebVtt", () => {
+  it("round-trips SRT cues as WebVTT", () => {
+    const vtt = toWebVtt(parseCaptions(SRT));
+    expect(vtt).toContain("00:01:02.500 --> 00:01:05.000\nSecond");
+    expect(parseCaptions(vtt)).toEqual(parseCaptions(SRT));
+  });
+});
+
+describe("findActiveCue", () => {
+  it("returns the cue covering the time, or -1 in gaps", () => {
+    const cues = parseCaptions(VTT);
+    expect(findActiveCue(cues, 0.5)).toBe(-1);
+    expect(findActiveCue(cues, 2)).toBe(0);
+    expect(findActiveCue(cues, 4.8)).toBe(-1);
+    expect(findActiveCue(cues, 6)).toBe(1);
+  });
+});
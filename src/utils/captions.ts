@@ -0,0 +1,86 @@
+export interface CaptionCue {
+  /** Start time in seconds. */
+  start: number;
+  /** End time in seconds. */
+  end: number;
+  /** Cue text with markup tags removed; lines joined with "\n". */
+  text: string;
+}
+
+const TIMING = /^\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+/** Parses "hh:mm:ss.mmm", "mm:ss.mmm" or the SRT form "hh:mm:ss,mmm" to seconds. */
+export function parseTimestamp(value: string): number {
+  const parts = value.trim().replace(",", ".").split(":");
+  return parts.reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+/** Formats seconds as m:ss or h:mm:ss for display. */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+function stripCueMarkup(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Parses WebVTT or SRT captions into cues. Blocks without a timing line
+ * (WEBVTT header, NOTE, STYLE, REGION) are skipped, as are cue settings.
+ */
+export function parseCaptions(source: string): CaptionCue[] {
+  const blocks = source.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n").split(/\n{2,}/);
+  const cues: CaptionCue[] = [];
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex((line) => TIMING.test(line));
+    if (timingIndex === -1) continue;
+    const match = TIMING.exec(lines[timingIndex])!;
+    const text = stripCueMarkup(lines.slice(timingIndex + 1).join("\n")).trim();
+    if (!text) continue;
+    cues.push({ start: parseTimestamp(match[1]), end: parseTimestamp(match[2]), text });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+}
+
+function toVttTimestamp(seconds: number): string {
+  const ms = Math.round(seconds * 1000);
+  const h = String(Math.floor(ms / 3600000)).padStart(2, "0");
+  const m = String(Math.floor((ms % 3600000) / 60000)).padStart(2, "0");
+  const s = String(Math.floor((ms % 60000) / 1000)).padStart(2, "0");
+  return `${h}:${m}:${s}.${String(ms % 1000).padStart(3, "0")}`;
+}
+
+/** Serializes cues as WebVTT so SRT files can be attached to a native <track>. */
+export function toWebVtt(cues: CaptionCue[]): string {
+  const body = cues
+    .map((cue) => `${toVttTimestamp(cue.start)} --> ${toVttTimestamp(cue.end)}\n${cue.text}`)
+    .join("\n\n");
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/** Index of the cue active at `time`, or -1. */
+export function findActiveCue(cues: CaptionCue[], time: number): number {
+  let lo = 0;
+  let hi = cues.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (cues[mid].start <= time) {
+      found = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found !== -1 && time < cues[found].end ? found : -1;
+}
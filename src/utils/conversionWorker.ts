@@ -1,22 +1,31 @@
+import type { RequestConfig } from "../types";
+import { requestFetch } from "./request";
+
 /**
  * POSTs an Office file to the conversion worker URL and returns a PDF URL.
  * Request: multipart/form-data with field name "file".
  * Response: (a) 200 with Content-Type application/pdf → create object URL from blob, or
  *           (b) 200 with Content-Type application/json and body { url: string }.
+ * The request configuration (headers, credentials, custom fetch) is applied to the POST.
  * Returns { pdfUrl, revoke } where revoke() must be called when done (only when pdfUrl was created from binary response).
  */
 export async function convertViaWorker(
   workerUrl: string,
   file: Blob,
-  _mimeType: string
+  _mimeType: string,
+  request?: RequestConfig
 ): Promise<{ pdfUrl: string; revoke?: () => void }> {
   const form = new FormData();
   form.append("file", file, (file as File).name ?? "document");
 
-  const res = await fetch(workerUrl, {
-    method: "POST",
-    body: form,
-  });
+  const res = await requestFetch(
+    workerUrl,
+    {
+      method: "POST",
+      body: form,
+    },
+    request
+  );
 
   if (!res.ok) {
     const text = await res.text();
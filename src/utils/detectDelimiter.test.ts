@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { detectDelimiter } from "./detectDelimiter";
+
+describe("detectDelimiter", () => {
+  it("detects commas", () => {
+    expect(detectDelimiter("name,age\nAda,36\nAlan,41")).toBe(",");
+  });
+
+  it("detects semicolons used with decimal commas", () => {
+    expect(detectDelimiter("item;price\nTea;1,50\nCoffee;2,75")).toBe(";");
+  });
+
+  it("detects tabs and pipes", () => {
+    expect(detectDelimiter("a\tb\tc\n1\t2\t3")).toBe("\t");
+    expect(detectDelimiter("a|b\n1|2")).toBe("|");
+  });
+
+  it("ignores delimiters inside quoted fields", () => {
+    expect(detectDelimiter('"Smith, John";42\n"Doe, Jane";37')).toBe(";");
+  });
+
+  it("falls back when no delimiter is found", () => {
+    expect(detectDelimiter("single column\nvalue")).toBe(",");
+    expect(detectDelimiter("", "\t")).toBe("\t");
+  });
+});
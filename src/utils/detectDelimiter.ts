@@ -0,0 +1,47 @@
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"];
+const SAMPLE_LINES = 20;
+
+/**
+ * Counts delimiter occurrences per line, ignoring delimiters inside double-quoted fields.
+ */
+function countPerLine(lines: string[], delimiter: string): number[] {
+  return lines.map((line) => {
+    let count = 0;
+    let inQuotes = false;
+    for (let i = 0; i < line.length; i += 1) {
+      const ch = line[i];
+      if (ch === '"') inQuotes = !inQuotes;
+      else if (ch === delimiter && !inQuotes) count += 1;
+    }
+    return count;
+  });
+}
+
+/**
+ * Detects the field delimiter of delimited text (CSV/TSV/semicolon/pipe).
+ * Prefers the candidate that appears a consistent, non-zero number of times on
+ * the sampled lines; falls back to the most frequent one, then to `fallback`.
+ */
+export function detectDelimiter(text: string, fallback = ","): string {
+  const lines = text
+    .split(/\r\n|\n|\r/)
+    .filter((line) => line.trim().length > 0)
+    .slice(0, SAMPLE_LINES);
+  if (lines.length === 0) return fallback;
+
+  let best = fallback;
+  let bestScore = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = countPerLine(lines, delimiter);
+    const first = counts[0];
+    if (first === 0) continue;
+    const consistent = counts.filter((c) => c === first).length / counts.length;
+    // Consistency dominates; frequency breaks ties between consistent candidates.
+    const score = consistent * 1000 + Math.min(first, 999);
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { decodeText, detectEncoding } from "./detectEncoding";
+
+function bytes(...values: number[]): ArrayBuffer {
+  return new Uint8Array(values).buffer;
+}
+
+describe("detectEncoding", () => {
+  it("detects byte-order marks", () => {
+    expect(detectEncoding(bytes(0xef, 0xbb, 0xbf, 0x61))).toEqual({ encoding: "utf-8", bomLength: 3 });
+    expect(detectEncoding(bytes(0xff, 0xfe, 0x61, 0x00))).toEqual({ encoding: "utf-16le", bomLength: 2 });
+    expect(detectEncoding(bytes(0xfe, 0xff, 0x00, 0x61))).toEqual({ encoding: "utf-16be", bomLength: 2 });
+  });
+
+  it("detects UTF-16 without a BOM", () => {
+    expect(detectEncoding(bytes(0x68, 0, 0x69, 0, 0x21, 0)).encoding).toBe("utf-16le");
+    expect(detectEncoding(bytes(0, 0x68, 0, 0x69, 0, 0x21)).encoding).toBe("utf-16be");
+  });
+
+  it("falls back to windows-1252 for invalid UTF-8", () => {
+    // "café" in Latin-1
+    expect(detectEncoding(bytes(0x63, 0x61, 0x66, 0xe9)).encoding).toBe("windows-1252");
+    expect(detectEncoding(new TextEncoder().encode("café").buffer).encoding).toBe("utf-8");
+  });
+});
+
+describe("decodeText", () => {
+  it("decodes and strips the BOM", () => {
+    expect(decodeText(bytes(0xef, 0xbb, 0xbf, 0x68, 0x69))).toEqual({ text: "hi", encoding: "utf-8" });
+    expect(decodeText(bytes(0xff, 0xfe, 0x68, 0x00, 0x69, 0x00)).text).toBe("hi");
+    expect(decodeText(bytes(0x63, 0x61, 0x66, 0xe9)).text).toBe("café");
+  });
+});
@@ -0,0 +1,62 @@
+export type TextEncodingName = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+export interface DetectedEncoding {
+  encoding: TextEncodingName;
+  /** Number of byte-order-mark bytes at the start of the buffer. */
+  bomLength: number;
+}
+
+const SAMPLE_SIZE = 4096;
+
+/**
+ * Guesses UTF-16 byte order from the distribution of zero bytes: mostly-ASCII
+ * UTF-16 text has a zero in every other byte.
+ */
+function detectUtf16WithoutBom(bytes: Uint8Array): TextEncodingName | null {
+  const length = Math.min(bytes.length, SAMPLE_SIZE) & ~1;
+  if (length < 4) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenZeros += 1;
+    if (bytes[i + 1] === 0) oddZeros += 1;
+  }
+  const pairs = length / 2;
+  if (oddZeros / pairs > 0.4 && evenZeros / pairs < 0.05) return "utf-16le";
+  if (evenZeros / pairs > 0.4 && oddZeros / pairs < 0.05) return "utf-16be";
+  return null;
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detects the text encoding of a buffer:
+ * - byte-order marks (UTF-8, UTF-16 LE/BE),
+ * - UTF-16 without BOM (zero-byte heuristic),
+ * - strict UTF-8 validation, falling back to Windows-1252 (a Latin-1 superset).
+ */
+export function detectEncoding(buffer: ArrayBuffer): DetectedEncoding {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { encoding: "utf-8", bomLength: 3 };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: "utf-16le", bomLength: 2 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: "utf-16be", bomLength: 2 };
+  const utf16 = detectUtf16WithoutBom(bytes);
+  if (utf16) return { encoding: utf16, bomLength: 0 };
+  return { encoding: isValidUtf8(bytes) ? "utf-8" : "windows-1252", bomLength: 0 };
+}
+
+/** Decodes a buffer as text using the detected encoding (BOM stripped). */
+export function decodeText(buffer: ArrayBuffer): { text: string; encoding: TextEncodingName } {
+  const { encoding, bomLength } = detectEncoding(buffer);
+  const text = new TextDecoder(encoding).decode(new Uint8Array(buffer, bomLength));
+  return { text, encoding };
+}
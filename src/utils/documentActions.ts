@@ -0,0 +1,119 @@
+import type { DocumentSource, ViewerOptions } from "../types";
+
+/**
+ * Default toolbar actions (download, print, fullscreen) shared by renderers.
+ * Each action defers to the matching ViewerOptions callback when provided.
+ */
+
+export function getDownloadFileName(source: DocumentSource, fallback?: string): string {
+  if (fallback && fallback.trim().length > 0) return fallback;
+  if (typeof source === "string") {
+    try {
+      const url = new URL(source, window.location.href);
+      const last = url.pathname.split("/").filter(Boolean).pop();
+      if (last) return decodeURIComponent(last);
+    } catch {
+      return "";
+    }
+  }
+  if (source instanceof File && source.name) return source.name;
+  return "";
+}
+
+export function downloadDocument(
+  source: DocumentSource,
+  mimeType: string,
+  options?: ViewerOptions
+): void {
+  if (options?.onDownload) {
+    options.onDownload(source, mimeType);
+    return;
+  }
+  const downloadName = getDownloadFileName(source, options?.downloadFileName);
+  if (typeof source === "string") {
+    const a = document.createElement("a");
+    a.href = source;
+    if (downloadName) a.download = downloadName;
+    a.click();
+    return;
+  }
+  const url = URL.createObjectURL(source);
+  const a = document.createElement("a");
+  a.href = url;
+  if (downloadName) a.download = downloadName;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function printDocument(
+  source: DocumentSource,
+  mimeType: string,
+  options?: ViewerOptions
+): void {
+  if (options?.onPrint) {
+    options.onPrint(source, mimeType);
+    return;
+  }
+  const openAndPrint = (url: string) => {
+    const w = window.open(url);
+    if (w) {
+      w.addEventListener("load", () => w.print());
+    }
+  };
+  if (typeof source === "string") {
+    openAndPrint(source);
+    return;
+  }
+  const url = URL.createObjectURL(source);
+  openAndPrint(url);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Prints already-rendered (sanitized) HTML from a hidden iframe, for formats
+ * the browser can't print from the source file itself (e.g. DOCX).
+ */
+export function printHtml(
+  source: DocumentSource,
+  mimeType: string,
+  html: string,
+  options?: ViewerOptions,
+  css = ""
+): void {
+  if (options?.onPrint) {
+    options.onPrint(source, mimeType);
+    return;
+  }
+  const frame = document.createElement("iframe");
+  frame.style.cssText = "position: fixed; width: 0; height: 0; border: 0; visibility: hidden";
+  document.body.appendChild(frame);
+  const win = frame.contentWindow;
+  if (!win) {
+    frame.remove();
+    return;
+  }
+  win.document.open();
+  win.document.write(`<!DOCTYPE html><html><head><style>${css}</style></head><body>${html}</body></html>`);
+  win.document.close();
+  const print = () => {
+    win.addEventListener("afterprint", () => frame.remove());
+    win.focus();
+    win.print();
+  };
+  if (win.document.readyState === "complete") print();
+  else win.addEventListener("load", print);
+}
+
+export function toggleFullscreen(container: HTMLElement | null, options?: ViewerOptions): void {
+  if (options?.onFullscreen) {
+    options.onFullscreen(container);
+    return;
+  }
+  if (container) {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      container.requestFullscreen?.();
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { fillPageFields, layoutDocxPages, paginate, readDocxPageSetup, selectHeaderFooter } from "./docxLayout";
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+async function buildDocx(sectPr: string, files: Record<string, string> = {}): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file("word/document.xml", `<w:document ${W}><w:body><w:p><w:r><w:t>Body</w:t></w:r></w:p>${sectPr}</w:body></w:document>`);
+  for (const [path, content] of Object.entries(files)) zip.file(path, content);
+  return zip.generateAsync({ type: "arraybuffer" });
+}
+
+describe("readDocxPageSetup", () => {
+  it("reads page size, orientation, margins and the default font", async () => {
+    const setup = await readDocxPageSetup(
+      await buildDocx(
+        '<w:sectPr><w:pgSz w:w="16838" w:h="11906" w:orient="landscape"/><w:pgMar w:top="1440" w:right="720" w:bottom="-1440" w:left="720" w:header="708" w:footer="708"/><w:titlePg/></w:sectPr>',
+        {
+          "word/styles.xml": `<w:styles ${W}><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:asciiTheme="minorHAnsi"/><w:sz w:val="22"/></w:rPr></w:rPrDefault></w:docDefaults></w:styles>`,
+          "word/theme/theme1.xml":
+            '<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:themeElements><a:fontScheme name="f"><a:majorFont><a:latin typeface="Calibri Light"/></a:majorFont><a:minorFont><a:latin typeface="Calibri"/></a:minorFont></a:fontScheme></a:themeElements></a:theme>',
+          "word/settings.xml": `<w:settings ${W}><w:evenAndOddHeaders/></w:settings>`,
+        }
+      )
+    );
+    expect(setup.width).toBeCloseTo(1122.5, 1);
+    expect(setup.height).toBeCloseTo(793.7, 1);
+    expect(setup.margins).toEqual({ top: 96, right: 48, bottom: 96, left: 48, header: 47.2, footer: 47.2 });
+    expect(setup.titlePage).toBe(true);
+    expect(setup.evenAndOdd).toBe(true);
+    expect(setup.fontFamily).toBe("Calibri");
+    expect(setup.fontSize).toBeCloseTo(14.67, 2);
+  });
+
+  it("defaults to US Letter and converts headers and footers with page fields", async () => {
+    const setup = await readDocxPageSetup(
+      await buildDocx('<w:sectPr><w:headerReference w:type="default" r:id="rH"/><w:footerReference w:type="first" r:id="rF"/></w:sectPr>', {
+        "word/_rels/document.xml.rels": `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rH" Type="${REL}/header" Target="header1.xml"/><Relationship Id="rF" Type="${REL}/footer" Target="footer1.xml"/></Relationships>`,
+        "word/header1.xml": `<w:hdr ${W}><w:p><w:pPr><w:jc w:val="right"/></w:pPr><w:r><w:rPr><w:b/></w:rPr><w:t>Confidential</w:t></w:r></w:p></w:hdr>`,
+        "word/footer1.xml":
+          `<w:ftr ${W}><w:p><w:r><w:t xml:space="preserve">Page </w:t></w:r><w:r><w:fldChar w:fldCharType="begin"/></w:r><w:r><w:instrText> PAGE </w:instrText></w:r>` +
+          '<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>7</w:t></w:r><w:r><w:fldChar w:fldCharType="end"/></w:r>' +
+          '<w:r><w:t xml:space="preserve"> of </w:t></w:r><w:fldSimple w:instr="NUMPAGES"><w:r><w:t>9</w:t></w:r></w:fldSimple></w:p></w:ftr>',
+      })
+    );
+    expect(setup.width).toBe(816);
+    expect(setup.margins.top).toBe(96);
+    expect(setup.headers.default).toBe('<p style="margin: 0; text-align: right"><span style="font-weight: bold">Confidential</span></p>');
+    expect(selectHeaderFooter(setup.footers, 1, { titlePage: true, evenAndOdd: false })).toBe(setup.footers.first);
+    expect(selectHeaderFooter(setup.footers, 2, { titlePage: true, evenAndOdd: false })).toBeUndefined();
+    const footer = fillPageFields(setup.footers.first!, 1, 3);
+    expect(new DOMParser().parseFromString(footer, "text/html").body.textContent).toBe("Page 1 of 3");
+  });
+
+  it("sanitizes headers and footers with the given DOMPurify config", async () => {
+    const setup = await readDocxPageSetup(
+      await buildDocx('<w:sectPr><w:headerReference w:type="default" r:id="rH"/></w:sectPr>', {
+        "word/_rels/document.xml.rels": `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rH" Type="${REL}/header" Target="header1.xml"/></Relationships>`,
+        "word/header1.xml": `<w:hdr ${W}><w:p><w:r><w:rPr><w:b/></w:rPr><w:t>Draft</w:t></w:r></w:p></w:hdr>`,
+      }),
+      { FORBID_ATTR: ["style"] }
+    );
+    expect(setup.headers.default).toBe("<p><span>Draft</span></p>");
+  });
+
+  it("rejects files without a main document part", async () => {
+    const zip = new JSZip();
+    zip.file("word/styles.xml", "<w:styles/>");
+    await expect(readDocxPageSetup(await zip.generateAsync({ type: "arraybuffer" }))).rejects.toThrow(
+      "Invalid DOCX: word/document.xml is missing"
+    );
+  });
+});
+
+describe("paginate", () => {
+  it("moves blocks that don't fit and honors page breaks", () => {
+    const block = (height: number, breakBefore = false) => ({ height, footnoteHeight: 0, breakBefore });
+    expect(paginate([block(60), block(30), block(50), block(10, true), block(200)], 100)).toEqual([
+      [{ block: 0 }, { block: 1 }],
+      [{ block: 2 }],
+      [{ block: 3 }],
+      [{ block: 4 }],
+    ]);
+  });
+
+  it("splits tables between rows and reserves room for footnotes", () => {
+    const pages = paginate(
+      [
+        { height: 40, footnoteHeight: 10, breakBefore: false },
+        { height: 130, footnoteHeight: 0, breakBefore: false, rows: [30, 30, 30, 30], headerHeight: 10 },
+      ],
+      100,
+      5
+    );
+    expect(pages).toEqual([
+      [{ block: 0 }, { block: 1, rows: [0, 1] }],
+      [{ block: 1, rows: [1, 4] }],
+    ]);
+  });
+});
+
+describe("layoutDocxPages", () => {
+  it("splits at page breaks and moves footnotes to the page that references them", async () => {
+    const measure = document.createElement("div");
+    measure.innerHTML =
+      '<p>One<sup><a href="#footnote-1" id="footnote-ref-1">[1]</a></sup></p><hr class="docx-page-break"><p>Two<sup><a href="#footnote-2" id="footnote-ref-2">[2]</a></sup></p>' +
+      '<ol><li id="footnote-1"><p>First note</p></li><li id="footnote-2"><p>Second note</p></li></ol>';
+    const pages = await layoutDocxPages(measure, 900, 12);
+    expect(pages).toHaveLength(2);
+    expect(pages[0].html).toContain("One");
+    expect(pages[0].html).not.toContain("First note");
+    expect(pages[0].footnotes).toBe('<li id="footnote-1" value="1"><p>First note</p></li>');
+    expect(pages[1].footnotes).toContain("Second note");
+    expect(pages[1].footnotes).toContain('value="2"');
+  });
+
+  it("wraps text left after a page break back into a paragraph", async () => {
+    const measure = document.createElement("div");
+    measure.innerHTML = '<p>Before</p><hr class="docx-page-break">After <strong>break</strong><p></p>';
+    const pages = await layoutDocxPages(measure, 900, 12);
+    expect(pages.map((page) => page.html)).toEqual(["<p>Before</p>", "<p>After <strong>break</strong></p><p></p>"]);
+  });
+});
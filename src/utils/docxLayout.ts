@@ -0,0 +1,585 @@
+import JSZip from "jszip";
+import DOMPurify from "dompurify";
+import { getMimeTypeForFileName } from "../FormatRouter";
+import type { DocxSanitizeConfig } from "../types";
+
+const NS = {
+  w: "http://schemas.openxmlformats.org/wordprocessingml/2006/main",
+  r: "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+  rel: "http://schemas.openxmlformats.org/package/2006/relationships",
+  a: "http://schemas.openxmlformats.org/drawingml/2006/main",
+  wp: "http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing",
+};
+
+/** Twentieths of a point (twips) to CSS pixels. */
+const TWIPS_PER_PX = 15;
+/** Half-points to CSS pixels. */
+const HALF_POINT_TO_PX = 96 / 72 / 2;
+/** EMUs per CSS pixel. */
+const EMU_PER_PX = 9525;
+
+/** Page margins in pixels; `header` and `footer` are the distances from the page edge. */
+export interface DocxMargins {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+  header: number;
+  footer: number;
+}
+
+/** Sanitized header or footer HTML per page kind; PAGE/NUMPAGES fields are left for fillPageFields. */
+export interface DocxHeaderFooters {
+  default?: string;
+  first?: string;
+  even?: string;
+}
+
+export interface DocxPageSetup {
+  /** Page size in pixels, after applying the orientation. */
+  width: number;
+  height: number;
+  margins: DocxMargins;
+  /** The first page has its own header/footer (w:titlePg). */
+  titlePage: boolean;
+  /** Even pages have their own header/footer (w:evenAndOddHeaders). */
+  evenAndOdd: boolean;
+  headers: DocxHeaderFooters;
+  footers: DocxHeaderFooters;
+  /** Default font of the document body. */
+  fontFamily?: string;
+  /** Default font size in pixels. */
+  fontSize?: number;
+}
+
+/** A top-level block of the converted document, measured at the page's content width. */
+export interface LayoutBlock {
+  height: number;
+  /** Height of the footnotes referenced in the block; they go on the same page. */
+  footnoteHeight: number;
+  /** Starts a new page (a manual page break precedes it). */
+  breakBefore: boolean;
+  /** Heights of body rows for tables, which may be split across pages. */
+  rows?: number[];
+  /** Height of repeated header rows, drawn again on each page a table continues on. */
+  headerHeight?: number;
+}
+
+/** A block placed on a page; `rows` is the [start, end) range of table body rows. */
+export interface PagePiece {
+  block: number;
+  rows?: [number, number];
+}
+
+interface Relationship {
+  type: string;
+  target: string;
+}
+
+interface HeaderFooterContext {
+  out: Document;
+  zip: JSZip;
+  rels: Map<string, Relationship>;
+}
+
+/** US Letter with one-inch margins, Word's defaults when a section omits them. */
+const DEFAULT_SETUP: Pick<DocxPageSetup, "width" | "height" | "margins"> = {
+  width: 816,
+  height: 1056,
+  margins: { top: 96, right: 96, bottom: 96, left: 96, header: 48, footer: 48 },
+};
+
+function child(el: Element | undefined, name: string): Element | undefined {
+  if (!el) return undefined;
+  for (const c of Array.from(el.children)) if (c.namespaceURI === NS.w && c.localName === name) return c;
+  return undefined;
+}
+
+function attr(el: Element | undefined, name: string): string | null {
+  return el?.getAttributeNS(NS.w, name) ?? null;
+}
+
+function twips(el: Element | undefined, name: string, fallback: number): number {
+  const value = Number(attr(el, name) ?? NaN);
+  return Number.isFinite(value) ? value / TWIPS_PER_PX : fallback;
+}
+
+/** Toggle properties (w:b, w:i, ...) are on unless w:val is "0"/"false". */
+function isOn(el: Element | undefined): boolean {
+  if (!el) return false;
+  const value = attr(el, "val");
+  return value !== "0" && value !== "false" && value !== "none";
+}
+
+function parseXml(text: string, label: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`Invalid DOCX: ${label} could not be parsed`);
+  }
+  return doc;
+}
+
+async function readXml(zip: JSZip, path: string): Promise<Document | undefined> {
+  const xml = await zip.file(path)?.async("string");
+  return xml == null ? undefined : parseXml(xml, path);
+}
+
+async function readRels(zip: JSZip, partPath: string): Promise<Map<string, Relationship>> {
+  const slash = partPath.lastIndexOf("/");
+  const dir = partPath.slice(0, slash + 1);
+  const rels = new Map<string, Relationship>();
+  const doc = await readXml(zip, `${dir}_rels/${partPath.slice(slash + 1)}.rels`);
+  if (!doc) return rels;
+  for (const el of Array.from(doc.getElementsByTagNameNS(NS.rel, "Relationship"))) {
+    const id = el.getAttribute("Id");
+    const target = el.getAttribute("Target") ?? "";
+    if (!id || el.getAttribute("TargetMode") === "External") continue;
+    rels.set(id, {
+      type: el.getAttribute("Type") ?? "",
+      target: target.startsWith("/") ? target.slice(1) : `${dir}${target}`.replace(/[^/]+\/\.\.\//g, ""),
+    });
+  }
+  return rels;
+}
+
+/** Resolves the document's default font from docDefaults and the default paragraph style. */
+async function readDefaultFont(zip: JSZip): Promise<{ fontFamily?: string; fontSize?: number }> {
+  const styles = await readXml(zip, "word/styles.xml");
+  if (!styles) return {};
+  const docDefaults = styles.getElementsByTagNameNS(NS.w, "rPrDefault")[0];
+  const normal = Array.from(styles.getElementsByTagNameNS(NS.w, "style")).find(
+    (s) => attr(s, "type") === "paragraph" && attr(s, "default") === "1"
+  );
+  const runProps = [child(normal, "rPr"), child(docDefaults, "rPr")];
+
+  let fontFamily: string | undefined;
+  let fontSize: number | undefined;
+  for (const rPr of runProps) {
+    const fonts = child(rPr, "rFonts");
+    if (!fontFamily && fonts) {
+      fontFamily = attr(fonts, "ascii") ?? attr(fonts, "hAnsi") ?? undefined;
+      const themeFont = attr(fonts, "asciiTheme") ?? attr(fonts, "hAnsiTheme");
+      if (!fontFamily && themeFont) fontFamily = await readThemeFont(zip, themeFont.startsWith("major") ? "majorFont" : "minorFont");
+    }
+    const size = Number(attr(child(rPr, "sz"), "val") ?? NaN);
+    if (fontSize == null && Number.isFinite(size)) fontSize = size * HALF_POINT_TO_PX;
+  }
+  return { fontFamily, fontSize };
+}
+
+async function readThemeFont(zip: JSZip, slot: "majorFont" | "minorFont"): Promise<string | undefined> {
+  const theme = await readXml(zip, "word/theme/theme1.xml");
+  const font = theme?.getElementsByTagNameNS(NS.a, slot)[0];
+  const latin = font && Array.from(font.children).find((c) => c.localName === "latin");
+  return latin?.getAttribute("typeface") || undefined;
+}
+
+function runCss(rPr: Element | undefined): string {
+  const css: string[] = [];
+  if (isOn(child(rPr, "b"))) css.push("font-weight: bold");
+  if (isOn(child(rPr, "i"))) css.push("font-style: italic");
+  const decorations = [
+    isOn(child(rPr, "u")) ? "underline" : "",
+    isOn(child(rPr, "strike")) ? "line-through" : "",
+  ].filter(Boolean);
+  if (decorations.length) css.push(`text-decoration: ${decorations.join(" ")}`);
+  const color = attr(child(rPr, "color"), "val");
+  if (color && /^[0-9a-f]{6}$/i.test(color)) css.push(`color: #${color}`);
+  const size = Number(attr(child(rPr, "sz"), "val") ?? NaN);
+  if (Number.isFinite(size)) css.push(`font-size: ${Math.round(size * HALF_POINT_TO_PX * 10) / 10}px`);
+  const valign = attr(child(rPr, "vertAlign"), "val");
+  if (valign === "superscript") css.push("vertical-align: super");
+  else if (valign === "subscript") css.push("vertical-align: sub");
+  return css.join("; ");
+}
+
+function fieldSpan(ctx: HeaderFooterContext, instr: string): HTMLElement | undefined {
+  const name = instr.trim().split(/\s+/)[0]?.toUpperCase();
+  if (name !== "PAGE" && name !== "NUMPAGES" && name !== "SECTIONPAGES") return undefined;
+  const span = ctx.out.createElement("span");
+  span.setAttribute("data-docx-field", name === "PAGE" ? "PAGE" : "NUMPAGES");
+  return span;
+}
+
+async function convertDrawing(ctx: HeaderFooterContext, drawing: Element): Promise<HTMLElement | undefined> {
+  const blip = drawing.getElementsByTagNameNS(NS.a, "blip")[0];
+  const rel = ctx.rels.get(blip?.getAttributeNS(NS.r, "embed") ?? "");
+  const mimeType = rel ? getMimeTypeForFileName(rel.target) : undefined;
+  const file = rel && ctx.zip.file(rel.target);
+  if (!file || !mimeType?.startsWith("image/")) return undefined;
+  const img = ctx.out.createElement("img");
+  img.setAttribute("src", `data:${mimeType};base64,${await file.async("base64")}`);
+  const extent = drawing.getElementsByTagNameNS(NS.wp, "extent")[0];
+  const cx = Number(extent?.getAttribute("cx") ?? NaN);
+  const cy = Number(extent?.getAttribute("cy") ?? NaN);
+  if (Number.isFinite(cx) && Number.isFinite(cy)) {
+    img.setAttribute("style", `width: ${Math.round(cx / EMU_PER_PX)}px; height: ${Math.round(cy / EMU_PER_PX)}px`);
+  }
+  return img;
+}
+
+/**
+ * Converts the runs of a paragraph. Complex fields (fldChar begin / instrText /
+ * separate / end) are tracked so PAGE and NUMPAGES results become placeholders
+ * instead of the page number Word happened to cache.
+ */
+async function convertRuns(ctx: HeaderFooterContext, parent: Element, target: HTMLElement): Promise<void> {
+  let instr: string | null = null;
+  let skipResult = false;
+  for (const el of Array.from(parent.children)) {
+    if (el.namespaceURI !== NS.w) continue;
+    if (el.localName === "fldSimple") {
+      const field = fieldSpan(ctx, attr(el, "instr") ?? "");
+      if (field) target.appendChild(field);
+      else await convertRuns(ctx, el, target);
+      continue;
+    }
+    if (el.localName === "hyperlink" || el.localName === "smartTag" || el.localName === "ins") {
+      await convertRuns(ctx, el, target);
+      continue;
+    }
+    if (el.localName !== "r") continue;
+
+    const span = ctx.out.createElement("span");
+    const css = runCss(child(el, "rPr"));
+    if (css) span.setAttribute("style", css);
+    for (const part of Array.from(el.children)) {
+      if (part.namespaceURI !== NS.w) continue;
+      if (part.localName === "fldChar") {
+        const type = attr(part, "fldCharType");
+        if (type === "begin") instr = "";
+        else if (type === "separate") {
+          const field = instr == null ? undefined : fieldSpan(ctx, instr);
+          if (field) span.appendChild(field);
+          skipResult = field != null;
+          instr = null;
+        } else if (type === "end") {
+          instr = null;
+          skipResult = false;
+        }
+      } else if (part.localName === "instrText") {
+        if (instr != null) instr += part.textContent ?? "";
+      } else if (skipResult || instr != null) {
+        continue;
+      } else if (part.localName === "t") {
+        span.appendChild(ctx.out.createTextNode(part.textContent ?? ""));
+      } else if (part.localName === "tab" || part.localName === "ptab") {
+        span.appendChild(ctx.out.createTextNode(" "));
+      } else if (part.localName === "br" || part.localName === "cr") {
+        span.appendChild(ctx.out.createElement("br"));
+      } else if (part.localName === "drawing") {
+        const img = await convertDrawing(ctx, part);
+        if (img) span.appendChild(img);
+      }
+    }
+    if (span.childNodes.length > 0) target.appendChild(span);
+  }
+}
+
+const JUSTIFY: Record<string, string> = { center: "center", right: "right", end: "right", both: "justify" };
+
+async function convertBlocks(ctx: HeaderFooterContext, parent: Element, target: HTMLElement): Promise<void> {
+  for (const el of Array.from(parent.children)) {
+    if (el.namespaceURI !== NS.w) continue;
+    if (el.localName === "p") {
+      const p = ctx.out.createElement("p");
+      const align = JUSTIFY[attr(child(child(el, "pPr"), "jc"), "val") ?? ""];
+      p.setAttribute("style", `margin: 0${align ? `; text-align: ${align}` : ""}`);
+      await convertRuns(ctx, el, p);
+      if (p.childNodes.length === 0) p.appendChild(ctx.out.createElement("br"));
+      target.appendChild(p);
+    } else if (el.localName === "tbl") {
+      const table = ctx.out.createElement("table");
+      table.setAttribute("style", "width: 100%; border-collapse: collapse");
+      for (const tr of Array.from(el.children).filter((c) => c.localName === "tr")) {
+        const row = table.appendChild(ctx.out.createElement("tr"));
+        for (const tc of Array.from(tr.children).filter((c) => c.localName === "tc")) {
+          const cell = row.appendChild(ctx.out.createElement("td"));
+          cell.setAttribute("style", "vertical-align: top; padding: 0");
+          const span = Number(attr(child(child(tc, "tcPr"), "gridSpan"), "val") ?? 1);
+          if (span > 1) cell.setAttribute("colspan", String(span));
+          await convertBlocks(ctx, tc, cell);
+        }
+      }
+      target.appendChild(table);
+    } else if (el.localName === "sdt") {
+      await convertBlocks(ctx, child(el, "sdtContent") ?? el, target);
+    }
+  }
+}
+
+async function readHeaderFooter(
+  zip: JSZip,
+  path: string,
+  sanitizeConfig?: DocxSanitizeConfig
+): Promise<string | undefined> {
+  const doc = await readXml(zip, path);
+  if (!doc) return undefined;
+  const out = document.implementation.createHTMLDocument("");
+  const root = out.createElement("div");
+  await convertBlocks({ out, zip, rels: await readRels(zip, path) }, doc.documentElement, root);
+  return DOMPurify.sanitize(root.innerHTML, sanitizeConfig);
+}
+
+async function readReferences(
+  zip: JSZip,
+  sectPr: Element | undefined,
+  name: "headerReference" | "footerReference",
+  rels: Map<string, Relationship>,
+  sanitizeConfig?: DocxSanitizeConfig
+): Promise<DocxHeaderFooters> {
+  const result: DocxHeaderFooters = {};
+  if (!sectPr) return result;
+  for (const ref of Array.from(sectPr.children).filter((c) => c.namespaceURI === NS.w && c.localName === name)) {
+    const type = (attr(ref, "type") ?? "default") as keyof DocxHeaderFooters;
+    const rel = rels.get(ref.getAttributeNS(NS.r, "id") ?? "");
+    if (!rel || !(type === "default" || type === "first" || type === "even")) continue;
+    result[type] = await readHeaderFooter(zip, rel.target, sanitizeConfig);
+  }
+  return result;
+}
+
+/**
+ * Reads the page layout of a DOCX file from the section properties of the
+ * document body: page size and orientation, margins, headers and footers
+ * (default, first page and even pages) and the default body font. Documents
+ * with several sections are laid out with the last one. Header and footer
+ * HTML is sanitized with `sanitizeConfig` (DOMPurify defaults when omitted).
+ */
+export async function readDocxPageSetup(
+  buffer: ArrayBuffer,
+  sanitizeConfig?: DocxSanitizeConfig
+): Promise<DocxPageSetup> {
+  const zip = await JSZip.loadAsync(buffer);
+  const main = await readXml(zip, "word/document.xml");
+  if (!main) throw new Error("Invalid DOCX: word/document.xml is missing");
+  const body = main.getElementsByTagNameNS(NS.w, "body")[0];
+  const sectPr = child(body, "sectPr");
+  const pgSz = child(sectPr, "pgSz");
+  const pgMar = child(sectPr, "pgMar");
+  const { margins } = DEFAULT_SETUP;
+
+  let width = twips(pgSz, "w", DEFAULT_SETUP.width);
+  let height = twips(pgSz, "h", DEFAULT_SETUP.height);
+  if ((attr(pgSz, "orient") === "landscape") !== width > height) [width, height] = [height, width];
+
+  const rels = await readRels(zip, "word/document.xml");
+  const settings = await readXml(zip, "word/settings.xml");
+  return {
+    width,
+    height,
+    margins: {
+      // Negative top/bottom margins mean "don't grow to fit the header"; the distance still applies.
+      top: Math.abs(twips(pgMar, "top", margins.top)),
+      right: twips(pgMar, "right", margins.right),
+      bottom: Math.abs(twips(pgMar, "bottom", margins.bottom)),
+      left: twips(pgMar, "left", margins.left),
+      header: twips(pgMar, "header", margins.header),
+      footer: twips(pgMar, "footer", margins.footer),
+    },
+    titlePage: isOn(child(sectPr, "titlePg")),
+    evenAndOdd: isOn(settings?.getElementsByTagNameNS(NS.w, "evenAndOddHeaders")[0]),
+    headers: await readReferences(zip, sectPr, "headerReference", rels, sanitizeConfig),
+    footers: await readReferences(zip, sectPr, "footerReference", rels, sanitizeConfig),
+    ...(await readDefaultFont(zip)),
+  };
+}
+
+/** Picks the header or footer for a 1-based page number, falling back to the default one like Word. */
+export function selectHeaderFooter(
+  set: DocxHeaderFooters,
+  page: number,
+  setup: Pick<DocxPageSetup, "titlePage" | "evenAndOdd">
+): string | undefined {
+  if (page === 1 && setup.titlePage) return set.first;
+  if (page % 2 === 0 && setup.evenAndOdd) return set.even;
+  return set.default;
+}
+
+/** Fills the PAGE and NUMPAGES placeholders of header/footer HTML. */
+export function fillPageFields(html: string, page: number, pageCount: number): string {
+  return html.replace(
+    /(<span data-docx-field="(PAGE|NUMPAGES)">)(<\/span>)/g,
+    (_, open: string, field: string, close: string) => `${open}${field === "PAGE" ? page : pageCount}${close}`
+  );
+}
+
+/**
+ * Distributes measured blocks over pages of `pageHeight` pixels. A block that
+ * doesn't fit moves to the next page; tables are split between body rows with
+ * their header rows repeated. Footnotes take room on the page of the block
+ * that references them, plus `footnoteSeparator` once per page that has any.
+ * A block taller than a whole page gets a page of its own and overflows it.
+ */
+export function paginate(blocks: LayoutBlock[], pageHeight: number, footnoteSeparator = 0): PagePiece[][] {
+  const pages: PagePiece[][] = [[]];
+  let used = 0;
+  let hasFootnotes = false;
+  const newPage = () => {
+    pages.push([]);
+    used = 0;
+    hasFootnotes = false;
+  };
+  const current = () => pages[pages.length - 1];
+  const notesHeight = (block: LayoutBlock) =>
+    block.footnoteHeight > 0 ? block.footnoteHeight + (hasFootnotes ? 0 : footnoteSeparator) : 0;
+
+  blocks.forEach((block, index) => {
+    if (block.breakBefore && current().length > 0) newPage();
+
+    if (!block.rows || block.rows.length === 0) {
+      if (current().length > 0 && used + block.height + notesHeight(block) > pageHeight) newPage();
+      used += block.height + notesHeight(block);
+      hasFootnotes ||= block.footnoteHeight > 0;
+      current().push({ block: index });
+      return;
+    }
+
+    const rows = block.rows;
+    const header = block.headerHeight ?? 0;
+    let start = 0;
+    while (start < rows.length) {
+      const notes = start === 0 ? notesHeight(block) : 0;
+      let end = start;
+      let height = header + notes;
+      while (end < rows.length && used + height + rows[end] <= pageHeight) height += rows[end++];
+      if (end === start) {
+        if (current().length > 0) {
+          newPage();
+          continue;
+        }
+        height += rows[end++];
+      }
+      current().push({ block: index, rows: [start, end] });
+      used += height;
+      if (start === 0) hasFootnotes ||= block.footnoteHeight > 0;
+      start = end;
+      if (start < rows.length) newPage();
+    }
+  });
+  return pages;
+}
+
+/** Body and footnote HTML of one laid-out page. */
+export interface DocxPage {
+  html: string;
+  /** `<li>` items of the footnotes referenced on the page, numbered as in the document. */
+  footnotes: string;
+}
+
+/** Class mammoth is told to give page breaks (`br[type='page'] => hr.docx-page-break`). */
+export const PAGE_BREAK_CLASS = "docx-page-break";
+
+function waitForImages(root: HTMLElement): Promise<unknown> {
+  return Promise.all(
+    Array.from(root.querySelectorAll("img"))
+      .filter((img) => !img.complete)
+      .map(
+        (img) =>
+          new Promise((resolve) => {
+            img.addEventListener("load", resolve);
+            img.addEventListener("error", resolve);
+          })
+      )
+  );
+}
+
+const BLOCK_TAGS = new Set(["P", "H1", "H2", "H3", "H4", "H5", "H6", "UL", "OL", "TABLE", "HR", "DIV", "BLOCKQUOTE", "PRE", "DL"]);
+
+/**
+ * A page break inside a paragraph ends up as `<p>before</p><hr><text>after`
+ * once parsed (an <hr> closes the open paragraph), so stray inline content
+ * at the top level is wrapped back into paragraphs before measuring.
+ */
+function wrapInlineRuns(root: HTMLElement): void {
+  let wrapper: HTMLParagraphElement | null = null;
+  for (const node of Array.from(root.childNodes)) {
+    const inline =
+      node.nodeType === Node.TEXT_NODE ? (node.nodeValue ?? "").trim() !== "" : node instanceof Element && !BLOCK_TAGS.has(node.tagName);
+    if (!inline) {
+      wrapper = null;
+      continue;
+    }
+    if (!wrapper) {
+      wrapper = root.ownerDocument.createElement("p");
+      root.insertBefore(wrapper, node);
+    }
+    wrapper.appendChild(node);
+  }
+}
+
+function footnoteIds(el: Element): string[] {
+  return Array.from(el.querySelectorAll('a[href^="#footnote-"]')).map((a) => a.getAttribute("href")!.slice(1));
+}
+
+/**
+ * Splits mammoth HTML, already rendered into `measure` at the page's content
+ * width, into pages of `contentHeight` pixels. Footnotes (mammoth's trailing
+ * list of `footnote-N` items) are moved to the page that references them;
+ * endnotes stay at the end of the document.
+ */
+export async function layoutDocxPages(
+  measure: HTMLElement,
+  contentHeight: number,
+  footnoteSeparator: number
+): Promise<DocxPage[]> {
+  wrapInlineRuns(measure);
+  await waitForImages(measure);
+
+  const footnotes = new Map<string, { html: string; height: number }>();
+  const notesList = Array.from(measure.children).find(
+    (el) => el.tagName === "OL" && el.children.length > 0 && Array.from(el.children).every((li) => li.id.startsWith("footnote-"))
+  );
+  if (notesList) {
+    Array.from(notesList.children).forEach((li, i) => {
+      li.setAttribute("value", String(i + 1));
+      footnotes.set(li.id, { html: li.outerHTML, height: (li as HTMLElement).offsetHeight });
+    });
+    notesList.remove();
+  }
+
+  const elements: HTMLElement[] = [];
+  const blocks: LayoutBlock[] = [];
+  let breakBefore = false;
+  for (const el of Array.from(measure.children) as HTMLElement[]) {
+    if (el.tagName === "HR" && el.classList.contains(PAGE_BREAK_CLASS)) {
+      breakBefore = true;
+      continue;
+    }
+    const footnoteHeight = footnoteIds(el).reduce((sum, id) => sum + (footnotes.get(id)?.height ?? 0), 0);
+    const block: LayoutBlock = { height: 0, footnoteHeight, breakBefore };
+    if (el instanceof HTMLTableElement) {
+      block.rows = Array.from(el.tBodies).flatMap((body) => Array.from(body.rows).map((row) => row.offsetHeight));
+      block.headerHeight = el.tHead?.offsetHeight ?? 0;
+    }
+    elements.push(el);
+    blocks.push(block);
+    breakBefore = false;
+  }
+  // Heights from consecutive offsets include collapsed vertical margins.
+  elements.forEach((el, i) => {
+    const next = elements[i + 1];
+    blocks[i].height = (next ? next.offsetTop : measure.scrollHeight) - el.offsetTop;
+  });
+
+  return paginate(blocks, contentHeight, footnoteSeparator).map((pieces) => {
+    let html = "";
+    const notes = new Set<string>();
+    for (const piece of pieces) {
+      let el = elements[piece.block];
+      if (piece.rows && el instanceof HTMLTableElement) {
+        const [start, end] = piece.rows;
+        const table = el.cloneNode(true) as HTMLTableElement;
+        Array.from(table.tBodies)
+          .flatMap((body) => Array.from(body.rows))
+          .forEach((row, i) => {
+            if (i < start || i >= end) row.remove();
+          });
+        el = table;
+      }
+      html += el.outerHTML;
+      footnoteIds(el).forEach((id) => notes.add(id));
+    }
+    return { html, footnotes: Array.from(notes, (id) => footnotes.get(id)?.html ?? "").join("") };
+  });
+}
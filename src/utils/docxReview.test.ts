@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { applyDocxReview, prepareDocxReview } from "./docxReview";
+
+const [INS, DEL, END, COMMENT, COMMENT_END, MARK] = ["\uE000", "\uE001", "\uE002", "\uE003", "\uE004", "\uE005"];
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+async function buildDocx(body: string, comments?: string): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file("word/document.xml", `<w:document ${W}><w:body>${body}</w:body></w:document>`);
+  if (comments) zip.file("word/comments.xml", `<w:comments ${W}>${comments}</w:comments>`);
+  return zip.generateAsync({ type: "arraybuffer" });
+}
+
+async function documentText(buffer: ArrayBuffer): Promise<string> {
+  const xml = await (await JSZip.loadAsync(buffer)).file("word/document.xml")!.async("string");
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  return Array.from(doc.getElementsByTagName("w:t"), (t) => t.textContent).join("");
+}
+
+describe("prepareDocxReview", () => {
+  it("keeps insertions and deletions as marked text", async () => {
+    const { buffer, review } = await prepareDocxReview(
+      await buildDocx(
+        '<w:p><w:r><w:t xml:space="preserve">Keep </w:t></w:r>' +
+          '<w:ins w:id="1" w:author="Ann" w:date="2024-05-01T10:00:00Z"><w:r><w:t>added</w:t></w:r></w:ins>' +
+          '<w:del w:id="2" w:author="Bob"><w:r><w:rPr><w:b/></w:rPr><w:delText xml:space="preserve"> removed</w:delText></w:r></w:del></w:p>' +
+          '<w:p><w:pPr><w:rPr><w:ins w:id="3" w:author="Ann"/></w:rPr></w:pPr></w:p>'
+      )
+    );
+    expect(review.revisions).toEqual([
+      { id: "0", type: "insertion", author: "Ann", date: "2024-05-01T10:00:00Z" },
+      { id: "1", type: "deletion", author: "Bob", date: undefined },
+    ]);
+    expect(await documentText(buffer)).toBe(`Keep ${INS}0${MARK}added${END}${MARK}${DEL}1${MARK} removed${END}${MARK}`);
+  });
+
+  it("marks comment ranges and anchors comments without a range at their reference", async () => {
+    const { buffer, review } = await prepareDocxReview(
+      await buildDocx(
+        '<w:p><w:commentRangeStart w:id="5"/><w:r><w:t>Noted</w:t></w:r><w:commentRangeEnd w:id="5"/>' +
+          '<w:r><w:commentReference w:id="5"/></w:r><w:r><w:commentReference w:id="6"/></w:r></w:p>',
+        '<w:comment w:id="5" w:author="Ann" w:initials="A"><w:p><w:r><w:t>Check</w:t></w:r></w:p><w:p><w:r><w:t>this</w:t></w:r></w:p></w:comment>' +
+          '<w:comment w:id="6" w:author="Bob"><w:p><w:r><w:t>Loose</w:t></w:r></w:p></w:comment>' +
+          '<w:comment w:id="7"><w:p><w:r><w:t>Orphan</w:t></w:r></w:p></w:comment>'
+      )
+    );
+    expect(review.comments.map((c) => [c.id, c.author, c.text])).toEqual([
+      ["5", "Ann", "Check\nthis"],
+      ["6", "Bob", "Loose"],
+    ]);
+    expect(await documentText(buffer)).toBe(
+      `${COMMENT}5${MARK}Noted${COMMENT_END}5${MARK}${COMMENT}6${MARK}${COMMENT_END}6${MARK}`
+    );
+  });
+
+  it("returns documents without revisions or comments unchanged", async () => {
+    const original = await buildDocx("<w:p><w:r><w:t>Plain</w:t></w:r></w:p>");
+    const { buffer, review } = await prepareDocxReview(original);
+    expect(buffer).toBe(original);
+    expect(review).toEqual({ revisions: [], comments: [] });
+  });
+});
+
+describe("applyDocxReview", () => {
+  it("turns markers into revision and comment elements", () => {
+    const root = document.createElement("div");
+    root.innerHTML =
+      `<p>${COMMENT}2${MARK}Keep ${INS}0${MARK}added${END}${MARK}</p>` +
+      `<p><strong>${DEL}1${MARK}gone${END}${MARK}</strong>${COMMENT_END}2${MARK} tail</p>`;
+    applyDocxReview(root, {
+      revisions: [
+        { id: "0", type: "insertion", author: "Ann" },
+        { id: "1", type: "deletion", author: "Bob" },
+      ],
+      comments: [{ id: "2", text: "Note" }],
+    });
+    expect(root.textContent).toBe("Keep addedgone tail");
+    const ins = root.querySelector("ins.docx-ins")!;
+    expect(ins.textContent).toBe("added");
+    expect(ins.getAttribute("title")).toBe("Inserted by Ann");
+    expect(ins.parentElement!.getAttribute("data-docx-comment")).toBe("2");
+    const del = root.querySelector("del.docx-del") as HTMLElement;
+    expect(del.textContent).toBe("gone");
+    expect(del.style.getPropertyValue("--docx-author-color")).not.toBe(
+      (ins as HTMLElement).style.getPropertyValue("--docx-author-color")
+    );
+    expect(root.querySelector('[data-docx-comment-anchor="2"]')).not.toBeNull();
+    expect(Array.from(root.querySelectorAll(".docx-comment-range"), (el) => el.textContent)).toEqual([
+      "Keep ",
+      "added",
+      "gone",
+    ]);
+  });
+});
@@ -0,0 +1,231 @@
+import JSZip from "jszip";
+
+const W = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+/**
+ * Private-use characters marking revision and comment boundaries in the text
+ * mammoth converts; each marker is followed by an id (empty for REVISION_END)
+ * and MARK_END.
+ */
+const INS_START = "\uE000";
+const DEL_START = "\uE001";
+const REVISION_END = "\uE002";
+const COMMENT_START = "\uE003";
+const COMMENT_END = "\uE004";
+const MARK_END = "\uE005";
+const MARKER = /([\uE000-\uE004])([^\uE005]*)\uE005/g;
+
+/** Author colors for revisions, assigned in order of first appearance like Word. */
+const AUTHOR_COLORS = ["#1b5fb4", "#b3261e", "#2e7d32", "#8e24aa", "#ef6c00", "#00838f", "#6d4c41"];
+
+export interface DocxRevision {
+  id: string;
+  type: "insertion" | "deletion";
+  author?: string;
+  /** ISO date of the change, as stored in the document. */
+  date?: string;
+}
+
+export interface DocxComment {
+  id: string;
+  author?: string;
+  initials?: string;
+  date?: string;
+  /** Comment text, one line per paragraph. */
+  text: string;
+}
+
+export interface DocxReview {
+  revisions: DocxRevision[];
+  comments: DocxComment[];
+}
+
+function wAttr(el: Element, name: string): string | undefined {
+  return el.getAttributeNS(W, name) ?? undefined;
+}
+
+function parseXml(text: string, label: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`Invalid DOCX: ${label} could not be parsed`);
+  }
+  return doc;
+}
+
+function markerRun(doc: Document, text: string): Element {
+  const run = doc.createElementNS(W, "w:r");
+  const t = run.appendChild(doc.createElementNS(W, "w:t"));
+  t.textContent = text;
+  return run;
+}
+
+function markerText(doc: Document, text: string): Element {
+  const t = doc.createElementNS(W, "w:t");
+  t.textContent = text;
+  return t;
+}
+
+/** Wraps the text of every run in a revision in markers and unwraps the revision element. */
+function markRevision(doc: Document, el: Element, revision: DocxRevision): void {
+  const opener = `${revision.type === "insertion" ? INS_START : DEL_START}${revision.id}${MARK_END}`;
+  for (const run of Array.from(el.getElementsByTagNameNS(W, "r"))) {
+    for (const delText of Array.from(run.getElementsByTagNameNS(W, "delText"))) {
+      const t = markerText(doc, delText.textContent ?? "");
+      t.setAttributeNS("http://www.w3.org/XML/1998/namespace", "xml:space", "preserve");
+      delText.replaceWith(t);
+    }
+    const rPr = Array.from(run.children).find((c) => c.localName === "rPr");
+    run.insertBefore(markerText(doc, opener), rPr ? rPr.nextSibling : run.firstChild);
+    run.appendChild(markerText(doc, `${REVISION_END}${MARK_END}`));
+  }
+  el.replaceWith(...Array.from(el.childNodes));
+}
+
+function readComments(doc: Document | undefined): DocxComment[] {
+  if (!doc) return [];
+  return Array.from(doc.getElementsByTagNameNS(W, "comment")).map((el) => ({
+    id: wAttr(el, "id") ?? "",
+    author: wAttr(el, "author"),
+    initials: wAttr(el, "initials"),
+    date: wAttr(el, "date"),
+    text: Array.from(el.getElementsByTagNameNS(W, "p"))
+      .map((p) => Array.from(p.getElementsByTagNameNS(W, "t"), (t) => t.textContent ?? "").join(""))
+      .join("\n"),
+  }));
+}
+
+/**
+ * Prepares a DOCX for mammoth so tracked changes and comments survive the
+ * conversion: insertions and deletions (including moves) are kept as marked
+ * text, and comment ranges get boundary markers. Call applyDocxReview on the
+ * converted HTML to turn the markers into elements. Documents without
+ * revisions or comments are returned unchanged.
+ */
+export async function prepareDocxReview(buffer: ArrayBuffer): Promise<{ buffer: ArrayBuffer; review: DocxReview }> {
+  const zip = await JSZip.loadAsync(buffer);
+  const xml = await zip.file("word/document.xml")?.async("string");
+  if (xml == null) return { buffer, review: { revisions: [], comments: [] } };
+  const doc = parseXml(xml, "word/document.xml");
+  const commentsXml = await zip.file("word/comments.xml")?.async("string");
+  const comments = readComments(commentsXml == null ? undefined : parseXml(commentsXml, "word/comments.xml"));
+
+  const revisions: DocxRevision[] = [];
+  const revisionElements = ["ins", "del", "moveTo", "moveFrom"].flatMap((name) =>
+    Array.from(doc.getElementsByTagNameNS(W, name))
+  );
+  // Revisions inside properties mark paragraph marks or table rows, not text.
+  const textRevisions = revisionElements.filter((el) => !/Pr$/.test(el.parentElement?.localName ?? ""));
+  for (const el of textRevisions) {
+    const revision: DocxRevision = {
+      id: String(revisions.length),
+      type: el.localName === "ins" || el.localName === "moveTo" ? "insertion" : "deletion",
+      author: wAttr(el, "author"),
+      date: wAttr(el, "date"),
+    };
+    revisions.push(revision);
+    markRevision(doc, el, revision);
+  }
+
+  const ranged = new Set<string>();
+  for (const start of Array.from(doc.getElementsByTagNameNS(W, "commentRangeStart"))) {
+    const id = wAttr(start, "id") ?? "";
+    if (start.parentElement?.localName !== "p") continue;
+    ranged.add(id);
+    start.replaceWith(markerRun(doc, `${COMMENT_START}${id}${MARK_END}`));
+  }
+  for (const end of Array.from(doc.getElementsByTagNameNS(W, "commentRangeEnd"))) {
+    const id = wAttr(end, "id") ?? "";
+    if (!ranged.has(id) || end.parentElement?.localName !== "p") continue;
+    end.replaceWith(markerRun(doc, `${COMMENT_END}${id}${MARK_END}`));
+  }
+  // Comments without a usable range are anchored at their reference mark.
+  for (const ref of Array.from(doc.getElementsByTagNameNS(W, "commentReference"))) {
+    const id = wAttr(ref, "id") ?? "";
+    if (ranged.has(id)) continue;
+    ranged.add(id);
+    ref.replaceWith(markerText(doc, `${COMMENT_START}${id}${MARK_END}${COMMENT_END}${id}${MARK_END}`));
+  }
+
+  const review = { revisions, comments: comments.filter((c) => ranged.has(c.id)) };
+  if (revisions.length === 0 && ranged.size === 0) return { buffer, review };
+  zip.file("word/document.xml", new XMLSerializer().serializeToString(doc));
+  return { buffer: await zip.generateAsync({ type: "arraybuffer" }), review };
+}
+
+function revisionTitle(revision: DocxRevision): string {
+  const action = revision.type === "insertion" ? "Inserted" : "Deleted";
+  const date = revision.date ? new Date(revision.date) : undefined;
+  const when = date && !isNaN(date.getTime()) ? `, ${date.toLocaleString()}` : "";
+  return `${action} by ${revision.author || "Unknown author"}${when}`;
+}
+
+/**
+ * Replaces the markers left by prepareDocxReview in converted HTML:
+ * revision text becomes `<ins class="docx-ins">` / `<del class="docx-del">`
+ * with an author/date tooltip and author color (`--docx-author-color`), and
+ * commented text is wrapped in `<span class="docx-comment-range">` carrying
+ * the ids of the comments covering it. Each comment gets an empty
+ * `[data-docx-comment-anchor]` span where its range starts.
+ */
+export function applyDocxReview(root: HTMLElement, review: DocxReview): void {
+  const doc = root.ownerDocument;
+  const revisions = new Map(review.revisions.map((r) => [r.id, r]));
+  const authorColors = new Map<string, string>();
+  for (const r of review.revisions) {
+    const author = r.author ?? "";
+    if (!authorColors.has(author)) authorColors.set(author, AUTHOR_COLORS[authorColors.size % AUTHOR_COLORS.length]);
+  }
+
+  let revision: DocxRevision | undefined;
+  const comments: string[] = [];
+  const walker = doc.createTreeWalker(root, 4 /* NodeFilter.SHOW_TEXT */);
+  const textNodes: Text[] = [];
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) textNodes.push(node);
+
+  for (const node of textNodes) {
+    const text = node.nodeValue ?? "";
+    if (!revision && comments.length === 0 && !/[\uE000-\uE004]/.test(text)) continue;
+    const fragment = doc.createDocumentFragment();
+    const appendText = (value: string) => {
+      if (!value) return;
+      let target: Node = doc.createTextNode(value);
+      if (revision) {
+        const el = doc.createElement(revision.type === "insertion" ? "ins" : "del");
+        el.className = revision.type === "insertion" ? "docx-ins" : "docx-del";
+        el.title = revisionTitle(revision);
+        el.setAttribute("data-docx-revision", revision.id);
+        el.style.setProperty("--docx-author-color", authorColors.get(revision.author ?? "") ?? AUTHOR_COLORS[0]);
+        el.appendChild(target);
+        target = el;
+      }
+      if (comments.length > 0) {
+        const span = doc.createElement("span");
+        span.className = "docx-comment-range";
+        span.setAttribute("data-docx-comment", comments.join(" "));
+        span.appendChild(target);
+        target = span;
+      }
+      fragment.appendChild(target);
+    };
+
+    let last = 0;
+    for (const match of text.matchAll(MARKER)) {
+      appendText(text.slice(last, match.index));
+      last = (match.index ?? 0) + match[0].length;
+      const [, kind, id] = match;
+      if (kind === INS_START || kind === DEL_START) revision = revisions.get(id);
+      else if (kind === REVISION_END) revision = undefined;
+      else if (kind === COMMENT_START) {
+        comments.push(id);
+        const anchor = doc.createElement("span");
+        anchor.setAttribute("data-docx-comment-anchor", id);
+        fragment.appendChild(anchor);
+      } else if (kind === COMMENT_END) {
+        const index = comments.indexOf(id);
+        if (index !== -1) comments.splice(index, 1);
+      }
+    }
+    appendText(text.slice(last));
+    node.replaceWith(fragment);
+  }
+}
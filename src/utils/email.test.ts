@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { buildEmailDocument, parseEmail } from "./email";
+
+const PIXEL_BASE64 = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==";
+
+const EML = [
+  'From: "Alice Example" <alice@example.com>',
+  "To: bob@example.com, Carol <carol@example.com>",
+  "Cc: dave@example.com",
+  "Subject: Quarterly report",
+  "Date: Tue, 04 Mar 2025 10:15:00 +0000",
+  "MIME-Version: 1.0",
+  'Content-Type: multipart/mixed; boundary="mixed"',
+  "",
+  "--mixed",
+  'Content-Type: multipart/related; boundary="related"',
+  "",
+  "--related",
+  "Content-Type: text/html; charset=utf-8",
+  "",
+  '<html><head><style>p { color: red; }</style></head><body><p onclick="x()">Hi</p><img src="cid:logo@example"><img src="https://tracker.example.com/p.gif"><script>alert(1)</script></body></html>',
+  "--related",
+  "Content-Type: image/png",
+  "Content-ID: <logo@example>",
+  "Content-Transfer-Encoding: base64",
+  "",
+  PIXEL_BASE64,
+  "--related--",
+  "--mixed",
+  'Content-Type: application/octet-stream; name="report.pdf"',
+  'Content-Disposition: attachment; filename="report.pdf"',
+  "Content-Transfer-Encoding: base64",
+  "",
+  "JVBERi0xLjQK",
+  "--mixed--",
+  "",
+].join("\r\n");
+
+function toBuffer(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+describe("parseEmail", () => {
+  it("parses headers, body and attachments from a MIME message", async () => {
+    const email = await parseEmail(toBuffer(EML));
+    expect(email.subject).toBe("Quarterly report");
+    expect(email.from).toBe("Alice Example <alice@example.com>");
+    expect(email.to).toEqual(["bob@example.com", "Carol <carol@example.com>"]);
+    expect(email.cc).toEqual(["dave@example.com"]);
+    expect(email.html).toContain("<p");
+    const pdf = email.attachments.find((a) => a.fileName === "report.pdf");
+    expect(pdf?.mimeType).toBe("application/pdf");
+    expect(email.attachments.find((a) => a.contentId === "logo@example")?.mimeType).toBe("image/png");
+  });
+});
+
+describe("buildEmailDocument", () => {
+  it("resolves cid images, blocks remote images and strips scripts", async () => {
+    const email = await parseEmail(toBuffer(EML));
+    const doc = buildEmailDocument(email);
+    expect(doc.html).toContain('src="data:image/png;base64,');
+    expect(doc.html).not.toContain(' src="https://tracker.example.com');
+    expect(doc.html).not.toContain("<script");
+    expect(doc.html).not.toContain("onclick");
+    expect(doc.html).toContain("color: red");
+    expect(doc.html).toContain("Content-Security-Policy");
+    expect(doc.blockedImages).toBe(1);
+    expect(doc.inlineContentIds.has("logo@example")).toBe(true);
+  });
+
+  it("keeps remote images when allowed", async () => {
+    const email = await parseEmail(toBuffer(EML));
+    const doc = buildEmailDocument(email, true);
+    expect(doc.html).toContain('src="https://tracker.example.com/p.gif"');
+    expect(doc.blockedImages).toBe(0);
+  });
+
+  it("renders plain-text bodies escaped", () => {
+    const doc = buildEmailDocument({ subject: "", from: "", to: [], cc: [], text: "<b>not bold</b>", attachments: [] });
+    expect(doc.html).toContain("&lt;b&gt;not bold&lt;/b&gt;");
+  });
+});
@@ -0,0 +1,239 @@
+import PostalMime from "postal-mime";
+import type { Address, Email } from "postal-mime";
+import MsgReader from "@kenjiuno/msgreader";
+import type { FieldsData } from "@kenjiuno/msgreader";
+import DOMPurify from "dompurify";
+import { getMimeTypeForFileName } from "../FormatRouter";
+
+export interface EmailAttachment {
+  fileName: string;
+  mimeType: string;
+  /** Content-ID without angle brackets, used by cid: references in the HTML body. */
+  contentId?: string;
+  data: Uint8Array;
+}
+
+export interface ParsedEmail {
+  subject: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  /** Raw date value as found in the message (RFC 2822 or ISO). */
+  date?: string;
+  html?: string;
+  text?: string;
+  attachments: EmailAttachment[];
+}
+
+/** Compound File Binary signature used by Outlook .msg files. */
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+function isCompoundFile(bytes: Uint8Array): boolean {
+  return CFB_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+function formatAddress(name: string | undefined, address: string | undefined): string {
+  if (name && address && name !== address) return `${name} <${address}>`;
+  return name || address || "";
+}
+
+function flattenAddresses(list: Address[] | undefined): string[] {
+  const result: string[] = [];
+  for (const entry of list ?? []) {
+    if (entry.group) {
+      for (const member of entry.group) result.push(formatAddress(member.name, member.address));
+    } else {
+      result.push(formatAddress(entry.name, entry.address));
+    }
+  }
+  return result.filter(Boolean);
+}
+
+function stripContentId(id: string | undefined): string | undefined {
+  const trimmed = id?.trim().replace(/^<|>$/g, "");
+  return trimmed || undefined;
+}
+
+function toBytes(content: ArrayBuffer | Uint8Array | string): Uint8Array {
+  if (typeof content === "string") return new TextEncoder().encode(content);
+  return content instanceof Uint8Array ? content : new Uint8Array(content);
+}
+
+/** Prefers the file extension when the declared type is missing or generic. */
+function resolveAttachmentMime(declared: string | undefined, fileName: string): string {
+  if (declared && declared !== "application/octet-stream") return declared;
+  return getMimeTypeForFileName(fileName) ?? "application/octet-stream";
+}
+
+function fromMime(email: Email): ParsedEmail {
+  return {
+    subject: email.subject ?? "",
+    from: flattenAddresses(email.from ? [email.from] : undefined)[0] ?? "",
+    to: flattenAddresses(email.to),
+    cc: flattenAddresses(email.cc),
+    date: email.date,
+    html: email.html,
+    text: email.text,
+    attachments: email.attachments.map((att, i) => {
+      const fileName = att.filename || `attachment-${i + 1}${att.mimeType === "message/rfc822" ? ".eml" : ""}`;
+      return {
+        fileName,
+        mimeType: resolveAttachmentMime(att.mimeType, fileName),
+        contentId: stripContentId(att.contentId),
+        data: toBytes(att.content),
+      };
+    }),
+  };
+}
+
+function fromMsg(reader: MsgReader): ParsedEmail {
+  const fields = reader.getFileData();
+  if (fields.error) throw new Error(fields.error);
+  const recipients = (type: "to" | "cc") =>
+    (fields.recipients ?? [])
+      .filter((r) => (r.recipType ?? "to") === type)
+      .map((r) => formatAddress(r.name, r.smtpAddress || r.email));
+
+  let html = fields.bodyHtml;
+  if (!html && fields.html) html = new TextDecoder().decode(fields.html);
+
+  const attachments = (fields.attachments ?? []).map((att: FieldsData, i) => {
+    const { fileName, content } = reader.getAttachment(att);
+    let name = fileName || att.fileName || att.fileNameShort || `attachment-${i + 1}`;
+    // Embedded messages are re-serialized as standalone .msg files.
+    if (att.innerMsgContent && !/\.msg$/i.test(name)) name = `${name}.msg`;
+    return {
+      fileName: name,
+      mimeType: resolveAttachmentMime(att.attachMimeTag, name),
+      contentId: stripContentId(att.pidContentId),
+      data: content,
+    };
+  });
+
+  return {
+    subject: fields.subject ?? "",
+    from: formatAddress(fields.senderName, fields.senderSmtpAddress || fields.senderEmail),
+    to: recipients("to"),
+    cc: recipients("cc"),
+    date: fields.clientSubmitTime ?? fields.messageDeliveryTime ?? fields.creationTime,
+    html,
+    text: fields.body,
+    attachments,
+  };
+}
+
+/**
+ * Parses a MIME message (.eml) or an Outlook .msg (detected by its CFB
+ * signature) into a common shape: headers, bodies and attachment bytes.
+ */
+export async function parseEmail(buffer: ArrayBuffer): Promise<ParsedEmail> {
+  const bytes = new Uint8Array(buffer);
+  if (isCompoundFile(bytes)) {
+    return fromMsg(new MsgReader(buffer));
+  }
+  const email = await PostalMime.parse(buffer, { rfc822Attachments: true });
+  return fromMime(email);
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+function bytesToDataUrl(data: Uint8Array, mimeType: string): string {
+  let binary = "";
+  const chunk = 0x8000;
+  for (let i = 0; i < data.length; i += chunk) {
+    binary += String.fromCharCode(...data.subarray(i, i + chunk));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+const REMOTE_URL = /^(https?:)?\/\//i;
+
+export interface EmailDocument {
+  /** Complete HTML document for a sandboxed iframe's srcdoc. */
+  html: string;
+  /** Number of remote images that were blocked. */
+  blockedImages: number;
+  /** Content-IDs referenced by the body; those attachments are shown inline. */
+  inlineContentIds: Set<string>;
+}
+
+/**
+ * Builds a self-contained, sanitized HTML document for the message body.
+ * cid: images are inlined as data URLs; remote images are stripped unless
+ * allowRemoteImages is set, and a Content-Security-Policy blocks any remote
+ * loads (including CSS backgrounds) that slip through.
+ */
+export function buildEmailDocument(
+  email: ParsedEmail,
+  allowRemoteImages = false
+): EmailDocument {
+  const rawHtml = email.html ?? `<pre style="white-space: pre-wrap; font: inherit;">${escapeHtml(email.text ?? "")}</pre>`;
+  const clean = DOMPurify.sanitize(rawHtml, {
+    WHOLE_DOCUMENT: true,
+    ADD_TAGS: ["style"],
+    ADD_ATTR: ["target"],
+    FORBID_TAGS: ["base", "form", "input", "button", "select", "textarea"],
+  });
+  const doc = document.implementation.createHTMLDocument("");
+  doc.documentElement.innerHTML = clean.replace(/^<html[^>]*>|<\/html>$/gi, "");
+
+  const byContentId = new Map<string, EmailAttachment>();
+  for (const att of email.attachments) {
+    if (att.contentId) byContentId.set(att.contentId.toLowerCase(), att);
+  }
+
+  const inlineContentIds = new Set<string>();
+  let blockedImages = 0;
+  doc.querySelectorAll("img").forEach((img) => {
+    const src = img.getAttribute("src")?.trim() ?? "";
+    img.removeAttribute("srcset");
+    if (/^cid:/i.test(src)) {
+      const id = decodeURIComponent(src.slice(4)).replace(/^<|>$/g, "").toLowerCase();
+      const att = byContentId.get(id);
+      if (att) {
+        inlineContentIds.add(att.contentId!);
+        img.setAttribute("src", bytesToDataUrl(att.data, att.mimeType));
+      } else {
+        img.removeAttribute("src");
+      }
+      return;
+    }
+    if (REMOTE_URL.test(src) && !allowRemoteImages) {
+      img.removeAttribute("src");
+      img.setAttribute("data-blocked-src", src);
+      blockedImages += 1;
+    }
+  });
+
+  doc.querySelectorAll("a[href]").forEach((a) => {
+    if (a.getAttribute("href")?.startsWith("#")) return;
+    a.setAttribute("target", "_blank");
+    a.setAttribute("rel", "noopener noreferrer");
+  });
+
+  const imgSrc = allowRemoteImages ? "data: https: http:" : "data:";
+  const csp = doc.createElement("meta");
+  csp.setAttribute("http-equiv", "Content-Security-Policy");
+  csp.setAttribute(
+    "content",
+    `default-src 'none'; img-src ${imgSrc}; style-src 'unsafe-inline'; font-src data:`
+  );
+  const base = doc.createElement("style");
+  base.textContent =
+    "body { margin: 16px; font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; font-size: 14px; color: #222; word-wrap: break-word; } img { max-width: 100%; height: auto; }";
+  doc.head.prepend(base);
+  doc.head.prepend(csp);
+
+  return {
+    html: `<!DOCTYPE html>${doc.documentElement.outerHTML}`,
+    blockedImages,
+    inlineContentIds,
+  };
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, vi } from "vitest";
+import JSZip from "jszip";
+import { openEpub, resolveEpubPath } from "./epub";
+
+const CONTAINER = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`;
+
+const OPF = `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>Safety Training</dc:title></metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+    <item id="ch1" href="Text/chapter%201.xhtml" media-type="application/xhtml+xml"/>
+    <item id="ch2" href="Text/chapter2.xhtml" media-type="application/xhtml+xml"/>
+    <item id="css" href="Styles/book.css" media-type="text/css"/>
+    <item id="img" href="Images/logo.png" media-type="image/png"/>
+  </manifest>
+  <spine><itemref idref="ch1"/><itemref idref="ch2"/></spine>
+</package>`;
+
+const NAV = `<?xml version="1.0"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><body>
+  <nav epub:type="toc"><ol>
+    <li><a href="Text/chapter%201.xhtml">Introduction</a>
+      <ol><li><a href="Text/chapter%201.xhtml#scope">Scope</a></li></ol>
+    </li>
+    <li><a href="Text/chapter2.xhtml">Procedures</a></li>
+  </ol></nav>
+</body></html>`;
+
+const CHAPTER1 = `<?xml version="1.0"?>
+<html xmlns="http://www.w3.org/1999/xhtml"><head><link rel="stylesheet" href="../Styles/book.css"/></head>
+<body class="chapter"><h1>Introduction</h1><a id="anchor"/><p id="scope">Wear a helmet.</p>
+<img src="../Images/logo.png" alt="logo"/><script>alert(1)</script>
+<p><a href="chapter2.xhtml#start">Next</a></p></body></html>`;
+
+const CHAPTER2 = `<?xml version="1.0"?>
+<html xmlns="http://www.w3.org/1999/xhtml"><body><h1 id="start">Procedures</h1><p>Helmet checks: helmet, HELMET.</p></body></html>`;
+
+async function buildEpub(files: Record<string, string>): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file("mimetype", "application/epub+zip");
+  for (const [path, content] of Object.entries(files)) zip.file(path, content);
+  return zip.generateAsync({ type: "arraybuffer" });
+}
+
+const BOOK_FILES = {
+  "META-INF/container.xml": CONTAINER,
+  "OEBPS/content.opf": OPF,
+  "OEBPS/nav.xhtml": NAV,
+  "OEBPS/Text/chapter 1.xhtml": CHAPTER1,
+  "OEBPS/Text/chapter2.xhtml": CHAPTER2,
+  "OEBPS/Styles/book.css": "h1 { background: url(../Images/logo.png); }",
+  "OEBPS/Images/logo.png": "png-bytes",
+};
+
+describe("resolveEpubPath", () => {
+  it("resolves relative and encoded hrefs", () => {
+    expect(resolveEpubPath("OEBPS/content.opf", "Text/chapter%201.xhtml#s")).toEqual({
+      path: "OEBPS/Text/chapter 1.xhtml",
+      fragment: "s",
+    });
+    expect(resolveEpubPath("OEBPS/Text/a.xhtml", "../Images/b.png").path).toBe("OEBPS/Images/b.png");
+  });
+});
+
+describe("openEpub", () => {
+  beforeAll(() => {
+    let n = 0;
+    Object.assign(URL, { createObjectURL: vi.fn(() => `blob:epub-${++n}`), revokeObjectURL: vi.fn() });
+  });
+
+  it("reads title, spine and nav table of contents", async () => {
+    const book = await openEpub(await buildEpub(BOOK_FILES));
+    expect(book.title).toBe("Safety Training");
+    expect(book.sections.map((s) => s.path)).toEqual(["OEBPS/Text/chapter 1.xhtml", "OEBPS/Text/chapter2.xhtml"]);
+    expect(book.toc).toEqual([
+      { label: "Introduction", path: "OEBPS/Text/chapter 1.xhtml", fragment: undefined, level: 1 },
+      { label: "Scope", path: "OEBPS/Text/chapter 1.xhtml", fragment: "scope", level: 2 },
+      { label: "Procedures", path: "OEBPS/Text/chapter2.xhtml", fragment: undefined, level: 1 },
+    ]);
+  });
+
+  it("falls back to the NCX table of contents", async () => {
+    const ncx = `<?xml version="1.0"?><ncx xmlns="http://www.daisy.org/z3986/2005/ncx/"><navMap>
+      <navPoint id="p1"><navLabel><text>Chapter One</text></navLabel><content src="Text/chapter2.xhtml"/></navPoint>
+    </navMap></ncx>`;
+    const opf = OPF.replace(' properties="nav"', "")
+      .replace("</manifest>", '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/></manifest>')
+      .replace("<spine>", '<spine toc="ncx">');
+    const book = await openEpub(await buildEpub({ ...BOOK_FILES, "OEBPS/content.opf": opf, "OEBPS/toc.ncx": ncx }));
+    expect(book.toc).toEqual([{ label: "Chapter One", path: "OEBPS/Text/chapter2.xhtml", fragment: undefined, level: 1 }]);
+  });
+
+  it("loads sanitized sections with resources from object URLs", async () => {
+    const book = await openEpub(await buildEpub(BOOK_FILES));
+    const html = await book.loadSection(0);
+    expect(html).not.toContain("<script");
+    expect(html).toMatch(/<img src="blob:epub-\d+"/);
+    expect(html).toMatch(/url\("blob:epub-\d+"\)/);
+    expect(html).toContain('<body class="chapter">');
+    expect(html).toContain('<a id="anchor"></a><p id="scope">');
+    expect(book.resolveLink("OEBPS/Text/chapter 1.xhtml", "chapter2.xhtml#start")).toEqual({ index: 1, fragment: "start" });
+    expect(book.resolveLink("OEBPS/Text/chapter 1.xhtml", "https://example.com")).toBeNull();
+  });
+
+  it("rejects files without a container", async () => {
+    await expect(openEpub(await buildEpub({ "OEBPS/content.opf": OPF }))).rejects.toThrow("container.xml");
+  });
+});
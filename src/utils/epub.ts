@@ -0,0 +1,260 @@
+import JSZip from "jszip";
+import DOMPurify from "dompurify";
+
+const OPF_NS = "http://www.idpf.org/2007/opf";
+const DC_NS = "http://purl.org/dc/elements/1.1/";
+const NCX_NS = "http://www.daisy.org/z3986/2005/ncx/";
+const OPS_NS = "http://www.idpf.org/2007/ops";
+
+export interface EpubTocItem {
+  label: string;
+  /** Archive path of the target section, without fragment. */
+  path: string;
+  fragment?: string;
+  level: number;
+}
+
+export interface EpubSection {
+  path: string;
+}
+
+export interface EpubBook {
+  title: string;
+  sections: EpubSection[];
+  toc: EpubTocItem[];
+  /** Returns a sanitized, self-contained HTML document for the spine item. */
+  loadSection: (index: number) => Promise<string>;
+  /** Resolves a link found in a section to a spine index and fragment. */
+  resolveLink: (fromPath: string, href: string) => { index: number; fragment?: string } | null;
+  /** Revokes object URLs created for images, fonts and stylesheets. */
+  dispose: () => void;
+}
+
+interface ManifestItem {
+  id: string;
+  path: string;
+  mediaType: string;
+  properties: string;
+}
+
+const RESOLVE_BASE = "https://epub.invalid/";
+
+/** Resolves an href relative to an archive path; returns the decoded path and fragment. */
+export function resolveEpubPath(basePath: string, href: string): { path: string; fragment?: string } {
+  const url = new URL(href, RESOLVE_BASE + basePath.split("/").map(encodeURIComponent).join("/"));
+  const fragment = url.hash ? decodeURIComponent(url.hash.slice(1)) : undefined;
+  return { path: decodeURIComponent(url.pathname.slice(1)), fragment };
+}
+
+function parseXml(text: string, label: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`Invalid EPUB: ${label} could not be parsed`);
+  }
+  return doc;
+}
+
+async function readText(zip: JSZip, path: string): Promise<string | undefined> {
+  return zip.file(path)?.async("string");
+}
+
+function parseNcx(doc: Document, ncxPath: string): EpubTocItem[] {
+  const items: EpubTocItem[] = [];
+  const walk = (parent: Element, level: number) => {
+    for (const point of Array.from(parent.children)) {
+      if (point.localName !== "navPoint") continue;
+      const label = point.getElementsByTagNameNS(NCX_NS, "text")[0]?.textContent?.trim() ?? "";
+      const src = point.getElementsByTagNameNS(NCX_NS, "content")[0]?.getAttribute("src");
+      if (src && label) items.push({ label, level, ...resolveEpubPath(ncxPath, src) });
+      walk(point, level + 1);
+    }
+  };
+  const navMap = doc.getElementsByTagNameNS(NCX_NS, "navMap")[0];
+  if (navMap) walk(navMap, 1);
+  return items;
+}
+
+function parseNavDocument(doc: Document, navPath: string): EpubTocItem[] {
+  const navs = Array.from(doc.getElementsByTagName("nav"));
+  const toc =
+    navs.find((nav) => (nav.getAttributeNS(OPS_NS, "type") ?? nav.getAttribute("epub:type"))?.split(/\s+/).includes("toc")) ??
+    navs[0];
+  if (!toc) return [];
+  const items: EpubTocItem[] = [];
+  const walk = (list: Element, level: number) => {
+    for (const li of Array.from(list.children)) {
+      if (li.localName !== "li") continue;
+      const link = Array.from(li.children).find((c) => c.localName === "a" || c.localName === "span");
+      const href = link?.getAttribute("href");
+      const label = link?.textContent?.replace(/\s+/g, " ").trim() ?? "";
+      if (href && label) items.push({ label, level, ...resolveEpubPath(navPath, href) });
+      const nested = Array.from(li.children).find((c) => c.localName === "ol" || c.localName === "ul");
+      if (nested) walk(nested, level + 1);
+    }
+  };
+  const root = Array.from(toc.children).find((c) => c.localName === "ol" || c.localName === "ul");
+  if (root) walk(root, 1);
+  return items;
+}
+
+function parseSectionDocument(text: string): Document {
+  const xml = new DOMParser().parseFromString(text, "application/xhtml+xml");
+  if (xml.getElementsByTagName("parsererror").length === 0 && xml.getElementsByTagName("body")[0]) return xml;
+  return new DOMParser().parseFromString(text, "text/html");
+}
+
+/**
+ * Opens an EPUB (2 or 3): reads META-INF/container.xml, the OPF manifest and
+ * spine, and the table of contents (EPUB 3 nav document, falling back to
+ * NCX). Sections are loaded on demand with resources served from object URLs.
+ */
+export async function openEpub(buffer: ArrayBuffer): Promise<EpubBook> {
+  const zip = await JSZip.loadAsync(buffer);
+  const containerXml = await readText(zip, "META-INF/container.xml");
+  if (!containerXml) throw new Error("Invalid EPUB: META-INF/container.xml not found");
+  const rootfile = parseXml(containerXml, "container.xml").getElementsByTagName("rootfile")[0];
+  const opfPath = rootfile?.getAttribute("full-path");
+  const opfXml = opfPath ? await readText(zip, opfPath) : undefined;
+  if (!opfPath || !opfXml) throw new Error("Invalid EPUB: package document not found");
+  const opf = parseXml(opfXml, "package document");
+
+  const manifest = new Map<string, ManifestItem>();
+  const byPath = new Map<string, ManifestItem>();
+  for (const el of Array.from(opf.getElementsByTagNameNS(OPF_NS, "item"))) {
+    const id = el.getAttribute("id");
+    const href = el.getAttribute("href");
+    if (!id || !href) continue;
+    const item: ManifestItem = {
+      id,
+      path: resolveEpubPath(opfPath, href).path,
+      mediaType: el.getAttribute("media-type") ?? "",
+      properties: el.getAttribute("properties") ?? "",
+    };
+    manifest.set(id, item);
+    byPath.set(item.path, item);
+  }
+
+  const spine = opf.getElementsByTagNameNS(OPF_NS, "spine")[0];
+  const sections: EpubSection[] = [];
+  for (const ref of Array.from(spine?.getElementsByTagNameNS(OPF_NS, "itemref") ?? [])) {
+    const item = manifest.get(ref.getAttribute("idref") ?? "");
+    if (item && ref.getAttribute("linear") !== "no") sections.push({ path: item.path });
+  }
+  if (sections.length === 0) throw new Error("Invalid EPUB: the spine is empty");
+
+  let toc: EpubTocItem[] = [];
+  const nav = Array.from(manifest.values()).find((item) => item.properties.split(/\s+/).includes("nav"));
+  const navText = nav ? await readText(zip, nav.path) : undefined;
+  if (nav && navText) toc = parseNavDocument(parseSectionDocument(navText), nav.path);
+  if (toc.length === 0) {
+    const ncx = manifest.get(spine?.getAttribute("toc") ?? "") ??
+      Array.from(manifest.values()).find((item) => item.mediaType === "application/x-dtbncx+xml");
+    const ncxText = ncx ? await readText(zip, ncx.path) : undefined;
+    if (ncx && ncxText) toc = parseNcx(parseXml(ncxText, "NCX"), ncx.path);
+  }
+
+  const title = opf.getElementsByTagNameNS(DC_NS, "title")[0]?.textContent?.trim() ?? "";
+
+  const resourceUrls = new Map<string, Promise<string | null>>();
+  const createdUrls: string[] = [];
+  const getResourceUrl = (path: string): Promise<string | null> => {
+    let pending = resourceUrls.get(path);
+    if (!pending) {
+      const file = zip.file(path);
+      pending = file
+        ? file.async("uint8array").then((data) => {
+            const url = URL.createObjectURL(new Blob([data as BlobPart], { type: byPath.get(path)?.mediaType ?? "" }));
+            createdUrls.push(url);
+            return url;
+          })
+        : Promise.resolve(null);
+      resourceUrls.set(path, pending);
+    }
+    return pending;
+  };
+
+  const loadStylesheet = async (path: string): Promise<string> => {
+    const css = (await readText(zip, path)) ?? "";
+    const refs = Array.from(css.matchAll(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g));
+    const urls = await Promise.all(
+      refs.map((m) => (/^(data:|https?:)/i.test(m[2]) ? null : getResourceUrl(resolveEpubPath(path, m[2]).path)))
+    );
+    let i = 0;
+    return css
+      .replace(/url\(\s*(['"]?)([^'")]+)\1\s*\)/g, (match) => {
+        const url = urls[i++];
+        return url ? `url("${url}")` : match;
+      })
+      .replace(/@import[^;]+;/g, "");
+  };
+
+  const sectionCache = new Map<number, Promise<string>>();
+  const loadSection = (index: number): Promise<string> => {
+    let pending = sectionCache.get(index);
+    if (pending) return pending;
+    pending = (async () => {
+      const { path } = sections[index];
+      const raw = await readText(zip, path);
+      if (raw == null) throw new Error(`EPUB section not found: ${path}`);
+      const source = parseSectionDocument(raw);
+
+      const css: string[] = [];
+      for (const el of Array.from(source.querySelectorAll("link, style"))) {
+        if (el.localName === "style") {
+          css.push(el.textContent ?? "");
+        } else if (/stylesheet/i.test(el.getAttribute("rel") ?? "") && el.getAttribute("href")) {
+          css.push(await loadStylesheet(resolveEpubPath(path, el.getAttribute("href")!).path));
+        }
+      }
+
+      const out = document.implementation.createHTMLDocument(source.title || title);
+      const sourceBody = source.getElementsByTagName("body")[0];
+      const bodyHtml = sourceBody ? out.importNode(sourceBody, true) as HTMLElement : out.createElement("body");
+      out.body.innerHTML = DOMPurify.sanitize(bodyHtml.innerHTML, { ADD_TAGS: ["image"], ADD_ATTR: ["xlink:href"] });
+      const bodyClass = sourceBody?.getAttribute("class");
+      if (bodyClass) out.body.className = bodyClass;
+
+      const images = Array.from(out.body.querySelectorAll("img[src], image"));
+      await Promise.all(
+        images.map(async (el) => {
+          const attr = el.localName === "img" ? "src" : el.hasAttribute("href") ? "href" : "xlink:href";
+          const value = el.getAttribute(attr);
+          if (!value || /^(data:|https?:)/i.test(value)) return;
+          const url = await getResourceUrl(resolveEpubPath(path, value).path);
+          if (url) el.setAttribute(attr, url);
+          else el.removeAttribute(attr);
+        })
+      );
+
+      for (const text of css) {
+        const style = out.createElement("style");
+        style.textContent = text;
+        out.head.appendChild(style);
+      }
+      return `<!DOCTYPE html>${out.documentElement.outerHTML}`;
+    })();
+    sectionCache.set(index, pending);
+    return pending;
+  };
+
+  const resolveLink = (fromPath: string, href: string) => {
+    if (/^[a-z][a-z0-9+.-]*:/i.test(href)) return null;
+    const target = href.startsWith("#") ? { path: fromPath, fragment: href.slice(1) } : resolveEpubPath(fromPath, href);
+    const index = sections.findIndex((s) => s.path === target.path);
+    return index === -1 ? null : { index, fragment: target.fragment };
+  };
+
+  return {
+    title,
+    sections,
+    toc,
+    loadSection,
+    resolveLink,
+    dispose: () => {
+      createdUrls.forEach((url) => URL.revokeObjectURL(url));
+      createdUrls.length = 0;
+      resourceUrls.clear();
+      sectionCache.clear();
+    },
+  };
+}
@@ -0,0 +1,39 @@
+export interface OutlineItem {
+  /** Element id of the heading (unique within the rendered document). */
+  id: string;
+  text: string;
+  /** Heading level, 1–6. */
+  level: number;
+}
+
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-");
+}
+
+/**
+ * Collects h1–h6 elements under root as an outline, assigning unique ids
+ * (slug of the heading text, prefixed with idPrefix) to headings without one.
+ */
+export function buildHeadingOutline(root: ParentNode, idPrefix = ""): OutlineItem[] {
+  const used = new Set<string>();
+  const items: OutlineItem[] = [];
+  root.querySelectorAll("h1, h2, h3, h4, h5, h6").forEach((heading) => {
+    const text = (heading.textContent ?? "").replace(/\s+/g, " ").trim();
+    if (!text) return;
+    let id = heading.id;
+    if (!id || used.has(id)) {
+      const base = `${idPrefix}${slugify(text) || "section"}`;
+      id = base;
+      for (let n = 1; used.has(id); n += 1) id = `${base}-${n}`;
+      heading.id = id;
+    }
+    used.add(id);
+    items.push({ id, text, level: Number(heading.tagName.slice(1)) });
+  });
+  return items;
+}
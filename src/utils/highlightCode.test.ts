@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { getCodeLanguage, highlightCode, splitHighlightedLines } from "./highlightCode";
+
+describe("getCodeLanguage", () => {
+  it("prefers the file extension", () => {
+    expect(getCodeLanguage("src/index.ts")).toBe("typescript");
+    expect(getCodeLanguage("https://example.com/config.yml?raw=1")).toBe("yaml");
+  });
+
+  it("falls back to the MIME type", () => {
+    expect(getCodeLanguage("download", "application/json")).toBe("json");
+    expect(getCodeLanguage("notes.txt", "text/plain")).toBeUndefined();
+  });
+});
+
+describe("highlightCode", () => {
+  it("returns null for unknown languages", () => {
+    expect(highlightCode("x", "not-a-language")).toBeNull();
+  });
+
+  it("escapes source text", () => {
+    expect(highlightCode("a < b", "python")).toContain("&lt;");
+  });
+});
+
+describe("splitHighlightedLines", () => {
+  it("closes and reopens spans across line breaks", () => {
+    const html = 'x<span class="c">/* a\nb */</span>\ny';
+    expect(splitHighlightedLines(html)).toEqual([
+      'x<span class="c">/* a</span>',
+      '<span class="c">b */</span>',
+      "y",
+    ]);
+  });
+
+  it("keeps one entry per source line", () => {
+    const code = "const a = 1;\n/* multi\nline */\nlet b;";
+    expect(splitHighlightedLines(highlightCode(code, "javascript")!)).toHaveLength(4);
+  });
+});
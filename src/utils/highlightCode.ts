@@ -0,0 +1,117 @@
+import hljs from "highlight.js/lib/common";
+
+const EXTENSION_LANGUAGES: Record<string, string> = {
+  ts: "typescript",
+  tsx: "typescript",
+  mts: "typescript",
+  cts: "typescript",
+  js: "javascript",
+  jsx: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  json: "json",
+  xml: "xml",
+  html: "xml",
+  htm: "xml",
+  yaml: "yaml",
+  yml: "yaml",
+  py: "python",
+  java: "java",
+  c: "c",
+  h: "c",
+  cpp: "cpp",
+  cc: "cpp",
+  hpp: "cpp",
+  cs: "csharp",
+  go: "go",
+  rs: "rust",
+  rb: "ruby",
+  php: "php",
+  sh: "bash",
+  bash: "bash",
+  sql: "sql",
+  css: "css",
+  scss: "scss",
+  less: "less",
+  ini: "ini",
+  cfg: "ini",
+  conf: "ini",
+  toml: "ini",
+  kt: "kotlin",
+  swift: "swift",
+  lua: "lua",
+  pl: "perl",
+  r: "r",
+  diff: "diff",
+  patch: "diff",
+  graphql: "graphql",
+  md: "markdown",
+};
+
+const MIME_LANGUAGES: Record<string, string> = {
+  "application/json": "json",
+  "application/xml": "xml",
+  "text/xml": "xml",
+  "application/yaml": "yaml",
+  "application/x-yaml": "yaml",
+  "text/yaml": "yaml",
+  "text/x-python": "python",
+  "application/javascript": "javascript",
+  "text/javascript": "javascript",
+  "text/x-typescript": "typescript",
+  "text/css": "css",
+  "application/sql": "sql",
+  "application/x-sh": "bash",
+};
+
+/**
+ * Picks a highlight.js language from the file name extension, then the MIME type.
+ * Returns undefined for plain text and unknown types.
+ */
+export function getCodeLanguage(fileName: string, mimeType?: string): string | undefined {
+  const ext = fileName.split(/[?#]/)[0].split(".").pop()?.toLowerCase();
+  if (ext && EXTENSION_LANGUAGES[ext]) return EXTENSION_LANGUAGES[ext];
+  if (mimeType && MIME_LANGUAGES[mimeType]) return MIME_LANGUAGES[mimeType];
+  return undefined;
+}
+
+/** Highlights code as HTML (escaped text + hljs spans), or returns null for unknown languages. */
+export function highlightCode(code: string, language: string): string | null {
+  if (!hljs.getLanguage(language)) return null;
+  try {
+    return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Splits highlighted HTML into one HTML string per source line. Spans that
+ * cross a line break are closed at the end of the line and reopened on the
+ * next one, so every line can be rendered independently.
+ */
+export function splitHighlightedLines(html: string): string[] {
+  const lines: string[] = [];
+  const open: string[] = [];
+  let current = "";
+  const token = /(<span[^>]*>)|(<\/span>)|([^<]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(html)) !== null) {
+    if (match[1]) {
+      current += match[1];
+      open.push(match[1]);
+    } else if (match[2]) {
+      current += match[2];
+      open.pop();
+    } else {
+      const parts = match[3].split("\n");
+      current += parts[0];
+      for (let i = 1; i < parts.length; i += 1) {
+        lines.push(current + "</span>".repeat(open.length));
+        current = open.join("") + parts[i];
+      }
+    }
+  }
+  lines.push(current);
+  return lines;
+}
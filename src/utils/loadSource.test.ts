@@ -0,0 +1,15 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { readSourceAsArrayBuffer } from "./loadSource";
+
+describe("readSourceAsArrayBuffer", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("rejects error responses for relative URLs instead of returning the error body", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("<h1>Not found</h1>", { status: 404 })));
+    await expect(readSourceAsArrayBuffer("/files/report.docx", "/files/report.docx")).rejects.toThrow(
+      "Failed to fetch document"
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import type { DocumentSource, RequestConfig } from "../types";
+import { requestFetch } from "./request";
+
+/**
+ * Reads the document bytes for renderers that parse files client-side.
+ * - Blob/File original source: read directly (no network round trip).
+ * - Otherwise: fetch the resolved URL (remote URL or object URL) with the
+ *   request configuration. Any non-OK response throws, relative URLs
+ *   included, rather than handing an error page to the parser.
+ */
+export async function readSourceAsArrayBuffer(
+  src: string,
+  originalSrc: string | Blob,
+  request?: RequestConfig
+): Promise<ArrayBuffer> {
+  if (originalSrc instanceof Blob) {
+    return originalSrc.arrayBuffer();
+  }
+  const res = await requestFetch(src, undefined, request);
+  if (!res.ok) throw new Error("Failed to fetch document");
+  return res.arrayBuffer();
+}
+
+/**
+ * Reads the document as a Blob to upload to a PDF converter. Blob/File
+ * sources are returned as is; URL sources are fetched into a File named
+ * `fileName` so the converter can tell the format from the extension.
+ */
+export async function readSourceAsBlob(
+  source: DocumentSource,
+  mimeType: string,
+  fileName: string,
+  request?: RequestConfig
+): Promise<Blob> {
+  if (source instanceof Blob) return source;
+  const res = await requestFetch(source, undefined, request);
+  if (!res.ok) throw new Error("Failed to fetch document");
+  return new File([await res.blob()], fileName || "document", { type: mimeType });
+}
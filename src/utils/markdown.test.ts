@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { renderMarkdown } from "./markdown";
+
+describe("renderMarkdown", () => {
+  it("renders GFM tables and task lists", () => {
+    const { html } = renderMarkdown("| a | b |\n|---|---|\n| 1 | 2 |\n\n- [x] done\n- [ ] todo");
+    expect(html).toContain("<table>");
+    expect(html).toContain('type="checkbox"');
+  });
+
+  it("renders footnotes", () => {
+    const { html } = renderMarkdown("Claim[^1].\n\n[^1]: Source.");
+    expect(html).toContain('href="#footnote-1"');
+    expect(html).toContain("Source.");
+  });
+
+  it("strips scripts and event handlers", () => {
+    const { html } = renderMarkdown('<script>alert(1)</script><img src="x.png" onerror="alert(1)">');
+    expect(html).not.toContain("<script");
+    expect(html).not.toContain("onerror");
+  });
+
+  it("strips style elements that would restyle the host page", () => {
+    const { html } = renderMarkdown("<p>x</p><style>body{display:none}</style>");
+    expect(html).toContain("<p>x</p>");
+    expect(html).not.toContain("<style");
+    expect(html).not.toContain("display:none");
+  });
+
+  it("resolves relative links and images against the base URL", () => {
+    const { html } = renderMarkdown("[guide](../guide.md) ![logo](img/logo.png) [top](#intro)", "https://example.com/docs/kb/page.md");
+    expect(html).toContain('href="https://example.com/docs/guide.md"');
+    expect(html).toContain('src="https://example.com/docs/kb/img/logo.png"');
+    expect(html).toContain('href="#intro"');
+  });
+
+  it("builds a heading outline with unique ids", () => {
+    const { html, outline } = renderMarkdown("# Intro\n## Setup\n## Setup");
+    expect(outline).toEqual([
+      { id: "intro", text: "Intro", level: 1 },
+      { id: "setup", text: "Setup", level: 2 },
+      { id: "setup-1", text: "Setup", level: 2 },
+    ]);
+    expect(html).toContain('id="setup-1"');
+  });
+});
@@ -0,0 +1,73 @@
+import { Marked } from "marked";
+import markedFootnote from "marked-footnote";
+import DOMPurify from "dompurify";
+import { highlightCode } from "./highlightCode";
+import { buildHeadingOutline } from "./headingOutline";
+import type { OutlineItem } from "./headingOutline";
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#039;");
+}
+
+const markdown = new Marked(
+  { gfm: true },
+  markedFootnote(),
+  {
+    renderer: {
+      code({ text, lang }) {
+        const language = (lang ?? "").trim().split(/\s+/)[0];
+        const highlighted = language ? highlightCode(text, language) : null;
+        const className = language ? `hljs language-${escapeHtml(language)}` : "hljs";
+        return `<pre><code class="${className}">${highlighted ?? escapeHtml(text)}</code></pre>\n`;
+      },
+    },
+  }
+);
+
+function resolveUrl(value: string, baseUrl?: string): string {
+  if (!baseUrl || value.startsWith("#")) return value;
+  try {
+    return new URL(value, baseUrl).href;
+  } catch {
+    return value;
+  }
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  outline: OutlineItem[];
+}
+
+/**
+ * Converts GitHub-flavored Markdown (tables, task lists, footnotes, autolinks)
+ * to sanitized HTML. Relative links and images are resolved against baseUrl,
+ * external links open in a new tab, and headings get ids for the outline.
+ */
+export function renderMarkdown(source: string, baseUrl?: string): RenderedMarkdown {
+  const raw = markdown.parse(source, { async: false }) as string;
+  // <style> is dropped too: the HTML is injected into the host page, where it would restyle the app.
+  const clean = DOMPurify.sanitize(raw, { ADD_ATTR: ["target"], FORBID_TAGS: ["style"] });
+  // Parse in an inert document so images are not fetched before URLs are resolved.
+  const doc = document.implementation.createHTMLDocument("");
+  const container = doc.createElement("div");
+  container.innerHTML = clean;
+
+  container.querySelectorAll("a[href]").forEach((a) => {
+    const href = a.getAttribute("href") ?? "";
+    if (href.startsWith("#")) return;
+    a.setAttribute("href", resolveUrl(href, baseUrl));
+    a.setAttribute("target", "_blank");
+    a.setAttribute("rel", "noopener noreferrer");
+  });
+  container.querySelectorAll("img[src]").forEach((img) => {
+    img.setAttribute("src", resolveUrl(img.getAttribute("src") ?? "", baseUrl));
+  });
+
+  const outline = buildHeadingOutline(container);
+  return { html: container.innerHTML, outline };
+}
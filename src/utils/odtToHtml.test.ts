@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { odtToHtml } from "./odtToHtml";
+
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+].join(" ");
+
+async function buildOdt(body: string, automaticStyles = ""): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  zip.file("mimetype", "application/vnd.oasis.opendocument.text");
+  zip.file(
+    "content.xml",
+    `<?xml version="1.0" encoding="UTF-8"?><office:document-content ${NAMESPACES}><office:automatic-styles>${automaticStyles}</office:automatic-styles><office:body><office:text>${body}</office:text></office:body></office:document-content>`
+  );
+  return zip.generateAsync({ type: "arraybuffer" });
+}
+
+describe("odtToHtml", () => {
+  it("converts headings, paragraphs and styled spans", async () => {
+    const html = await odtToHtml(
+      await buildOdt(
+        '<text:h text:outline-level="2">Scope</text:h><text:p>Normal <text:span text:style-name="T1">bold</text:span></text:p>',
+        '<style:style style:name="T1" style:family="text"><style:text-properties fo:font-weight="bold" fo:color="#ff0000"/></style:style>'
+      )
+    );
+    expect(html).toContain("<h2>Scope</h2>");
+    expect(html).toContain('<span style="color: #ff0000"><strong>bold</strong></span>');
+  });
+
+  it("converts lists, tables and links", async () => {
+    const html = await odtToHtml(
+      await buildOdt(
+        '<text:list text:style-name="L1"><text:list-item><text:p>One</text:p></text:list-item></text:list>' +
+          '<table:table><table:table-row><table:table-cell table:number-columns-spanned="2"><text:p>Cell</text:p></table:table-cell><table:covered-table-cell/></table:table-row></table:table>' +
+          '<text:p><text:a xlink:href="https://example.com">site</text:a></text:p>',
+        '<text:list-style style:name="L1"><text:list-level-style-number text:level="1"/></text:list-style>'
+      )
+    );
+    expect(html).toContain("<ol><li><p>One</p></li></ol>");
+    expect(html).toContain('<td colspan="2"><p>Cell</p></td>');
+    expect(html).toContain('<a href="https://example.com">site</a>');
+  });
+
+  it("drops style values that are not plain colours, lengths or alignments", async () => {
+    const html = await odtToHtml(
+      await buildOdt(
+        '<text:p text:style-name="P1"><text:span text:style-name="T1">overlay</text:span></text:p>',
+        '<style:style style:name="T1" style:family="text"><style:text-properties fo:color="red; position:fixed; inset:0; z-index:99999; background:url(https://tracker.example/p.gif)" fo:font-size="12pt;position:fixed" fo:background-color="#ffff00"/></style:style>' +
+          '<style:style style:name="P1" style:family="paragraph"><style:paragraph-properties fo:text-align="center;position:fixed" fo:margin-left="1cm"/></style:style>'
+      )
+    );
+    expect(html).toContain('<p style="margin-left: 1cm"><span style="background-color: #ffff00">overlay</span></p>');
+    expect(html).not.toContain("position");
+    expect(html).not.toContain("tracker.example");
+  });
+
+  it("collects footnotes at the end", async () => {
+    const html = await odtToHtml(
+      await buildOdt(
+        '<text:p>Claim<text:note text:note-class="footnote"><text:note-citation>1</text:note-citation><text:note-body><text:p>Source</text:p></text:note-body></text:note></text:p>'
+      )
+    );
+    expect(html).toContain('<a href="#odt-note-1" id="odt-note-ref-1">1</a>');
+    expect(html).toContain('<li id="odt-note-1"><p>Source</p></li>');
+  });
+
+  it("rejects archives without content.xml", async () => {
+    const zip = new JSZip();
+    zip.file("readme.txt", "x");
+    await expect(odtToHtml(await zip.generateAsync({ type: "arraybuffer" }))).rejects.toThrow("content.xml");
+  });
+});
@@ -0,0 +1,351 @@
+import JSZip from "jszip";
+import DOMPurify from "dompurify";
+import { getMimeTypeForFileName } from "../FormatRouter";
+
+const NS = {
+  office: "urn:oasis:names:tc:opendocument:xmlns:office:1.0",
+  style: "urn:oasis:names:tc:opendocument:xmlns:style:1.0",
+  text: "urn:oasis:names:tc:opendocument:xmlns:text:1.0",
+  table: "urn:oasis:names:tc:opendocument:xmlns:table:1.0",
+  draw: "urn:oasis:names:tc:opendocument:xmlns:drawing:1.0",
+  fo: "urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0",
+  xlink: "http://www.w3.org/1999/xlink",
+};
+
+interface OdtStyle {
+  parent?: string;
+  css: Record<string, string>;
+  bold?: boolean;
+  italic?: boolean;
+  /** List styles only: the first level is numbered rather than bulleted. */
+  numbered?: boolean;
+}
+
+type StyleMap = Map<string, OdtStyle>;
+
+// ODF attribute values end up in `style` attributes, which DOMPurify does not
+// inspect, so each one is checked against the shapes ODF actually uses.
+const COLOR_PATTERN = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|[a-z]+)$/i;
+const LENGTH_PATTERN = /^\d*\.?\d+(cm|mm|in|pt|pc|px|em|rem|%)$/i;
+const TEXT_ALIGNMENTS: Record<string, string> = {
+  start: "left",
+  end: "right",
+  left: "left",
+  right: "right",
+  center: "center",
+  justify: "justify",
+};
+
+function safeColor(value: string | null): string | undefined {
+  return value && COLOR_PATTERN.test(value) ? value : undefined;
+}
+
+function safeLength(value: string | null): string | undefined {
+  return value && LENGTH_PATTERN.test(value) ? value : undefined;
+}
+
+function readStyles(doc: Document, into: StyleMap): void {
+  const styles = doc.getElementsByTagNameNS(NS.style, "style");
+  for (const el of Array.from(styles)) {
+    const name = el.getAttributeNS(NS.style, "name");
+    if (!name) continue;
+    const css: Record<string, string> = {};
+    const style: OdtStyle = { parent: el.getAttributeNS(NS.style, "parent-style-name") ?? undefined, css };
+    const textProps = el.getElementsByTagNameNS(NS.style, "text-properties")[0];
+    if (textProps) {
+      const weight = textProps.getAttributeNS(NS.fo, "font-weight");
+      if (weight) style.bold = weight === "bold" || Number(weight) >= 600;
+      const fontStyle = textProps.getAttributeNS(NS.fo, "font-style");
+      if (fontStyle) style.italic = fontStyle === "italic" || fontStyle === "oblique";
+      const underline = textProps.getAttributeNS(NS.style, "text-underline-style");
+      const strike = textProps.getAttributeNS(NS.style, "text-line-through-style");
+      const decorations = [
+        underline && underline !== "none" ? "underline" : "",
+        strike && strike !== "none" ? "line-through" : "",
+      ].filter(Boolean);
+      if (decorations.length) css["text-decoration"] = decorations.join(" ");
+      const color = safeColor(textProps.getAttributeNS(NS.fo, "color"));
+      if (color) css.color = color;
+      const background = safeColor(textProps.getAttributeNS(NS.fo, "background-color"));
+      if (background && background !== "transparent") css["background-color"] = background;
+      const size = safeLength(textProps.getAttributeNS(NS.fo, "font-size"));
+      if (size && !size.endsWith("%")) css["font-size"] = size;
+      const position = textProps.getAttributeNS(NS.style, "text-position");
+      if (position?.startsWith("super")) css["vertical-align"] = "super";
+      else if (position?.startsWith("sub")) css["vertical-align"] = "sub";
+    }
+    const paraProps = el.getElementsByTagNameNS(NS.style, "paragraph-properties")[0];
+    if (paraProps) {
+      const align = TEXT_ALIGNMENTS[paraProps.getAttributeNS(NS.fo, "text-align") ?? ""];
+      if (align) css["text-align"] = align;
+      const indent = safeLength(paraProps.getAttributeNS(NS.fo, "margin-left"));
+      if (indent && parseFloat(indent) > 0) css["margin-left"] = indent;
+    }
+    into.set(name, style);
+  }
+  for (const el of Array.from(doc.getElementsByTagNameNS(NS.text, "list-style"))) {
+    const name = el.getAttributeNS(NS.style, "name");
+    const first = el.firstElementChild;
+    if (name) into.set(name, { css: {}, numbered: first?.localName === "list-level-style-number" });
+  }
+}
+
+/** Resolves a style through its parent chain (closest definition wins). */
+function resolveStyle(styles: StyleMap, name: string | null): OdtStyle {
+  const chain: OdtStyle[] = [];
+  const seen = new Set<string>();
+  let current = name;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    const style = styles.get(current);
+    if (!style) break;
+    chain.unshift(style);
+    current = style.parent ?? null;
+  }
+  const resolved: OdtStyle = { css: {} };
+  for (const style of chain) {
+    Object.assign(resolved.css, style.css);
+    if (style.bold != null) resolved.bold = style.bold;
+    if (style.italic != null) resolved.italic = style.italic;
+  }
+  return resolved;
+}
+
+function cssText(css: Record<string, string>): string {
+  return Object.entries(css)
+    .map(([k, v]) => `${k}: ${v}`)
+    .join("; ");
+}
+
+interface ConvertContext {
+  out: Document;
+  styles: StyleMap;
+  images: Map<string, string>;
+  footnotes: HTMLElement[];
+}
+
+function applyStyle(ctx: ConvertContext, el: Element, target: HTMLElement): HTMLElement {
+  const style = resolveStyle(ctx.styles, el.getAttributeNS(NS.text, "style-name") ?? el.getAttributeNS(NS.table, "style-name"));
+  const text = cssText(style.css);
+  if (text) target.setAttribute("style", text);
+  let inner = target;
+  if (style.bold) {
+    const b = ctx.out.createElement("strong");
+    inner.appendChild(b);
+    inner = b;
+  }
+  if (style.italic) {
+    const i = ctx.out.createElement("em");
+    inner.appendChild(i);
+    inner = i;
+  }
+  return inner;
+}
+
+function convertChildren(ctx: ConvertContext, source: Element, target: HTMLElement): void {
+  for (const node of Array.from(source.childNodes)) {
+    if (node.nodeType === 3) {
+      target.appendChild(ctx.out.createTextNode(node.textContent ?? ""));
+    } else if (node.nodeType === 1) {
+      convertElement(ctx, node as Element, target);
+    }
+  }
+}
+
+function convertElement(ctx: ConvertContext, el: Element, target: HTMLElement): void {
+  const { out } = ctx;
+  const ns = el.namespaceURI;
+  const name = el.localName;
+
+  if (ns === NS.text) {
+    switch (name) {
+      case "h": {
+        const level = Math.min(6, Math.max(1, Number(el.getAttributeNS(NS.text, "outline-level")) || 1));
+        const h = out.createElement(`h${level}`);
+        target.appendChild(h);
+        convertChildren(ctx, el, applyStyle(ctx, el, h));
+        return;
+      }
+      case "p": {
+        const p = out.createElement("p");
+        target.appendChild(p);
+        convertChildren(ctx, el, applyStyle(ctx, el, p));
+        if (!p.textContent && !p.querySelector("img")) p.appendChild(out.createElement("br"));
+        return;
+      }
+      case "span": {
+        const span = out.createElement("span");
+        target.appendChild(span);
+        convertChildren(ctx, el, applyStyle(ctx, el, span));
+        return;
+      }
+      case "a": {
+        const a = out.createElement("a");
+        const href = el.getAttributeNS(NS.xlink, "href");
+        if (href) a.setAttribute("href", href);
+        target.appendChild(a);
+        convertChildren(ctx, el, a);
+        return;
+      }
+      case "list": {
+        const listStyle = ctx.styles.get(el.getAttributeNS(NS.text, "style-name") ?? "");
+        const list = out.createElement(listStyle?.numbered ? "ol" : "ul");
+        target.appendChild(list);
+        convertChildren(ctx, el, list);
+        return;
+      }
+      case "list-item":
+      case "list-header": {
+        const li = out.createElement("li");
+        target.appendChild(li);
+        convertChildren(ctx, el, li);
+        return;
+      }
+      case "s": {
+        const count = Number(el.getAttributeNS(NS.text, "c")) || 1;
+        target.appendChild(out.createTextNode(" ".repeat(count)));
+        return;
+      }
+      case "tab":
+        target.appendChild(out.createTextNode("\t"));
+        return;
+      case "line-break":
+        target.appendChild(out.createElement("br"));
+        return;
+      case "note": {
+        const index = ctx.footnotes.length + 1;
+        const sup = out.createElement("sup");
+        const ref = out.createElement("a");
+        ref.setAttribute("href", `#odt-note-${index}`);
+        ref.setAttribute("id", `odt-note-ref-${index}`);
+        ref.textContent = el.getElementsByTagNameNS(NS.text, "note-citation")[0]?.textContent || String(index);
+        sup.appendChild(ref);
+        target.appendChild(sup);
+        const li = out.createElement("li");
+        li.setAttribute("id", `odt-note-${index}`);
+        const body = el.getElementsByTagNameNS(NS.text, "note-body")[0];
+        if (body) convertChildren(ctx, body, li);
+        ctx.footnotes.push(li);
+        return;
+      }
+      case "tracked-changes":
+      case "soft-page-break":
+      case "bookmark":
+      case "bookmark-start":
+      case "bookmark-end":
+      case "sequence-decls":
+      case "variable-decls":
+        return;
+      default:
+        convertChildren(ctx, el, target);
+        return;
+    }
+  }
+
+  if (ns === NS.table) {
+    switch (name) {
+      case "table": {
+        const table = out.createElement("table");
+        target.appendChild(table);
+        convertChildren(ctx, el, table);
+        return;
+      }
+      case "table-row": {
+        const tr = out.createElement("tr");
+        target.appendChild(tr);
+        convertChildren(ctx, el, tr);
+        return;
+      }
+      case "table-cell": {
+        const td = out.createElement("td");
+        const colSpan = Number(el.getAttributeNS(NS.table, "number-columns-spanned"));
+        const rowSpan = Number(el.getAttributeNS(NS.table, "number-rows-spanned"));
+        if (colSpan > 1) td.colSpan = colSpan;
+        if (rowSpan > 1) td.rowSpan = rowSpan;
+        target.appendChild(td);
+        convertChildren(ctx, el, td);
+        return;
+      }
+      case "covered-table-cell":
+      case "table-columns":
+      case "table-column":
+        return;
+      default:
+        convertChildren(ctx, el, target);
+        return;
+    }
+  }
+
+  if (ns === NS.draw) {
+    if (name === "image") {
+      const href = el.getAttributeNS(NS.xlink, "href");
+      const data = href ? ctx.images.get(href.replace(/^\.\//, "")) : undefined;
+      if (data) {
+        const img = out.createElement("img");
+        img.setAttribute("src", data);
+        const frame = el.parentElement;
+        const width = safeLength(frame?.getAttributeNS("urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0", "width") ?? null);
+        if (width) img.setAttribute("style", `width: ${width}; max-width: 100%`);
+        target.appendChild(img);
+      }
+      return;
+    }
+    // Frames may hold both an image and fallback content; only the image is rendered.
+    const image = Array.from(el.children).find((c) => c.namespaceURI === NS.draw && c.localName === "image");
+    if (image) convertElement(ctx, image, target);
+    else convertChildren(ctx, el, target);
+    return;
+  }
+
+  if (ns === NS.office && (name === "annotation" || name === "annotation-end")) return;
+  convertChildren(ctx, el, target);
+}
+
+async function loadImages(zip: JSZip): Promise<Map<string, string>> {
+  const images = new Map<string, string>();
+  const entries = Object.values(zip.files).filter((f) => !f.dir && /^(Pictures|media)\//.test(f.name));
+  await Promise.all(
+    entries.map(async (entry) => {
+      const mimeType = getMimeTypeForFileName(entry.name);
+      if (!mimeType?.startsWith("image/")) return;
+      images.set(entry.name, `data:${mimeType};base64,${await entry.async("base64")}`);
+    })
+  );
+  return images;
+}
+
+/**
+ * Converts an OpenDocument text file (.odt) to sanitized HTML: headings,
+ * paragraphs, character and paragraph styles, lists, tables, links,
+ * embedded images (as data URLs) and footnotes.
+ */
+export async function odtToHtml(buffer: ArrayBuffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer);
+  const contentXml = await zip.file("content.xml")?.async("string");
+  if (!contentXml) throw new Error("Invalid ODT file: content.xml not found");
+  const parser = new DOMParser();
+  const content = parser.parseFromString(contentXml, "application/xml");
+  if (content.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("Invalid ODT file: content.xml could not be parsed");
+  }
+
+  const styles: StyleMap = new Map();
+  const stylesXml = await zip.file("styles.xml")?.async("string");
+  if (stylesXml) readStyles(parser.parseFromString(stylesXml, "application/xml"), styles);
+  readStyles(content, styles);
+
+  const out = document.implementation.createHTMLDocument("");
+  const root = out.createElement("div");
+  const ctx: ConvertContext = { out, styles, images: await loadImages(zip), footnotes: [] };
+  const body = content.getElementsByTagNameNS(NS.office, "text")[0];
+  if (body) convertChildren(ctx, body, root);
+
+  if (ctx.footnotes.length > 0) {
+    const section = out.createElement("ol");
+    section.className = "footnotes";
+    ctx.footnotes.forEach((li) => section.appendChild(li));
+    root.appendChild(out.createElement("hr"));
+    root.appendChild(section);
+  }
+  return DOMPurify.sanitize(root.innerHTML);
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from "vitest";
+import { createLoadProgressStore, formatLoadProgress, getLoadFraction, getPdfDocumentOptions } from "./pdfLoading";
+
+describe("getPdfDocumentOptions", () => {
+  it("passes only the options that are set", () => {
+    expect(getPdfDocumentOptions()).toEqual({});
+    expect(getPdfDocumentOptions({ disableAutoFetch: true, rangeChunkSize: 262144 })).toEqual({
+      disableAutoFetch: true,
+      rangeChunkSize: 262144,
+    });
+    expect(getPdfDocumentOptions({ disableRange: false, disableStream: true, rangeChunkSize: 0 })).toEqual({
+      disableRange: false,
+      disableStream: true,
+    });
+  });
+});
+
+describe("load progress", () => {
+  it("reports the fraction and a label when the size is known", () => {
+    expect(getLoadFraction({ loaded: 50, total: 200 })).toBe(0.25);
+    expect(getLoadFraction({ loaded: 300, total: 200 })).toBe(1);
+    expect(formatLoadProgress({ loaded: 13107200, total: 209715200 })).toBe("12.5 MB of 200.0 MB (6%)");
+  });
+
+  it("falls back to the downloaded size when the total is unknown", () => {
+    expect(getLoadFraction({ loaded: 2048, total: 0 })).toBeNull();
+    expect(formatLoadProgress({ loaded: 2048 })).toBe("2 KB");
+    expect(formatLoadProgress({ loaded: 512, total: 0 })).toBe("512 B");
+  });
+});
+
+describe("createLoadProgressStore", () => {
+  it("keeps the latest progress and notifies subscribers until they unsubscribe", () => {
+    const store = createLoadProgressStore();
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+    expect(store.get()).toBeNull();
+    store.set({ loaded: 10, total: 100 });
+    expect(store.get()).toEqual({ loaded: 10, total: 100 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    unsubscribe();
+    store.set(null);
+    expect(store.get()).toBeNull();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,66 @@
+import type { PdfLoadingOptions } from "../types";
+
+/** Download progress reported by pdf.js; `total` is 0 or missing when the server sends no Content-Length. */
+export interface PdfLoadProgress {
+  loaded: number;
+  total?: number;
+}
+
+export interface LoadProgressStore {
+  get: () => PdfLoadProgress | null;
+  set: (progress: PdfLoadProgress | null) => void;
+  /** Calls `listener` after every change; returns the unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Holds the latest download progress outside React state, so progress ticks
+ * (which keep coming while pdf.js fetches the rest of a range-loaded file)
+ * re-render only the progress bar that subscribes to it.
+ */
+export function createLoadProgressStore(): LoadProgressStore {
+  let current: PdfLoadProgress | null = null;
+  const listeners = new Set<() => void>();
+  return {
+    get: () => current,
+    set: (progress) => {
+      current = progress;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
+
+/** pdf.js getDocument parameters for the loading options, leaving unset ones to pdf.js. */
+export function getPdfDocumentOptions(loading?: PdfLoadingOptions): PdfLoadingOptions {
+  const params: PdfLoadingOptions = {};
+  if (loading?.disableRange != null) params.disableRange = loading.disableRange;
+  if (loading?.rangeChunkSize != null && loading.rangeChunkSize > 0) params.rangeChunkSize = loading.rangeChunkSize;
+  if (loading?.disableStream != null) params.disableStream = loading.disableStream;
+  if (loading?.disableAutoFetch != null) params.disableAutoFetch = loading.disableAutoFetch;
+  return params;
+}
+
+/** Fraction downloaded (0–1), or null when the total size is unknown. */
+export function getLoadFraction({ loaded, total }: PdfLoadProgress): number | null {
+  if (!total || total <= 0) return null;
+  return Math.min(Math.max(loaded / total, 0), 1);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/** Progress label, e.g. "12.5 MB of 200.0 MB (6%)" or "12.5 MB" when the size is unknown. */
+export function formatLoadProgress(progress: PdfLoadProgress): string {
+  const fraction = getLoadFraction(progress);
+  if (fraction == null) return formatBytes(progress.loaded);
+  return `${formatBytes(Math.min(progress.loaded, progress.total!))} of ${formatBytes(progress.total!)} (${Math.floor(fraction * 100)}%)`;
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from "vitest";
+import { getPasswordReason, readPdfPermissions } from "./pdfSecurity";
+
+describe("getPasswordReason", () => {
+  it("maps pdf.js password responses", () => {
+    expect(getPasswordReason(1)).toBe("required");
+    expect(getPasswordReason(2)).toBe("incorrect");
+  });
+});
+
+describe("readPdfPermissions", () => {
+  it("allows everything for unrestricted documents", () => {
+    expect(Object.values(readPdfPermissions(null)).every(Boolean)).toBe(true);
+  });
+
+  it("grants only the listed flags", () => {
+    const permissions = readPdfPermissions([0x10, 0x200]);
+    expect(permissions.copy).toBe(true);
+    expect(permissions.copyForAccessibility).toBe(true);
+    expect(permissions.print).toBe(false);
+    expect(permissions.printHighQuality).toBe(false);
+    expect(permissions.modify).toBe(false);
+  });
+});
@@ -0,0 +1,31 @@
+import type { PdfPasswordReason, PdfPermissions } from "../types";
+
+/** pdf.js PasswordResponses.INCORRECT_PASSWORD (NEED_PASSWORD is 1). */
+const INCORRECT_PASSWORD = 2;
+
+/** Maps the reason pdf.js passes to onPassword. */
+export function getPasswordReason(response: number): PdfPasswordReason {
+  return response === INCORRECT_PASSWORD ? "incorrect" : "required";
+}
+
+/** Permission bits of the encryption dictionary's P entry (pdf.js PermissionFlag). */
+const PERMISSION_FLAGS: Record<keyof PdfPermissions, number> = {
+  print: 0x04,
+  modify: 0x08,
+  copy: 0x10,
+  annotate: 0x20,
+  fillForms: 0x100,
+  copyForAccessibility: 0x200,
+  assemble: 0x400,
+  printHighQuality: 0x800,
+};
+
+/** Reads the flags from PDFDocumentProxy.getPermissions(); null means the document is unrestricted. */
+export function readPdfPermissions(flags: number[] | null | undefined): PdfPermissions {
+  const granted = new Set(flags ?? []);
+  const permissions = {} as PdfPermissions;
+  for (const [name, flag] of Object.entries(PERMISSION_FLAGS) as [keyof PdfPermissions, number][]) {
+    permissions[name] = flags == null || granted.has(flag);
+  }
+  return permissions;
+}
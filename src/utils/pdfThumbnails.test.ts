@@ -0,0 +1,35 @@
+import { describe, it, expect, vi } from "vitest";
+import { createThumbnailCache } from "./pdfThumbnails";
+
+function fakeBitmap() {
+  return { width: 10, height: 14, close: vi.fn() } as unknown as ImageBitmap & { close: ReturnType<typeof vi.fn> };
+}
+
+describe("createThumbnailCache", () => {
+  it("evicts and closes the least recently used bitmaps", () => {
+    const cache = createThumbnailCache(2);
+    const [one, two, three] = [fakeBitmap(), fakeBitmap(), fakeBitmap()];
+    cache.set(1, one);
+    cache.set(2, two);
+    expect(cache.get(1)).toBe(one);
+    cache.set(3, three);
+    expect(cache.get(2)).toBeUndefined();
+    expect(two.close).toHaveBeenCalled();
+    expect(cache.get(1)).toBe(one);
+    expect(cache.get(3)).toBe(three);
+    expect(one.close).not.toHaveBeenCalled();
+  });
+
+  it("releases canvases and replaced bitmaps", () => {
+    const cache = createThumbnailCache(5);
+    const canvas = document.createElement("canvas");
+    canvas.width = 100;
+    const replacement = fakeBitmap();
+    cache.set(1, canvas);
+    cache.set(1, replacement);
+    expect(canvas.width).toBe(0);
+    cache.clear();
+    expect(replacement.close).toHaveBeenCalled();
+    expect(cache.get(1)).toBeUndefined();
+  });
+});
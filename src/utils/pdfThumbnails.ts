@@ -0,0 +1,77 @@
+import type { OutlineProps } from "react-pdf";
+
+/** Document proxy as loaded by react-pdf's `<Document>` (its bundled pdf.js version). */
+export type PdfDocumentProxy = Exclude<OutlineProps["pdf"], false | undefined>;
+
+/** A rendered thumbnail: an ImageBitmap where supported, otherwise the canvas it was drawn on. */
+export type ThumbnailBitmap = ImageBitmap | HTMLCanvasElement;
+
+/**
+ * Renders a page at `width` CSS pixels (no devicePixelRatio scaling, thumbnails
+ * are small) and returns it as a bitmap that can be drawn into any canvas.
+ */
+export async function renderPdfThumbnail(
+  pdf: PdfDocumentProxy,
+  pageNumber: number,
+  width: number
+): Promise<ThumbnailBitmap> {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: width / page.getViewport({ scale: 1 }).width });
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  if (typeof createImageBitmap !== "function") return canvas;
+  const bitmap = await createImageBitmap(canvas);
+  canvas.width = 0;
+  canvas.height = 0;
+  return bitmap;
+}
+
+function releaseBitmap(bitmap: ThumbnailBitmap) {
+  if ("close" in bitmap) bitmap.close();
+  else {
+    bitmap.width = 0;
+    bitmap.height = 0;
+  }
+}
+
+export interface ThumbnailCache {
+  /** Returns the page's bitmap and marks it as recently used. */
+  get: (page: number) => ThumbnailBitmap | undefined;
+  set: (page: number, bitmap: ThumbnailBitmap) => void;
+  /** Releases every cached bitmap. */
+  clear: () => void;
+}
+
+/** Least-recently-used cache of page thumbnails; bitmaps beyond `limit` are released. */
+export function createThumbnailCache(limit: number): ThumbnailCache {
+  const entries = new Map<number, ThumbnailBitmap>();
+  return {
+    get(page) {
+      const bitmap = entries.get(page);
+      if (bitmap) {
+        entries.delete(page);
+        entries.set(page, bitmap);
+      }
+      return bitmap;
+    },
+    set(page, bitmap) {
+      const previous = entries.get(page);
+      if (previous && previous !== bitmap) releaseBitmap(previous);
+      entries.delete(page);
+      entries.set(page, bitmap);
+      for (const [oldest, old] of entries) {
+        if (entries.size <= limit) break;
+        entries.delete(oldest);
+        releaseBitmap(old);
+      }
+    },
+    clear() {
+      entries.forEach(releaseBitmap);
+      entries.clear();
+    },
+  };
+}
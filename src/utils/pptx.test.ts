@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { formatAutoNumber, getSlideText, openPptx } from "./pptx";
+import type { PptxPicture, PptxShape, PptxTable } from "./pptx";
+import { chartToSvg } from "./pptxChart";
+
+const NS =
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" ' +
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+function rels(entries: [id: string, type: string, target: string][]): string {
+  return `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${entries
+    .map(([id, type, target]) => `<Relationship Id="${id}" Type="${REL}/${type}" Target="${target}"/>`)
+    .join("")}</Relationships>`;
+}
+
+const THEME = `<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:themeElements>
+<a:clrScheme name="t"><a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1><a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>
+<a:dk2><a:srgbClr val="44546A"/></a:dk2><a:lt2><a:srgbClr val="E7E6E6"/></a:lt2><a:accent1><a:srgbClr val="4472C4"/></a:accent1>
+<a:accent2><a:srgbClr val="ED7D31"/></a:accent2></a:clrScheme>
+<a:fontScheme name="f"><a:majorFont><a:latin typeface="Calibri Light"/></a:majorFont><a:minorFont><a:latin typeface="Calibri"/></a:minorFont></a:fontScheme>
+</a:themeElements></a:theme>`;
+
+const MASTER = `<p:sldMaster ${NS}><p:cSld><p:bg><p:bgPr><a:solidFill><a:schemeClr val="bg1"/></a:solidFill></p:bgPr></p:bg><p:spTree>
+<p:sp><p:nvSpPr><p:cNvPr id="2" name="Title"/><p:cNvSpPr/><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr>
+<p:spPr><a:xfrm><a:off x="838200" y="365125"/><a:ext cx="10515600" cy="1325563"/></a:xfrm></p:spPr>
+<p:txBody><a:bodyPr anchor="ctr"/><a:p/></p:txBody></p:sp>
+<p:sp><p:nvSpPr><p:cNvPr id="3" name="Logo bar"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>
+<p:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="12192000" cy="95250"/></a:xfrm><a:prstGeom prst="rect"/><a:solidFill><a:schemeClr val="accent1"/></a:solidFill></p:spPr></p:sp>
+</p:spTree></p:cSld><p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2"/>
+<p:txStyles><p:titleStyle><a:lvl1pPr><a:defRPr sz="4400"><a:solidFill><a:schemeClr val="tx2"/></a:solidFill><a:latin typeface="+mj-lt"/></a:defRPr></a:lvl1pPr></p:titleStyle>
+<p:bodyStyle><a:lvl1pPr marL="228600" indent="-228600"><a:buChar char="•"/><a:defRPr sz="2800"/></a:lvl1pPr></p:bodyStyle>
+<p:otherStyle><a:lvl1pPr><a:defRPr sz="1800"/></a:lvl1pPr></p:otherStyle></p:txStyles></p:sldMaster>`;
+
+const LAYOUT = `<p:sldLayout ${NS}><p:cSld><p:spTree>
+<p:sp><p:nvSpPr><p:cNvPr id="2" name="Body"/><p:cNvSpPr/><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr>
+<p:spPr><a:xfrm><a:off x="838200" y="1825625"/><a:ext cx="10515600" cy="4351338"/></a:xfrm></p:spPr><p:txBody><a:bodyPr/><a:p/></p:txBody></p:sp>
+</p:spTree></p:cSld></p:sldLayout>`;
+
+async function buildPptx(slides: { xml: string; rels?: [string, string, string][]; notes?: string }[], extra: Record<string, string | Uint8Array> = {}) {
+  const zip = new JSZip();
+  zip.file(
+    "ppt/presentation.xml",
+    `<p:presentation ${NS}><p:sldIdLst>${slides
+      .map((_, i) => `<p:sldId id="${256 + i}" r:id="rId${i + 1}"/>`)
+      .join("")}</p:sldIdLst><p:sldSz cx="12192000" cy="6858000"/></p:presentation>`
+  );
+  zip.file("ppt/_rels/presentation.xml.rels", rels(slides.map((_, i) => [`rId${i + 1}`, "slide", `slides/slide${i + 1}.xml`])));
+  zip.file("ppt/slideMasters/slideMaster1.xml", MASTER);
+  zip.file("ppt/slideMasters/_rels/slideMaster1.xml.rels", rels([["rId1", "theme", "../theme/theme1.xml"]]));
+  zip.file("ppt/theme/theme1.xml", THEME);
+  zip.file("ppt/slideLayouts/slideLayout1.xml", LAYOUT);
+  zip.file("ppt/slideLayouts/_rels/slideLayout1.xml.rels", rels([["rId1", "slideMaster", "../slideMasters/slideMaster1.xml"]]));
+  slides.forEach((slide, i) => {
+    const slideRels: [string, string, string][] = [["rLayout", "slideLayout", "../slideLayouts/slideLayout1.xml"], ...(slide.rels ?? [])];
+    if (slide.notes != null) {
+      slideRels.push(["rNotes", "notesSlide", `../notesSlides/notesSlide${i + 1}.xml`]);
+      zip.file(
+        `ppt/notesSlides/notesSlide${i + 1}.xml`,
+        `<p:notes ${NS}><p:cSld><p:spTree><p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes"/><p:cNvSpPr/><p:nvPr><p:ph type="body" idx="1"/></p:nvPr></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr/><a:p><a:r><a:t>${slide.notes}</a:t></a:r></a:p></p:txBody></p:sp></p:spTree></p:cSld></p:notes>`
+      );
+    }
+    zip.file(`ppt/slides/slide${i + 1}.xml`, slide.xml);
+    zip.file(`ppt/slides/_rels/slide${i + 1}.xml.rels`, rels(slideRels));
+  });
+  for (const [path, content] of Object.entries(extra)) zip.file(path, content);
+  return zip.generateAsync({ type: "arraybuffer" });
+}
+
+const slide = (shapes: string, attrs = "") => `<p:sld ${NS} ${attrs}><p:cSld><p:spTree>${shapes}</p:spTree></p:cSld></p:sld>`;
+
+describe("openPptx", () => {
+  it("inherits placeholder positions and text styles from the layout and master", async () => {
+    const deck = await openPptx(
+      await buildPptx([
+        {
+          xml: slide(
+            `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Title 1"/><p:cNvSpPr/><p:nvPr><p:ph type="title"/></p:nvPr></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr/><a:p><a:r><a:rPr lang="en-US"/><a:t>Quarterly review</a:t></a:r></a:p></p:txBody></p:sp>` +
+              `<p:sp><p:nvSpPr><p:cNvPr id="3" name="Content 2"/><p:cNvSpPr/><p:nvPr><p:ph idx="1"/></p:nvPr></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr/><a:p><a:r><a:t>Revenue up</a:t></a:r></a:p><a:p><a:pPr><a:buFont typeface="Arial"/><a:buAutoNum type="arabicPeriod"/></a:pPr><a:r><a:t>First</a:t></a:r></a:p><a:p><a:pPr><a:buAutoNum type="arabicPeriod"/></a:pPr><a:r><a:t>Second</a:t></a:r></a:p></p:txBody></p:sp>`
+          ),
+          notes: "Mention the new region",
+        },
+      ])
+    );
+    expect(deck.width).toBe(1280);
+    expect(deck.height).toBe(720);
+    const [current] = deck.slides;
+    expect(current.background).toBe("#ffffff");
+    expect(current.notes).toBe("Mention the new region");
+    const [bar, title, body] = current.elements as PptxShape[];
+    expect(bar.fill).toBe("#4472c4");
+    expect(title.box).toMatchObject({ x: 88, y: expect.closeTo(38.33, 1) });
+    expect(title.text?.anchor).toBe("middle");
+    expect(title.text?.paragraphs[0].runs[0]).toMatchObject({ text: "Quarterly review", color: "#44546a", font: "Calibri Light" });
+    expect(title.text?.paragraphs[0].runs[0].size).toBeCloseTo(58.67, 1);
+    expect(body.box.y).toBeCloseTo(191.67, 1);
+    expect(body.text?.paragraphs.map((p) => p.bullet)).toEqual(["•", "1.", "2."]);
+    expect(body.text?.paragraphs[0].indent).toBe(-24);
+    expect(getSlideText(current)).toBe("Quarterly review\nRevenue up\nFirst\nSecond");
+  });
+
+  it("reads pictures, tables, theme color transforms and hidden slides", async () => {
+    const deck = await openPptx(
+      await buildPptx(
+        [
+          {
+            xml: slide(
+              `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Box"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr><p:spPr><a:xfrm rot="5400000"><a:off x="0" y="0"/><a:ext cx="952500" cy="952500"/></a:xfrm><a:prstGeom prst="ellipse"/><a:solidFill><a:schemeClr val="accent2"><a:lumMod val="50000"/></a:schemeClr></a:solidFill><a:ln w="19050"><a:solidFill><a:srgbClr val="FF0000"><a:alpha val="50000"/></a:srgbClr></a:solidFill></a:ln></p:spPr></p:sp>` +
+                `<p:pic><p:nvPicPr><p:cNvPr id="3" name="Photo"/><p:cNvPicPr/><p:nvPr/></p:nvPicPr><p:blipFill><a:blip r:embed="rImg"/><a:srcRect l="10000"/></p:blipFill><p:spPr><a:xfrm><a:off x="952500" y="0"/><a:ext cx="952500" cy="952500"/></a:xfrm></p:spPr></p:pic>` +
+                `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="4" name="Table"/><p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr><p:xfrm><a:off x="0" y="952500"/><a:ext cx="1905000" cy="952500"/></p:xfrm><a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table"><a:tbl><a:tblPr firstRow="1" bandRow="1"/><a:tblGrid><a:gridCol w="952500"/><a:gridCol w="952500"/></a:tblGrid><a:tr h="476250"><a:tc gridSpan="2"><a:txBody><a:bodyPr/><a:p><a:r><a:t>Region</a:t></a:r></a:p></a:txBody></a:tc><a:tc hMerge="1"><a:txBody><a:bodyPr/><a:p/></a:txBody></a:tc></a:tr><a:tr h="476250"><a:tc><a:txBody><a:bodyPr/><a:p><a:r><a:t>North</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:bodyPr/><a:p><a:r><a:t>42</a:t></a:r></a:p></a:txBody></a:tc></a:tr></a:tbl></a:graphicData></a:graphic></p:graphicFrame>`
+            ),
+            rels: [["rImg", "image", "../media/image1.png"]],
+          },
+          { xml: slide("", 'show="0"') },
+        ],
+        { "ppt/media/image1.png": new Uint8Array([0x89, 0x50, 0x4e, 0x47]) }
+      )
+    );
+    const [shape, picture, table] = deck.slides[0].elements.slice(1) as [PptxShape, PptxPicture, PptxTable];
+    expect(shape).toMatchObject({ geometry: "ellipse", fill: "#843c0b", box: { width: 100, rotation: 90 } });
+    expect(shape.line).toEqual({ color: "rgba(255, 0, 0, 0.5)", width: 2, dashed: false });
+    expect(picture.src).toBe("data:image/png;base64,iVBORw==");
+    expect(picture.crop).toEqual([0.1, 0, 0, 0]);
+    expect(table.columns).toEqual([100, 100]);
+    expect(table.rows[0].cells[0]).toMatchObject({ colSpan: 2, fill: "#4472c4" });
+    expect(table.rows[0].cells[0].text.paragraphs[0].runs[0].color).toBe("#ffffff");
+    expect(table.rows[0].cells[1].merged).toBe(true);
+    expect(getSlideText(deck.slides[0])).toBe("Region\nNorth\t42");
+    expect(deck.slides[1].hidden).toBe(true);
+  });
+
+  it("rejects files without a presentation part", async () => {
+    const zip = new JSZip();
+    zip.file("word/document.xml", "<w/>");
+    await expect(openPptx(await zip.generateAsync({ type: "arraybuffer" }))).rejects.toThrow(/presentation\.xml/);
+  });
+});
+
+describe("formatAutoNumber", () => {
+  it("formats numbering schemes", () => {
+    expect(formatAutoNumber("arabicPeriod", 3)).toBe("3.");
+    expect(formatAutoNumber("alphaLcParenR", 28)).toBe("ab)");
+    expect(formatAutoNumber("romanUcPeriod", 14)).toBe("XIV.");
+    expect(formatAutoNumber("arabicParenBoth", 2)).toBe("(2)");
+  });
+});
+
+describe("chartToSvg", () => {
+  it("draws bars per series and a legend", () => {
+    const svg = chartToSvg(
+      {
+        kind: "column",
+        title: "Sales",
+        stacked: false,
+        categories: ["Q1", "Q2"],
+        series: [
+          { name: "2023", values: [1, 2], color: "#4472c4", pointColors: [] },
+          { name: "2024", values: [3, 4], color: "#ed7d31", pointColors: [] },
+        ],
+      },
+      400,
+      300
+    );
+    expect(svg.match(/<rect [^>]*fill="#4472c4"/g)).toHaveLength(3);
+    expect(svg).toContain(">Sales</text>");
+    expect(svg).toContain(">Q2</text>");
+    expect(svg).toContain(">2024</text>");
+  });
+});
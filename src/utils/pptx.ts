@@ -0,0 +1,1095 @@
+import JSZip from "jszip";
+import { getMimeTypeForFileName } from "../FormatRouter";
+import { chartToSvg, parseChart } from "./pptxChart";
+
+const NS = {
+  p: "http://schemas.openxmlformats.org/presentationml/2006/main",
+  a: "http://schemas.openxmlformats.org/drawingml/2006/main",
+  r: "http://schemas.openxmlformats.org/officeDocument/2006/relationships",
+  rel: "http://schemas.openxmlformats.org/package/2006/relationships",
+  mc: "http://schemas.openxmlformats.org/markup-compatibility/2006",
+};
+
+/** EMUs per CSS pixel (914400 per inch, 96 pixels per inch). */
+const EMU_PER_PX = 9525;
+/** Hundredths of a point to CSS pixels. */
+const SZ_TO_PX = 96 / 72 / 100;
+
+export interface PptxBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Clockwise rotation in degrees. */
+  rotation: number;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+export interface PptxTextRun {
+  text: string;
+  size: number;
+  color: string;
+  font?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  baseline?: "super" | "sub";
+  href?: string;
+}
+
+export interface PptxParagraph {
+  runs: PptxTextRun[];
+  align: "left" | "center" | "right" | "justify";
+  /** Left margin and first-line indent, in pixels. */
+  marginLeft: number;
+  indent: number;
+  bullet?: string;
+  /** Font size of the paragraph's end mark; used for the bullet and empty lines. */
+  size: number;
+  color: string;
+}
+
+export interface PptxTextBody {
+  paragraphs: PptxParagraph[];
+  anchor: "top" | "middle" | "bottom";
+  /** Insets in pixels: top, right, bottom, left. */
+  padding: [number, number, number, number];
+  wrap: boolean;
+  /** Shrink-on-overflow factors from normAutofit. */
+  fontScale: number;
+  lineSpacingReduction: number;
+}
+
+export interface PptxLine {
+  color: string;
+  width: number;
+  dashed: boolean;
+}
+
+export interface PptxShape {
+  type: "shape";
+  box: PptxBox;
+  /** DrawingML preset geometry name, e.g. "rect", "ellipse", "line". */
+  geometry: string;
+  /** CSS background; undefined for no fill. */
+  fill?: string;
+  line?: PptxLine;
+  text?: PptxTextBody;
+}
+
+export interface PptxPicture {
+  type: "picture";
+  box: PptxBox;
+  /** Data URL; undefined for formats browsers can't show (EMF/WMF). */
+  src?: string;
+  /** Cropped fractions of the source image: left, top, right, bottom. */
+  crop: [number, number, number, number];
+}
+
+export interface PptxTableCell {
+  text: PptxTextBody;
+  fill?: string;
+  colSpan: number;
+  rowSpan: number;
+  /** Covered by a neighbouring cell's span. */
+  merged: boolean;
+}
+
+export interface PptxTable {
+  type: "table";
+  box: PptxBox;
+  columns: number[];
+  rows: { height: number; cells: PptxTableCell[] }[];
+}
+
+export interface PptxChart {
+  type: "chart";
+  box: PptxBox;
+  /** SVG data URL drawn from the chart's cached values. */
+  src?: string;
+}
+
+export type PptxElement = PptxShape | PptxPicture | PptxTable | PptxChart;
+
+export interface PptxSlide {
+  /** CSS background. */
+  background: string;
+  elements: PptxElement[];
+  notes: string;
+  hidden: boolean;
+}
+
+export interface PptxPresentation {
+  /** Slide size in pixels. */
+  width: number;
+  height: number;
+  slides: PptxSlide[];
+}
+
+interface Relationship {
+  type: string;
+  target: string;
+  external: boolean;
+}
+
+interface Part {
+  path: string;
+  doc: Document;
+  rels: Map<string, Relationship>;
+}
+
+interface Theme {
+  colors: Map<string, string>;
+  majorFont?: string;
+  minorFont?: string;
+}
+
+interface Master {
+  part: Part;
+  theme: Theme;
+  colorMap: Map<string, string>;
+  placeholders: Element[];
+  textStyles: { title?: Element; body?: Element; other?: Element };
+}
+
+interface Layout {
+  part: Part;
+  master: Master;
+  placeholders: Element[];
+}
+
+interface ConvertContext {
+  zip: JSZip;
+  /** Part whose relationships resolve r:embed / r:id in the tree being converted. */
+  part: Part;
+  master: Master;
+  layout?: Layout;
+  defaultTextStyle?: Element;
+  slideNumber: number;
+  images: Map<string, Promise<string | undefined>>;
+}
+
+/** Maps child coordinates (EMU) of a group into slide coordinates. */
+type Transform = (x: number, y: number, w: number, h: number) => [number, number, number, number];
+
+const IDENTITY: Transform = (x, y, w, h) => [x, y, w, h];
+
+function child(el: Element | undefined, ns: string, name: string): Element | undefined {
+  if (!el) return undefined;
+  for (const c of Array.from(el.children)) if (c.namespaceURI === ns && c.localName === name) return c;
+  return undefined;
+}
+
+function children(el: Element | undefined, ns: string, name: string): Element[] {
+  return el ? Array.from(el.children).filter((c) => c.namespaceURI === ns && c.localName === name) : [];
+}
+
+function num(el: Element | undefined, name: string, fallback = 0): number {
+  const value = Number(el?.getAttribute(name) ?? NaN);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function flag(el: Element | undefined, name: string): boolean | undefined {
+  const value = el?.getAttribute(name);
+  return value == null ? undefined : value === "1" || value === "true";
+}
+
+function parseXml(text: string, label: string): Document {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error(`Invalid PPTX: ${label} could not be parsed`);
+  }
+  return doc;
+}
+
+function resolvePartPath(base: string, target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const segments = base.split("/").slice(0, -1);
+  for (const segment of target.split("/")) {
+    if (segment === "..") segments.pop();
+    else if (segment !== "." && segment !== "") segments.push(segment);
+  }
+  return segments.join("/");
+}
+
+async function readRels(zip: JSZip, partPath: string): Promise<Map<string, Relationship>> {
+  const slash = partPath.lastIndexOf("/");
+  const relsPath = `${partPath.slice(0, slash + 1)}_rels/${partPath.slice(slash + 1)}.rels`;
+  const rels = new Map<string, Relationship>();
+  const xml = await zip.file(relsPath)?.async("string");
+  if (!xml) return rels;
+  for (const el of Array.from(parseXml(xml, relsPath).getElementsByTagNameNS(NS.rel, "Relationship"))) {
+    const id = el.getAttribute("Id");
+    const target = el.getAttribute("Target") ?? "";
+    if (!id) continue;
+    const external = el.getAttribute("TargetMode") === "External";
+    let resolved = target;
+    if (!external) {
+      try {
+        resolved = resolvePartPath(partPath, decodeURIComponent(target));
+      } catch {
+        resolved = resolvePartPath(partPath, target);
+      }
+    }
+    rels.set(id, { type: el.getAttribute("Type") ?? "", target: resolved, external });
+  }
+  return rels;
+}
+
+async function loadPart(zip: JSZip, path: string): Promise<Part | undefined> {
+  const xml = await zip.file(path)?.async("string");
+  if (xml == null) return undefined;
+  return { path, doc: parseXml(xml, path), rels: await readRels(zip, path) };
+}
+
+function relOfType(part: Part, suffix: string): Relationship | undefined {
+  return Array.from(part.rels.values()).find((rel) => rel.type.endsWith(suffix));
+}
+
+const PRESET_COLORS: Record<string, string> = {
+  black: "000000",
+  white: "FFFFFF",
+  red: "FF0000",
+  green: "008000",
+  blue: "0000FF",
+  yellow: "FFFF00",
+  gray: "808080",
+  grey: "808080",
+  orange: "FFA500",
+  purple: "800080",
+};
+
+const COLOR_ELEMENTS = new Set(["srgbClr", "schemeClr", "sysClr", "prstClr", "scrgbClr"]);
+
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  r /= 255;
+  g /= 255;
+  b /= 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  if (max === min) return [0, 0, l];
+  const d = max - min;
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return [h / 6, s, l];
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  if (s === 0) return [l * 255, l * 255, l * 255];
+  const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+  const p = 2 * l - q;
+  const hue = (t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  return [hue(h + 1 / 3) * 255, hue(h) * 255, hue(h - 1 / 3) * 255];
+}
+
+/** Applies DrawingML color transforms (lumMod/lumOff, tint, shade, alpha) to a hex color. */
+function applyColorModifiers(hex: string, el: Element): string {
+  let rgb = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16)) as [number, number, number];
+  let alpha = 1;
+  for (const mod of Array.from(el.children)) {
+    const v = num(mod, "val", 100000) / 100000;
+    switch (mod.localName) {
+      case "alpha":
+        alpha = v;
+        break;
+      case "tint":
+        rgb = rgb.map((c) => c + (255 - c) * (1 - v)) as [number, number, number];
+        break;
+      case "shade":
+        rgb = rgb.map((c) => c * v) as [number, number, number];
+        break;
+      case "lumMod":
+      case "lumOff": {
+        const [h, s, l] = rgbToHsl(...rgb);
+        const next = mod.localName === "lumMod" ? l * v : l + v;
+        rgb = hslToRgb(h, s, Math.min(1, Math.max(0, next)));
+        break;
+      }
+    }
+  }
+  const [r, g, b] = rgb.map((c) => Math.round(Math.min(255, Math.max(0, c))));
+  if (alpha < 1) return `rgba(${r}, ${g}, ${b}, ${Number(alpha.toFixed(3))})`;
+  return `#${[r, g, b].map((c) => c.toString(16).padStart(2, "0")).join("")}`;
+}
+
+function schemeColor(name: string, master: Master): string | undefined {
+  const hex = master.theme.colors.get(master.colorMap.get(name) ?? name);
+  return hex && /^[0-9a-f]{6}$/i.test(hex) ? `#${hex.toLowerCase()}` : undefined;
+}
+
+/** Mixes a hex color with white; `amount` 1 keeps the color. */
+function tintColor(color: string, amount: number): string {
+  const channels = [1, 3, 5].map((i) => parseInt(color.slice(i, i + 2), 16));
+  return `#${channels.map((c) => Math.round(c + (255 - c) * (1 - amount)).toString(16).padStart(2, "0")).join("")}`;
+}
+
+/** Resolves the color element inside `container` (solidFill, fontRef, gs, …) against the theme. */
+function resolveColor(container: Element | undefined, master: Master): string | undefined {
+  const el = container && Array.from(container.children).find((c) => COLOR_ELEMENTS.has(c.localName));
+  if (!el) return undefined;
+  const val = el.getAttribute("val") ?? "";
+  let hex: string | undefined;
+  switch (el.localName) {
+    case "srgbClr":
+      hex = val;
+      break;
+    case "sysClr":
+      hex = el.getAttribute("lastClr") ?? (val === "window" ? "FFFFFF" : "000000");
+      break;
+    case "schemeClr":
+      hex = master.theme.colors.get(master.colorMap.get(val) ?? val);
+      break;
+    case "prstClr":
+      hex = PRESET_COLORS[val];
+      break;
+    case "scrgbClr":
+      hex = ["r", "g", "b"]
+        .map((c) => Math.round((num(el, c) / 100000) * 255).toString(16).padStart(2, "0"))
+        .join("");
+      break;
+  }
+  if (!hex || !/^[0-9a-f]{6}$/i.test(hex)) return undefined;
+  return applyColorModifiers(hex, el);
+}
+
+function readTheme(part: Part | undefined): Theme {
+  const theme: Theme = { colors: new Map() };
+  if (!part) return theme;
+  const scheme = part.doc.getElementsByTagNameNS(NS.a, "clrScheme")[0];
+  for (const el of Array.from(scheme?.children ?? [])) {
+    const color = el.firstElementChild;
+    const hex = color?.localName === "sysClr" ? color.getAttribute("lastClr") : color?.getAttribute("val");
+    if (hex) theme.colors.set(el.localName, hex);
+  }
+  const fontTypeface = (name: string) => child(part.doc.getElementsByTagNameNS(NS.a, name)[0], NS.a, "latin");
+  theme.majorFont = fontTypeface("majorFont")?.getAttribute("typeface") || undefined;
+  theme.minorFont = fontTypeface("minorFont")?.getAttribute("typeface") || undefined;
+  return theme;
+}
+
+async function loadImage(ctx: ConvertContext, relId: string | null): Promise<string | undefined> {
+  const rel = relId ? ctx.part.rels.get(relId) : undefined;
+  if (!rel || rel.external) return undefined;
+  let pending = ctx.images.get(rel.target);
+  if (!pending) {
+    const mimeType = getMimeTypeForFileName(rel.target);
+    const file = ctx.zip.file(rel.target);
+    pending =
+      file && mimeType?.startsWith("image/") && mimeType !== "image/tiff"
+        ? file.async("base64").then((data) => `data:${mimeType};base64,${data}`)
+        : Promise.resolve(undefined);
+    ctx.images.set(rel.target, pending);
+  }
+  return pending;
+}
+
+/**
+ * Reads the fill of an spPr / bgPr / tcPr as a CSS background: "transparent"
+ * for noFill, undefined when the element doesn't specify one.
+ */
+async function readFill(props: Element | undefined, ctx: ConvertContext): Promise<string | undefined> {
+  if (!props) return undefined;
+  if (child(props, NS.a, "noFill")) return "transparent";
+  const solid = child(props, NS.a, "solidFill");
+  if (solid) return resolveColor(solid, ctx.master);
+  const grad = child(props, NS.a, "gradFill");
+  if (grad) {
+    const stops = children(child(grad, NS.a, "gsLst"), NS.a, "gs")
+      .map((gs) => ({ pos: num(gs, "pos") / 1000, color: resolveColor(gs, ctx.master) }))
+      .filter((stop) => stop.color)
+      .sort((a, b) => a.pos - b.pos)
+      .map((stop) => `${stop.color} ${stop.pos}%`);
+    if (stops.length === 0) return undefined;
+    if (stops.length === 1) stops.push(stops[0]);
+    if (child(grad, NS.a, "path")) return `radial-gradient(circle, ${stops.join(", ")})`;
+    const angle = num(child(grad, NS.a, "lin"), "ang") / 60000 + 90;
+    return `linear-gradient(${angle}deg, ${stops.join(", ")})`;
+  }
+  const blip = child(child(props, NS.a, "blipFill"), NS.a, "blip");
+  if (blip) {
+    const src = await loadImage(ctx, blip.getAttributeNS(NS.r, "embed"));
+    return src ? `url("${src}") center / cover no-repeat` : undefined;
+  }
+  const pattern = child(props, NS.a, "pattFill");
+  if (pattern) return resolveColor(child(pattern, NS.a, "fgClr"), ctx.master);
+  return undefined;
+}
+
+function readLine(spPr: Element | undefined, style: Element | undefined, master: Master): PptxLine | undefined {
+  const ln = child(spPr, NS.a, "ln");
+  const lnRef = child(style, NS.a, "lnRef");
+  if (child(ln, NS.a, "noFill")) return undefined;
+  const color =
+    resolveColor(child(ln, NS.a, "solidFill"), master) ?? (num(lnRef, "idx") > 0 ? resolveColor(lnRef, master) : undefined);
+  if (!color) return undefined;
+  const dash = child(ln, NS.a, "prstDash")?.getAttribute("val");
+  return { color, width: Math.max(1, num(ln, "w", 9525) / EMU_PER_PX), dashed: dash != null && dash !== "solid" };
+}
+
+function readBox(xfrm: Element, transform: Transform): PptxBox {
+  const off = child(xfrm, NS.a, "off");
+  const ext = child(xfrm, NS.a, "ext");
+  const [x, y, w, h] = transform(num(off, "x"), num(off, "y"), num(ext, "cx"), num(ext, "cy"));
+  return {
+    x: x / EMU_PER_PX,
+    y: y / EMU_PER_PX,
+    width: w / EMU_PER_PX,
+    height: h / EMU_PER_PX,
+    rotation: num(xfrm, "rot") / 60000,
+    flipH: flag(xfrm, "flipH") ?? false,
+    flipV: flag(xfrm, "flipV") ?? false,
+  };
+}
+
+interface PlaceholderRef {
+  type: string;
+  idx?: string;
+}
+
+function readPlaceholder(el: Element): PlaceholderRef | undefined {
+  const nv = Array.from(el.children).find((c) => c.localName.startsWith("nv"));
+  const ph = child(child(nv, NS.p, "nvPr"), NS.p, "ph");
+  if (!ph) return undefined;
+  return { type: ph.getAttribute("type") ?? "obj", idx: ph.getAttribute("idx") ?? undefined };
+}
+
+/** Groups placeholder types that inherit from the same master placeholder. */
+function placeholderKind(type: string): string {
+  if (type === "ctrTitle") return "title";
+  if (type === "subTitle" || type === "obj" || type === "body") return "body";
+  return type;
+}
+
+function findPlaceholder(candidates: Element[], ref: PlaceholderRef, byIndex: boolean): Element | undefined {
+  if (byIndex && ref.idx != null) {
+    const match = candidates.find((el) => readPlaceholder(el)?.idx === ref.idx);
+    if (match) return match;
+  }
+  const kind = placeholderKind(ref.type);
+  return candidates.find((el) => {
+    const candidate = readPlaceholder(el);
+    return candidate != null && placeholderKind(candidate.type) === kind;
+  });
+}
+
+/** Layout and master shapes a slide placeholder inherits position, body and text styles from. */
+function inheritedShapes(el: Element, ctx: ConvertContext): Element[] {
+  const ref = readPlaceholder(el);
+  if (!ref) return [];
+  const layoutShape = ctx.layout ? findPlaceholder(ctx.layout.placeholders, ref, true) : undefined;
+  const masterRef = layoutShape ? readPlaceholder(layoutShape) ?? ref : ref;
+  const masterShape = findPlaceholder(ctx.master.placeholders, masterRef, false);
+  return [layoutShape, masterShape].filter((s): s is Element => s != null && s !== el);
+}
+
+function shapeXfrm(el: Element): Element | undefined {
+  if (el.localName === "graphicFrame") return child(el, NS.p, "xfrm");
+  const props = child(el, NS.p, el.localName === "grpSp" ? "grpSpPr" : "spPr");
+  return child(props, NS.a, "xfrm");
+}
+
+interface TextLevel {
+  align?: PptxParagraph["align"];
+  marginLeft?: number;
+  indent?: number;
+  /** null: explicitly no bullet. */
+  bullet?: string | null;
+  autoNumber?: { type: string; start: number };
+  size?: number;
+  color?: string;
+  font?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  baseline?: "super" | "sub";
+}
+
+const ALIGN: Record<string, PptxParagraph["align"]> = {
+  l: "left",
+  ctr: "center",
+  r: "right",
+  just: "justify",
+  dist: "justify",
+};
+
+/** Common Wingdings bullet characters and their Unicode look-alikes. */
+const WINGDINGS: Record<string, string> = {
+  "§": "▪",
+  l: "●",
+  n: "■",
+  q: "❑",
+  v: "❖",
+  Ø: "➢",
+  ü: "✓",
+  "à": "➔",
+};
+
+function resolveFont(typeface: string | null | undefined, theme: Theme): string | undefined {
+  if (!typeface) return undefined;
+  if (typeface.startsWith("+mj")) return theme.majorFont;
+  if (typeface.startsWith("+mn")) return theme.minorFont;
+  return typeface;
+}
+
+function readRunProps(rPr: Element | undefined, master: Master): TextLevel {
+  if (!rPr) return {};
+  const props: TextLevel = {};
+  const sz = num(rPr, "sz", NaN);
+  if (Number.isFinite(sz)) props.size = sz * SZ_TO_PX;
+  props.bold = flag(rPr, "b");
+  props.italic = flag(rPr, "i");
+  const underline = rPr.getAttribute("u");
+  if (underline) props.underline = underline !== "none";
+  const strike = rPr.getAttribute("strike");
+  if (strike) props.strike = strike !== "noStrike";
+  const baseline = num(rPr, "baseline");
+  if (baseline) props.baseline = baseline > 0 ? "super" : "sub";
+  props.color = resolveColor(child(rPr, NS.a, "solidFill"), master);
+  props.font = resolveFont(child(rPr, NS.a, "latin")?.getAttribute("typeface"), master.theme);
+  return props;
+}
+
+function readLevel(pPr: Element | undefined, master: Master): TextLevel {
+  if (!pPr) return {};
+  const level = readRunProps(child(pPr, NS.a, "defRPr"), master);
+  const align = pPr.getAttribute("algn");
+  if (align) level.align = ALIGN[align];
+  if (pPr.hasAttribute("marL")) level.marginLeft = num(pPr, "marL") / EMU_PER_PX;
+  if (pPr.hasAttribute("indent")) level.indent = num(pPr, "indent") / EMU_PER_PX;
+  if (child(pPr, NS.a, "buNone")) level.bullet = null;
+  const buChar = child(pPr, NS.a, "buChar")?.getAttribute("char");
+  if (buChar) {
+    const wingdings = /wingdings/i.test(child(pPr, NS.a, "buFont")?.getAttribute("typeface") ?? "");
+    level.bullet = wingdings ? WINGDINGS[buChar] ?? "•" : buChar;
+  }
+  const autoNum = child(pPr, NS.a, "buAutoNum");
+  if (autoNum) {
+    level.bullet = "";
+    level.autoNumber = { type: autoNum.getAttribute("type") ?? "arabicPeriod", start: num(autoNum, "startAt", 1) };
+  }
+  return level;
+}
+
+function mergeLevels(levels: TextLevel[]): TextLevel {
+  const merged: TextLevel = {};
+  for (const level of levels) {
+    for (const [key, value] of Object.entries(level) as [keyof TextLevel, unknown][]) {
+      if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+    }
+    // A later explicit bullet character cancels inherited numbering.
+    if (level.bullet !== undefined && level.autoNumber === undefined) delete merged.autoNumber;
+  }
+  return merged;
+}
+
+function toRoman(n: number): string {
+  const numerals: [number, string][] = [
+    [1000, "M"], [900, "CM"], [500, "D"], [400, "CD"], [100, "C"], [90, "XC"],
+    [50, "L"], [40, "XL"], [10, "X"], [9, "IX"], [5, "V"], [4, "IV"], [1, "I"],
+  ];
+  let out = "";
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      out += numeral;
+      n -= value;
+    }
+  }
+  return out;
+}
+
+function toAlpha(n: number): string {
+  let out = "";
+  for (; n > 0; n = Math.floor((n - 1) / 26)) out = String.fromCharCode(97 + ((n - 1) % 26)) + out;
+  return out;
+}
+
+/** Formats a buAutoNum scheme such as "arabicPeriod", "alphaLcParenR" or "romanUcPeriod". */
+export function formatAutoNumber(type: string, n: number): string {
+  const value = type.startsWith("alphaLc")
+    ? toAlpha(n)
+    : type.startsWith("alphaUc")
+      ? toAlpha(n).toUpperCase()
+      : type.startsWith("romanLc")
+        ? toRoman(n).toLowerCase()
+        : type.startsWith("romanUc")
+          ? toRoman(n)
+          : String(n);
+  if (type.endsWith("ParenBoth")) return `(${value})`;
+  if (type.endsWith("ParenR")) return `${value})`;
+  if (type.endsWith("Plain")) return value;
+  return `${value}.`;
+}
+
+const SAFE_LINK = /^(https?:|mailto:)/i;
+
+/**
+ * Converts a txBody. `sources` are list-style containers (a:lvlNpPr parents)
+ * from lowest to highest priority; `base` seeds the inherited run props.
+ */
+function readTextBody(
+  txBody: Element,
+  sources: (Element | undefined)[],
+  bodyProps: (Element | undefined)[],
+  base: TextLevel,
+  ctx: ConvertContext
+): PptxTextBody | undefined {
+  const { master } = ctx;
+  const defaultColor = schemeColor("tx1", master) ?? "#000000";
+  const defaultFont = master.theme.minorFont;
+  const counters: number[] = [];
+  const paragraphs: PptxParagraph[] = [];
+
+  for (const p of children(txBody, NS.a, "p")) {
+    const pPr = child(p, NS.a, "pPr");
+    const lvl = Math.min(8, num(pPr, "lvl"));
+    const level = mergeLevels([
+      { size: 18 * 96 / 72, color: defaultColor, font: defaultFont },
+      ...sources.map((source) => readLevel(child(source, NS.a, `lvl${lvl + 1}pPr`), master)),
+      base,
+      readLevel(pPr, master),
+    ]);
+
+    const runs: PptxTextRun[] = [];
+    for (const el of Array.from(p.children)) {
+      if (el.namespaceURI !== NS.a) continue;
+      if (el.localName === "br") {
+        runs.push({ text: "\n", size: level.size ?? 24, color: level.color ?? defaultColor });
+        continue;
+      }
+      if (el.localName !== "r" && el.localName !== "fld") continue;
+      const rPr = child(el, NS.a, "rPr");
+      const props = mergeLevels([level, readRunProps(rPr, master)]);
+      let text = child(el, NS.a, "t")?.textContent ?? "";
+      if (el.localName === "fld" && el.getAttribute("type") === "slidenum") text = String(ctx.slideNumber);
+      const linkId = child(rPr, NS.a, "hlinkClick")?.getAttributeNS(NS.r, "id");
+      const link = linkId ? ctx.part.rels.get(linkId) : undefined;
+      runs.push({
+        text,
+        size: props.size ?? 24,
+        color: props.color ?? defaultColor,
+        font: props.font,
+        bold: props.bold,
+        italic: props.italic,
+        underline: props.underline,
+        strike: props.strike,
+        baseline: props.baseline,
+        href: link?.external && SAFE_LINK.test(link.target) ? link.target : undefined,
+      });
+    }
+
+    const endProps = mergeLevels([level, readRunProps(child(p, NS.a, "endParaRPr"), master)]);
+    const hasText = runs.some((run) => run.text.trim() !== "");
+    let bullet: string | undefined;
+    if (level.autoNumber && hasText) {
+      counters.length = lvl + 1;
+      counters[lvl] = (counters[lvl] ?? level.autoNumber.start - 1) + 1;
+      bullet = formatAutoNumber(level.autoNumber.type, counters[lvl]);
+    } else {
+      counters.length = lvl;
+      if (level.bullet && hasText) bullet = level.bullet;
+    }
+    paragraphs.push({
+      runs,
+      align: level.align ?? "left",
+      marginLeft: level.marginLeft ?? 0,
+      indent: level.indent ?? 0,
+      bullet,
+      size: (runs[0]?.size ?? endProps.size) ?? 24,
+      color: runs[0]?.color ?? endProps.color ?? defaultColor,
+    });
+  }
+  if (paragraphs.every((p) => p.runs.every((run) => run.text === ""))) return undefined;
+
+  // Body properties: the shape's own attributes win over inherited placeholders.
+  const attr = (name: string) => {
+    for (const props of bodyProps) {
+      const value = props?.getAttribute(name);
+      if (value != null) return value;
+    }
+    return null;
+  };
+  const inset = (name: string, fallback: number) => {
+    const value = attr(name);
+    return (value != null ? Number(value) : fallback) / EMU_PER_PX;
+  };
+  const anchor = attr("anchor");
+  const autofit = child(bodyProps[0], NS.a, "normAutofit");
+  return {
+    paragraphs,
+    anchor: anchor === "ctr" ? "middle" : anchor === "b" ? "bottom" : "top",
+    padding: [inset("tIns", 45720), inset("rIns", 91440), inset("bIns", 45720), inset("lIns", 91440)],
+    wrap: attr("wrap") !== "none",
+    fontScale: num(autofit, "fontScale", 100000) / 100000,
+    lineSpacingReduction: num(autofit, "lnSpcReduction") / 100000,
+  };
+}
+
+/** List-style containers for a shape, lowest priority first. */
+function textSources(el: Element, inherited: Element[], ctx: ConvertContext): (Element | undefined)[] {
+  const ref = readPlaceholder(el);
+  const kind = ref ? placeholderKind(ref.type) : undefined;
+  const { textStyles } = ctx.master;
+  const masterStyle = kind === "title" ? textStyles.title : kind === "body" ? textStyles.body : textStyles.other;
+  const lstStyle = (shape: Element) => child(child(shape, NS.p, "txBody"), NS.a, "lstStyle");
+  return [
+    ctx.defaultTextStyle,
+    masterStyle,
+    ...inherited.slice().reverse().map(lstStyle),
+    lstStyle(el),
+  ];
+}
+
+async function convertShape(el: Element, transform: Transform, ctx: ConvertContext): Promise<PptxShape | undefined> {
+  const inherited = inheritedShapes(el, ctx);
+  const xfrm = [el, ...inherited].map(shapeXfrm).find((x) => x != null);
+  if (!xfrm) return undefined;
+  const spPr = child(el, NS.p, "spPr");
+  const style = child(el, NS.p, "style");
+  const geometry =
+    [el, ...inherited]
+      .map((shape) => child(child(shape, NS.p, "spPr"), NS.a, "prstGeom"))
+      .find((g) => g != null)
+      ?.getAttribute("prst") ?? "rect";
+
+  let fill = await readFill(spPr, ctx);
+  if (fill === undefined) {
+    const fillRef = child(style, NS.a, "fillRef");
+    if (num(fillRef, "idx") > 0) fill = resolveColor(fillRef, ctx.master);
+  }
+
+  let text: PptxTextBody | undefined;
+  const txBody = child(el, NS.p, "txBody");
+  if (txBody) {
+    const fontRefColor = resolveColor(child(style, NS.a, "fontRef"), ctx.master);
+    const bodyProps = [txBody, ...inherited.map((s) => child(s, NS.p, "txBody"))].map((body) =>
+      child(body, NS.a, "bodyPr")
+    );
+    text = readTextBody(
+      txBody,
+      textSources(el, inherited, ctx),
+      bodyProps,
+      fontRefColor ? { color: fontRefColor } : {},
+      ctx
+    );
+  }
+
+  return {
+    type: "shape",
+    box: readBox(xfrm, transform),
+    geometry,
+    fill: fill === "transparent" ? undefined : fill,
+    line: readLine(spPr, style, ctx.master),
+    text,
+  };
+}
+
+async function convertPicture(el: Element, transform: Transform, ctx: ConvertContext): Promise<PptxPicture | undefined> {
+  const xfrm = [el, ...inheritedShapes(el, ctx)].map(shapeXfrm).find((x) => x != null);
+  if (!xfrm) return undefined;
+  const blipFill = child(el, NS.p, "blipFill");
+  const blip = child(blipFill, NS.a, "blip");
+  const srcRect = child(blipFill, NS.a, "srcRect");
+  const crop = ["l", "t", "r", "b"].map((side) => num(srcRect, side) / 100000) as PptxPicture["crop"];
+  return {
+    type: "picture",
+    box: readBox(xfrm, transform),
+    src: await loadImage(ctx, blip?.getAttributeNS(NS.r, "embed") ?? null),
+    crop,
+  };
+}
+
+/** Built-in table style approximation: accent header row and banded rows. */
+function tableStyleFill(tblPr: Element | undefined, row: number, ctx: ConvertContext): { fill?: string; color?: string } {
+  const accent = schemeColor("accent1", ctx.master);
+  if (!tblPr || !accent) return {};
+  if (row === 0 && flag(tblPr, "firstRow")) return { fill: accent, color: "#ffffff" };
+  const bodyRow = flag(tblPr, "firstRow") ? row - 1 : row;
+  if (flag(tblPr, "bandRow")) return { fill: tintColor(accent, bodyRow % 2 === 0 ? 0.4 : 0.2) };
+  return {};
+}
+
+async function convertTable(el: Element, tbl: Element, transform: Transform, ctx: ConvertContext): Promise<PptxTable | undefined> {
+  const xfrm = shapeXfrm(el);
+  if (!xfrm) return undefined;
+  const box = readBox(xfrm, transform);
+  const ext = child(xfrm, NS.a, "ext");
+  const scaleX = num(ext, "cx") > 0 ? box.width / (num(ext, "cx") / EMU_PER_PX) : 1;
+  const tblPr = child(tbl, NS.a, "tblPr");
+  const columns = children(child(tbl, NS.a, "tblGrid"), NS.a, "gridCol").map((col) => (num(col, "w") / EMU_PER_PX) * scaleX);
+  const rows = await Promise.all(
+    children(tbl, NS.a, "tr").map(async (tr, rowIndex) => {
+      const styled = tableStyleFill(tblPr, rowIndex, ctx);
+      const cells = await Promise.all(
+        children(tr, NS.a, "tc").map(async (tc): Promise<PptxTableCell> => {
+          const tcPr = child(tc, NS.a, "tcPr");
+          const txBody = child(tc, NS.a, "txBody");
+          const bodyPr = txBody ? [child(txBody, NS.a, "bodyPr")] : [];
+          const text = txBody
+            ? readTextBody(txBody, [ctx.defaultTextStyle, ctx.master.textStyles.other], bodyPr, styled.color ? { color: styled.color } : {}, ctx)
+            : undefined;
+          const cellFill = await readFill(tcPr, ctx);
+          return {
+            text: text ?? {
+              paragraphs: [],
+              anchor: "top",
+              padding: [3.6, 7.2, 3.6, 7.2],
+              wrap: true,
+              fontScale: 1,
+              lineSpacingReduction: 0,
+            },
+            fill: cellFill === "transparent" ? undefined : cellFill ?? styled.fill,
+            colSpan: num(tc, "gridSpan", 1),
+            rowSpan: num(tc, "rowSpan", 1),
+            merged: flag(tc, "hMerge") === true || flag(tc, "vMerge") === true,
+          };
+        })
+      );
+      return { height: num(tr, "h") / EMU_PER_PX, cells };
+    })
+  );
+  return { type: "table", box, columns, rows };
+}
+
+async function convertChart(el: Element, relId: string, transform: Transform, ctx: ConvertContext): Promise<PptxChart | undefined> {
+  const xfrm = shapeXfrm(el);
+  const rel = ctx.part.rels.get(relId);
+  if (!xfrm || !rel || rel.external) return undefined;
+  const box = readBox(xfrm, transform);
+  const part = await loadPart(ctx.zip, rel.target);
+  if (!part) return { type: "chart", box };
+  const palette = ["accent1", "accent2", "accent3", "accent4", "accent5", "accent6"]
+    .map((name) => schemeColor(name, ctx.master))
+    .filter((color): color is string => color != null);
+  const chart = parseChart(
+    part.doc,
+    (spPr) => resolveColor(child(spPr, NS.a, "solidFill"), ctx.master),
+    palette
+  );
+  if (!chart) return { type: "chart", box };
+  const svg = chartToSvg(chart, Math.round(box.width), Math.round(box.height));
+  return { type: "chart", box, src: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}` };
+}
+
+async function convertTree(
+  tree: Element,
+  transform: Transform,
+  ctx: ConvertContext,
+  skipPlaceholders: boolean
+): Promise<PptxElement[]> {
+  const out: PptxElement[] = [];
+  for (const el of Array.from(tree.children)) {
+    if (skipPlaceholders && readPlaceholder(el)) continue;
+    if (el.namespaceURI === NS.mc && el.localName === "AlternateContent") {
+      // The fallback (usually a picture) is what older readers render.
+      const fallback = child(el, NS.mc, "Fallback") ?? child(el, NS.mc, "Choice");
+      if (fallback) out.push(...(await convertTree(fallback, transform, ctx, skipPlaceholders)));
+      continue;
+    }
+    if (el.namespaceURI !== NS.p) continue;
+    switch (el.localName) {
+      case "sp":
+      case "cxnSp": {
+        const shape = await convertShape(el, transform, ctx);
+        if (shape) out.push(shape);
+        break;
+      }
+      case "pic": {
+        const picture = await convertPicture(el, transform, ctx);
+        if (picture) out.push(picture);
+        break;
+      }
+      case "graphicFrame": {
+        const data = child(child(el, NS.a, "graphic"), NS.a, "graphicData");
+        const tbl = child(data, NS.a, "tbl");
+        const chartRef = Array.from(data?.children ?? []).find((c) => c.localName === "chart");
+        const chartId = chartRef?.getAttributeNS(NS.r, "id");
+        const converted = tbl
+          ? await convertTable(el, tbl, transform, ctx)
+          : chartId
+            ? await convertChart(el, chartId, transform, ctx)
+            : undefined;
+        if (converted) out.push(converted);
+        break;
+      }
+      case "grpSp": {
+        const xfrm = shapeXfrm(el);
+        if (!xfrm) break;
+        const off = child(xfrm, NS.a, "off");
+        const ext = child(xfrm, NS.a, "ext");
+        const chOff = child(xfrm, NS.a, "chOff");
+        const chExt = child(xfrm, NS.a, "chExt");
+        const [gx, gy, gw, gh] = transform(num(off, "x"), num(off, "y"), num(ext, "cx"), num(ext, "cy"));
+        const sx = num(chExt, "cx") > 0 ? gw / num(chExt, "cx") : 1;
+        const sy = num(chExt, "cy") > 0 ? gh / num(chExt, "cy") : 1;
+        const inner: Transform = (x, y, w, h) => [
+          gx + (x - num(chOff, "x")) * sx,
+          gy + (y - num(chOff, "y")) * sy,
+          w * sx,
+          h * sy,
+        ];
+        out.push(...(await convertTree(el, inner, ctx, skipPlaceholders)));
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+function spTree(part: Part): Element | undefined {
+  return child(child(part.doc.documentElement, NS.p, "cSld"), NS.p, "spTree");
+}
+
+function placeholdersOf(part: Part): Element[] {
+  return Array.from(spTree(part)?.children ?? []).filter((el) => readPlaceholder(el));
+}
+
+/** Background of a slide, layout or master; undefined to inherit. */
+async function readBackground(part: Part, ctx: ConvertContext): Promise<string | undefined> {
+  const bg = child(child(part.doc.documentElement, NS.p, "cSld"), NS.p, "bg");
+  if (!bg) return undefined;
+  const bgPr = child(bg, NS.p, "bgPr");
+  if (bgPr) return readFill(bgPr, { ...ctx, part });
+  return resolveColor(child(bg, NS.p, "bgRef"), ctx.master);
+}
+
+function notesText(notes: Part | undefined): string {
+  if (!notes) return "";
+  const body = Array.from(spTree(notes)?.children ?? []).find((el) => readPlaceholder(el)?.type === "body");
+  const txBody = child(body, NS.p, "txBody");
+  return children(txBody, NS.a, "p")
+    .map((p) => Array.from(p.getElementsByTagNameNS(NS.a, "t")).map((t) => t.textContent ?? "").join(""))
+    .join("\n")
+    .trim();
+}
+
+/** Plain text of a slide's shapes and tables, in drawing order. */
+export function getSlideText(slide: PptxSlide): string {
+  const bodyText = (body?: PptxTextBody) =>
+    body?.paragraphs.map((p) => p.runs.map((r) => r.text).join("")).join("\n") ?? "";
+  return slide.elements
+    .map((el) => {
+      if (el.type === "shape") return bodyText(el.text);
+      if (el.type === "table") {
+        return el.rows.map((row) => row.cells.filter((c) => !c.merged).map((c) => bodyText(c.text)).join("\t")).join("\n");
+      }
+      return "";
+    })
+    .filter((text) => text.trim() !== "")
+    .join("\n");
+}
+
+/**
+ * Parses a PPTX presentation into positioned slide elements: shapes with
+ * text (inheriting layout/master placeholders and text styles), pictures,
+ * tables and charts (drawn as SVG), resolved against the theme colors.
+ */
+export async function openPptx(buffer: ArrayBuffer): Promise<PptxPresentation> {
+  const zip = await JSZip.loadAsync(buffer);
+  const presentation = await loadPart(zip, "ppt/presentation.xml");
+  if (!presentation) throw new Error("Invalid PPTX: ppt/presentation.xml is missing");
+  const root = presentation.doc.documentElement;
+  const size = child(root, NS.p, "sldSz");
+  const width = num(size, "cx", 9144000) / EMU_PER_PX;
+  const height = num(size, "cy", 6858000) / EMU_PER_PX;
+  const defaultTextStyle = child(root, NS.p, "defaultTextStyle");
+
+  const masters = new Map<string, Promise<Master | undefined>>();
+  const layouts = new Map<string, Promise<Layout | undefined>>();
+  const images = new Map<string, Promise<string | undefined>>();
+
+  const loadMaster = (path: string) => {
+    let pending = masters.get(path);
+    if (!pending) {
+      pending = (async () => {
+        const part = await loadPart(zip, path);
+        if (!part) return undefined;
+        const themeRel = relOfType(part, "/theme");
+        const theme = readTheme(themeRel ? await loadPart(zip, themeRel.target) : undefined);
+        const colorMap = new Map<string, string>();
+        const clrMap = child(part.doc.documentElement, NS.p, "clrMap");
+        for (const attr of Array.from(clrMap?.attributes ?? [])) colorMap.set(attr.localName, attr.value);
+        const txStyles = child(part.doc.documentElement, NS.p, "txStyles");
+        return {
+          part,
+          theme,
+          colorMap,
+          placeholders: placeholdersOf(part),
+          textStyles: {
+            title: child(txStyles, NS.p, "titleStyle"),
+            body: child(txStyles, NS.p, "bodyStyle"),
+            other: child(txStyles, NS.p, "otherStyle"),
+          },
+        };
+      })();
+      masters.set(path, pending);
+    }
+    return pending;
+  };
+
+  const loadLayout = (path: string) => {
+    let pending = layouts.get(path);
+    if (!pending) {
+      pending = (async () => {
+        const part = await loadPart(zip, path);
+        const masterRel = part && relOfType(part, "/slideMaster");
+        const master = masterRel && (await loadMaster(masterRel.target));
+        if (!part || !master) return undefined;
+        return { part, master, placeholders: placeholdersOf(part) };
+      })();
+      layouts.set(path, pending);
+    }
+    return pending;
+  };
+
+  const slideIds = children(child(root, NS.p, "sldIdLst"), NS.p, "sldId");
+  const slides: PptxSlide[] = [];
+  for (const [index, sldId] of slideIds.entries()) {
+    const rel = presentation.rels.get(sldId.getAttributeNS(NS.r, "id") ?? "");
+    const part = rel && (await loadPart(zip, rel.target));
+    if (!part) continue;
+    const layoutRel = relOfType(part, "/slideLayout");
+    const layout = layoutRel ? await loadLayout(layoutRel.target) : undefined;
+    const master = layout?.master ?? (await loadMaster(Array.from(masters.keys())[0] ?? "ppt/slideMasters/slideMaster1.xml"));
+    if (!master) throw new Error("Invalid PPTX: slide master is missing");
+
+    const ctx: ConvertContext = { zip, part, master, layout, defaultTextStyle, slideNumber: index + 1, images };
+    const slideRoot = part.doc.documentElement;
+    const elements: PptxElement[] = [];
+    const showMasterShapes = (el: Element) => el.getAttribute("showMasterSp") !== "0";
+    if (layout && showMasterShapes(slideRoot)) {
+      const masterTree = spTree(master.part);
+      if (masterTree && showMasterShapes(layout.part.doc.documentElement)) {
+        elements.push(...(await convertTree(masterTree, IDENTITY, { ...ctx, part: master.part, layout: undefined }, true)));
+      }
+      const layoutTree = spTree(layout.part);
+      if (layoutTree) elements.push(...(await convertTree(layoutTree, IDENTITY, { ...ctx, part: layout.part }, true)));
+    }
+    const tree = spTree(part);
+    if (tree) elements.push(...(await convertTree(tree, IDENTITY, ctx, false)));
+
+    const background =
+      (await readBackground(part, ctx)) ??
+      (layout ? await readBackground(layout.part, ctx) : undefined) ??
+      (await readBackground(master.part, ctx)) ??
+      "#ffffff";
+    const notesRel = relOfType(part, "/notesSlide");
+    slides.push({
+      background,
+      elements,
+      notes: notesText(notesRel ? await loadPart(zip, notesRel.target) : undefined),
+      hidden: slideRoot.getAttribute("show") === "0",
+    });
+  }
+  return { width, height, slides };
+}
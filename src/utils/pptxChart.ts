@@ -0,0 +1,280 @@
+const C_NS = "http://schemas.openxmlformats.org/drawingml/2006/chart";
+const A_NS = "http://schemas.openxmlformats.org/drawingml/2006/main";
+
+export type ChartKind = "column" | "bar" | "line" | "area" | "pie" | "doughnut";
+
+export interface ChartSeries {
+  name: string;
+  values: number[];
+  color: string;
+  /** Per-point colors (pie and doughnut slices). */
+  pointColors: string[];
+}
+
+export interface ChartData {
+  kind: ChartKind;
+  title?: string;
+  stacked: boolean;
+  categories: string[];
+  series: ChartSeries[];
+}
+
+const CHART_TYPES: Record<string, ChartKind> = {
+  barChart: "column",
+  bar3DChart: "column",
+  lineChart: "line",
+  line3DChart: "line",
+  areaChart: "area",
+  area3DChart: "area",
+  pieChart: "pie",
+  pie3DChart: "pie",
+  doughnutChart: "doughnut",
+};
+
+function childC(el: Element | undefined, name: string): Element | undefined {
+  return el ? Array.from(el.children).find((c) => c.namespaceURI === C_NS && c.localName === name) : undefined;
+}
+
+function valAttr(el: Element | undefined, name: string): string | undefined {
+  return childC(el, name)?.getAttribute("val") ?? undefined;
+}
+
+/** Reads the cached points of a c:cat / c:val / c:tx reference. */
+function readCache(el: Element | undefined): string[] {
+  if (!el) return [];
+  const out: string[] = [];
+  for (const pt of Array.from(el.getElementsByTagNameNS(C_NS, "pt"))) {
+    out[Number(pt.getAttribute("idx") ?? out.length)] = childC(pt, "v")?.textContent ?? "";
+  }
+  return Array.from(out, (v) => v ?? "");
+}
+
+function readText(el: Element | undefined): string {
+  if (!el) return "";
+  return Array.from(el.getElementsByTagNameNS(A_NS, "t"))
+    .map((t) => t.textContent ?? "")
+    .join("");
+}
+
+/**
+ * Reads the first plot of a chart part (bar, line, area, pie or doughnut)
+ * from its cached values. `resolveFill` turns an spPr into a color;
+ * `palette` supplies theme accents for series without an explicit fill.
+ */
+export function parseChart(
+  doc: Document,
+  resolveFill: (spPr: Element | undefined) => string | undefined,
+  palette: string[]
+): ChartData | undefined {
+  const chart = doc.getElementsByTagNameNS(C_NS, "chart")[0];
+  const plotArea = childC(chart, "plotArea");
+  const plot = plotArea && Array.from(plotArea.children).find((c) => c.localName in CHART_TYPES);
+  if (!plot) return undefined;
+  let kind = CHART_TYPES[plot.localName];
+  if (kind === "column" && valAttr(plot, "barDir") === "bar") kind = "bar";
+  const grouping = valAttr(plot, "grouping");
+  const colorAt = (i: number) => palette[i % palette.length] ?? "#4472c4";
+
+  let categories: string[] = [];
+  const series = Array.from(plot.children)
+    .filter((c) => c.namespaceURI === C_NS && c.localName === "ser")
+    .map((ser, index) => {
+      const cats = readCache(childC(ser, "cat"));
+      if (cats.length > categories.length) categories = cats;
+      const values = readCache(childC(ser, "val")).map((v) => Number(v) || 0);
+      const pointColors = values.map((_, i) => {
+        const dPt = Array.from(ser.children).find(
+          (c) => c.localName === "dPt" && valAttr(c, "idx") === String(i)
+        );
+        return resolveFill(childC(dPt, "spPr")) ?? colorAt(i);
+      });
+      return {
+        name: readCache(childC(ser, "tx"))[0] ?? `Series ${index + 1}`,
+        values,
+        color: resolveFill(childC(ser, "spPr")) ?? colorAt(index),
+        pointColors,
+      };
+    });
+  if (categories.length === 0) {
+    const count = Math.max(0, ...series.map((s) => s.values.length));
+    categories = Array.from({ length: count }, (_, i) => String(i + 1));
+  }
+
+  const titleEl = childC(chart, "title");
+  const title = valAttr(chart, "autoTitleDeleted") === "1" ? "" : readText(titleEl);
+  return {
+    kind,
+    title: title || undefined,
+    stacked: grouping === "stacked" || grouping === "percentStacked",
+    categories,
+    series,
+  };
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"]/g, (ch) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;" })[ch] ?? ch);
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function formatValue(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1e6) return `${Number((value / 1e6).toFixed(1))}M`;
+  if (abs >= 1e3) return `${Number((value / 1e3).toFixed(1))}k`;
+  return String(Number(value.toFixed(2)));
+}
+
+/** Round axis maximum: 1, 2, 2.5 or 5 times a power of ten. */
+function niceMax(value: number): number {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 2.5, 5, 10].find((s) => s * magnitude >= value) ?? 10;
+  return step * magnitude;
+}
+
+const FONT = 'font-family="Calibri, Arial, sans-serif" fill="#595959"';
+
+/** Draws a chart as a standalone SVG document of the given size. */
+export function chartToSvg(chart: ChartData, width: number, height: number): string {
+  const parts: string[] = [];
+  let top = 10;
+  if (chart.title) {
+    parts.push(
+      `<text x="${width / 2}" y="26" text-anchor="middle" font-size="18" ${FONT}>${escapeXml(chart.title)}</text>`
+    );
+    top = 40;
+  }
+  const round = chart.kind === "pie" || chart.kind === "doughnut";
+  const legend = round
+    ? chart.categories.map((name, i) => ({ name, color: chart.series[0]?.pointColors[i] ?? "#999" }))
+    : chart.series.length > 1
+      ? chart.series.map((s) => ({ name: s.name, color: s.color }))
+      : [];
+  const legendHeight = legend.length ? 28 : 0;
+  if (legend.length) {
+    const itemWidth = Math.min(140, width / legend.length);
+    const startX = (width - itemWidth * legend.length) / 2;
+    legend.forEach((item, i) => {
+      const x = startX + i * itemWidth;
+      const y = height - 14;
+      parts.push(`<rect x="${x}" y="${y - 9}" width="10" height="10" fill="${item.color}"/>`);
+      parts.push(
+        `<text x="${x + 14}" y="${y}" font-size="12" ${FONT}>${escapeXml(truncate(item.name, 16))}</text>`
+      );
+    });
+  }
+
+  const bottom = height - legendHeight - 8;
+  if (round) {
+    const values = chart.series[0]?.values ?? [];
+    const total = values.reduce((sum, v) => sum + Math.max(0, v), 0);
+    const cx = width / 2;
+    const cy = (top + bottom) / 2;
+    const r = Math.max(0, Math.min(width - 20, bottom - top) / 2);
+    const inner = chart.kind === "doughnut" ? r * 0.5 : 0;
+    let angle = -Math.PI / 2;
+    values.forEach((value, i) => {
+      if (total <= 0 || value <= 0) return;
+      const sweep = (value / total) * Math.PI * 2;
+      const color = chart.series[0].pointColors[i];
+      if (sweep >= Math.PI * 2 - 1e-6) {
+        parts.push(`<circle cx="${cx}" cy="${cy}" r="${r}" fill="${color}"/>`);
+      } else {
+        const end = angle + sweep;
+        const large = sweep > Math.PI ? 1 : 0;
+        const p = (a: number, radius: number) => `${cx + radius * Math.cos(a)} ${cy + radius * Math.sin(a)}`;
+        parts.push(
+          `<path d="M ${p(angle, r)} A ${r} ${r} 0 ${large} 1 ${p(end, r)} L ${cx} ${cy} Z" fill="${color}" stroke="#fff" stroke-width="1"/>`
+        );
+      }
+      angle += sweep;
+    });
+    if (inner > 0) parts.push(`<circle cx="${cx}" cy="${cy}" r="${inner}" fill="#fff"/>`);
+    return wrapSvg(parts, width, height);
+  }
+
+  const categories = chart.categories;
+  const stackedSums = categories.map((_, i) => chart.series.reduce((sum, s) => sum + Math.max(0, s.values[i] ?? 0), 0));
+  const allValues = chart.series.flatMap((s) => s.values);
+  const max = niceMax(chart.stacked ? Math.max(0, ...stackedSums) : Math.max(0, ...allValues));
+  const min = Math.min(0, ...allValues);
+  const horizontal = chart.kind === "bar";
+  const left = horizontal ? Math.min(120, width * 0.25) : 44;
+  const right = width - 12;
+  const plotBottom = bottom - 20;
+  const plotWidth = Math.max(1, right - left);
+  const plotHeight = Math.max(1, plotBottom - top);
+  const span = max - min || 1;
+  const band = (horizontal ? plotHeight : plotWidth) / Math.max(1, categories.length);
+  // Value axis position (pixels along the value direction) for a value.
+  const valuePos = (v: number) =>
+    horizontal ? left + ((v - min) / span) * plotWidth : plotBottom - ((v - min) / span) * plotHeight;
+
+  for (let t = 0; t <= 4; t += 1) {
+    const v = min + (span * t) / 4;
+    const pos = valuePos(v);
+    if (horizontal) {
+      parts.push(`<line x1="${pos}" y1="${top}" x2="${pos}" y2="${plotBottom}" stroke="#d9d9d9"/>`);
+      parts.push(
+        `<text x="${pos}" y="${plotBottom + 14}" text-anchor="middle" font-size="11" ${FONT}>${formatValue(v)}</text>`
+      );
+    } else {
+      parts.push(`<line x1="${left}" y1="${pos}" x2="${right}" y2="${pos}" stroke="#d9d9d9"/>`);
+      parts.push(
+        `<text x="${left - 6}" y="${pos + 4}" text-anchor="end" font-size="11" ${FONT}>${formatValue(v)}</text>`
+      );
+    }
+  }
+  categories.forEach((name, i) => {
+    const center = (horizontal ? top : left) + band * (i + 0.5);
+    const label = escapeXml(truncate(name, horizontal ? 18 : Math.max(3, Math.floor(band / 7))));
+    parts.push(
+      horizontal
+        ? `<text x="${left - 6}" y="${center + 4}" text-anchor="end" font-size="11" ${FONT}>${label}</text>`
+        : `<text x="${center}" y="${plotBottom + 14}" text-anchor="middle" font-size="11" ${FONT}>${label}</text>`
+    );
+  });
+
+  if (chart.kind === "column" || chart.kind === "bar") {
+    const groupSize = chart.stacked ? 1 : Math.max(1, chart.series.length);
+    const barSize = (band * 0.7) / groupSize;
+    const offsets = categories.map(() => 0);
+    chart.series.forEach((s, si) => {
+      s.values.forEach((value, i) => {
+        const start = chart.stacked ? offsets[i] : 0;
+        const end = start + value;
+        if (chart.stacked) offsets[i] = end;
+        const a = valuePos(start);
+        const b = valuePos(end);
+        const across = (horizontal ? top : left) + band * i + band * 0.15 + (chart.stacked ? 0 : si * barSize);
+        const rect = horizontal
+          ? { x: Math.min(a, b), y: across, w: Math.abs(b - a), h: barSize }
+          : { x: across, y: Math.min(a, b), w: barSize, h: Math.abs(b - a) };
+        parts.push(`<rect x="${rect.x}" y="${rect.y}" width="${rect.w}" height="${rect.h}" fill="${s.color}"/>`);
+      });
+    });
+  } else {
+    const baseline = valuePos(Math.max(min, 0));
+    chart.series.forEach((s) => {
+      const points = s.values.map((v, i) => `${left + band * (i + 0.5)},${valuePos(v)}`);
+      if (points.length === 0) return;
+      if (chart.kind === "area") {
+        const first = left + band * 0.5;
+        const last = left + band * (s.values.length - 0.5);
+        parts.push(
+          `<polygon points="${first},${baseline} ${points.join(" ")} ${last},${baseline}" fill="${s.color}" fill-opacity="0.6"/>`
+        );
+      } else {
+        parts.push(`<polyline points="${points.join(" ")}" fill="none" stroke="${s.color}" stroke-width="2.5"/>`);
+      }
+    });
+  }
+  parts.push(`<line x1="${left}" y1="${plotBottom}" x2="${right}" y2="${plotBottom}" stroke="#bfbfbf"/>`);
+  return wrapSvg(parts, width, height);
+}
+
+function wrapSvg(parts: string[], width: number, height: number): string {
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">${parts.join("")}</svg>`;
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { parseContentDisposition, probeUrl } from "./probeUrl";
+
+describe("parseContentDisposition", () => {
+  it("reads quoted, token and RFC 5987 file names", () => {
+    expect(parseContentDisposition('attachment; filename="Q3 report.pdf"')).toBe("Q3 report.pdf");
+    expect(parseContentDisposition("inline; filename=contract.docx")).toBe("contract.docx");
+    expect(parseContentDisposition('attachment; filename="a \\"b\\".txt"')).toBe('a "b".txt');
+    expect(
+      parseContentDisposition("attachment; filename=\"rates.pdf\"; filename*=UTF-8''%E2%82%AC%20rates.pdf")
+    ).toBe("€ rates.pdf");
+    expect(parseContentDisposition("attachment; filename*=iso-8859-1'de'Gr%FC%DFe.txt")).toBe("Grüße.txt");
+  });
+
+  it("strips directories and ignores headers without a file name", () => {
+    expect(parseContentDisposition('attachment; filename="../../etc/passwd"')).toBe("passwd");
+    expect(parseContentDisposition("inline")).toBeUndefined();
+    expect(parseContentDisposition(null)).toBeUndefined();
+  });
+});
+
+describe("probeUrl", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("reads Content-Type and Content-Disposition from a HEAD response", async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(null, {
+          headers: {
+            "Content-Type": "Application/PDF; charset=binary",
+            "Content-Disposition": 'inline; filename="invoice-42.pdf"',
+          },
+        })
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    await expect(probeUrl("/api/documents/42/content")).resolves.toEqual({
+      mimeType: "application/pdf",
+      fileName: "invoice-42.pdf",
+    });
+    expect(fetchMock).toHaveBeenCalledWith("/api/documents/42/content", expect.objectContaining({ method: "HEAD" }));
+  });
+
+  it("falls back to a ranged GET when HEAD is rejected", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 405 }))
+      .mockResolvedValueOnce(
+        new Response("x", { status: 206, headers: { "Content-Type": "text/csv" } })
+      );
+    vi.stubGlobal("fetch", fetchMock);
+    await expect(probeUrl("/api/documents/7/content")).resolves.toEqual({ mimeType: "text/csv", fileName: undefined });
+    expect(fetchMock).toHaveBeenLastCalledWith(
+      "/api/documents/7/content",
+      expect.objectContaining({ headers: { Range: "bytes=0-0" } })
+    );
+  });
+});
@@ -0,0 +1,84 @@
+import type { RequestConfig } from "../types";
+import { requestFetch } from "./request";
+
+export interface UrlProbeResult {
+  /** Content-Type without parameters, lower-cased. */
+  mimeType?: string;
+  /** File name from Content-Disposition. */
+  fileName?: string;
+}
+
+/** Whether a source is a URL a server can be asked about (not a blob: or data: URL). */
+export function canProbeUrl(src: unknown): src is string {
+  return typeof src === "string" && src !== "" && !/^(blob|data):/i.test(src);
+}
+
+function basename(name: string): string {
+  return name.split(/[\\/]/).pop()?.trim() ?? "";
+}
+
+function percentDecodeBytes(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === "%" && /^[0-9a-f]{2}$/i.test(value.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(value.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(value.charCodeAt(i) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Extracts the file name from a Content-Disposition header (RFC 6266),
+ * preferring the RFC 5987 `filename*` form over `filename`.
+ */
+export function parseContentDisposition(header: string | null | undefined): string | undefined {
+  if (!header) return undefined;
+  const extended = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i.exec(header);
+  if (extended) {
+    try {
+      const charset = extended[1].trim().toLowerCase() || "utf-8";
+      const value = extended[2].trim().replace(/^"|"$/g, "");
+      const decoded =
+        charset === "utf-8"
+          ? decodeURIComponent(value)
+          : new TextDecoder(charset).decode(percentDecodeBytes(value));
+      const name = basename(decoded);
+      if (name) return name;
+    } catch {
+      // Malformed encoding; fall back to the plain filename parameter.
+    }
+  }
+  const quoted = /filename\s*=\s*"((?:\\.|[^"\\])*)"/i.exec(header);
+  if (quoted) return basename(quoted[1].replace(/\\(.)/g, "$1")) || undefined;
+  const token = /filename\s*=\s*([^;\s]+)/i.exec(header);
+  return token ? basename(token[1]) || undefined : undefined;
+}
+
+function readHeaders(res: Response): UrlProbeResult {
+  const contentType = res.headers.get("Content-Type")?.split(";")[0].trim().toLowerCase();
+  return {
+    mimeType: contentType || undefined,
+    fileName: parseContentDisposition(res.headers.get("Content-Disposition")),
+  };
+}
+
+/**
+ * Asks the server what a URL serves: a HEAD request, falling back to a
+ * one-byte ranged GET for servers that reject HEAD. Cross-origin servers
+ * must list Content-Disposition in Access-Control-Expose-Headers.
+ */
+export async function probeUrl(url: string, signal?: AbortSignal, request?: RequestConfig): Promise<UrlProbeResult> {
+  try {
+    const head = await requestFetch(url, { method: "HEAD", signal }, request);
+    if (head.ok) return readHeaders(head);
+  } catch (e) {
+    if (signal?.aborted) throw e;
+  }
+  const res = await requestFetch(url, { headers: { Range: "bytes=0-0" }, signal }, request);
+  res.body?.cancel().catch(() => undefined);
+  if (!res.ok) throw new Error("Failed to fetch document");
+  return readHeaders(res);
+}
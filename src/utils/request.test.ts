@@ -0,0 +1,43 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { requestFetch, resolveRequestHeaders } from "./request";
+
+describe("resolveRequestHeaders", () => {
+  it("returns static headers or calls the header function", async () => {
+    await expect(resolveRequestHeaders()).resolves.toEqual({});
+    await expect(resolveRequestHeaders({ headers: { "X-Tenant": "acme" } })).resolves.toEqual({ "X-Tenant": "acme" });
+    await expect(resolveRequestHeaders({ headers: async () => ({ Authorization: "Bearer t2" }) })).resolves.toEqual({
+      Authorization: "Bearer t2",
+    });
+  });
+});
+
+describe("requestFetch", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("adds headers and credentials, keeping the request's own headers", async () => {
+    const fetchMock = vi.fn(async (_url: string, _init?: RequestInit) => new Response("ok"));
+    vi.stubGlobal("fetch", fetchMock);
+    await requestFetch(
+      "https://files.example.com/a.pdf",
+      { headers: { Range: "bytes=0-0" } },
+      { headers: () => ({ Authorization: "Bearer abc", Range: "bytes=0-99" }), withCredentials: true }
+    );
+    const init = fetchMock.mock.calls[0][1]!;
+    expect(init.headers).toEqual({ Authorization: "Bearer abc", Range: "bytes=0-0" });
+    expect(init.credentials).toBe("include");
+  });
+
+  it("uses the custom fetch for remote URLs only", async () => {
+    const globalFetch = vi.fn(async () => new Response("global"));
+    const customFetch = vi.fn(async () => new Response("custom"));
+    vi.stubGlobal("fetch", globalFetch);
+    const config = { fetch: customFetch as unknown as typeof fetch, headers: { Authorization: "Bearer abc" } };
+    await requestFetch("/api/documents/42/content", undefined, config);
+    expect(customFetch).toHaveBeenCalledTimes(1);
+    await requestFetch("blob:https://app.example.com/1234", undefined, config);
+    expect(customFetch).toHaveBeenCalledTimes(1);
+    expect(globalFetch).toHaveBeenCalledWith("blob:https://app.example.com/1234");
+  });
+});
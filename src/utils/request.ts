@@ -0,0 +1,44 @@
+import type { RequestConfig, RequestHeaders } from "../types";
+
+/** Whether a URL goes over the network (request configuration doesn't apply to blob: and data: URLs). */
+export function isRemoteUrl(url: string): boolean {
+  return !/^(blob|data):/i.test(url.trim());
+}
+
+/** Resolves the configured headers, calling the header function if one is given. */
+export async function resolveRequestHeaders(config?: RequestConfig): Promise<RequestHeaders> {
+  const headers = config?.headers;
+  if (!headers) return {};
+  return typeof headers === "function" ? await headers() : headers;
+}
+
+function headerEntries(headers: HeadersInit | undefined): [string, string][] {
+  if (!headers) return [];
+  if (headers instanceof Headers) {
+    const entries: [string, string][] = [];
+    headers.forEach((value, name) => entries.push([name, value]));
+    return entries;
+  }
+  return Array.isArray(headers) ? headers.map(([name, value]) => [name, value]) : Object.entries(headers);
+}
+
+/**
+ * fetch() with the viewer's request configuration: configured headers (the
+ * request's own headers, e.g. Range, take precedence), credentials and the
+ * custom fetch implementation. blob: and data: URLs use plain fetch.
+ */
+export async function requestFetch(url: string, init?: RequestInit, config?: RequestConfig): Promise<Response> {
+  if (!config || !isRemoteUrl(url)) return init ? fetch(url, init) : fetch(url);
+  const headers: RequestHeaders = {};
+  for (const [name, value] of [...Object.entries(await resolveRequestHeaders(config)), ...headerEntries(init?.headers)]) {
+    const existing = Object.keys(headers).find((key) => key.toLowerCase() === name.toLowerCase());
+    if (existing) delete headers[existing];
+    headers[name] = value;
+  }
+  const doFetch = config.fetch ?? fetch;
+  return doFetch(url, {
+    ...init,
+    headers,
+    ...(config.withCredentials ? { credentials: "include" as const } : {}),
+  });
+}
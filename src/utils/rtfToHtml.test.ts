@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { rtfToHtml, stripRtfPreamble } from "./rtfToHtml";
+
+const HEADER = "{\\rtf1\\ansi\\ansicpg1252\\deff0{\\fonttbl{\\f0 Calibri;}}{\\colortbl ;\\red255\\green0\\blue0;}";
+
+describe("rtfToHtml", () => {
+  it("renders paragraphs with character formatting", () => {
+    const html = rtfToHtml(`${HEADER}\\pard Plain \\b bold\\b0  and {\\i italic} text.\\par}`);
+    expect(html).toBe("<p>Plain <strong>bold</strong> and <em>italic</em> text.</p>");
+  });
+
+  it("skips metadata destinations", () => {
+    const html = rtfToHtml(`${HEADER}{\\*\\generator Riched20;}{\\info{\\title Secret}}Body\\par}`);
+    expect(html).toBe("<p>Body</p>");
+  });
+
+  it("applies colors, sizes and alignment", () => {
+    const html = rtfToHtml(`${HEADER}\\pard\\qc{\\cf1\\fs32 Title}\\par}`);
+    expect(html).toContain('style="text-align: center"');
+    expect(html).toContain("color: rgb(255, 0, 0)");
+    expect(html).toContain("font-size: 16pt");
+  });
+
+  it("decodes code-page and unicode escapes", () => {
+    const html = rtfToHtml(`${HEADER}Caf\\'e9 \\u8364? \\u-1?\\u8226?\\par}`);
+    expect(html).toBe("<p>Café € \uffff•</p>");
+  });
+
+  it("renders simple tables", () => {
+    const html = rtfToHtml(`${HEADER}\\trowd\\cellx1000\\cellx2000\\pard\\intbl A\\cell B\\cell\\row\\pard After\\par}`);
+    expect(html).toBe("<table><tbody><tr><td>A</td><td>B</td></tr></tbody></table><p>After</p>");
+  });
+
+  it("escapes HTML in text", () => {
+    expect(rtfToHtml(`${HEADER}<img src=x onerror=alert(1)>\\par}`)).toBe(
+      "<p>&lt;img src=x onerror=alert(1)&gt;</p>"
+    );
+  });
+});
+
+describe("stripRtfPreamble", () => {
+  it("drops a UTF-8 byte order mark and leading whitespace", () => {
+    const bom = new TextDecoder("latin1").decode(new Uint8Array([0xef, 0xbb, 0xbf]));
+    expect(stripRtfPreamble(`${bom}\r\n  {\\rtf1 Hi}`)).toBe("{\\rtf1 Hi}");
+    expect(stripRtfPreamble("\n{\\rtf1 Hi}")).toBe("{\\rtf1 Hi}");
+    expect(stripRtfPreamble("{\\rtf1 Hi}")).toBe("{\\rtf1 Hi}");
+  });
+});
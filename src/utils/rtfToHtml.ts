@@ -0,0 +1,416 @@
+import DOMPurify from "dompurify";
+
+interface CharState {
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+  superscript: boolean;
+  subscript: boolean;
+  /** Font size in half-points (\fsN). */
+  fontSize: number;
+  color: number;
+  /** Unicode skip count (\ucN): fallback bytes to drop after each \uN. */
+  uc: number;
+  /** Inside a destination whose text is not rendered (font table, info, …). */
+  skip: boolean;
+}
+
+interface ParaState {
+  align: "left" | "center" | "right" | "justify";
+  inTable: boolean;
+}
+
+/** Destinations whose content is metadata, not document text. */
+const SKIPPED_DESTINATIONS = new Set([
+  "fonttbl", "stylesheet", "info", "header", "headerl", "headerr", "headerf", "footer", "footerl",
+  "footerr", "footerf", "listtable", "listoverridetable", "revtbl", "rsidtbl", "generator",
+  "xmlnstbl", "themedata", "colorschememapping", "latentstyles", "datastore", "filetbl",
+  "pgdsctbl", "object", "fldinst", "nonshppict", "bkmkstart", "bkmkend",
+]);
+
+const DEFAULT_CHAR: CharState = {
+  bold: false,
+  italic: false,
+  underline: false,
+  strike: false,
+  superscript: false,
+  subscript: false,
+  fontSize: 24,
+  color: 0,
+  uc: 1,
+  skip: false,
+};
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function hexToBase64(hex: string): string {
+  let binary = "";
+  for (let i = 0; i + 1 < hex.length; i += 2) binary += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+  return btoa(binary);
+}
+
+/**
+ * Removes what some exporters write before the opening `{\rtf`: a UTF-8 byte
+ * order mark (seen as "ï»¿" in latin1-decoded text) and leading whitespace.
+ */
+export function stripRtfPreamble(rtf: string): string {
+  return rtf.replace(/^(\u00EF\u00BB\u00BF|\uFEFF)/, "").trimStart();
+}
+
+/**
+ * Converts RTF to sanitized HTML. Supports the common subset produced by
+ * WordPad, TextEdit and Word: character formatting, colors, font sizes,
+ * paragraph alignment, simple tables, Unicode/code-page escapes and
+ * PNG/JPEG pictures. Unknown control words are ignored.
+ *
+ * `rtf` must be the file decoded byte-for-byte (latin1), since \'hh escapes
+ * are decoded with the document's \ansicpg code page.
+ */
+export function rtfToHtml(rtf: string): string {
+  const colors: string[] = [""];
+  let codePage = "windows-1252";
+  let char: CharState = { ...DEFAULT_CHAR };
+  let para: ParaState = { align: "left", inTable: false };
+  const stack: CharState[] = [];
+
+  const blocks: string[] = [];
+  let runs = "";
+  let pendingBytes: number[] = [];
+  let unicodeSkip = 0;
+
+  // Table state: cells of the current row, rows of the current table.
+  let cell = "";
+  let row: string[] = [];
+  let tableRows: string[] = [];
+
+  // Destination-specific capture (color table, pictures).
+  let destination: string | null = null;
+  let destinationDepth = -1;
+  let colorParts = { red: 0, green: 0, blue: 0, set: false };
+  let pict = { type: "", hex: "", width: 0 };
+
+  const flushBytes = () => {
+    if (pendingBytes.length === 0) return;
+    let decoded: string;
+    try {
+      decoded = new TextDecoder(codePage).decode(new Uint8Array(pendingBytes));
+    } catch {
+      decoded = String.fromCharCode(...pendingBytes);
+    }
+    pendingBytes = [];
+    appendText(decoded, false);
+  };
+
+  const wrapRun = (html: string): string => {
+    const css: string[] = [];
+    if (char.fontSize !== DEFAULT_CHAR.fontSize) css.push(`font-size: ${char.fontSize / 2}pt`);
+    if (char.color > 0 && colors[char.color]) css.push(`color: ${colors[char.color]}`);
+    let out = html;
+    if (char.bold) out = `<strong>${out}</strong>`;
+    if (char.italic) out = `<em>${out}</em>`;
+    if (char.underline) out = `<u>${out}</u>`;
+    if (char.strike) out = `<s>${out}</s>`;
+    if (char.superscript) out = `<sup>${out}</sup>`;
+    if (char.subscript) out = `<sub>${out}</sub>`;
+    return css.length ? `<span style="${css.join("; ")}">${out}</span>` : out;
+  };
+
+  function appendText(text: string, flush = true) {
+    if (flush) flushBytes();
+    if (char.skip || text.length === 0) return;
+    if (destination === "pict") {
+      pict.hex += text.replace(/[^0-9a-fA-F]/g, "");
+      return;
+    }
+    if (destination === "colortbl") return;
+    runs += wrapRun(escapeHtml(text));
+  }
+
+  const endParagraph = () => {
+    flushBytes();
+    const content = runs || "<br>";
+    runs = "";
+    const style = para.align !== "left" ? ` style="text-align: ${para.align}"` : "";
+    if (para.inTable) {
+      cell += `<p${style}>${content}</p>`;
+    } else {
+      flushTable();
+      blocks.push(`<p${style}>${content}</p>`);
+    }
+  };
+
+  const endCell = () => {
+    flushBytes();
+    if (runs) cell += runs;
+    runs = "";
+    row.push(`<td>${cell}</td>`);
+    cell = "";
+  };
+
+  const endRow = () => {
+    if (row.length) tableRows.push(`<tr>${row.join("")}</tr>`);
+    row = [];
+  };
+
+  function flushTable() {
+    if (row.length) endRow();
+    if (tableRows.length) blocks.push(`<table>${tableRows.join("")}</table>`);
+    tableRows = [];
+  }
+
+  const endDestination = () => {
+    if (destination === "pict" && pict.hex && (pict.type === "png" || pict.type === "jpeg")) {
+      const mime = pict.type === "png" ? "image/png" : "image/jpeg";
+      const size = pict.width > 0 ? ` style="width: ${Math.round(pict.width / 15)}px; max-width: 100%"` : "";
+      runs += `<img src="data:${mime};base64,${hexToBase64(pict.hex)}"${size}>`;
+    }
+    destination = null;
+    destinationDepth = -1;
+  };
+
+  const handleControl = (word: string, param: number | null, hasParam: boolean) => {
+    if (destination === "colortbl") {
+      if (word === "red" || word === "green" || word === "blue") {
+        colorParts[word] = param ?? 0;
+        colorParts.set = true;
+      }
+      return;
+    }
+    if (destination === "pict") {
+      if (word === "pngblip") pict.type = "png";
+      else if (word === "jpegblip") pict.type = "jpeg";
+      else if (word === "picwgoal") pict.width = param ?? 0;
+      return;
+    }
+    const on = !hasParam || param !== 0;
+    switch (word) {
+      case "ansicpg":
+        if (param) codePage = param === 65001 ? "utf-8" : `windows-${param}`;
+        return;
+      case "colortbl":
+        destination = "colortbl";
+        destinationDepth = stack.length;
+        colorParts = { red: 0, green: 0, blue: 0, set: false };
+        colors.length = 0;
+        return;
+      case "pict":
+        destination = "pict";
+        destinationDepth = stack.length;
+        pict = { type: "", hex: "", width: 0 };
+        return;
+      case "par":
+      case "sect":
+        endParagraph();
+        return;
+      case "line":
+        flushBytes();
+        if (!char.skip && !destination) runs += "<br>";
+        return;
+      case "tab":
+        appendText("\t");
+        return;
+      case "emdash":
+        appendText("—");
+        return;
+      case "endash":
+        appendText("–");
+        return;
+      case "bullet":
+        appendText("•");
+        return;
+      case "lquote":
+        appendText("‘");
+        return;
+      case "rquote":
+        appendText("’");
+        return;
+      case "ldblquote":
+        appendText("“");
+        return;
+      case "rdblquote":
+        appendText("”");
+        return;
+      case "pard":
+        para = { align: "left", inTable: false };
+        return;
+      case "plain":
+        char = { ...DEFAULT_CHAR, uc: char.uc, skip: char.skip };
+        return;
+      case "ql":
+        para.align = "left";
+        return;
+      case "qc":
+        para.align = "center";
+        return;
+      case "qr":
+        para.align = "right";
+        return;
+      case "qj":
+        para.align = "justify";
+        return;
+      case "intbl":
+        para.inTable = true;
+        return;
+      case "cell":
+        endCell();
+        return;
+      case "row":
+        endRow();
+        return;
+      case "b":
+        char.bold = on;
+        return;
+      case "i":
+        char.italic = on;
+        return;
+      case "ul":
+        char.underline = on;
+        return;
+      case "ulnone":
+        char.underline = false;
+        return;
+      case "strike":
+        char.strike = on;
+        return;
+      case "super":
+        char.superscript = true;
+        return;
+      case "sub":
+        char.subscript = true;
+        return;
+      case "nosupersub":
+        char.superscript = false;
+        char.subscript = false;
+        return;
+      case "fs":
+        char.fontSize = param ?? DEFAULT_CHAR.fontSize;
+        return;
+      case "cf":
+        char.color = param ?? 0;
+        return;
+      case "uc":
+        char.uc = param ?? 1;
+        return;
+      case "u": {
+        const code = (param ?? 0) < 0 ? (param ?? 0) + 65536 : param ?? 0;
+        appendText(String.fromCharCode(code));
+        unicodeSkip = char.uc;
+        return;
+      }
+      default:
+        if (SKIPPED_DESTINATIONS.has(word)) char.skip = true;
+    }
+  };
+
+  let i = 0;
+  let ignorableNext = false;
+  while (i < rtf.length) {
+    const ch = rtf[i];
+    if (ch === "{") {
+      flushBytes();
+      stack.push({ ...char });
+      i += 1;
+      continue;
+    }
+    if (ch === "}") {
+      flushBytes();
+      if (destination && stack.length === destinationDepth) endDestination();
+      char = stack.pop() ?? { ...DEFAULT_CHAR };
+      i += 1;
+      continue;
+    }
+    if (ch === "\\") {
+      const next = rtf[i + 1];
+      if (next === "'") {
+        const byte = parseInt(rtf.slice(i + 2, i + 4), 16);
+        i += 4;
+        if (unicodeSkip > 0) {
+          unicodeSkip -= 1;
+          continue;
+        }
+        if (!Number.isNaN(byte) && !char.skip && !destination) pendingBytes.push(byte);
+        continue;
+      }
+      if (next === "*") {
+        ignorableNext = true;
+        i += 2;
+        continue;
+      }
+      if (next === "\\" || next === "{" || next === "}") {
+        appendText(next);
+        i += 2;
+        continue;
+      }
+      if (next === "~") {
+        appendText(" ");
+        i += 2;
+        continue;
+      }
+      if (next === "-" || next === "_") {
+        if (next === "_") appendText("‑");
+        i += 2;
+        continue;
+      }
+      if (next === "\n" || next === "\r") {
+        endParagraph();
+        i += 2;
+        continue;
+      }
+      const match = /^([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i + 1, i + 40));
+      if (!match) {
+        i += 2;
+        continue;
+      }
+      i += 1 + match[0].length;
+      const word = match[1];
+      const hasParam = match[2] !== undefined;
+      const param = hasParam ? Number(match[2]) : null;
+      if (ignorableNext) {
+        ignorableNext = false;
+        if (word !== "pict" && word !== "shppict") {
+          char.skip = true;
+          continue;
+        }
+      }
+      if (word === "bin" && param) {
+        // Raw binary data follows; skip it.
+        i += param;
+        continue;
+      }
+      if (unicodeSkip > 0 && word !== "u") unicodeSkip = 0;
+      handleControl(word, param, hasParam);
+      continue;
+    }
+    if (ch === "\r" || ch === "\n") {
+      i += 1;
+      continue;
+    }
+    if (destination === "colortbl" && ch === ";") {
+      // An entry without components is the "auto" color.
+      const { red, green, blue, set } = colorParts;
+      colors.push(set ? `rgb(${red}, ${green}, ${blue})` : "");
+      colorParts = { red: 0, green: 0, blue: 0, set: false };
+      i += 1;
+      continue;
+    }
+    // Plain text run up to the next special character.
+    let end = i;
+    while (end < rtf.length && !"{}\\\r\n".includes(rtf[end]) && !(destination === "colortbl" && rtf[end] === ";")) end += 1;
+    let text = rtf.slice(i, end);
+    if (unicodeSkip > 0) {
+      const dropped = Math.min(unicodeSkip, text.length);
+      text = text.slice(dropped);
+      unicodeSkip -= dropped;
+    }
+    appendText(text);
+    i = end;
+  }
+
+  flushBytes();
+  if (runs) endParagraph();
+  flushTable();
+  return DOMPurify.sanitize(blocks.join(""));
+}
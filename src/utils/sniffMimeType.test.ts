@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import { sniffMimeType } from "./sniffMimeType";
+import type { ByteSource } from "./sniffMimeType";
+
+function bytesSource(bytes: Uint8Array): ByteSource {
+  return {
+    read: async (offset, length) => bytes.slice(offset, offset + length),
+    readTail: async (length) => bytes.slice(Math.max(0, bytes.length - length)),
+  };
+}
+
+function sniff(content: string | number[] | Uint8Array): Promise<string | undefined> {
+  const bytes =
+    typeof content === "string" ? new TextEncoder().encode(content) : content instanceof Uint8Array ? content : new Uint8Array(content);
+  return sniffMimeType(bytesSource(bytes));
+}
+
+async function zipOf(files: [string, string | Uint8Array][]): Promise<Uint8Array> {
+  const zip = new JSZip();
+  for (const [path, content] of files) zip.file(path, content);
+  return zip.generateAsync({ type: "uint8array" });
+}
+
+describe("sniffMimeType", () => {
+  it("recognizes binary signatures", async () => {
+    expect(await sniff("%PDF-1.7\n%âãÏÓ")).toBe("application/pdf");
+    expect(await sniff([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0])).toBe("image/png");
+    expect(await sniff([0xff, 0xd8, 0xff, 0xe0, 0, 0x10])).toBe("image/jpeg");
+    expect(await sniff([0x49, 0x49, 0x2a, 0x00, 8, 0, 0, 0])).toBe("image/tiff");
+    expect(await sniff([0, 0, 0, 0x18, ...new TextEncoder().encode("ftypisom")])).toBe("video/mp4");
+    expect(await sniff("ID3\u0004\u0000")).toBe("audio/mpeg");
+  });
+
+  it("tells OOXML packages apart by entry names", async () => {
+    const docx = await zipOf([["[Content_Types].xml", "<Types/>"], ["word/document.xml", "<w:document/>"]]);
+    const xlsx = await zipOf([["[Content_Types].xml", "<Types/>"], ["xl/workbook.xml", "<workbook/>"]]);
+    const pptx = await zipOf([["[Content_Types].xml", "<Types/>"], ["ppt/presentation.xml", "<p/>"]]);
+    expect(await sniff(docx)).toBe("application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+    expect(await sniff(xlsx)).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    expect(await sniff(pptx)).toBe("application/vnd.openxmlformats-officedocument.presentationml.presentation");
+  });
+
+  it("prefers the main part declared in [Content_Types].xml", async () => {
+    const types = (main: string) =>
+      `<Types><Default Extension="xml" ContentType="application/xml"/><Override PartName="/main.xml" ContentType="${main}"/></Types>`;
+    const pptx = types("application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml");
+    // A presentation with an embedded part under word/ would be taken for DOCX by entry names alone.
+    const bytes = await zipOf([["[Content_Types].xml", pptx], ["word/embedded.xml", "<x/>"], ["ppt/presentation.xml", "<p/>"]]);
+    expect(await sniff(bytes)).toBe("application/vnd.openxmlformats-officedocument.presentationml.presentation");
+
+    const zip = new JSZip();
+    zip.file("[Content_Types].xml", types("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"));
+    zip.file("word/embedded.xml", "<x/>");
+    const deflated = await zip.generateAsync({ type: "uint8array", compression: "DEFLATE" });
+    expect(await sniff(deflated)).toBe("application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+
+    const filler = new Uint8Array(10000).fill(65);
+    const late = await zipOf([
+      ["docProps/thumbnail.jpeg", filler],
+      ["[Content_Types].xml", types("application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml")],
+      ["xl/embeddings/sheet.xml", "<x/>"],
+    ]);
+    expect(await sniff(late)).toBe("application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+  });
+
+  it("falls back to the central directory when entries are beyond the head", async () => {
+    const filler = new Uint8Array(10000).fill(65);
+    const bytes = await zipOf([["docProps/thumbnail.jpeg", filler], ["word/document.xml", "<w:document/>"]]);
+    expect(await sniff(bytes)).toBe("application/vnd.openxmlformats-officedocument.wordprocessingml.document");
+    expect(await sniff(await zipOf([["photos/a.jpg", filler]]))).toBe("application/zip");
+  });
+
+  it("reads the stored mimetype of EPUB and OpenDocument packages", async () => {
+    expect(await sniff(await zipOf([["mimetype", "application/epub+zip"], ["META-INF/container.xml", "<c/>"]]))).toBe(
+      "application/epub+zip"
+    );
+    expect(await sniff(await zipOf([["mimetype", "application/vnd.oasis.opendocument.text"]]))).toBe(
+      "application/vnd.oasis.opendocument.text"
+    );
+  });
+
+  it("identifies legacy Office files by their compound file streams", async () => {
+    const bytes = new Uint8Array(1024);
+    bytes.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+    bytes[30] = 9; // 512-byte sectors
+    // Directory starts at sector 0 (offset 48 stays 0), i.e. file offset 512.
+    const entry = (index: number, name: string) => {
+      const offset = 512 + index * 128;
+      for (let i = 0; i < name.length; i++) bytes[offset + i * 2] = name.charCodeAt(i);
+      bytes[offset + 64] = (name.length + 1) * 2;
+    };
+    entry(0, "Root Entry");
+    entry(1, "Workbook");
+    expect(await sniff(bytes)).toBe("application/vnd.ms-excel");
+  });
+
+  it("classifies text content", async () => {
+    expect(await sniff("{\\rtf1\\ansi Hello}")).toBe("application/rtf");
+    expect(await sniff('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg"></svg>')).toBe("image/svg+xml");
+    expect(await sniff("Received: from mx.example.com\r\nSubject: Hi\r\n\r\nBody")).toBe("message/rfc822");
+    expect(await sniff("name,qty\nbolts,4\n")).toBe("text/plain");
+    expect(await sniff([0x00, 0x01, 0x02, 0xff])).toBeUndefined();
+  });
+});
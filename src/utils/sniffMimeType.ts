@@ -0,0 +1,312 @@
+import type { RequestConfig } from "../types";
+import { requestFetch } from "./request";
+
+/** Random access to the bytes of a document; short reads are allowed at EOF or when the source can't seek. */
+export interface ByteSource {
+  read: (offset: number, length: number) => Promise<Uint8Array>;
+  /** Reads the last `length` bytes (or fewer). */
+  readTail: (length: number) => Promise<Uint8Array>;
+}
+
+/** Number of leading bytes read for signature checks. */
+export const SNIFF_HEAD_SIZE = 4096;
+/** End of Central Directory record plus the largest possible ZIP comment. */
+const ZIP_TAIL_SIZE = 22 + 0xffff;
+
+async function readBlobRange(blob: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+export function createBlobByteSource(blob: Blob): ByteSource {
+  return {
+    read: (offset, length) => readBlobRange(blob.slice(offset, offset + length)),
+    readTail: (length) => readBlobRange(blob.slice(Math.max(0, blob.size - length))),
+  };
+}
+
+/** Reads at most `limit` bytes from a response body, then cancels the rest of the download. */
+async function readLimited(res: Response, limit: number): Promise<Uint8Array> {
+  if (!res.body) return new Uint8Array(await res.arrayBuffer()).slice(0, limit);
+  const reader = res.body.getReader();
+  const out = new Uint8Array(limit);
+  let filled = 0;
+  while (filled < limit) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const take = Math.min(value.length, limit - filled);
+    out.set(value.subarray(0, take), filled);
+    filled += take;
+  }
+  reader.cancel().catch(() => undefined);
+  return out.subarray(0, filled);
+}
+
+/**
+ * Byte source backed by HTTP range requests. Servers that ignore Range only
+ * serve the head of the file (the body is cancelled after the bytes needed);
+ * other reads then come back empty.
+ */
+export function createUrlByteSource(url: string, signal?: AbortSignal, request?: RequestConfig): ByteSource {
+  const fetchRange = async (range: string, offset: number | null, length: number) => {
+    const res = await requestFetch(url, { headers: { Range: `bytes=${range}` }, signal }, request);
+    if (!res.ok) throw new Error("Failed to fetch document");
+    if (res.status === 206) return readLimited(res, length);
+    return offset === 0 ? readLimited(res, length) : new Uint8Array(0);
+  };
+  return {
+    read: (offset, length) => fetchRange(`${offset}-${offset + length - 1}`, offset, length),
+    readTail: (length) => fetchRange(`-${length}`, null, length),
+  };
+}
+
+function startsWith(bytes: Uint8Array, signature: (number | null)[], offset = 0): boolean {
+  if (bytes.length < offset + signature.length) return false;
+  return signature.every((b, i) => b === null || bytes[offset + i] === b);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, Math.min(end, bytes.length)));
+}
+
+const ODF_AND_EPUB_MIMETYPES = new Set([
+  "application/epub+zip",
+  "application/vnd.oasis.opendocument.text",
+  "application/vnd.oasis.opendocument.spreadsheet",
+  "application/vnd.oasis.opendocument.presentation",
+]);
+
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+const XLSM_MIME = "application/vnd.ms-excel.sheet.macroEnabled.12";
+const PPTX_MIME = "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+
+/** Content types of the main part of OOXML packages, as declared in [Content_Types].xml. */
+const OOXML_MAIN_PART_TYPES: Record<string, string> = {
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml": DOCX_MIME,
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.template.main+xml": DOCX_MIME,
+  "application/vnd.ms-word.document.macroenabled.main+xml": DOCX_MIME,
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml": XLSX_MIME,
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.template.main+xml": XLSX_MIME,
+  "application/vnd.ms-excel.sheet.macroenabled.main+xml": XLSM_MIME,
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml": PPTX_MIME,
+  "application/vnd.openxmlformats-officedocument.presentationml.slideshow.main+xml": PPTX_MIME,
+  "application/vnd.ms-powerpoint.presentation.macroenabled.main+xml": PPTX_MIME,
+};
+
+const CONTENT_TYPES_ENTRY = "[Content_Types].xml";
+/** Larger [Content_Types].xml entries outside the head aren't fetched. */
+const CONTENT_TYPES_MAX_SIZE = 256 * 1024;
+
+/** Compressed bytes of a ZIP entry and its compression method (0 stored, 8 deflate). */
+interface ZipEntryData {
+  method: number;
+  data: Uint8Array;
+}
+
+async function readZipEntryText({ method, data }: ZipEntryData): Promise<string | undefined> {
+  if (method === 0) return new TextDecoder("utf-8").decode(data);
+  if (method !== 8 || typeof DecompressionStream === "undefined") return undefined;
+  try {
+    const body = new Response(data.slice()).body!.pipeThrough(new DecompressionStream("deflate-raw"));
+    return await new Response(body).text();
+  } catch {
+    return undefined;
+  }
+}
+
+/** Classifies an OOXML package by the main part declared in its [Content_Types].xml. */
+async function classifyContentTypes(entry: ZipEntryData | undefined): Promise<string | undefined> {
+  const xml = entry && (await readZipEntryText(entry));
+  if (!xml) return undefined;
+  for (const match of xml.matchAll(/ContentType\s*=\s*"([^"]+)"/g)) {
+    const mime = OOXML_MAIN_PART_TYPES[match[1].toLowerCase()];
+    if (mime) return mime;
+  }
+  return undefined;
+}
+
+/** Classifies a ZIP package by its entry names (and a stored "mimetype" entry for ODF/EPUB). */
+function classifyZipEntries(names: string[], storedMimetype?: string): string | undefined {
+  if (storedMimetype && ODF_AND_EPUB_MIMETYPES.has(storedMimetype)) return storedMimetype;
+  if (names.some((n) => n.startsWith("word/"))) return DOCX_MIME;
+  if (names.some((n) => n.startsWith("xl/"))) {
+    return names.some((n) => n === "xl/vbaProject.bin") ? XLSM_MIME : XLSX_MIME;
+  }
+  if (names.some((n) => n.startsWith("ppt/"))) return PPTX_MIME;
+  return undefined;
+}
+
+/**
+ * Walks the local file headers found in `bytes`; the first entry of ODF/EPUB
+ * packages is a stored "mimetype", and OOXML packages usually start with
+ * [Content_Types].xml.
+ */
+function readLocalHeaders(bytes: Uint8Array): { names: string[]; storedMimetype?: string; contentTypes?: ZipEntryData } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const names: string[] = [];
+  let storedMimetype: string | undefined;
+  let contentTypes: ZipEntryData | undefined;
+  let offset = 0;
+  while (offset + 30 <= bytes.length && view.getUint32(offset, true) === 0x04034b50) {
+    const method = view.getUint16(offset + 8, true);
+    const compressedSize = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const extraLength = view.getUint16(offset + 28, true);
+    const name = ascii(bytes, offset + 30, offset + 30 + nameLength);
+    names.push(name);
+    const dataStart = offset + 30 + nameLength + extraLength;
+    // Sizes are deferred to a data descriptor when bit 3 is set; stop walking then.
+    const sizesDeferred = (view.getUint16(offset + 6, true) & 0x08) !== 0;
+    if (name === "mimetype" && method === 0) {
+      storedMimetype = ascii(bytes, dataStart, dataStart + compressedSize).trim();
+    }
+    if (name === CONTENT_TYPES_ENTRY && !sizesDeferred && dataStart + compressedSize <= bytes.length) {
+      contentTypes = { method, data: bytes.subarray(dataStart, dataStart + compressedSize) };
+    }
+    if (sizesDeferred) break;
+    offset = dataStart + compressedSize;
+  }
+  return { names, storedMimetype, contentTypes };
+}
+
+interface CentralDirectoryEntry {
+  name: string;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/** Collects entries from central directory headers in the archive tail. */
+function readCentralDirectory(tail: Uint8Array): CentralDirectoryEntry[] {
+  const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+  const entries: CentralDirectoryEntry[] = [];
+  for (let i = 0; i + 46 <= tail.length; i++) {
+    if (view.getUint32(i, true) !== 0x02014b50) continue;
+    const nameLength = view.getUint16(i + 28, true);
+    entries.push({
+      name: ascii(tail, i + 46, i + 46 + nameLength),
+      compressedSize: view.getUint32(i + 20, true),
+      localHeaderOffset: view.getUint32(i + 42, true),
+    });
+    i += 45 + nameLength;
+  }
+  return entries;
+}
+
+/** Reads [Content_Types].xml through its local header when the sniffed head didn't include it. */
+async function readContentTypesEntry(
+  entries: CentralDirectoryEntry[],
+  source: ByteSource
+): Promise<ZipEntryData | undefined> {
+  const entry = entries.find((e) => e.name === CONTENT_TYPES_ENTRY);
+  if (!entry || entry.compressedSize > CONTENT_TYPES_MAX_SIZE) return undefined;
+  // The local extra field is usually short; 1 KB of slack covers it.
+  const bytes = await source.read(entry.localHeaderOffset, 30 + entry.name.length + 1024 + entry.compressedSize);
+  return readLocalHeaders(bytes).contentTypes;
+}
+
+const CFB_STREAM_MIME_TYPES: [RegExp, string][] = [
+  [/^WordDocument$/, "application/msword"],
+  [/^(Workbook|Book)$/, "application/vnd.ms-excel"],
+  [/^PowerPoint Document$/, "application/vnd.ms-powerpoint"],
+  [/^__(substg1\.0_|properties_version1\.0)/, "application/vnd.ms-outlook"],
+];
+
+/**
+ * Identifies legacy Office / Outlook files from the stream names in the
+ * first directory sectors of a Compound File Binary container.
+ */
+async function sniffCompoundFile(head: Uint8Array, source: ByteSource): Promise<string | undefined> {
+  const view = new DataView(head.buffer, head.byteOffset, head.byteLength);
+  const sectorSize = 1 << view.getUint16(30, true);
+  const firstDirSector = view.getUint32(48, true);
+  const dir = await source.read((firstDirSector + 1) * sectorSize, Math.max(sectorSize, 4096));
+  for (let offset = 0; offset + 128 <= dir.length; offset += 128) {
+    const nameBytes = Math.min(dir[offset + 64] | (dir[offset + 65] << 8), 64);
+    if (nameBytes < 2) continue;
+    const name = new TextDecoder("utf-16le").decode(dir.subarray(offset, offset + nameBytes - 2));
+    const match = CFB_STREAM_MIME_TYPES.find(([pattern]) => pattern.test(name));
+    if (match) return match[1];
+  }
+  return undefined;
+}
+
+const EMAIL_HEADER = /^(Received|Return-Path|From|To|Subject|Date|Message-ID|MIME-Version|Delivered-To|X-[\w-]+):/im;
+
+/** Text formats told apart by their opening characters; plain UTF-8 text otherwise. */
+function sniffText(head: Uint8Array): string | undefined {
+  if (head.includes(0)) return undefined;
+  let text: string;
+  try {
+    // stream: true tolerates a multi-byte sequence cut off at the end of the sample.
+    text = new TextDecoder("utf-8", { fatal: true }).decode(head, { stream: true });
+  } catch {
+    return undefined;
+  }
+  const trimmed = text.replace(/^\uFEFF/, "").trimStart();
+  if (trimmed.startsWith("{\\rtf")) return "application/rtf";
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(trimmed)) return "image/svg+xml";
+  if (EMAIL_HEADER.test(trimmed.split(/\r?\n/, 1)[0] ?? "") && /\r?\n\r?\n/.test(trimmed)) return "message/rfc822";
+  return "text/plain";
+}
+
+/**
+ * Detects a MIME type from the content of a document: signatures for PDF,
+ * images, audio/video and RTF; ZIP packages (DOCX/XLSX/PPTX, ODF, EPUB) by
+ * their entry names; legacy Office by CFB stream names; and plain text.
+ * Pass `head` when the leading bytes were already read.
+ */
+export async function sniffMimeType(
+  source: ByteSource,
+  head?: Uint8Array
+): Promise<string | undefined> {
+  head ??= await source.read(0, SNIFF_HEAD_SIZE);
+  if (head.length === 0) return undefined;
+
+  if (ascii(head, 0, 1024).includes("%PDF-")) return "application/pdf";
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (/^GIF8[79]a/.test(ascii(head, 0, 6))) return "image/gif";
+  if (startsWith(head, [0x49, 0x49, 0x2a, 0x00]) || startsWith(head, [0x4d, 0x4d, 0x00, 0x2a])) return "image/tiff";
+  if (ascii(head, 0, 4) === "RIFF") {
+    const format = ascii(head, 8, 12);
+    if (format === "WEBP") return "image/webp";
+    if (format === "WAVE") return "audio/wav";
+  }
+  if (ascii(head, 0, 2) === "BM" && startsWith(head, [0, 0, 0, 0], 6)) return "image/bmp";
+  if (ascii(head, 4, 8) === "ftyp") {
+    const brand = ascii(head, 8, 12);
+    if (/^(heic|heix|mif1|avif)$/.test(brand)) return undefined;
+    if (brand === "M4A ") return "audio/mp4";
+    if (brand === "qt  ") return "video/quicktime";
+    return "video/mp4";
+  }
+  if (startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])) return "video/webm";
+  if (ascii(head, 0, 4) === "OggS") return "audio/ogg";
+  if (ascii(head, 0, 4) === "fLaC") return "audio/flac";
+  if (ascii(head, 0, 3) === "ID3" || startsWith(head, [0xff, 0xfb]) || startsWith(head, [0xff, 0xf3])) return "audio/mpeg";
+
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04]) || startsWith(head, [0x50, 0x4b, 0x05, 0x06])) {
+    // The declared main part decides between DOCX, XLSX and PPTX; entry name prefixes are the fallback.
+    const local = readLocalHeaders(head);
+    if (local.storedMimetype && ODF_AND_EPUB_MIMETYPES.has(local.storedMimetype)) return local.storedMimetype;
+    const declared = await classifyContentTypes(local.contentTypes);
+    if (declared) return declared;
+    const tail = await source.readTail(ZIP_TAIL_SIZE);
+    const entries = readCentralDirectory(tail);
+    if (!local.contentTypes) {
+      const declaredInTail = await classifyContentTypes(await readContentTypesEntry(entries, source));
+      if (declaredInTail) return declaredInTail;
+    }
+    return (
+      classifyZipEntries(local.names) ??
+      classifyZipEntries(entries.map((e) => e.name)) ??
+      "application/zip"
+    );
+  }
+
+  if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]) && head.length >= 512) {
+    return sniffCompoundFile(head, source);
+  }
+
+  return sniffText(head);
+}
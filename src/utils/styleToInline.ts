@@ -0,0 +1,19 @@
+import type React from "react";
+
+const NON_PX_PROPERTIES = new Set(["opacity", "zIndex", "fontWeight", "lineHeight"]);
+
+/** Serializes React style props to an inline `style` attribute value (numbers become px). */
+export function styleToInline(style?: React.CSSProperties): string {
+  if (!style) return "";
+  return Object.entries(style)
+    .map(([key, value]) => {
+      if (value == null) return "";
+      const cssKey = key.replace(/[A-Z]/g, (m) => `-${m.toLowerCase()}`);
+      if (typeof value === "number" && !NON_PX_PROPERTIES.has(key)) {
+        return `${cssKey}:${value}px`;
+      }
+      return `${cssKey}:${String(value)}`;
+    })
+    .filter(Boolean)
+    .join(";");
+}
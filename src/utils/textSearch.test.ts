@@ -0,0 +1,10 @@
+import { describe, it, expect } from "vitest";
+import { findTextMatches } from "./textSearch";
+
+describe("findTextMatches", () => {
+  it("finds case-insensitive matches in text nodes", () => {
+    const doc = new DOMParser().parseFromString("<p>Helmet checks: <b>helmet</b>, HELMET.</p>", "text/html");
+    expect(findTextMatches(doc.body, "helmet")).toHaveLength(3);
+    expect(findTextMatches(doc.body, "  ")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,15 @@
+/** Text-node matches for a case-insensitive query, in document order. */
+export function findTextMatches(root: Node, query: string): { node: Text; start: number }[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const matches: { node: Text; start: number }[] = [];
+  const doc = root.ownerDocument ?? (root as Document);
+  const walker = doc.createTreeWalker(root, 4 /* NodeFilter.SHOW_TEXT */);
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    const haystack = (node.nodeValue ?? "").toLowerCase();
+    for (let i = haystack.indexOf(needle); i !== -1; i = haystack.indexOf(needle, i + needle.length)) {
+      matches.push({ node, start: i });
+    }
+  }
+  return matches;
+}
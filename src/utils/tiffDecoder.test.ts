@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import * as UTIF from "utif";
+import { openTiff } from "./tiffDecoder";
+
+function encodeSolidTiff(width: number, height: number, rgba: [number, number, number, number]): ArrayBuffer {
+  const pixels = new Uint8Array(width * height * 4);
+  for (let i = 0; i < pixels.length; i += 4) pixels.set(rgba, i);
+  return UTIF.encodeImage(pixels, width, height);
+}
+
+describe("openTiff", () => {
+  it("reads page dimensions without decoding", () => {
+    const doc = openTiff(encodeSolidTiff(4, 3, [255, 0, 0, 255]));
+    expect(doc.pages).toEqual([{ width: 4, height: 3 }]);
+  });
+
+  it("decodes a page to RGBA", () => {
+    const doc = openTiff(encodeSolidTiff(2, 2, [10, 20, 30, 255]));
+    const page = doc.decodePage(0);
+    expect(page.width).toBe(2);
+    expect(page.height).toBe(2);
+    expect(Array.from(page.rgba.slice(0, 4))).toEqual([10, 20, 30, 255]);
+  });
+
+  it("rejects out-of-range pages and non-TIFF data", () => {
+    const doc = openTiff(encodeSolidTiff(1, 1, [0, 0, 0, 255]));
+    expect(() => doc.decodePage(3)).toThrow("TIFF page 4 does not exist");
+    expect(() => openTiff(new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]).buffer)).toThrow();
+  });
+});
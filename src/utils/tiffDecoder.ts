@@ -0,0 +1,57 @@
+import * as UTIF from "utif";
+
+export interface TiffPageInfo {
+  width: number;
+  height: number;
+}
+
+export interface DecodedTiffPage extends TiffPageInfo {
+  /** RGBA pixels, 8 bits per channel (ready for ImageData). */
+  rgba: Uint8ClampedArray;
+}
+
+export interface TiffDocument {
+  pages: TiffPageInfo[];
+  decodePage: (index: number) => DecodedTiffPage;
+}
+
+function tagNumber(ifd: UTIF.IFD, tag: string): number | undefined {
+  const value = ifd[tag];
+  if (Array.isArray(value) && typeof value[0] === "number") return value[0];
+  return undefined;
+}
+
+/**
+ * Parses the image file directories of a (multi-page) TIFF without decoding pixels.
+ * Reduced-resolution previews (NewSubfileType bit 0) are skipped so that each
+ * remaining directory maps to one page. Supports the compressions handled by
+ * UTIF (CCITT G3/G4, LZW, PackBits, Deflate, JPEG).
+ */
+export function openTiff(buffer: ArrayBuffer): TiffDocument {
+  const all = UTIF.decode(buffer).filter(
+    (ifd) => tagNumber(ifd, "t256") != null && tagNumber(ifd, "t257") != null
+  );
+  const fullResolution = all.filter((ifd) => ((tagNumber(ifd, "t254") ?? 0) & 1) === 0);
+  const ifds = fullResolution.length > 0 ? fullResolution : all;
+  if (ifds.length === 0) throw new Error("No images found in TIFF file");
+
+  return {
+    pages: ifds.map((ifd) => ({
+      width: tagNumber(ifd, "t256") ?? 0,
+      height: tagNumber(ifd, "t257") ?? 0,
+    })),
+    decodePage(index) {
+      const ifd = ifds[index];
+      if (!ifd) throw new Error(`TIFF page ${index + 1} does not exist`);
+      UTIF.decodeImage(buffer, ifd);
+      const rgba = UTIF.toRGBA8(ifd);
+      // Free the decoded raster kept on the IFD; only the RGBA copy is returned.
+      ifd.data = new Uint8Array(0);
+      return {
+        width: ifd.width,
+        height: ifd.height,
+        rgba: new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength),
+      };
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { openTiff } from "./tiffDecoder";
+import type { DecodedTiffPage, TiffPageInfo } from "./tiffDecoder";
+
+/** Page-level TIFF decoder; pages are decoded on demand. */
+export interface TiffDecoder {
+  pages: TiffPageInfo[];
+  decodePage: (index: number) => Promise<DecodedTiffPage>;
+  dispose: () => void;
+}
+
+type WorkerMessage =
+  | { type: "opened"; pages: TiffPageInfo[] }
+  | { type: "page"; id: number; page: DecodedTiffPage }
+  | { type: "error"; id?: number; message: string };
+
+function openOnMainThread(buffer: ArrayBuffer): TiffDecoder {
+  const doc = openTiff(buffer);
+  return {
+    pages: doc.pages,
+    decodePage: (index) =>
+      new Promise((resolve, reject) => {
+        // Yield between pages so the UI stays responsive while decoding.
+        setTimeout(() => {
+          try {
+            resolve(doc.decodePage(index));
+          } catch (e) {
+            reject(e);
+          }
+        }, 0);
+      }),
+    dispose: () => {},
+  };
+}
+
+function openInWorker(buffer: ArrayBuffer, workerSrc: string): Promise<TiffDecoder> {
+  return new Promise((resolve, reject) => {
+    let worker: Worker;
+    try {
+      worker = new Worker(workerSrc);
+    } catch (e) {
+      reject(e);
+      return;
+    }
+    const pending = new Map<number, { resolve: (page: DecodedTiffPage) => void; reject: (err: Error) => void }>();
+    let nextId = 1;
+    let opened = false;
+
+    worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "opened") {
+        opened = true;
+        resolve({
+          pages: message.pages,
+          decodePage: (index) =>
+            new Promise((resolvePage, rejectPage) => {
+              const id = nextId++;
+              pending.set(id, { resolve: resolvePage, reject: rejectPage });
+              worker.postMessage({ type: "decode", id, index });
+            }),
+          dispose: () => {
+            worker.terminate();
+            pending.forEach((p) => p.reject(new Error("TIFF decoder disposed")));
+            pending.clear();
+          },
+        });
+        return;
+      }
+      if (message.type === "page") {
+        pending.get(message.id)?.resolve(message.page);
+        pending.delete(message.id);
+        return;
+      }
+      if (message.id == null) {
+        worker.terminate();
+        reject(new Error(message.message));
+        return;
+      }
+      pending.get(message.id)?.reject(new Error(message.message));
+      pending.delete(message.id);
+    };
+
+    worker.onerror = (event) => {
+      event.preventDefault();
+      const err = new Error(event.message || "TIFF worker failed");
+      if (!opened) {
+        worker.terminate();
+        reject(err);
+        return;
+      }
+      pending.forEach((p) => p.reject(err));
+      pending.clear();
+    };
+
+    // Not transferred: the main thread keeps its copy for the fallback path.
+    worker.postMessage({ type: "open", buffer });
+  });
+}
+
+/**
+ * Opens a TIFF in the decoding worker at workerSrc. When workers are unavailable
+ * or the worker script cannot be loaded, decodes on the main thread instead.
+ */
+export async function createTiffDecoder(buffer: ArrayBuffer, workerSrc?: string): Promise<TiffDecoder> {
+  if (typeof Worker !== "undefined" && workerSrc) {
+    try {
+      return await openInWorker(buffer, workerSrc);
+    } catch {
+      // Fall through to main-thread decoding.
+    }
+  }
+  return openOnMainThread(buffer);
+}
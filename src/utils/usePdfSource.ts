@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from "react";
+import type { RequestConfig, RequestHeaders } from "../types";
+import { isRemoteUrl, requestFetch, resolveRequestHeaders } from "./request";
+
+export interface PdfSource {
+  /** What to pass to <Document file>; null while headers or the document are being fetched. */
+  file: string | Blob | null;
+  httpHeaders?: RequestHeaders;
+  withCredentials?: boolean;
+  error: string | null;
+}
+
+/** Changes only when the request configuration would load the document differently. */
+function requestKey(request: RequestConfig | undefined): string {
+  if (!request) return "";
+  const headers = typeof request.headers === "function" ? "function" : JSON.stringify(request.headers ?? {});
+  return `${headers}|${request.withCredentials ? 1 : 0}|${request.fetch ? 1 : 0}`;
+}
+
+/**
+ * Applies the request configuration to a PDF URL. pdf.js sends the headers and
+ * credentials itself (keeping range requests and streaming); with a custom
+ * fetch, which pdf.js can't call, the document is downloaded up front instead.
+ * A headers function is called once per load.
+ */
+export function usePdfSource(src: string, request: RequestConfig | undefined): PdfSource {
+  const applies = request != null && isRemoteUrl(src);
+  const key = applies ? requestKey(request) : "";
+  const requestRef = useRef(request);
+  requestRef.current = request;
+  const [resolved, setResolved] = useState<{ for: string; source: PdfSource } | null>(null);
+  const resolvedFor = `${src}\n${key}`;
+
+  useEffect(() => {
+    if (!applies) return;
+    let cancelled = false;
+    const config = requestRef.current;
+    const load = async (): Promise<PdfSource> => {
+      if (config?.fetch) {
+        const res = await requestFetch(src, undefined, config);
+        if (!res.ok) throw new Error("Failed to fetch document");
+        return { file: await res.blob(), error: null };
+      }
+      return {
+        file: src,
+        httpHeaders: await resolveRequestHeaders(config),
+        withCredentials: config?.withCredentials ?? false,
+        error: null,
+      };
+    };
+    load()
+      .catch((e): PdfSource => ({ file: null, error: e instanceof Error ? e.message : "Failed to fetch document" }))
+      .then((source) => {
+        if (!cancelled) setResolved({ for: resolvedFor, source });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [applies, src, resolvedFor]);
+
+  if (!applies) return { file: src, error: null };
+  return resolved?.for === resolvedFor ? resolved.source : { file: null, error: null };
+}
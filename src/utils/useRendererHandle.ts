@@ -0,0 +1,19 @@
+import { useEffect } from "react";
+import type { RendererHandle, RendererProps } from "../types";
+
+/**
+ * Reports a renderer's handle to DocumentViewer after every render, so the
+ * viewer always calls the latest closures, and clears it on unmount.
+ */
+export function useRendererHandle(
+  onRendererHandle: RendererProps["onRendererHandle"],
+  handle: RendererHandle
+): void {
+  useEffect(() => {
+    onRendererHandle?.(handle);
+  });
+  useEffect(() => {
+    if (!onRendererHandle) return;
+    return () => onRendererHandle(null);
+  }, [onRendererHandle]);
+}
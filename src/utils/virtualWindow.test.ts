@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { buildOffsets, findIndexAtOffset, getVisibleRange } from "./virtualWindow";
+
+describe("virtualWindow", () => {
+  const offsets = buildOffsets(5, (i) => (i === 2 ? 50 : 10));
+
+  it("builds cumulative offsets", () => {
+    expect(offsets).toEqual([0, 10, 20, 70, 80, 90]);
+  });
+
+  it("finds the item at an offset", () => {
+    expect(findIndexAtOffset(offsets, 0)).toBe(0);
+    expect(findIndexAtOffset(offsets, 25)).toBe(2);
+    expect(findIndexAtOffset(offsets, 70)).toBe(3);
+    expect(findIndexAtOffset(offsets, 500)).toBe(4);
+  });
+
+  it("returns the visible range with overscan", () => {
+    expect(getVisibleRange(offsets, 15, 30)).toEqual({ start: 1, end: 3 });
+    expect(getVisibleRange(offsets, 15, 30, 1)).toEqual({ start: 0, end: 4 });
+    expect(getVisibleRange(offsets, 0, 20)).toEqual({ start: 0, end: 2 });
+  });
+
+  it("windows pages of mixed sizes", () => {
+    // Portrait pages with a landscape spread at index 2, each followed by a 12px gap.
+    const heights = [1123, 1123, 561, 1123];
+    const pages = buildOffsets(heights.length, (i) => heights[i] + 12);
+    expect(pages).toEqual([0, 1135, 2270, 2843, 3978]);
+    expect(getVisibleRange(pages, 2300, 2800)).toEqual({ start: 2, end: 3 });
+    expect(getVisibleRange(pages, 2000, 3000)).toEqual({ start: 1, end: 4 });
+    expect(getVisibleRange(pages, 2843, 3500, 2)).toEqual({ start: 1, end: 4 });
+  });
+
+  it("handles empty lists", () => {
+    expect(getVisibleRange(buildOffsets(0, () => 10), 0, 100)).toEqual({ start: 0, end: 0 });
+  });
+});
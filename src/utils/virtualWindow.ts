@@ -0,0 +1,50 @@
+/**
+ * Helpers for windowed (virtualized) rendering of long lists of rows, columns or pages.
+ * Items are described by cumulative offsets: offsets[i] is the start of item i and
+ * offsets[count] is the total size.
+ */
+
+/** Builds cumulative offsets for `count` items whose sizes are given by getSize. */
+export function buildOffsets(count: number, getSize: (index: number) => number): number[] {
+  const offsets = new Array<number>(count + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < count; i += 1) {
+    offsets[i + 1] = offsets[i] + getSize(i);
+  }
+  return offsets;
+}
+
+/** Returns the index of the item containing `position` (clamped to the valid range). */
+export function findIndexAtOffset(offsets: number[], position: number): number {
+  const count = offsets.length - 1;
+  if (count <= 0) return 0;
+  let low = 0;
+  let high = count - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+}
+
+/**
+ * Returns the half-open index range [start, end) of items intersecting the viewport
+ * [viewportStart, viewportEnd), extended by `overscan` items on each side.
+ */
+export function getVisibleRange(
+  offsets: number[],
+  viewportStart: number,
+  viewportEnd: number,
+  overscan = 0
+): { start: number; end: number } {
+  const count = offsets.length - 1;
+  if (count <= 0) return { start: 0, end: 0 };
+  const first = findIndexAtOffset(offsets, viewportStart);
+  let last = findIndexAtOffset(offsets, Math.max(viewportStart, viewportEnd - 1));
+  if (offsets[last] >= viewportEnd && last > first) last -= 1;
+  return {
+    start: Math.max(0, first - overscan),
+    end: Math.min(count, last + 1 + overscan),
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * TIFF decoding worker. Built as a standalone script (dist/tiff.worker.js) and
+ * driven by utils/tiffWorkerClient:
+ * - { type: "open", buffer } → { type: "opened", pages } | { type: "error", message }
+ * - { type: "decode", id, index } → { type: "page", id, page } | { type: "error", id, message }
+ */
+import { openTiff } from "../utils/tiffDecoder";
+import type { TiffDocument } from "../utils/tiffDecoder";
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent) => void) | null;
+  postMessage: (message: unknown, transfer?: Transferable[]) => void;
+}
+
+const scope = self as unknown as WorkerScope;
+let doc: TiffDocument | null = null;
+
+scope.onmessage = (event) => {
+  const data = event.data as
+    | { type: "open"; buffer: ArrayBuffer }
+    | { type: "decode"; id: number; index: number };
+  try {
+    if (data.type === "open") {
+      doc = openTiff(data.buffer);
+      scope.postMessage({ type: "opened", pages: doc.pages });
+      return;
+    }
+    if (!doc) throw new Error("TIFF document is not open");
+    const page = doc.decodePage(data.index);
+    scope.postMessage({ type: "page", id: data.id, page }, [page.rgba.buffer]);
+  } catch (e) {
+    scope.postMessage({
+      type: "error",
+      id: data.type === "decode" ? data.id : undefined,
+      message: e instanceof Error ? e.message : "Failed to decode TIFF",
+    });
+  }
+};
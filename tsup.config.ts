@@ -1,14 +1,24 @@
 import { defineConfig } from "tsup";
 
-export default defineConfig({
-  entry: ["src/index.ts"],
-  format: ["cjs", "esm"],
-  dts: true,
-  splitting: false,
-  sourcemap: true,
-  clean: true,
-  external: ["react", "react-dom"],
-  esbuildOptions(options) {
-    options.jsx = "automatic";
+export default defineConfig([
+  {
+    entry: ["src/index.ts"],
+    format: ["cjs", "esm"],
+    dts: true,
+    splitting: false,
+    sourcemap: true,
+    clean: true,
+    external: ["react", "react-dom"],
+    esbuildOptions(options) {
+      options.jsx = "automatic";
+    },
   },
-});
+  {
+    // Standalone TIFF decoding worker; serve it next to pdf.worker.js.
+    entry: { "tiff.worker": "src/workers/tiffWorker.ts" },
+    format: ["iife"],
+    platform: "browser",
+    sourcemap: true,
+    outExtension: () => ({ js: ".js" }),
+  },
+]);